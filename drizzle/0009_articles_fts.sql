@@ -0,0 +1,33 @@
+-- Full-text search index over article metadata, plain text content and summaries.
+-- Metadata columns are kept in sync by triggers, content and summary are written by the app.
+CREATE VIRTUAL TABLE `articles_fts` USING fts5(
+	`article_id` UNINDEXED,
+	`user_id` UNINDEXED,
+	`title`,
+	`description`,
+	`site_name`,
+	`content`,
+	`summary`,
+	tokenize = 'unicode61 remove_diacritics 2'
+);
+--> statement-breakpoint
+INSERT INTO `articles_fts` (`article_id`, `user_id`, `title`, `description`, `site_name`, `summary`)
+SELECT `articles`.`id`, `articles`.`user_id`, `articles`.`title`, `articles`.`description`, `articles`.`site_name`,
+	`article_summaries`.`one_sentence` || ' ' || `article_summaries`.`one_paragraph` || ' ' || `article_summaries`.`long`
+FROM `articles`
+LEFT JOIN `article_summaries` ON `article_summaries`.`article_id` = `articles`.`id`;
+--> statement-breakpoint
+CREATE TRIGGER `articles_fts_after_insert` AFTER INSERT ON `articles` BEGIN
+	INSERT INTO `articles_fts` (`article_id`, `user_id`, `title`, `description`, `site_name`)
+	VALUES (new.`id`, new.`user_id`, new.`title`, new.`description`, new.`site_name`);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `articles_fts_after_update` AFTER UPDATE OF `title`, `description`, `site_name` ON `articles` BEGIN
+	UPDATE `articles_fts`
+	SET `title` = new.`title`, `description` = new.`description`, `site_name` = new.`site_name`
+	WHERE `article_id` = new.`id`;
+END;
+--> statement-breakpoint
+CREATE TRIGGER `articles_fts_after_delete` AFTER DELETE ON `articles` BEGIN
+	DELETE FROM `articles_fts` WHERE `article_id` = old.`id`;
+END;
@@ -0,0 +1,10 @@
+CREATE TABLE `article_questions` (
+	`id` text PRIMARY KEY NOT NULL,
+	`article_id` text NOT NULL,
+	`question` text NOT NULL,
+	`answer` text,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`article_id`) REFERENCES `articles`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `article_questions_article_id_idx` ON `article_questions` (`article_id`);
\ No newline at end of file
@@ -0,0 +1,7 @@
+CREATE TABLE `article_embeddings` (
+	`article_id` text PRIMARY KEY NOT NULL,
+	`model` text NOT NULL,
+	`vector` blob NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`article_id`) REFERENCES `articles`(`id`) ON UPDATE no action ON DELETE cascade
+);
@@ -0,0 +1,2 @@
+ALTER TABLE `articles` ADD `canonical_url` text;--> statement-breakpoint
+CREATE UNIQUE INDEX `articles_user_id_canonical_url_idx` ON `articles` (`user_id`,`canonical_url`);
\ No newline at end of file
@@ -0,0 +1,9 @@
+CREATE TABLE `article_imports` (
+	`article_id` text PRIMARY KEY NOT NULL,
+	`source` text NOT NULL,
+	`queued_at` integer,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`article_id`) REFERENCES `articles`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `article_imports_queued_at_idx` ON `article_imports` (`queued_at`);
\ No newline at end of file
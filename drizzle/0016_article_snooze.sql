@@ -0,0 +1 @@
+ALTER TABLE `articles` ADD `snoozed_until` integer;
\ No newline at end of file
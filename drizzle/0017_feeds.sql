@@ -0,0 +1,28 @@
+CREATE TABLE `feed_entries` (
+	`feed_id` text NOT NULL,
+	`entry_id` text NOT NULL,
+	`article_id` text,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`feed_id`) REFERENCES `feeds`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`article_id`) REFERENCES `articles`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `feed_entries_feed_id_entry_id_idx` ON `feed_entries` (`feed_id`,`entry_id`);--> statement-breakpoint
+CREATE TABLE `feeds` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`url` text NOT NULL,
+	`title` text NOT NULL,
+	`site_url` text,
+	`include_keywords` text DEFAULT '' NOT NULL,
+	`exclude_keywords` text DEFAULT '' NOT NULL,
+	`etag` text,
+	`last_modified` text,
+	`last_fetched_at` integer,
+	`last_error` text,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `feeds_user_id_url_idx` ON `feeds` (`user_id`,`url`);--> statement-breakpoint
+CREATE INDEX `feeds_last_fetched_at_idx` ON `feeds` (`last_fetched_at`);
\ No newline at end of file
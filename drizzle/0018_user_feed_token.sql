@@ -0,0 +1,2 @@
+ALTER TABLE `users` ADD `feed_token` text;--> statement-breakpoint
+CREATE UNIQUE INDEX `users_feed_token_idx` ON `users` (`feed_token`);
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `users` ADD `inbound_email_token` text;--> statement-breakpoint
+CREATE UNIQUE INDEX `users_inbound_email_token_idx` ON `users` (`inbound_email_token`);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `articles` ADD `page_count` integer;
\ No newline at end of file
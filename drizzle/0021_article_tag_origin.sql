@@ -0,0 +1,2 @@
+ALTER TABLE `article_tags` ADD `auto_generated` integer DEFAULT false NOT NULL;--> statement-breakpoint
+UPDATE `article_tags` SET `auto_generated` = true WHERE `tag_id` IN (SELECT `id` FROM `tags` WHERE `auto_generated` = true);
@@ -0,0 +1,42 @@
+-- Index rows share the rowid of their article, so updates and deletes find them by rowid instead of scanning.
+DROP TRIGGER `articles_fts_after_insert`;
+--> statement-breakpoint
+DROP TRIGGER `articles_fts_after_update`;
+--> statement-breakpoint
+DROP TRIGGER `articles_fts_after_delete`;
+--> statement-breakpoint
+CREATE VIRTUAL TABLE `articles_fts_new` USING fts5(
+	`article_id` UNINDEXED,
+	`user_id` UNINDEXED,
+	`title`,
+	`description`,
+	`site_name`,
+	`content`,
+	`summary`,
+	tokenize = 'unicode61 remove_diacritics 2'
+);
+--> statement-breakpoint
+INSERT INTO `articles_fts_new` (`rowid`, `article_id`, `user_id`, `title`, `description`, `site_name`, `content`, `summary`)
+SELECT `articles`.`rowid`, `articles_fts`.`article_id`, `articles_fts`.`user_id`, `articles_fts`.`title`,
+	`articles_fts`.`description`, `articles_fts`.`site_name`, `articles_fts`.`content`, `articles_fts`.`summary`
+FROM `articles_fts`
+JOIN `articles` ON `articles`.`id` = `articles_fts`.`article_id`;
+--> statement-breakpoint
+DROP TABLE `articles_fts`;
+--> statement-breakpoint
+ALTER TABLE `articles_fts_new` RENAME TO `articles_fts`;
+--> statement-breakpoint
+CREATE TRIGGER `articles_fts_after_insert` AFTER INSERT ON `articles` BEGIN
+	INSERT INTO `articles_fts` (`rowid`, `article_id`, `user_id`, `title`, `description`, `site_name`)
+	VALUES (new.`rowid`, new.`id`, new.`user_id`, new.`title`, new.`description`, new.`site_name`);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `articles_fts_after_update` AFTER UPDATE OF `title`, `description`, `site_name` ON `articles` BEGIN
+	UPDATE `articles_fts`
+	SET `title` = new.`title`, `description` = new.`description`, `site_name` = new.`site_name`
+	WHERE `rowid` = new.`rowid`;
+END;
+--> statement-breakpoint
+CREATE TRIGGER `articles_fts_after_delete` AFTER DELETE ON `articles` BEGIN
+	DELETE FROM `articles_fts` WHERE `rowid` = old.`rowid`;
+END;
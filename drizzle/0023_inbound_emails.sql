@@ -0,0 +1,10 @@
+CREATE TABLE `inbound_emails` (
+	`user_id` text NOT NULL,
+	`message_id` text NOT NULL,
+	`article_id` text NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`article_id`) REFERENCES `articles`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `inbound_emails_user_id_message_id_idx` ON `inbound_emails` (`user_id`,`message_id`);
\ No newline at end of file
@@ -0,0 +1,122 @@
+#!/usr/bin/env bun
+
+/**
+ * Backfill canonical URLs for existing articles
+ *
+ * New articles get a canonical URL when they're saved, which makes saving the
+ * same link again reuse the article. This script sets it on articles saved
+ * before, oldest first. Links saved more than once keep the canonical URL on
+ * the oldest article only, the duplicates are logged to be cleaned up by hand.
+ * Long Telegram messages, saved with the app or channel link, are skipped.
+ *
+ * Usage: bun run ops/backfill-canonical-urls.ts
+ */
+
+import { asc, eq, isNull } from "drizzle-orm";
+import { articles } from "../src/db/schema";
+import { canonicalizeUrl } from "../src/lib/canonical-url";
+import { db } from "../src/lib/db";
+import { defaultLogger } from "../src/lib/logger";
+
+const logger = defaultLogger.child({ module: "backfill-canonical-urls" });
+
+interface Stats {
+  total: number;
+  processed: number;
+  skipped: number;
+  duplicates: number;
+}
+
+/**
+ * Links long messages are saved with, shared by many articles
+ */
+function isMessageLink(url: string): boolean {
+  return (
+    url === "https://lateread.app" || /^https:\/\/t\.me\/[^/]+\/?$/.test(url)
+  );
+}
+
+async function backfillCanonicalUrls() {
+  logger.info("Starting canonical URL backfill");
+
+  const stats: Stats = {
+    total: 0,
+    processed: 0,
+    skipped: 0,
+    duplicates: 0,
+  };
+
+  try {
+    const articlesToProcess = await db
+      .select({
+        id: articles.id,
+        userId: articles.userId,
+        url: articles.url,
+      })
+      .from(articles)
+      .where(isNull(articles.canonicalUrl))
+      .orderBy(asc(articles.createdAt));
+
+    stats.total = articlesToProcess.length;
+    logger.info("Found articles to process", { count: stats.total });
+
+    if (stats.total === 0) {
+      logger.info("No articles to backfill");
+      return;
+    }
+
+    // Canonical URLs taken per user, including ones set before this run
+    const taken = new Set(
+      (
+        await db
+          .select({ userId: articles.userId, url: articles.canonicalUrl })
+          .from(articles)
+      )
+        .filter((row) => row.url)
+        .map((row) => `${row.userId} ${row.url}`),
+    );
+
+    for (const article of articlesToProcess) {
+      if (isMessageLink(article.url)) {
+        stats.skipped++;
+        continue;
+      }
+
+      const canonicalUrl = canonicalizeUrl(article.url);
+      const key = `${article.userId} ${canonicalUrl}`;
+
+      if (taken.has(key)) {
+        logger.warn("Duplicate article, skipping", {
+          articleId: article.id,
+          userId: article.userId,
+          canonicalUrl,
+        });
+        stats.duplicates++;
+        continue;
+      }
+
+      await db
+        .update(articles)
+        .set({ canonicalUrl })
+        .where(eq(articles.id, article.id));
+      taken.add(key);
+
+      stats.processed++;
+    }
+
+    logger.info("Backfill completed", {
+      total: stats.total,
+      processed: stats.processed,
+      skipped: stats.skipped,
+      duplicates: stats.duplicates,
+    });
+  } catch (error) {
+    logger.error("Backfill failed", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    process.exit(1);
+  }
+}
+
+// Run the backfill
+backfillCanonicalUrls();
@@ -0,0 +1,138 @@
+#!/usr/bin/env bun
+
+/**
+ * Backfill embeddings for existing articles
+ *
+ * New articles are embedded by the worker. This script embeds every
+ * completed article without a vector of the configured model: articles
+ * saved before embeddings existed, failed embeddings, and all articles
+ * after switching EMBEDDING_PROVIDER or EMBEDDING_MODEL.
+ *
+ * Usage: bun run ops/backfill-embeddings.ts
+ */
+
+import { and, eq, isNull, ne, or } from "drizzle-orm";
+import { articleEmbeddings, articles } from "../src/db/schema";
+import { contentCache } from "../src/lib/content-cache";
+import { db } from "../src/lib/db";
+import { getEmbeddingProvider } from "../src/lib/embeddings";
+import { defaultLogger } from "../src/lib/logger";
+import { htmlToPlainText } from "../src/lib/tts";
+import {
+  embedArticle,
+  getEmbeddingText,
+} from "../src/services/embeddings.service";
+
+const logger = defaultLogger.child({ module: "backfill-embeddings" });
+
+interface Stats {
+  total: number;
+  processed: number;
+  skipped: number;
+  failed: number;
+}
+
+async function backfillEmbeddings() {
+  const { model } = getEmbeddingProvider();
+  logger.info("Starting embeddings backfill", { model });
+
+  const stats: Stats = {
+    total: 0,
+    processed: 0,
+    skipped: 0,
+    failed: 0,
+  };
+
+  try {
+    // Find all completed articles without a vector of the current model
+    const articlesToProcess = await db
+      .select({
+        id: articles.id,
+        userId: articles.userId,
+        title: articles.title,
+        description: articles.description,
+        url: articles.url,
+      })
+      .from(articles)
+      .leftJoin(articleEmbeddings, eq(articleEmbeddings.articleId, articles.id))
+      .where(
+        and(
+          eq(articles.status, "completed"),
+          or(
+            isNull(articleEmbeddings.articleId),
+            ne(articleEmbeddings.model, model),
+          ),
+        ),
+      );
+
+    stats.total = articlesToProcess.length;
+    logger.info("Found articles to process", { count: stats.total });
+
+    if (stats.total === 0) {
+      logger.info("No articles to backfill");
+      return;
+    }
+
+    // Process each article
+    for (const [index, article] of articlesToProcess.entries()) {
+      // Log progress every 10 articles
+      if ((index + 1) % 10 === 0) {
+        logger.info("Progress update", {
+          processed: index + 1,
+          total: stats.total,
+          percentage: Math.round(((index + 1) / stats.total) * 100),
+        });
+      }
+
+      try {
+        // Try to get cached content
+        const htmlContent = await contentCache.get(article.userId, article.id);
+
+        if (!htmlContent) {
+          logger.warn("No cached content found, skipping", {
+            articleId: article.id,
+            title: article.title || article.url,
+          });
+          stats.skipped++;
+          continue;
+        }
+
+        await embedArticle(
+          article.id,
+          getEmbeddingText(article, htmlToPlainText(htmlContent)),
+        );
+
+        logger.debug("Embedded article", {
+          articleId: article.id,
+          title: article.title || article.url,
+        });
+
+        stats.processed++;
+      } catch (error) {
+        logger.error("Failed to embed article", {
+          articleId: article.id,
+          title: article.title || article.url,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        stats.failed++;
+      }
+    }
+
+    // Log final summary
+    logger.info("Backfill completed", {
+      total: stats.total,
+      processed: stats.processed,
+      skipped: stats.skipped,
+      failed: stats.failed,
+      successRate: `${Math.round((stats.processed / stats.total) * 100)}%`,
+    });
+  } catch (error) {
+    logger.error("Backfill failed", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    process.exit(1);
+  }
+}
+
+// Run the backfill
+backfillEmbeddings();
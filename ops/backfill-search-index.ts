@@ -0,0 +1,120 @@
+#!/usr/bin/env bun
+
+/**
+ * Backfill full-text search content for existing articles
+ *
+ * The migration indexes titles, descriptions, site names and summaries,
+ * but article text only lives in the content cache. This script indexes the
+ * plain text of every completed article that has no indexed content yet.
+ *
+ * Usage: bun run ops/backfill-search-index.ts
+ */
+
+import { sql } from "drizzle-orm";
+import { contentCache } from "../src/lib/content-cache";
+import { db } from "../src/lib/db";
+import { defaultLogger } from "../src/lib/logger";
+import { htmlToPlainText } from "../src/lib/tts";
+import { indexArticleContent } from "../src/services/search-index.service";
+
+const logger = defaultLogger.child({ module: "backfill-search-index" });
+
+interface Stats {
+  total: number;
+  processed: number;
+  skipped: number;
+  failed: number;
+}
+
+async function backfillSearchIndex() {
+  logger.info("Starting search index backfill");
+
+  const stats: Stats = {
+    total: 0,
+    processed: 0,
+    skipped: 0,
+    failed: 0,
+  };
+
+  try {
+    // Find all completed articles without indexed content
+    const articlesToProcess = await db.all<{
+      id: string;
+      userId: string;
+      title: string | null;
+      url: string;
+    }>(sql`
+      SELECT articles.id, articles.user_id AS userId, articles.title, articles.url
+      FROM articles
+      JOIN articles_fts ON articles_fts.article_id = articles.id
+      WHERE articles.status = 'completed' AND articles_fts.content IS NULL
+    `);
+
+    stats.total = articlesToProcess.length;
+    logger.info("Found articles to process", { count: stats.total });
+
+    if (stats.total === 0) {
+      logger.info("No articles to backfill");
+      return;
+    }
+
+    // Process each article
+    for (const [index, article] of articlesToProcess.entries()) {
+      // Log progress every 10 articles
+      if ((index + 1) % 10 === 0) {
+        logger.info("Progress update", {
+          processed: index + 1,
+          total: stats.total,
+          percentage: Math.round(((index + 1) / stats.total) * 100),
+        });
+      }
+
+      try {
+        // Try to get cached content
+        const htmlContent = await contentCache.get(article.userId, article.id);
+
+        if (!htmlContent) {
+          logger.warn("No cached content found, skipping", {
+            articleId: article.id,
+            title: article.title || article.url,
+          });
+          stats.skipped++;
+          continue;
+        }
+
+        await indexArticleContent(article.id, htmlToPlainText(htmlContent));
+
+        logger.debug("Indexed article", {
+          articleId: article.id,
+          title: article.title || article.url,
+        });
+
+        stats.processed++;
+      } catch (error) {
+        logger.error("Failed to index article", {
+          articleId: article.id,
+          title: article.title || article.url,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        stats.failed++;
+      }
+    }
+
+    // Log final summary
+    logger.info("Backfill completed", {
+      total: stats.total,
+      processed: stats.processed,
+      skipped: stats.skipped,
+      failed: stats.failed,
+      successRate: `${Math.round((stats.processed / stats.total) * 100)}%`,
+    });
+  } catch (error) {
+    logger.error("Backfill failed", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    process.exit(1);
+  }
+}
+
+// Run the backfill
+backfillSearchIndex();
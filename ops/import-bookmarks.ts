@@ -0,0 +1,56 @@
+#!/usr/bin/env bun
+
+/**
+ * Import an export file from Pocket, Instapaper, Omnivore or a browser
+ *
+ * Same as the /import page, for files too large to upload. Articles are saved
+ * as pending and the server queues them for processing a few per minute
+ * (IMPORT_ARTICLES_PER_MINUTE).
+ *
+ * Usage: bun run ops/import-bookmarks.ts <user-id> <file>
+ */
+
+import { parseImportFile } from "../src/lib/bookmark-import";
+import { defaultLogger } from "../src/lib/logger";
+import { importBookmarks } from "../src/services/import.service";
+
+const logger = defaultLogger.child({ module: "import-bookmarks" });
+
+async function runImport() {
+  const [userId, filePath] = process.argv.slice(2);
+
+  if (!userId || !filePath) {
+    logger.error("Usage: bun run ops/import-bookmarks.ts <user-id> <file>");
+    process.exit(1);
+  }
+
+  try {
+    const file = Bun.file(filePath);
+    if (!(await file.exists())) {
+      logger.error("File not found", { filePath });
+      process.exit(1);
+    }
+
+    const parsed = parseImportFile(await file.text());
+    logger.info("Parsed export file", {
+      source: parsed.source,
+      count: parsed.bookmarks.length,
+    });
+
+    const result = await importBookmarks(userId, parsed);
+
+    logger.info("Import completed", {
+      source: parsed.source,
+      imported: result.imported,
+      skipped: result.skipped,
+    });
+  } catch (error) {
+    logger.error("Import failed", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    process.exit(1);
+  }
+}
+
+// Run the import
+runImport();
@@ -1,17 +1,27 @@
 import { Hono } from "hono";
 import { serveStatic } from "hono/bun";
 import { requestId } from "hono/request-id";
+import { apiToken } from "./middleware/api-token";
 import { errorHandler } from "./middleware/errorHandler";
 import { loggerMiddleware } from "./middleware/logger";
 import { corsMiddleware, securityHeaders } from "./middleware/security";
 import { session } from "./middleware/session";
 import apiRoutes from "./routes/api";
+import apiV1Routes from "./routes/api-v1";
 import articlesRoutes from "./routes/articles";
+import askRoutes from "./routes/ask";
 import authRoutes from "./routes/auth";
+import epubRoutes from "./routes/epub";
+import exportRoutes from "./routes/export";
+import feedsRoutes from "./routes/feeds";
 import healthRoutes from "./routes/health";
 import homeRoutes from "./routes/home";
+import importRoutes from "./routes/import";
 import loginRoutes from "./routes/login";
+import readingFeedsRoutes from "./routes/reading-feeds";
 import searchRoutes from "./routes/search";
+import settingsRoutes from "./routes/settings";
+import tagsRoutes from "./routes/tags";
 import ttsWsRoutes from "./routes/tts-ws";
 import type { AppContext } from "./types/context";
 
@@ -30,6 +40,7 @@ export function createApp(): Hono<AppContext> {
   app.use("*", loggerMiddleware);
 
   app.use("*", session());
+  app.use("/api/v1/*", apiToken());
 
   // Serve static files from public directory
   app.use("/public/*", serveStatic({ root: "./" }));
@@ -40,7 +51,16 @@ export function createApp(): Hono<AppContext> {
   app.route("/", authRoutes);
   app.route("/", articlesRoutes);
   app.route("/", searchRoutes);
+  app.route("/", askRoutes);
+  app.route("/", tagsRoutes);
+  app.route("/", settingsRoutes);
+  app.route("/", importRoutes);
+  app.route("/", exportRoutes);
+  app.route("/", feedsRoutes);
+  app.route("/", readingFeedsRoutes);
+  app.route("/", epubRoutes);
   app.route("/", apiRoutes);
+  app.route("/", apiV1Routes);
   app.route("/", ttsWsRoutes); // WebSocket TTS endpoint
   app.route("/", healthRoutes);
 
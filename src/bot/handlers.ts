@@ -1,20 +1,68 @@
 import type { Bot } from "grammy";
-import { InputFile } from "grammy";
+import { InlineKeyboard, InputFile } from "grammy";
+import type {
+  ReactionTypeEmoji,
+  Document as TelegramDocument,
+} from "grammy/types";
+import { marked } from "marked";
 import { config } from "../lib/config";
 import { contentCache } from "../lib/content-cache";
+import {
+  convertDocument,
+  type DocumentContent,
+  type DocumentFormat,
+  getDocumentFormat,
+  textToHtml,
+} from "../lib/documents";
+import { NotFoundError, ValidationError } from "../lib/errors";
 import { defaultLogger } from "../lib/logger";
+import {
+  getMediaTextProvider,
+  isMediaTextAvailable,
+  type MediaFile,
+} from "../lib/media-text";
 import { addArticleJob, type TelegramContext } from "../lib/queue";
-import { createArticle } from "../services/articles.service";
+import { sanitizeHtml } from "../lib/sanitize-html";
+import {
+  createArticle,
+  setArticleArchived,
+  snoozeArticle,
+} from "../services/articles.service";
 import { claimAuthToken } from "../services/auth.service";
+import { DIGEST_SNOOZE_DAYS } from "../services/digest.service";
+import { createDigestEpub } from "../services/epub.service";
 import { getTelegramUserByTelegramId } from "../services/telegram-users.service";
 import {
-  extractFirstUrl,
+  downloadTelegramFile,
   extractMessageMetadata,
+  extractUrls,
   getMessageText,
+  getTitleAndDescription,
+  MAX_TELEGRAM_FILE_SIZE,
 } from "./helpers";
 import { onlySuperAdmin } from "./middleware/admin";
 import type { BotContext } from "./types";
 
+// Messages with more links ask whether to save all of them
+const LINKS_WITHOUT_CONFIRMATION = 5;
+
+interface ContentArticle {
+  title?: string;
+  description?: string;
+  url: string;
+  siteName: string;
+  htmlContent: string;
+  pageCount?: number;
+}
+
+interface TelegramMedia {
+  kind: "image" | "voice";
+  fileId: string;
+  fileSize?: number;
+  mimeType: string;
+  fileName: string;
+}
+
 /**
  * Register all bot command handlers
  */
@@ -73,9 +121,10 @@ export function registerHandlers(bot: Bot<BotContext>) {
       "How to use lateread:\n\n" +
         "1. Log in at the web app: https://lateread.app/ to connect your Telegram account\n" +
         "2. Send me any article URL, or forward a message with a URL\n" +
-        "3. Send me long messages directly to save them as articles\n" +
+        "3. Send me long messages or PDF, EPUB, HTML, Markdown and text files directly to save them as articles\n" +
         "4. I'll process and save them automatically\n" +
-        "5. Read your saved articles at the web app\n\n" +
+        "5. Read your saved articles at the web app\n" +
+        "6. Send /epub (or /epub <tag>) to get unread articles for your e-reader\n\n" +
         "Features:\n" +
         "✨ Automatic article extraction from URLs\n" +
         "🤖 AI-powered tagging and organization\n" +
@@ -89,6 +138,35 @@ export function registerHandlers(bot: Bot<BotContext>) {
     );
   });
 
+  // /epub command - unread articles as an EPUB, optionally only with a tag
+  bot.command("epub", async (ctx) => {
+    const telegramUser = await authenticateTelegramUser(ctx);
+    if (!telegramUser) {
+      return;
+    }
+
+    const tag = ctx.match.trim().replace(/^#/, "").toLowerCase();
+    await ctx.replyWithChatAction("upload_document");
+
+    try {
+      const file = await createDigestEpub(telegramUser.userId, {
+        tags: tag ? [tag] : [],
+      });
+
+      await ctx.replyWithDocument(new InputFile(file.data, file.filename), {
+        caption: `📚 ${file.articleCount} unread ${file.articleCount === 1 ? "article" : "articles"}`,
+      });
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        await ctx.reply(`${error.message}.`);
+        return;
+      }
+
+      ctx.logger.error("Failed to create EPUB", { error, tag });
+      await ctx.reply("❌ Failed to create the EPUB, please try again later.");
+    }
+  });
+
   bot.command("ping", async (ctx) => {
     await ctx.reply("Pong!");
   });
@@ -250,6 +328,94 @@ export function registerHandlers(bot: Bot<BotContext>) {
     }
   });
 
+  // Documents the bot can read, other files fall through to the caption handler
+  bot.on("message:document", async (ctx, next) => {
+    const { document } = ctx.message;
+    const format = getDocumentFormat(document.file_name, document.mime_type);
+    const isImage =
+      !format &&
+      !!document.mime_type?.startsWith("image/") &&
+      isMediaTextAvailable();
+
+    if (!format && !isImage) {
+      await next();
+      return;
+    }
+
+    const telegramUser = await authenticateTelegramUser(ctx);
+    if (!telegramUser) {
+      return;
+    }
+
+    if (format) {
+      await handleDocument(ctx, telegramUser, document, format);
+      return;
+    }
+
+    // Screenshots sent uncompressed
+    await handleMedia(ctx, telegramUser, {
+      kind: "image",
+      fileId: document.file_id,
+      fileSize: document.file_size,
+      mimeType: document.mime_type ?? "image/png",
+      fileName: document.file_name ?? "image.png",
+    });
+  });
+
+  // Text of photos, unless the caption is an article or has links to save
+  bot.on("message:photo", async (ctx, next) => {
+    const caption = getMessageText(ctx);
+    if (
+      !isMediaTextAvailable() ||
+      caption.length >= config.LONG_MESSAGE_THRESHOLD ||
+      extractUrls(ctx.message).length > 0
+    ) {
+      await next();
+      return;
+    }
+
+    const telegramUser = await authenticateTelegramUser(ctx);
+    if (!telegramUser) {
+      return;
+    }
+
+    // Sizes are sorted from the smallest, the largest reads best
+    const photo = ctx.message.photo.at(-1);
+    if (!photo) {
+      return;
+    }
+
+    await handleMedia(ctx, telegramUser, {
+      kind: "image",
+      fileId: photo.file_id,
+      fileSize: photo.file_size,
+      mimeType: "image/jpeg",
+      fileName: "photo.jpg",
+    });
+  });
+
+  // Transcripts of voice notes
+  bot.on("message:voice", async (ctx, next) => {
+    if (!isMediaTextAvailable()) {
+      await next();
+      return;
+    }
+
+    const telegramUser = await authenticateTelegramUser(ctx);
+    if (!telegramUser) {
+      return;
+    }
+
+    const { voice } = ctx.message;
+    await handleMedia(ctx, telegramUser, {
+      kind: "voice",
+      fileId: voice.file_id,
+      fileSize: voice.file_size,
+      mimeType: voice.mime_type ?? "audio/ogg",
+      fileName: "voice.ogg",
+    });
+  });
+
   // Handle messages with URLs (text or captions from media)
   bot.on([":text", ":caption"], async (ctx) => {
     if (!ctx.message) {
@@ -280,24 +446,108 @@ export function registerHandlers(bot: Bot<BotContext>) {
       return;
     }
 
-    const url = extractFirstUrl(ctx);
+    const urls = extractUrls(ctx.message);
 
-    if (!url) {
+    if (urls.length === 0) {
       ctx.logger.info("No URL found in message, ignoring");
       return;
     }
 
-    ctx.logger.info("Creating article record for URL", {
-      url,
-    });
-    const article = await createArticle({
-      userId: telegramUser.userId,
-      url: url,
+    // Ask before filling the inbox from a long digest
+    if (urls.length > LINKS_WITHOUT_CONFIRMATION) {
+      ctx.logger.info("Asking which links to save", { count: urls.length });
+      await ctx.reply(`Found ${urls.length} links. Save all of them?`, {
+        reply_parameters: { message_id: ctx.message.message_id },
+        reply_markup: new InlineKeyboard()
+          .text(`Save all ${urls.length}`, "links:all")
+          .text("Only the first", "links:first"),
+      });
+      return;
+    }
+
+    await saveLinks(ctx, telegramUser, urls, extractTelegramContext(ctx));
+  });
+
+  // Answer to the "Save all of them?" question for messages with many links
+  bot.callbackQuery(/^links:(all|first)$/, async (ctx) => {
+    await ctx.answerCallbackQuery();
+
+    const question = ctx.callbackQuery.message;
+    const original =
+      question && "reply_to_message" in question
+        ? question.reply_to_message
+        : undefined;
+
+    if (!original) {
+      ctx.logger.info("Original message for links is gone");
+      await ctx.editMessageText("That message is no longer available.");
+      return;
+    }
+
+    const telegramUser = await authenticateTelegramUser(ctx);
+    if (!telegramUser) {
+      return;
+    }
+
+    const urls = extractUrls(original);
+    const selected = ctx.match[1] === "all" ? urls : urls.slice(0, 1);
+
+    await ctx.editMessageText(
+      selected.length === 1
+        ? "Saving the first link."
+        : `Saving ${selected.length} links.`,
+    );
+    await saveLinks(ctx, telegramUser, selected, {
+      chatId: original.chat.id,
+      messageId: original.message_id,
     });
+  });
 
-    ctx.logger.info("Article created", { article: article.id });
+  // Archive or snooze buttons of a digest
+  bot.callbackQuery(/^digest:(archive|snooze):([\w-]+)$/, async (ctx) => {
+    const telegramUser = await authenticateTelegramUser(ctx);
+    if (!telegramUser) {
+      await ctx.answerCallbackQuery();
+      return;
+    }
 
-    await queueArticleForProcessing(ctx, article.id);
+    const [, action, articleId = ""] = ctx.match;
+
+    try {
+      if (action === "archive") {
+        await setArticleArchived(articleId, telegramUser.userId, true);
+      } else {
+        const until = new Date(Date.now() + DIGEST_SNOOZE_DAYS * 86_400_000);
+        await snoozeArticle(articleId, telegramUser.userId, until);
+      }
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        await ctx.answerCallbackQuery("This article was deleted.");
+        return;
+      }
+      throw error;
+    }
+
+    await ctx.answerCallbackQuery(
+      action === "archive"
+        ? "Archived."
+        : `Snoozed for ${DIGEST_SNOOZE_DAYS} days.`,
+    );
+
+    // Leave only the buttons of articles not acted on yet
+    const rows = ctx.callbackQuery.message?.reply_markup?.inline_keyboard ?? [];
+    await ctx.editMessageReplyMarkup({
+      reply_markup: {
+        inline_keyboard: rows.filter(
+          (row) =>
+            !row.some(
+              (button) =>
+                "callback_data" in button &&
+                button.callback_data.endsWith(articleId),
+            ),
+        ),
+      },
+    });
   });
 }
 
@@ -347,55 +597,108 @@ function extractTelegramContext(ctx: BotContext): TelegramContext | undefined {
 }
 
 /**
- * Add article to processing queue
+ * React to the message the links came from
  */
-async function queueArticleForProcessing(
+async function react(
   ctx: BotContext,
-  articleId: string,
+  telegram: TelegramContext | undefined,
+  emoji: ReactionTypeEmoji["emoji"],
 ): Promise<void> {
+  if (!telegram) {
+    return;
+  }
+
   try {
-    await ctx.react("👀");
+    await ctx.api.setMessageReaction(telegram.chatId, telegram.messageId, [
+      { type: "emoji", emoji },
+    ]);
   } catch (error) {
     ctx.logger.error("Failed to add reaction", { error });
   }
+}
 
-  const telegram = extractTelegramContext(ctx);
-  ctx.logger.info("Adding article to queue", {
-    article: articleId,
-    hasTelegram: !!telegram,
-  });
-  addArticleJob(articleId, telegram);
+/**
+ * Add articles to the processing queue
+ * Articles of the same message are reported together once all are processed
+ */
+async function queueArticlesForProcessing(
+  ctx: BotContext,
+  articleIds: string[],
+  telegram: TelegramContext | undefined,
+): Promise<void> {
+  await react(ctx, telegram, "👀");
+
+  const batch = articleIds.length > 1 ? articleIds : undefined;
+  for (const articleId of articleIds) {
+    ctx.logger.info("Adding article to queue", {
+      article: articleId,
+      hasTelegram: !!telegram,
+    });
+    addArticleJob(articleId, telegram && { ...telegram, batch });
+  }
 }
 
 /**
- * Handle long Telegram messages as articles
+ * Save links as articles and queue the new ones
+ * Links that are already saved are moved to the top of the inbox
  */
-async function handleLongMessage(
+async function saveLinks(
   ctx: BotContext,
   telegramUser: { userId: string },
-) {
-  // Extract metadata from message
-  const metadata = await extractMessageMetadata(ctx);
+  urls: string[],
+  telegram: TelegramContext | undefined,
+): Promise<void> {
+  const queued: string[] = [];
 
-  if (!metadata) {
-    ctx.logger.error("Failed to extract message metadata");
-    return;
+  for (const url of urls) {
+    ctx.logger.info("Creating article record for URL", { url });
+    const { article, duplicate, shouldProcess } = await createArticle({
+      userId: telegramUser.userId,
+      url,
+    });
+
+    if (!shouldProcess) {
+      ctx.logger.info("Article already saved", { article: article.id });
+      continue;
+    }
+
+    ctx.logger.info(duplicate ? "Retrying saved article" : "Article created", {
+      article: article.id,
+    });
+    queued.push(article.id);
   }
 
-  const { title, description, url, siteName, htmlContent } = metadata;
+  if (queued.length === 0) {
+    await react(ctx, telegram, "👌");
+    await ctx.reply(
+      urls.length === 1
+        ? "Already saved, moved it to the top of your inbox."
+        : "All of these are already saved, moved them to the top of your inbox.",
+    );
+    return;
+  }
 
-  ctx.logger.info("Processing long message", {
-    title,
-    url,
-  });
+  await queueArticlesForProcessing(ctx, queued, telegram);
+}
 
-  ctx.logger.info("Creating article record for long message");
-  const article = await createArticle({
+/**
+ * Save content that has no page to fetch, like a long message or a file
+ * The HTML is cached so the worker processes it instead of the URL
+ */
+async function saveContentArticle(
+  ctx: BotContext,
+  telegramUser: { userId: string },
+  { title, description, url, siteName, htmlContent, pageCount }: ContentArticle,
+) {
+  const { article } = await createArticle({
     userId: telegramUser.userId,
-    url: url,
-    title: title,
-    description: description,
-    siteName: siteName,
+    url,
+    title,
+    description,
+    siteName,
+    pageCount,
+    // Messages and files share the channel or app link, each is its own article
+    deduplicate: false,
   });
 
   ctx.logger.info("Article created with ID", { article: article.id });
@@ -413,7 +716,183 @@ async function handleLongMessage(
   }
 
   // Process with worker
-  await queueArticleForProcessing(ctx, article.id);
+  await queueArticlesForProcessing(
+    ctx,
+    [article.id],
+    extractTelegramContext(ctx),
+  );
+}
+
+/**
+ * Handle long Telegram messages as articles
+ */
+async function handleLongMessage(
+  ctx: BotContext,
+  telegramUser: { userId: string },
+) {
+  // Extract metadata from message
+  const metadata = await extractMessageMetadata(ctx);
+
+  if (!metadata) {
+    ctx.logger.error("Failed to extract message metadata");
+    return;
+  }
+
+  ctx.logger.info("Processing long message", {
+    title: metadata.title,
+    url: metadata.url,
+  });
+
+  await saveContentArticle(ctx, telegramUser, metadata);
+}
+
+/**
+ * Download a file sent to the bot, null when it's too large or fails
+ * (the user is told why)
+ */
+async function downloadFile(
+  ctx: BotContext,
+  fileId: string,
+  fileSize: number | undefined,
+  kind: string,
+): Promise<Uint8Array | null> {
+  if ((fileSize ?? 0) > MAX_TELEGRAM_FILE_SIZE) {
+    await ctx.reply(
+      `This ${kind} is too large for me to download (20 MB at most).`,
+    );
+    return null;
+  }
+
+  try {
+    return await downloadTelegramFile(ctx, fileId);
+  } catch (error) {
+    ctx.logger.error("Failed to download file", { error, kind });
+    await ctx.reply(
+      `❌ Failed to download this ${kind}, please try again later.`,
+    );
+    return null;
+  }
+}
+
+/**
+ * Save a PDF, EPUB, HTML, Markdown or text file sent to the bot as an article
+ */
+async function handleDocument(
+  ctx: BotContext,
+  telegramUser: { userId: string },
+  document: TelegramDocument,
+  format: DocumentFormat,
+) {
+  ctx.logger.info("Processing document", {
+    format,
+    fileName: document.file_name,
+    size: document.file_size,
+  });
+
+  const kind = format === "pdf" ? "PDF" : "file";
+  const data = await downloadFile(
+    ctx,
+    document.file_id,
+    document.file_size,
+    kind,
+  );
+  if (!data) {
+    return;
+  }
+
+  let converted: DocumentContent;
+  try {
+    converted = await convertDocument(data, format);
+  } catch (error) {
+    ctx.logger.error("Failed to read document", { error, format });
+    await ctx.reply(`❌ Failed to read this ${kind}, it may be damaged.`);
+    return;
+  }
+
+  if (!converted.textContent) {
+    ctx.logger.info("Document has no text", { pages: converted.pageCount });
+    await ctx.reply(
+      format === "pdf"
+        ? "This PDF has no text to save. Scanned documents aren't supported."
+        : "This file has no text to save.",
+    );
+    return;
+  }
+
+  await saveContentArticle(ctx, telegramUser, {
+    url: config.APP_URL,
+    title: converted.title ?? document.file_name?.replace(/\.[^.]+$/, ""),
+    description: converted.excerpt,
+    siteName: converted.author ?? "Telegram Document",
+    htmlContent: converted.content,
+    pageCount: converted.pageCount,
+  });
+}
+
+/**
+ * Save the text of an image (OCR) or a voice note (transcription)
+ */
+async function handleMedia(
+  ctx: BotContext,
+  telegramUser: { userId: string },
+  media: TelegramMedia,
+) {
+  ctx.logger.info("Processing media", {
+    kind: media.kind,
+    size: media.fileSize,
+  });
+
+  const kind = media.kind === "image" ? "image" : "voice note";
+  const data = await downloadFile(ctx, media.fileId, media.fileSize, kind);
+  if (!data) {
+    return;
+  }
+
+  const file: MediaFile = {
+    data,
+    mimeType: media.mimeType,
+    fileName: media.fileName,
+  };
+  const provider = getMediaTextProvider();
+
+  let text: string;
+  try {
+    text =
+      media.kind === "image"
+        ? await provider.recognizeText(file)
+        : await provider.transcribe(file);
+  } catch (error) {
+    ctx.logger.error("Failed to read media", { error, kind: media.kind });
+    await ctx.reply(`❌ Failed to read this ${kind}, please try again later.`);
+    return;
+  }
+
+  if (!text) {
+    await ctx.reply(
+      media.kind === "image"
+        ? "I couldn't find any text in this image."
+        : "I couldn't make out any words in this voice note.",
+    );
+    return;
+  }
+
+  // A caption names the image better than its first line
+  const caption = getMessageText(ctx);
+  const { title, description } = getTitleAndDescription(
+    caption ? `${caption}\n${text}` : text.replace(/^#+\s*/, ""),
+  );
+
+  await saveContentArticle(ctx, telegramUser, {
+    url: config.APP_URL,
+    title,
+    description,
+    siteName: media.kind === "image" ? "Telegram Image" : "Telegram Voice Note",
+    // Recognized text is Markdown, transcripts are plain text
+    htmlContent:
+      media.kind === "image"
+        ? sanitizeHtml(await marked(text))
+        : textToHtml(text),
+  });
 }
 
 /**
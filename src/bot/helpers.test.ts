@@ -0,0 +1,106 @@
+import { afterEach, describe, expect, it, mock, spyOn } from "bun:test";
+import type { Message } from "grammy/types";
+import { ExternalServiceError } from "../lib/errors";
+import { downloadTelegramFile, extractUrls } from "./helpers";
+import type { BotContext } from "./types";
+
+function message(fields: Partial<Message>): Message {
+  return {
+    message_id: 1,
+    date: 0,
+    chat: { id: 1, type: "private", first_name: "Test" },
+    ...fields,
+  } as Message;
+}
+
+describe("bot/helpers", () => {
+  describe("extractUrls", () => {
+    it("should return visible URLs before hyperlinks", () => {
+      const text = "Read https://example.com/a and this one";
+
+      const urls = extractUrls(
+        message({
+          text,
+          entities: [
+            { type: "text_link", offset: 32, length: 8, url: "https://b.com" },
+            { type: "url", offset: 5, length: 21 },
+          ],
+        }),
+      );
+
+      expect(urls).toEqual(["https://example.com/a", "https://b.com"]);
+    });
+
+    it("should drop links that only differ in tracking", () => {
+      const text = "https://example.com/a https://example.com/a?utm_source=x";
+
+      const urls = extractUrls(
+        message({
+          text,
+          entities: [
+            { type: "url", offset: 0, length: 21 },
+            { type: "url", offset: 22, length: 34 },
+          ],
+        }),
+      );
+
+      expect(urls).toEqual(["https://example.com/a"]);
+    });
+
+    it("should read captions", () => {
+      const urls = extractUrls(
+        message({
+          caption: "https://example.com/photo",
+          caption_entities: [{ type: "url", offset: 0, length: 25 }],
+        }),
+      );
+
+      expect(urls).toEqual(["https://example.com/photo"]);
+    });
+
+    it("should return nothing without links", () => {
+      expect(extractUrls(message({ text: "Hello" }))).toEqual([]);
+    });
+  });
+
+  describe("downloadTelegramFile", () => {
+    const getFile = mock(
+      (): Promise<{
+        file_id: string;
+        file_unique_id: string;
+        file_path?: string;
+      }> => Promise.resolve({ file_id: "f1", file_unique_id: "u1" }),
+    );
+    const ctx = { api: { token: "123:abc", getFile } } as unknown as BotContext;
+
+    afterEach(() => {
+      getFile.mockClear();
+    });
+
+    it("should download from the Bot API file endpoint", async () => {
+      getFile.mockResolvedValueOnce({
+        file_id: "f1",
+        file_unique_id: "u1",
+        file_path: "documents/file_1.pdf",
+      });
+      const spyFetch = spyOn(globalThis, "fetch").mockResolvedValueOnce(
+        new Response("%PDF-1.4"),
+      );
+
+      const data = await downloadTelegramFile(ctx, "f1");
+
+      expect(new TextDecoder().decode(data)).toBe("%PDF-1.4");
+      expect(getFile).toHaveBeenCalledWith("f1");
+      expect(spyFetch.mock.calls[0]?.[0]).toBe(
+        "https://api.telegram.org/file/bot123:abc/documents/file_1.pdf",
+      );
+      spyFetch.mockRestore();
+    });
+
+    it("should fail for files without a download path", async () => {
+      await expect(downloadTelegramFile(ctx, "f1")).rejects.toThrow(
+        ExternalServiceError,
+      );
+    });
+  });
+});
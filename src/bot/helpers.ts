@@ -1,7 +1,13 @@
 import type { Context } from "grammy";
+import type { Message } from "grammy/types";
 import { marked } from "marked";
+import { canonicalizeUrl } from "../lib/canonical-url";
+import { ExternalServiceError } from "../lib/errors";
 import type { BotContext } from "./types";
 
+// Bots can't download larger files through the Bot API
+export const MAX_TELEGRAM_FILE_SIZE = 20 * 1024 * 1024;
+
 export interface MessageMetadata {
   title: string;
   description: string;
@@ -32,18 +38,7 @@ export async function extractMessageMetadata(
   const message = ctx.message;
   const chat = ctx.chat;
 
-  // Extract title: first line, truncated to 64 chars
-  const lines = messageText.split("\n");
-  const firstLine = lines[0] || messageText.substring(0, 64);
-  const title =
-    firstLine.length > 64 ? `${firstLine.substring(0, 64)}...` : firstLine;
-
-  // Extract description: next 200 chars after first line
-  const restOfText = lines.slice(1).join("\n").trim();
-  const description =
-    restOfText.length > 200
-      ? `${restOfText.substring(0, 200)}...`
-      : restOfText || title.substring(0, 200);
+  const { title, description } = getTitleAndDescription(messageText);
 
   // Determine URL and author
   let url: string;
@@ -104,24 +99,53 @@ export async function extractMessageMetadata(
 }
 
 /**
- * Extract first URL from message using Telegram entities
- * Prioritizes visible URLs over text_links (hyperlinks)
- * Handles both text messages and captions automatically
+ * Title from the first line, truncated to 64 chars, and a description from
+ * the next 200 chars
  */
-export function extractFirstUrl(ctx: Context): string | null {
-  // First, try visible URLs in the text (type: "url")
-  const [urlEntity] = ctx.entities("url");
-  if (urlEntity) {
-    return urlEntity.text;
-  }
+export function getTitleAndDescription(text: string): {
+  title: string;
+  description: string;
+} {
+  const lines = text.split("\n");
+  const firstLine = lines[0] || text.substring(0, 64);
+  const title =
+    firstLine.length > 64 ? `${firstLine.substring(0, 64)}...` : firstLine;
 
-  // Fall back to text_links (hyperlinks with hidden URLs)
-  const [textLinkEntity] = ctx.entities("text_link");
-  if (textLinkEntity?.url) {
-    return textLinkEntity.url;
-  }
+  const restOfText = lines.slice(1).join("\n").trim();
+  const description =
+    restOfText.length > 200
+      ? `${restOfText.substring(0, 200)}...`
+      : restOfText || title.substring(0, 200);
 
-  return null;
+  return { title, description };
+}
+
+/**
+ * Extract all URLs from a message using Telegram entities, without duplicates
+ * Visible URLs come first, then text_links (hyperlinks with hidden URLs)
+ * Handles both text messages and captions
+ */
+export function extractUrls(message: Message): string[] {
+  const text = message.text ?? message.caption ?? "";
+  const entities = message.entities ?? message.caption_entities ?? [];
+
+  const visible = entities
+    .filter((entity) => entity.type === "url")
+    .map((entity) => text.slice(entity.offset, entity.offset + entity.length));
+  const hidden = entities.flatMap((entity) =>
+    entity.type === "text_link" ? [entity.url] : [],
+  );
+
+  // Tracking parameters and fragments don't make another link
+  const seen = new Set<string>();
+  return [...visible, ...hidden].filter((url) => {
+    const key = canonicalizeUrl(url);
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
 }
 
 /**
@@ -138,3 +162,32 @@ export function getMessageText(ctx: Context): string {
     ""
   );
 }
+
+/**
+ * Download a file sent to the bot through the Bot API file endpoint
+ */
+export async function downloadTelegramFile(
+  ctx: BotContext,
+  fileId: string,
+): Promise<Uint8Array> {
+  const file = await ctx.api.getFile(fileId);
+  if (!file.file_path) {
+    throw new ExternalServiceError(
+      "Telegram file download",
+      new Error("File is not available for download"),
+    );
+  }
+
+  const response = await fetch(
+    `https://api.telegram.org/file/bot${ctx.api.token}/${file.file_path}`,
+    { signal: AbortSignal.timeout(60_000) },
+  );
+  if (!response.ok) {
+    throw new ExternalServiceError(
+      "Telegram file download",
+      new Error(`HTTP error: ${response.status}`),
+    );
+  }
+
+  return new Uint8Array(await response.arrayBuffer());
+}
@@ -0,0 +1,28 @@
+import type { FC } from "hono/jsx";
+
+/**
+ * Inline form to save a URL from the web app
+ * Swaps the whole article list so the processing banner picks up the new article
+ */
+export const AddArticleForm: FC = () => {
+  return (
+    <form
+      hx-post="/api/articles"
+      hx-target="#article-container"
+      hx-swap="outerHTML"
+      hx-disabled-elt="find button"
+      class="add-article-form"
+    >
+      <fieldset>
+        <input
+          type="url"
+          name="url"
+          placeholder="Paste a link to save..."
+          autocomplete="off"
+          required
+        />
+        <button type="submit">Add</button>
+      </fieldset>
+    </form>
+  );
+};
@@ -1,11 +1,23 @@
 import type { FC } from "hono/jsx";
 import type { Article, Tag } from "../db/types";
 import { formatReadingTime, formatRelativeTime } from "../lib/date";
+import { splitSnippet } from "../lib/fts";
 
 interface ArticleCardProps {
-  article: Article & { tags: Tag[] };
+  article: Article & { tags: Tag[]; snippet?: string | null };
 }
 
+/**
+ * Render a search snippet, highlighting matched terms with <mark>
+ */
+const SearchSnippet: FC<{ snippet: string }> = ({ snippet }) => (
+  <p class="search-snippet">
+    {splitSnippet(snippet).map((part) =>
+      part.match ? <mark>{part.text}</mark> : part.text,
+    )}
+  </p>
+);
+
 export const ArticleCard: FC<ArticleCardProps> = ({ article }) => {
   const displayTitle = article.title || article.url;
   const isRead = article.readAt !== null;
@@ -23,8 +35,12 @@ export const ArticleCard: FC<ArticleCardProps> = ({ article }) => {
           <a href={`/articles/${article.id}`}>{displayTitle}</a>
         </h3>
 
-        {article.description && (
-          <p class="article-description">{article.description}</p>
+        {article.snippet ? (
+          <SearchSnippet snippet={article.snippet} />
+        ) : (
+          article.description && (
+            <p class="article-description">{article.description}</p>
+          )
         )}
 
         <p class="article-meta">
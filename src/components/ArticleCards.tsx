@@ -1,14 +1,18 @@
 import type { FC } from "hono/jsx";
 import type { Article, Tag } from "../db/types";
+import type { SearchMode, TagMatchMode } from "../services/articles.service";
 import { ArticleCard } from "./ArticleCard";
 import { LoadMoreTrigger } from "./LoadMoreTrigger";
 
 interface ArticleCardsProps {
-  articles: (Article & { tags: Tag[] })[];
+  articles: (Article & { tags: Tag[]; snippet?: string | null })[];
   nextCursor: string | null;
   basePath?: string;
   archived?: boolean;
   searchQuery?: string;
+  searchMode?: SearchMode;
+  tags?: string[];
+  tagMode?: TagMatchMode;
 }
 
 export const ArticleCards: FC<ArticleCardsProps> = ({
@@ -17,6 +21,9 @@ export const ArticleCards: FC<ArticleCardsProps> = ({
   basePath = "/articles",
   archived,
   searchQuery,
+  searchMode,
+  tags,
+  tagMode,
 }) => {
   return (
     <>
@@ -29,6 +36,9 @@ export const ArticleCards: FC<ArticleCardsProps> = ({
           basePath={basePath}
           archived={archived}
           searchQuery={searchQuery}
+          searchMode={searchMode}
+          tags={tags}
+          tagMode={tagMode}
         />
       )}
     </>
@@ -1,9 +1,12 @@
 import type { FC } from "hono/jsx";
 import type { Article, Tag } from "../db/types";
+import type { TagMatchMode } from "../services/articles.service";
+import { AddArticleForm } from "./AddArticleForm";
 import { ArticleCard } from "./ArticleCard";
 import { EmptyState } from "./EmptyState";
 import { LoadMoreTrigger } from "./LoadMoreTrigger";
 import { ProcessingBanner } from "./ProcessingBanner";
+import { buildTagFilterUrl, TagFilterBar } from "./TagFilterBar";
 
 interface ArticleListProps {
   articles: (Article & { tags: Tag[] })[];
@@ -11,6 +14,9 @@ interface ArticleListProps {
   processingCount?: number;
   nextCursor?: string | null;
   searchQuery?: string;
+  tags?: string[];
+  tagMode?: TagMatchMode;
+  basePath?: string;
   oobSwap?: string;
 }
 
@@ -20,15 +26,38 @@ export const ArticleList: FC<ArticleListProps> = ({
   processingCount = 0,
   nextCursor,
   searchQuery,
+  tags = [],
+  tagMode = "all",
+  basePath = archived ? "/archive" : "/articles",
   oobSwap,
 }) => {
-  const basePath = archived ? "/archive" : "/articles";
+  const filtered = tags.length > 0;
 
   return (
     <div id="article-container" hx-swap-oob={oobSwap}>
-      {!archived && <ProcessingBanner count={processingCount} immediate />}
+      {archived === false && (
+        <>
+          <AddArticleForm />
+          <ProcessingBanner count={processingCount} immediate />
+        </>
+      )}
+      {filtered && (
+        <TagFilterBar basePath={basePath} tags={tags} tagMode={tagMode} />
+      )}
+      {archived === false && articles.length > 0 && (
+        <div class="list-actions">
+          <a
+            href={buildTagFilterUrl("/epub", tags, tagMode)}
+            class="epub-download"
+            hx-boost="false"
+            download
+          >
+            Download as EPUB
+          </a>
+        </div>
+      )}
       {articles.length === 0 ? (
-        <EmptyState archived={archived} />
+        <EmptyState archived={archived} filtered={filtered} />
       ) : (
         <div class="article-grid">
           {articles.map((article) => (
@@ -40,6 +69,8 @@ export const ArticleList: FC<ArticleListProps> = ({
               basePath={basePath}
               archived={archived}
               searchQuery={searchQuery}
+              tags={tags}
+              tagMode={tagMode}
             />
           )}
         </div>
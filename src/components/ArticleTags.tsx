@@ -0,0 +1,50 @@
+import type { FC } from "hono/jsx";
+import type { Tag } from "../db/types";
+import { TagBadge } from "./TagBadge";
+
+interface ArticleTagsProps {
+  articleId: string;
+  tags: Pick<Tag, "id" | "name">[];
+}
+
+/**
+ * Article tags with inline add/remove controls, swapped as a whole by HTMX
+ */
+export const ArticleTags: FC<ArticleTagsProps> = ({ articleId, tags }) => {
+  return (
+    <div id="article-tags" class="reader-tags">
+      {tags.map((tag) => (
+        <span class="reader-tag">
+          <TagBadge name={tag.name} />
+          <button
+            type="button"
+            class="tag-remove"
+            hx-delete={`/api/articles/${articleId}/tags/${tag.id}`}
+            hx-target="#article-tags"
+            hx-swap="outerHTML"
+            aria-label={`Remove tag ${tag.name}`}
+            title="Remove tag"
+          >
+            ×
+          </button>
+        </span>
+      ))}
+      <form
+        hx-post={`/api/articles/${articleId}/tags`}
+        hx-target="#article-tags"
+        hx-swap="outerHTML"
+        class="tag-add-form"
+      >
+        <input
+          type="text"
+          name="name"
+          placeholder="Add tag"
+          aria-label="Add tag"
+          maxlength={100}
+          autocomplete="off"
+          required
+        />
+      </form>
+    </div>
+  );
+};
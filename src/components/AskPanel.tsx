@@ -0,0 +1,86 @@
+import type { FC } from "hono/jsx";
+import type { ArticleQuestion } from "../db/types";
+
+interface AskAnswerProps {
+  answer: string;
+  // Still generating: the stream-view element appends the text
+  streaming?: boolean;
+}
+
+export const AskAnswer: FC<AskAnswerProps> = ({ answer, streaming }) => {
+  return (
+    <div class="ask-answer">
+      <p data-stream-field="answer">{answer}</p>
+      {streaming && (
+        <div class="summary-placeholder">
+          <span class="spinner"></span>
+          Thinking...
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface AskConversationProps {
+  articleId: string;
+  questions: ArticleQuestion[];
+}
+
+/**
+ * Questions about the article and the form to ask another, swapped as a
+ * whole by HTMX. Unanswered questions stream their answer once visible
+ */
+export const AskConversation: FC<AskConversationProps> = ({
+  articleId,
+  questions,
+}) => {
+  return (
+    <div id="ask-conversation" class="ask-conversation">
+      {questions.map((question) => (
+        <article class="ask-exchange">
+          <p class="ask-question">{question.question}</p>
+          {question.answer !== null ? (
+            <AskAnswer answer={question.answer} />
+          ) : (
+            <stream-view
+              src={`/api/articles/${articleId}/questions/${question.id}/answer`}
+            >
+              <AskAnswer answer="" streaming />
+            </stream-view>
+          )}
+        </article>
+      ))}
+      <form
+        hx-post={`/api/articles/${articleId}/questions`}
+        hx-target="#ask-conversation"
+        hx-swap="outerHTML"
+        class="ask-form"
+      >
+        <input
+          type="text"
+          name="question"
+          placeholder="Ask a question about this article"
+          aria-label="Question"
+          maxlength={2000}
+          autocomplete="off"
+          required
+        />
+        <button type="submit">Ask</button>
+      </form>
+    </div>
+  );
+};
+
+export const AskPanel: FC<AskConversationProps> = ({
+  articleId,
+  questions,
+}) => {
+  return (
+    <section class="reader-ask">
+      <details>
+        <summary>Ask</summary>
+        <AskConversation articleId={articleId} questions={questions} />
+      </details>
+    </section>
+  );
+};
@@ -2,12 +2,15 @@ import type { FC } from "hono/jsx";
 
 interface EmptyStateProps {
   archived?: boolean;
+  filtered?: boolean;
 }
 
-export const EmptyState: FC<EmptyStateProps> = ({ archived }) => {
-  const message = archived
-    ? "No archived articles yet"
-    : "No articles yet. Forward a link to the bot to get started!";
+export const EmptyState: FC<EmptyStateProps> = ({ archived, filtered }) => {
+  const message = filtered
+    ? "No articles match the selected tags"
+    : archived
+      ? "No archived articles yet"
+      : "No articles yet. Add a link above or forward one to the bot to get started!";
 
   return (
     <div class="empty-state">
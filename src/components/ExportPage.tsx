@@ -0,0 +1,83 @@
+import type { FC } from "hono/jsx";
+import type { AccountExport } from "../db/types";
+import { formatRelativeTime } from "../lib/date";
+
+function formatFileSize(bytes: number | null): string {
+  const megabytes = (bytes ?? 0) / (1024 * 1024);
+  return megabytes < 0.1 ? "< 0.1 MB" : `${megabytes.toFixed(1)} MB`;
+}
+
+interface AccountExportStatusProps {
+  latest?: AccountExport;
+}
+
+/**
+ * Latest export of the user, polled while it's being prepared
+ */
+export const AccountExportStatus: FC<AccountExportStatusProps> = ({
+  latest,
+}) => {
+  const pending = latest?.status === "pending";
+
+  return (
+    <section
+      id="account-export"
+      class="account-export"
+      hx-get={pending ? "/api/exports/latest" : undefined}
+      hx-trigger={pending ? "every 2s" : undefined}
+      hx-swap={pending ? "outerHTML" : undefined}
+    >
+      {pending && <p aria-busy="true">Preparing your export...</p>}
+
+      {latest?.status === "completed" && (
+        <p>
+          Your export from {formatRelativeTime(latest.createdAt)} is ready (
+          {formatFileSize(latest.fileSize)}).{" "}
+          <a
+            href={`/exports/${latest.id}/download`}
+            class="export-download"
+            hx-boost="false"
+            download
+          >
+            Download zip
+          </a>
+        </p>
+      )}
+
+      {latest?.status === "failed" && (
+        <p class="export-error" role="alert">
+          The last export failed. Please try again.
+        </p>
+      )}
+
+      {!pending && (
+        <button
+          type="button"
+          hx-post="/api/exports"
+          hx-target="#account-export"
+          hx-swap="outerHTML"
+        >
+          {latest ? "Create a new export" : "Create export"}
+        </button>
+      )}
+    </section>
+  );
+};
+
+interface ExportPageProps {
+  latest?: AccountExport;
+}
+
+export const ExportPage: FC<ExportPageProps> = ({ latest }) => (
+  <div class="export-page">
+    <h1>Export</h1>
+    <p>
+      Download everything you saved as a zip file: <code>articles.json</code>{" "}
+      with metadata, tags, ratings, reading positions, summaries and questions,
+      the saved content of each article as HTML, and <code>bookmarks.html</code>{" "}
+      to import your links into a browser or another app. Exports are kept for a
+      week.
+    </p>
+    <AccountExportStatus latest={latest} />
+  </div>
+);
@@ -0,0 +1,162 @@
+import type { FC } from "hono/jsx";
+import { formatRelativeTime } from "../lib/date";
+import type { FeedWithCount } from "../services/feeds.service";
+
+interface FeedItemProps {
+  feed: FeedWithCount;
+}
+
+/**
+ * A subscribed feed with its filters, swapped in place when edited
+ */
+export const FeedItem: FC<FeedItemProps> = ({ feed }) => (
+  <li id={`feed-${feed.id}`} class="feed-item">
+    <details>
+      <summary>
+        <strong>{feed.title}</strong>{" "}
+        <small>
+          {feed.articleCount} {feed.articleCount === 1 ? "article" : "articles"}
+          {feed.lastFetchedAt &&
+            ` • checked ${formatRelativeTime(feed.lastFetchedAt).toLowerCase()}`}
+        </small>
+      </summary>
+
+      <p class="feed-url">
+        <small>{feed.url}</small>
+      </p>
+      {feed.lastError && (
+        <p class="feed-error" role="alert">
+          <small>Last check failed: {feed.lastError}</small>
+        </p>
+      )}
+
+      <form
+        hx-post={`/api/feeds/${feed.id}`}
+        hx-target={`#feed-${feed.id}`}
+        hx-swap="outerHTML"
+        class="feed-settings"
+      >
+        <label>
+          Name
+          <input
+            type="text"
+            name="title"
+            value={feed.title}
+            maxlength={100}
+            required
+          />
+          <small>New posts are tagged with it.</small>
+        </label>
+        <label>
+          Only posts mentioning
+          <input
+            type="text"
+            name="includeKeywords"
+            value={feed.includeKeywords}
+            placeholder="rust, databases"
+          />
+        </label>
+        <label>
+          Skip posts mentioning
+          <input
+            type="text"
+            name="excludeKeywords"
+            value={feed.excludeKeywords}
+            placeholder="sponsored, weekly roundup"
+          />
+        </label>
+        <div class="feed-actions">
+          <button type="submit" class="secondary">
+            Save
+          </button>
+          <button
+            type="button"
+            class="secondary outline"
+            hx-delete={`/api/feeds/${feed.id}`}
+            hx-target={`#feed-${feed.id}`}
+            hx-swap="outerHTML"
+            hx-confirm={`Unsubscribe from ${feed.title}? Saved articles are kept.`}
+          >
+            Unsubscribe
+          </button>
+        </div>
+      </form>
+    </details>
+  </li>
+);
+
+interface FeedsPageProps {
+  feeds: FeedWithCount[];
+  error?: string;
+  // Title of the feed just subscribed to
+  subscribed?: string;
+}
+
+export const FeedsPage: FC<FeedsPageProps> = ({ feeds, error, subscribed }) => (
+  <div class="feeds-page">
+    <h1>Feeds</h1>
+    <p>
+      Follow blogs and newsletters with an RSS, Atom or JSON feed. New posts are
+      saved to your inbox and tagged with the feed name. Posts published before
+      subscribing are skipped.
+    </p>
+
+    {error && (
+      <p class="feed-error" role="alert">
+        {error}
+      </p>
+    )}
+
+    {subscribed && (
+      <article class="feed-subscribed">
+        Subscribed to <strong>{subscribed}</strong>.
+      </article>
+    )}
+
+    {/* A full page post, boosted requests don't render error pages */}
+    <form method="post" action="/feeds" class="feed-form" hx-boost="false">
+      <div class="feed-url-input">
+        <input
+          type="url"
+          name="url"
+          placeholder="https://example.com/feed.xml"
+          aria-label="Feed or website address"
+          required
+        />
+        <button type="submit">Subscribe</button>
+      </div>
+      <details>
+        <summary>Filters</summary>
+        <label>
+          Only posts mentioning
+          <input
+            type="text"
+            name="includeKeywords"
+            placeholder="rust, databases"
+          />
+          <small>Comma-separated, matched in titles, summaries and tags.</small>
+        </label>
+        <label>
+          Skip posts mentioning
+          <input
+            type="text"
+            name="excludeKeywords"
+            placeholder="sponsored, weekly roundup"
+          />
+        </label>
+      </details>
+    </form>
+
+    {feeds.length > 0 ? (
+      <ul class="feed-list">
+        {feeds.map((feed) => (
+          <FeedItem feed={feed} />
+        ))}
+      </ul>
+    ) : (
+      <p>
+        <small>No feeds yet.</small>
+      </p>
+    )}
+  </div>
+);
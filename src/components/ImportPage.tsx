@@ -0,0 +1,85 @@
+import type { FC } from "hono/jsx";
+import type { ImportSource } from "../db/types";
+import type { ImportResult } from "../services/import.service";
+
+const SOURCE_NAMES: Record<ImportSource, string> = {
+  pocket: "Pocket",
+  instapaper: "Instapaper",
+  omnivore: "Omnivore",
+  bookmarks: "browser bookmarks",
+};
+
+interface ImportPageProps {
+  // Imported articles not queued for processing yet
+  waiting: number;
+  result?: ImportResult & { source: ImportSource };
+  error?: string;
+}
+
+export const ImportPage: FC<ImportPageProps> = ({ waiting, result, error }) => (
+  <div class="import-page">
+    <h1>Import</h1>
+    <p>
+      Bring your reading list over from another app. Saved dates, archived and
+      favorite state and tags are kept. Links you've already saved, and links to
+      private addresses, are skipped.
+    </p>
+    <ul class="import-sources">
+      <li>
+        <strong>Pocket</strong>: the HTML or CSV export
+      </li>
+      <li>
+        <strong>Instapaper</strong>: the CSV export
+      </li>
+      <li>
+        <strong>Omnivore</strong>: the JSON files of the export
+      </li>
+      <li>
+        <strong>Browsers</strong>: bookmarks exported as HTML
+      </li>
+    </ul>
+
+    {error && (
+      <p class="import-error" role="alert">
+        {error}
+      </p>
+    )}
+
+    {result && (
+      <article class="import-result">
+        Imported {result.imported}{" "}
+        {result.imported === 1 ? "article" : "articles"} from{" "}
+        {SOURCE_NAMES[result.source]}.
+        {result.skipped > 0 &&
+          ` Skipped ${result.skipped} ${result.skipped === 1 ? "link" : "links"} already saved or not allowed.`}
+      </article>
+    )}
+
+    {/* A full page post, boosted requests don't render error pages */}
+    <form
+      method="post"
+      action="/import"
+      enctype="multipart/form-data"
+      class="import-form"
+      hx-boost="false"
+    >
+      <input
+        type="file"
+        name="file"
+        accept=".html,.htm,.csv,.json"
+        aria-label="Export file"
+        required
+      />
+      <button type="submit">Import</button>
+    </form>
+
+    {waiting > 0 && (
+      <p class="import-waiting">
+        <small>
+          {waiting} imported {waiting === 1 ? "article is" : "articles are"}{" "}
+          waiting to be processed. They're fetched a few at a time.
+        </small>
+      </p>
+    )}
+  </div>
+);
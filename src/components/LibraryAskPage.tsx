@@ -0,0 +1,133 @@
+import type { FC } from "hono/jsx";
+import type { LibraryAnswer } from "../services/library-qa.service";
+
+interface LibraryAnswerViewProps {
+  question?: string;
+  result?: LibraryAnswer | null;
+}
+
+/**
+ * Answer text with its [n] markers linked to the cited passages
+ */
+const AnswerText: FC<{ answer: string; numbers: Set<number> }> = ({
+  answer,
+  numbers,
+}) => {
+  // Odd indexes are the captured citation numbers
+  const parts = answer.split(/\[(\d+)\]/);
+
+  return (
+    <p class="library-answer-text">
+      {parts.map((part, index) => {
+        if (index % 2 === 0) return part;
+
+        const number = Number(part);
+        return numbers.has(number) ? (
+          <a href={`#citation-${number}`} class="library-citation-marker">
+            [{number}]
+          </a>
+        ) : (
+          `[${part}]`
+        );
+      })}
+    </p>
+  );
+};
+
+export const LibraryAnswerView: FC<LibraryAnswerViewProps> = ({
+  question,
+  result,
+}) => {
+  if (!question || !result) {
+    return (
+      <div id="library-answer">
+        <div class="empty-state">
+          <p>Ask a question to get an answer from your saved articles</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (result.answer === null) {
+    return (
+      <div id="library-answer">
+        <div class="empty-state">
+          <p>No saved articles match "{question}"</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div id="library-answer">
+      <article class="library-answer">
+        <AnswerText
+          answer={result.answer}
+          numbers={new Set(result.citations.map((c) => c.number))}
+        />
+        {result.citations.length > 0 && (
+          <ol class="library-citations">
+            {result.citations.map((citation) => (
+              <li id={`citation-${citation.number}`} value={citation.number}>
+                <blockquote>{citation.text}</blockquote>
+                <a
+                  href={`/articles/${citation.articleId}?element=${citation.element}`}
+                >
+                  {citation.articleTitle}
+                </a>
+              </li>
+            ))}
+          </ol>
+        )}
+      </article>
+    </div>
+  );
+};
+
+interface LibraryAskPageProps extends LibraryAnswerViewProps {
+  // LLM configured and allowed by the subscription
+  available: boolean;
+}
+
+export const LibraryAskPage: FC<LibraryAskPageProps> = ({
+  question,
+  result,
+  available,
+}) => {
+  return (
+    <div class="container">
+      <h1>Ask your library</h1>
+
+      {available ? (
+        <>
+          <form
+            hx-get="/ask"
+            hx-target="#library-answer"
+            hx-swap="outerHTML"
+            hx-push-url="true"
+            hx-disabled-elt="find button"
+            class="ask-form library-ask-form"
+          >
+            <input
+              type="text"
+              name="q"
+              placeholder="Ask a question about your saved articles"
+              aria-label="Question"
+              value={question || ""}
+              maxlength={2000}
+              autocomplete="off"
+              required
+              autofocus
+            />
+            <button type="submit">Ask</button>
+          </form>
+          <LibraryAnswerView question={question} result={result} />
+        </>
+      ) : (
+        <div class="empty-state">
+          <p>Asking questions requires a subscription</p>
+        </div>
+      )}
+    </div>
+  );
+};
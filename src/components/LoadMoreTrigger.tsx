@@ -1,10 +1,14 @@
 import type { FC } from "hono/jsx";
+import type { SearchMode, TagMatchMode } from "../services/articles.service";
 
 interface LoadMoreTriggerProps {
   nextCursor: string;
   basePath?: string;
   archived?: boolean;
   searchQuery?: string;
+  searchMode?: SearchMode;
+  tags?: string[];
+  tagMode?: TagMatchMode;
 }
 
 export const LoadMoreTrigger: FC<LoadMoreTriggerProps> = ({
@@ -12,6 +16,9 @@ export const LoadMoreTrigger: FC<LoadMoreTriggerProps> = ({
   basePath = "/articles",
   archived,
   searchQuery,
+  searchMode,
+  tags = [],
+  tagMode,
 }) => {
   const buildUrl = () => {
     const params = new URLSearchParams();
@@ -22,6 +29,15 @@ export const LoadMoreTrigger: FC<LoadMoreTriggerProps> = ({
     if (searchQuery) {
       params.set("q", searchQuery);
     }
+    if (searchMode === "semantic") {
+      params.set("mode", searchMode);
+    }
+    for (const tag of tags) {
+      params.append("tag", tag);
+    }
+    if (tags.length > 1 && tagMode === "any") {
+      params.set("match", tagMode);
+    }
     return `${basePath}?${params.toString()}`;
   };
 
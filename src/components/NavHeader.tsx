@@ -53,6 +53,24 @@ export const NavHeader: FC<NavHeaderProps> = ({
                 />
               </button>
               <div class="nav-dropdown">
+                <a href="/ask" class="dropdown-item">
+                  Ask
+                </a>
+                <a href="/tags" class="dropdown-item">
+                  Tags
+                </a>
+                <a href="/feeds" class="dropdown-item">
+                  Feeds
+                </a>
+                <a href="/import" class="dropdown-item">
+                  Import
+                </a>
+                <a href="/export" class="dropdown-item">
+                  Export
+                </a>
+                <a href="/settings" class="dropdown-item">
+                  Settings
+                </a>
                 <form action="/auth/logout" method="post">
                   <button type="submit" class="dropdown-item">
                     Log out
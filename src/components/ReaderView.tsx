@@ -1,8 +1,10 @@
 import type { FC } from "hono/jsx";
-import type { Article, Tag } from "../db/types";
+import type { Article, ArticleQuestion, Tag } from "../db/types";
 import { config } from "../lib/config";
 import { formatReadingTime, formatRelativeTime } from "../lib/date";
-import { TagBadge } from "./TagBadge";
+import { ArticleTags } from "./ArticleTags";
+import { AskPanel } from "./AskPanel";
+import { RelatedArticles } from "./RelatedArticles";
 
 interface ReaderViewProps {
   article: Article & { tags: Tag[] };
@@ -11,8 +13,16 @@ interface ReaderViewProps {
   features: {
     tts: boolean;
     summary: boolean;
+    ask: boolean;
+    delivery: boolean;
   };
 
+  // Earlier questions about the article, shown when asking is allowed
+  questions?: ArticleQuestion[];
+
+  // Closest articles by embedding, listed after the footer
+  relatedArticles?: Article[];
+
   readingPosition?: {
     element: number | null;
     offset: number | null;
@@ -23,6 +33,8 @@ export const ReaderView: FC<ReaderViewProps> = ({
   article,
   content,
   features,
+  questions = [],
+  relatedArticles = [],
   readingPosition,
 }) => {
   const displayTitle = article.title || article.url;
@@ -51,36 +63,31 @@ export const ReaderView: FC<ReaderViewProps> = ({
           </a>
         </div>
 
-        {article.tags.length > 0 && (
-          <div class="reader-tags">
-            {article.tags.map((tag) => (
-              <TagBadge name={tag.name} />
-            ))}
-          </div>
-        )}
+        <ArticleTags articleId={article.id} tags={article.tags} />
       </header>
 
       {features.summary && (
         <section class="reader-summary">
           <details>
-            <summary
-              hx-post={`/api/articles/${article.id}/summarize`}
-              hx-target="#summaries"
-              hx-swap="innerHTML"
-              hx-trigger="click once"
+            <summary>Summary</summary>
+            <stream-view
+              id="summaries"
+              class="summary-content"
+              src={`/api/articles/${article.id}/summary/stream`}
             >
-              Summary
-            </summary>
-            <div id="summaries" class="summary-content">
               <div class="summary-placeholder">
                 <span class="spinner"></span>
                 Generating...
               </div>
-            </div>
+            </stream-view>
           </details>
         </section>
       )}
 
+      {features.ask && (
+        <AskPanel articleId={article.id} questions={questions} />
+      )}
+
       {features.tts && config.GRADIUM_TTS_MODE === "websocket" ? (
         <ws-audio-player article-id={article.id} title={displayTitle} />
       ) : features.tts ? (
@@ -111,6 +118,42 @@ export const ReaderView: FC<ReaderViewProps> = ({
       >
         <div class="reader-actions">
           <share-copy-button data-url={article.url} data-title={displayTitle} />
+          <a
+            href={`/articles/${article.id}/epub`}
+            class="epub-button"
+            title="Download EPUB"
+            hx-boost="false"
+            download
+          >
+            <span class="inverted">
+              <img
+                src="/public/assets/book-down.svg"
+                alt="Download EPUB"
+                class="button-icon"
+              />
+            </span>
+          </a>
+          {features.delivery && (
+            <button
+              type="button"
+              class="deliver-button secondary"
+              hx-post={`/api/articles/${article.id}/deliver`}
+              hx-swap="none"
+              hx-disabled-elt="this"
+              title="Send to Kindle"
+            >
+              <span class="button-text">
+                <img
+                  src="/public/assets/send.svg"
+                  alt="Send to Kindle"
+                  class="button-icon"
+                />
+              </span>
+              <span class="button-loading">
+                <span class="spinner"></span>
+              </span>
+            </button>
+          )}
           {!article.archived && (
             <>
               <button
@@ -188,6 +231,8 @@ export const ReaderView: FC<ReaderViewProps> = ({
           </button>
         </div>
       </footer>
+
+      <RelatedArticles articles={relatedArticles} />
     </div>
   );
 };
@@ -0,0 +1,30 @@
+import type { FC } from "hono/jsx";
+import type { Article } from "../db/types";
+
+interface RelatedArticlesProps {
+  articles: Article[];
+}
+
+export const RelatedArticles: FC<RelatedArticlesProps> = ({ articles }) => {
+  if (articles.length === 0) {
+    return null;
+  }
+
+  return (
+    <section class="reader-related">
+      <h2>Related articles</h2>
+      <ul>
+        {articles.map((article) => (
+          <li>
+            <a href={`/articles/${article.id}`}>
+              {article.title || article.url}
+            </a>
+            {article.siteName && (
+              <span class="site-name">{article.siteName}</span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+};
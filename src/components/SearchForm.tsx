@@ -1,31 +1,63 @@
 import type { FC } from "hono/jsx";
+import type { SearchMode } from "../services/articles.service";
 
 interface SearchFormProps {
   query?: string;
-  status?: string;
+  mode?: SearchMode;
 }
 
-export const SearchForm: FC<SearchFormProps> = ({ query, status }) => {
-  const currentStatus = status || "all";
+const SYNTAX_EXAMPLES: Array<[string, string]> = [
+  ["tag:rust", "tagged with rust"],
+  ["site:nytimes.com", "from a site or domain"],
+  ["is:archived", "also is:unread, is:liked"],
+  ["lang:de", "in a language"],
+  ["before:2026-01-01", "saved before a date"],
+  ['"exact phrase"', "words in this order"],
+  ["-word", "exclude (also -tag:news, -is:archived)"],
+];
 
+export const SearchForm: FC<SearchFormProps> = ({ query, mode }) => {
   return (
     <form
-      hx-get="/articles"
-      hx-target="#article-container"
-      hx-trigger="submit, keyup changed delay:500ms from:#search-input"
+      hx-get="/search"
+      hx-target="#search-results"
+      hx-trigger="submit, keyup changed delay:500ms from:#search-input, change from:#search-mode"
       hx-swap="outerHTML"
       hx-push-url="true"
       class="search-form"
     >
-      <input type="hidden" name="status" value={currentStatus} />
-      <input
-        type="search"
-        id="search-input"
-        name="q"
-        placeholder="Search articles..."
-        value={query || ""}
-        autocomplete="off"
-      />
+      <div class="search-bar">
+        <input
+          type="search"
+          id="search-input"
+          name="q"
+          placeholder="Search all articles..."
+          value={query || ""}
+          autocomplete="off"
+          autofocus
+        />
+        <select id="search-mode" name="mode" aria-label="Search mode">
+          <option value="keyword" selected={mode !== "semantic"}>
+            Keywords
+          </option>
+          <option value="semantic" selected={mode === "semantic"}>
+            Meaning
+          </option>
+        </select>
+      </div>
+      <details class="search-syntax">
+        <summary>Search syntax</summary>
+        <dl>
+          {SYNTAX_EXAMPLES.map(([example, description]) => (
+            <>
+              <dt>
+                <code>{example}</code>
+              </dt>
+              <dd>{description}</dd>
+            </>
+          ))}
+        </dl>
+      </details>
     </form>
   );
 };
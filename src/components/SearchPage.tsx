@@ -1,20 +1,25 @@
 import type { FC } from "hono/jsx";
 import type { Article, Tag } from "../db/types";
+import type { SearchMode } from "../services/articles.service";
 import { ArticleCard } from "./ArticleCard";
 import { LoadMoreTrigger } from "./LoadMoreTrigger";
+import { SearchForm } from "./SearchForm";
 
 type ArticleWithTags = Article & {
   tags: Tag[];
+  snippet?: string | null;
 };
 
 interface SearchPageProps {
   query?: string;
+  mode?: SearchMode;
   articles: ArticleWithTags[];
   nextCursor?: string | null;
 }
 
 export const SearchResults: FC<SearchPageProps> = ({
   query,
+  mode,
   articles,
   nextCursor,
 }) => {
@@ -31,6 +36,7 @@ export const SearchResults: FC<SearchPageProps> = ({
                 nextCursor={nextCursor}
                 basePath="/search"
                 searchQuery={query}
+                searchMode={mode}
               />
             )}
           </div>
@@ -50,6 +56,7 @@ export const SearchResults: FC<SearchPageProps> = ({
 
 export const SearchPage: FC<SearchPageProps> = ({
   query,
+  mode,
   articles,
   nextCursor,
 }) => {
@@ -57,26 +64,10 @@ export const SearchPage: FC<SearchPageProps> = ({
     <div>
       <h1>Search</h1>
 
-      <form
-        hx-get="/search"
-        hx-target="#search-results"
-        hx-trigger="submit, keyup changed delay:500ms from:#search-input"
-        hx-swap="outerHTML"
-        hx-push-url="true"
-        class="search-form"
-      >
-        <input
-          type="search"
-          id="search-input"
-          name="q"
-          placeholder="Search all articles..."
-          value={query || ""}
-          autocomplete="off"
-          autofocus
-        />
-      </form>
+      <SearchForm query={query} mode={mode} />
       <SearchResults
         query={query}
+        mode={mode}
         articles={articles}
         nextCursor={nextCursor}
       />
@@ -3,27 +3,41 @@ import type { SummaryResult } from "../lib/llm";
 
 interface SummaryViewProps {
   summary: SummaryResult;
+  // Still generating: the stream-view element appends text to the fields
+  streaming?: boolean;
 }
 
-export const SummaryView: FC<SummaryViewProps> = ({ summary }) => {
+export const SummaryView: FC<SummaryViewProps> = ({ summary, streaming }) => {
   return (
     <div class="summary-container">
       <div class="summary-section">
         <h4>One Sentence</h4>
-        <p>{summary.oneSentence}</p>
+        <p data-stream-field="oneSentence">{summary.oneSentence}</p>
       </div>
 
       <div class="summary-section">
         <h4>One Paragraph</h4>
-        <p>{summary.oneParagraph}</p>
+        <p data-stream-field="oneParagraph">{summary.oneParagraph}</p>
       </div>
 
       <details class="summary-section">
         <summary>
           <strong>Detailed</strong>
         </summary>
-        <p style="white-space: pre-wrap; margin-top: 1rem;">{summary.long}</p>
+        <p
+          data-stream-field="long"
+          style="white-space: pre-wrap; margin-top: 1rem;"
+        >
+          {summary.long}
+        </p>
       </details>
+
+      {streaming && (
+        <div class="summary-placeholder">
+          <span class="spinner"></span>
+          Generating...
+        </div>
+      )}
     </div>
   );
 };
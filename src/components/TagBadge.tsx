@@ -5,5 +5,9 @@ interface TagBadgeProps {
 }
 
 export const TagBadge: FC<TagBadgeProps> = ({ name }) => {
-  return <span class="tag-badge">{name}</span>;
+  return (
+    <a href={`/tags/${encodeURIComponent(name)}`} class="tag-badge">
+      {name}
+    </a>
+  );
 };
@@ -0,0 +1,68 @@
+import type { FC } from "hono/jsx";
+import type { TagMatchMode } from "../services/articles.service";
+
+interface TagFilterBarProps {
+  basePath: string;
+  tags: string[];
+  tagMode: TagMatchMode;
+}
+
+/**
+ * Build a list URL with the given tag filters
+ */
+export function buildTagFilterUrl(
+  basePath: string,
+  tags: string[],
+  tagMode: TagMatchMode,
+): string {
+  const params = new URLSearchParams();
+  for (const tag of tags) {
+    params.append("tag", tag);
+  }
+  if (tags.length > 1 && tagMode === "any") {
+    params.set("match", "any");
+  }
+
+  const query = params.toString();
+  return query ? `${basePath}?${query}` : basePath;
+}
+
+export const TagFilterBar: FC<TagFilterBarProps> = ({
+  basePath,
+  tags,
+  tagMode,
+}) => {
+  return (
+    <nav class="tag-filter-bar" aria-label="Tag filters">
+      <span>Tagged</span>
+      {tags.map((tag) => (
+        <a
+          href={buildTagFilterUrl(
+            basePath,
+            tags.filter((t) => t !== tag),
+            tagMode,
+          )}
+          class="tag-badge"
+          title={`Remove ${tag}`}
+        >
+          {tag} ×
+        </a>
+      ))}
+      {tags.length > 1 && (
+        <a
+          href={buildTagFilterUrl(
+            basePath,
+            tags,
+            tagMode === "any" ? "all" : "any",
+          )}
+          class="tag-filter-mode"
+        >
+          {tagMode === "any" ? "Match all tags" : "Match any tag"}
+        </a>
+      )}
+      <a href={basePath} class="tag-filter-clear">
+        Clear
+      </a>
+    </nav>
+  );
+};
@@ -0,0 +1,107 @@
+import type { FC } from "hono/jsx";
+import type { Article, Tag } from "../db/types";
+import type { TagWithCount } from "../services/tags.service";
+import { ArticleList } from "./ArticleList";
+
+interface TagsPageProps {
+  tags: TagWithCount[];
+}
+
+/**
+ * All tags with article counts
+ * Selecting several tags filters the inbox or the archive by them
+ */
+export const TagsPage: FC<TagsPageProps> = ({ tags }) => {
+  return (
+    <div>
+      <h1>Tags</h1>
+
+      {tags.length === 0 ? (
+        <div class="empty-state">
+          <p>No tags yet</p>
+        </div>
+      ) : (
+        <form action="/articles" method="get" class="tag-filter-form">
+          <ul class="tag-list">
+            {tags.map((tag) => (
+              <li>
+                <input
+                  type="checkbox"
+                  name="tag"
+                  value={tag.name}
+                  aria-label={`Select ${tag.name}`}
+                />
+                <a
+                  href={`/tags/${encodeURIComponent(tag.name)}`}
+                  class="tag-badge"
+                >
+                  {tag.name}
+                </a>
+                <small class="tag-count">{tag.articleCount}</small>
+              </li>
+            ))}
+          </ul>
+          <fieldset class="tag-filter-actions">
+            <select name="match" aria-label="Match">
+              <option value="all">Match all selected</option>
+              <option value="any">Match any selected</option>
+            </select>
+            <button type="submit">Filter inbox</button>
+            <button type="submit" formaction="/archive" class="secondary">
+              Filter archive
+            </button>
+          </fieldset>
+        </form>
+      )}
+
+      {tags.length > 0 && (
+        <p>
+          <small>
+            <a href="/settings#tag-management">Manage tags</a>
+          </small>
+        </p>
+      )}
+    </div>
+  );
+};
+
+interface TagArticlesPageProps {
+  tag: Tag;
+  articleCount: number;
+  articles: (Article & { tags: Tag[] })[];
+  nextCursor: string | null;
+}
+
+/**
+ * All completed articles with a tag, inbox and archive together
+ */
+export const TagArticlesPage: FC<TagArticlesPageProps> = ({
+  tag,
+  articleCount,
+  articles,
+  nextCursor,
+}) => {
+  const tagQuery = `tag=${encodeURIComponent(tag.name)}`;
+
+  return (
+    <div>
+      <h1>{tag.name}</h1>
+      <p class="tag-page-meta">
+        <small>
+          {articleCount} {articleCount === 1 ? "article" : "articles"} •{" "}
+          <a href={`/articles?${tagQuery}`}>Inbox</a> •{" "}
+          <a href={`/archive?${tagQuery}`}>Archive</a> •{" "}
+          <a href={`/epub?${tagQuery}`} hx-boost="false" download>
+            Unread as EPUB
+          </a>{" "}
+          • <a href="/tags">All tags</a>
+        </small>
+      </p>
+      <ArticleList
+        articles={articles}
+        nextCursor={nextCursor}
+        basePath={`/tags/${encodeURIComponent(tag.name)}`}
+      />
+    </div>
+  );
+};
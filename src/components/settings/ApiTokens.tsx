@@ -0,0 +1,82 @@
+import type { FC } from "hono/jsx";
+import type { ApiToken } from "../../db/types";
+import { formatRelativeTime } from "../../lib/date";
+
+interface ApiTokensProps {
+  tokens: ApiToken[];
+  // Raw value of a freshly created token, shown exactly once
+  newToken?: string;
+}
+
+export const ApiTokens: FC<ApiTokensProps> = ({ tokens, newToken }) => {
+  return (
+    <section id="api-tokens" class="settings-section">
+      <h2>API tokens</h2>
+      <p>
+        <small>
+          Use personal tokens with the JSON API at <code>/api/v1</code>:{" "}
+          <code>Authorization: Bearer &lt;token&gt;</code>
+        </small>
+      </p>
+
+      {newToken && (
+        <article class="new-token">
+          <p>Copy your new token now. You won't be able to see it again.</p>
+          <input type="text" value={newToken} readonly aria-label="New token" />
+        </article>
+      )}
+
+      {tokens.length > 0 ? (
+        <ul class="token-list">
+          {tokens.map((token) => (
+            <li class="token-item">
+              <div>
+                <strong>{token.name}</strong>
+                <br />
+                <small>
+                  Created {formatRelativeTime(token.createdAt)} •{" "}
+                  {token.lastUsedAt
+                    ? `Last used ${formatRelativeTime(token.lastUsedAt)}`
+                    : "Never used"}
+                </small>
+              </div>
+              <button
+                type="button"
+                class="secondary outline"
+                hx-delete={`/api/tokens/${token.id}`}
+                hx-target="#api-tokens"
+                hx-swap="outerHTML"
+                hx-confirm={`Revoke token "${token.name}"? Anything using it will stop working.`}
+              >
+                Revoke
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p>
+          <small>No tokens yet.</small>
+        </p>
+      )}
+
+      <form
+        hx-post="/api/tokens"
+        hx-target="#api-tokens"
+        hx-swap="outerHTML"
+        class="token-form"
+      >
+        <fieldset>
+          <input
+            type="text"
+            name="name"
+            placeholder="Token name, e.g. laptop script"
+            maxlength={100}
+            autocomplete="off"
+            required
+          />
+          <button type="submit">Create token</button>
+        </fieldset>
+      </form>
+    </section>
+  );
+};
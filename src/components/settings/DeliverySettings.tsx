@@ -0,0 +1,58 @@
+import type { FC } from "hono/jsx";
+import type { DeliveryPreferences } from "../../db/types";
+
+interface DeliverySettingsProps {
+  preferences: DeliveryPreferences;
+  senderAddress: string;
+}
+
+export const DeliverySettings: FC<DeliverySettingsProps> = ({
+  preferences,
+  senderAddress,
+}) => {
+  return (
+    <section id="delivery-settings" class="settings-section">
+      <h2>Send to Kindle</h2>
+      <p>
+        <small>
+          Articles are emailed to this address from the reader. For a Kindle,
+          use its Send to Kindle address and add{" "}
+          <strong>{senderAddress}</strong> to the approved senders in your
+          Amazon account.
+        </small>
+      </p>
+
+      <form
+        hx-post="/api/preferences/delivery"
+        hx-target="#delivery-settings"
+        hx-swap="outerHTML"
+        class="delivery-preferences"
+      >
+        <label>
+          Delivery address
+          <input
+            type="email"
+            name="email"
+            value={preferences.email ?? ""}
+            placeholder="name@kindle.com"
+            autocomplete="off"
+          />
+        </label>
+        <label>
+          Format
+          <select name="format">
+            <option value="epub" selected={preferences.format === "epub"}>
+              EPUB, with images
+            </option>
+            <option value="html" selected={preferences.format === "html"}>
+              HTML
+            </option>
+          </select>
+        </label>
+        <button type="submit" class="secondary">
+          Save delivery settings
+        </button>
+      </form>
+    </section>
+  );
+};
@@ -0,0 +1,97 @@
+import type { FC } from "hono/jsx";
+import type { DigestPreferences } from "../../db/types";
+
+interface DigestSettingsProps {
+  preferences: DigestPreferences;
+}
+
+const WEEKDAYS = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+export const DigestSettings: FC<DigestSettingsProps> = ({ preferences }) => {
+  return (
+    <section id="digest-settings" class="settings-section">
+      <h2>Reading digest</h2>
+      <p>
+        <small>
+          The bot sends a few unread articles: the one waiting the longest, a
+          quick read and one matching the tags of articles you liked. Snoozed
+          articles are skipped for a week.
+        </small>
+      </p>
+
+      <form
+        hx-post="/api/preferences/digest"
+        hx-target="#digest-settings"
+        hx-swap="outerHTML"
+        class="digest-preferences"
+      >
+        <div class="grid">
+          <label>
+            Frequency
+            <select name="frequency">
+              <option value="off" selected={preferences.frequency === "off"}>
+                Off
+              </option>
+              <option
+                value="daily"
+                selected={preferences.frequency === "daily"}
+              >
+                Daily
+              </option>
+              <option
+                value="weekly"
+                selected={preferences.frequency === "weekly"}
+              >
+                Weekly
+              </option>
+            </select>
+          </label>
+          <label>
+            Day (weekly)
+            <select name="weekday">
+              {WEEKDAYS.map((day, index) => (
+                <option value={index} selected={preferences.weekday === index}>
+                  {day}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Time (UTC)
+            <select name="hour">
+              {HOURS.map((hour) => (
+                <option value={hour} selected={preferences.hour === hour}>
+                  {`${String(hour).padStart(2, "0")}:00`}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Articles
+            <input
+              type="number"
+              name="size"
+              min={1}
+              max={10}
+              value={preferences.size}
+              required
+            />
+          </label>
+        </div>
+        <button type="submit" class="secondary">
+          Save digest settings
+        </button>
+      </form>
+    </section>
+  );
+};
@@ -0,0 +1,38 @@
+import type { FC } from "hono/jsx";
+
+interface InboundEmailProps {
+  address: string;
+}
+
+export const InboundEmail: FC<InboundEmailProps> = ({ address }) => {
+  return (
+    <section id="inbound-email" class="settings-section">
+      <h2>Newsletters</h2>
+      <p>
+        <small>
+          Subscribe to newsletters with this address, or forward emails to it.
+          Every email is saved as an article. Reset the address if it gets spam.
+        </small>
+      </p>
+
+      <input
+        type="text"
+        value={address}
+        readonly
+        aria-label="Newsletter address"
+        class="inbound-email-address"
+      />
+
+      <button
+        type="button"
+        class="secondary outline reset-inbound-email"
+        hx-post="/api/inbound-email/reset"
+        hx-target="#inbound-email"
+        hx-swap="outerHTML"
+        hx-confirm="Reset the address? Emails sent to the old one will be refused."
+      >
+        Reset address
+      </button>
+    </section>
+  );
+};
@@ -0,0 +1,58 @@
+import type { FC } from "hono/jsx";
+import { config } from "../../lib/config";
+
+interface ReadingFeedsProps {
+  token: string;
+}
+
+export const ReadingFeeds: FC<ReadingFeedsProps> = ({ token }) => {
+  const baseUrl = `${config.APP_URL}/feeds/${token}`;
+
+  return (
+    <section id="reading-feeds" class="settings-section">
+      <h2>Private feeds</h2>
+      <p>
+        <small>
+          Follow your reading in any feed reader. Entries include the article
+          and its summary. Anyone with these links can read them, reset them if
+          they leak.
+        </small>
+      </p>
+
+      <label>
+        Unread
+        <input
+          type="text"
+          value={`${baseUrl}/unread.xml`}
+          readonly
+          class="feed-link"
+        />
+      </label>
+      <label>
+        Liked
+        <input
+          type="text"
+          value={`${baseUrl}/liked.xml`}
+          readonly
+          class="feed-link"
+        />
+      </label>
+      <p>
+        <small>
+          For a tag: <code>{`${baseUrl}/tag/<name>.xml`}</code>
+        </small>
+      </p>
+
+      <button
+        type="button"
+        class="secondary outline reset-feed-links"
+        hx-post="/api/reading-feeds/reset"
+        hx-target="#reading-feeds"
+        hx-swap="outerHTML"
+        hx-confirm="Reset the feed links? Feed readers using them will stop updating."
+      >
+        Reset links
+      </button>
+    </section>
+  );
+};
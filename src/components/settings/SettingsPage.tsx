@@ -0,0 +1,60 @@
+import type { FC } from "hono/jsx";
+import type {
+  ApiToken,
+  DeliveryPreferences,
+  DigestPreferences,
+  TaggingPreferences,
+} from "../../db/types";
+import type { TagSuggestionWithNames } from "../../services/tag-consolidation.service";
+import type { TagWithCount } from "../../services/tags.service";
+import { ApiTokens } from "./ApiTokens";
+import { DeliverySettings } from "./DeliverySettings";
+import { DigestSettings } from "./DigestSettings";
+import { InboundEmail } from "./InboundEmail";
+import { ReadingFeeds } from "./ReadingFeeds";
+import { TagManagement } from "./TagManagement";
+
+interface SettingsPageProps {
+  apiTokens: ApiToken[];
+  tags: TagWithCount[];
+  tagSuggestions: TagSuggestionWithNames[];
+  taggingPreferences: TaggingPreferences;
+  digestPreferences: DigestPreferences;
+  feedToken: string;
+  // Only when inbound email is configured on the server
+  inboundEmailAddress?: string;
+  // Only when email delivery is configured on the server
+  delivery?: { preferences: DeliveryPreferences; senderAddress: string };
+}
+
+export const SettingsPage: FC<SettingsPageProps> = ({
+  apiTokens,
+  tags,
+  tagSuggestions,
+  taggingPreferences,
+  digestPreferences,
+  feedToken,
+  inboundEmailAddress,
+  delivery,
+}) => {
+  return (
+    <div class="settings-page">
+      <h1>Settings</h1>
+      <TagManagement
+        tags={tags}
+        suggestions={tagSuggestions}
+        preferences={taggingPreferences}
+      />
+      <DigestSettings preferences={digestPreferences} />
+      {delivery && (
+        <DeliverySettings
+          preferences={delivery.preferences}
+          senderAddress={delivery.senderAddress}
+        />
+      )}
+      {inboundEmailAddress && <InboundEmail address={inboundEmailAddress} />}
+      <ReadingFeeds token={feedToken} />
+      <ApiTokens tokens={apiTokens} />
+    </div>
+  );
+};
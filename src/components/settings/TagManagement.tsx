@@ -0,0 +1,184 @@
+import type { FC } from "hono/jsx";
+import type { TaggingPreferences } from "../../db/types";
+import type { TagSuggestionWithNames } from "../../services/tag-consolidation.service";
+import type { TagWithCount } from "../../services/tags.service";
+
+interface TagManagementProps {
+  tags: TagWithCount[];
+  suggestions: TagSuggestionWithNames[];
+  preferences: TaggingPreferences;
+}
+
+export const TagManagement: FC<TagManagementProps> = ({
+  tags,
+  suggestions,
+  preferences,
+}) => {
+  return (
+    <section id="tag-management" class="settings-section">
+      <h2>Tags</h2>
+      <p>
+        <small>
+          Rename, merge or delete tags. Merging moves all articles to the other
+          tag. Deleting removes the tag from all articles.
+        </small>
+      </p>
+
+      {suggestions.length > 0 && (
+        <article class="tag-suggestions">
+          <h3>Suggested merges</h3>
+          <ul class="tag-suggestion-list">
+            {suggestions.map((suggestion) => (
+              <li class="tag-suggestion">
+                <span>
+                  <strong>{suggestion.sourceName}</strong> →{" "}
+                  <strong>{suggestion.targetName}</strong>
+                  {suggestion.reason && <small> ({suggestion.reason})</small>}
+                </span>
+                <span class="tag-suggestion-actions">
+                  <button
+                    type="button"
+                    hx-post={`/api/tag-suggestions/${suggestion.id}/approve`}
+                    hx-target="#tag-management"
+                    hx-swap="outerHTML"
+                  >
+                    Merge
+                  </button>
+                  <button
+                    type="button"
+                    class="secondary outline"
+                    hx-post={`/api/tag-suggestions/${suggestion.id}/dismiss`}
+                    hx-target="#tag-management"
+                    hx-swap="outerHTML"
+                  >
+                    Dismiss
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </article>
+      )}
+
+      {tags.length > 0 ? (
+        <ul class="tag-manage-list">
+          {tags.map((tag) => (
+            <li class="tag-manage-item">
+              <details>
+                <summary>
+                  <strong>{tag.name}</strong>{" "}
+                  <small>
+                    {tag.articleCount}{" "}
+                    {tag.articleCount === 1 ? "article" : "articles"}
+                    {tag.autoGenerated && " • auto"}
+                  </small>
+                </summary>
+
+                <form
+                  hx-post={`/api/tags/${tag.id}/rename`}
+                  hx-target="#tag-management"
+                  hx-swap="outerHTML"
+                >
+                  <div class="tag-manage-row">
+                    <input
+                      type="text"
+                      name="name"
+                      value={tag.name}
+                      aria-label={`New name for ${tag.name}`}
+                      maxlength={100}
+                      autocomplete="off"
+                      required
+                    />
+                    <button type="submit" class="secondary">
+                      Rename
+                    </button>
+                  </div>
+                </form>
+
+                {tags.length > 1 && (
+                  <form
+                    hx-post={`/api/tags/${tag.id}/merge`}
+                    hx-target="#tag-management"
+                    hx-swap="outerHTML"
+                    hx-confirm={`Merge "${tag.name}" into the selected tag? "${tag.name}" will be removed.`}
+                  >
+                    <div class="tag-manage-row">
+                      <select
+                        name="targetId"
+                        aria-label={`Merge ${tag.name} into`}
+                        required
+                      >
+                        {tags
+                          .filter((other) => other.id !== tag.id)
+                          .map((other) => (
+                            <option value={other.id}>{other.name}</option>
+                          ))}
+                      </select>
+                      <button type="submit" class="secondary">
+                        Merge
+                      </button>
+                    </div>
+                  </form>
+                )}
+
+                <button
+                  type="button"
+                  class="secondary outline"
+                  hx-delete={`/api/tags/${tag.id}`}
+                  hx-target="#tag-management"
+                  hx-swap="outerHTML"
+                  hx-confirm={`Delete tag "${tag.name}"? It will be removed from all articles.`}
+                >
+                  Delete
+                </button>
+              </details>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p>
+          <small>No tags yet.</small>
+        </p>
+      )}
+
+      <form
+        hx-post="/api/preferences/tagging"
+        hx-target="#tag-management"
+        hx-swap="outerHTML"
+        class="tagging-preferences"
+      >
+        <label>
+          New tags per article
+          <input
+            type="number"
+            name="maxNewTagsPerArticle"
+            min={0}
+            max={10}
+            value={preferences.maxNewTagsPerArticle}
+            required
+          />
+          <small>
+            Automatic tagging always reuses existing tags, but creates at most
+            this many new ones per article.
+          </small>
+        </label>
+        <label>
+          <input
+            type="checkbox"
+            name="autoApplyConsolidation"
+            value="true"
+            checked={preferences.autoApplyConsolidation}
+          />
+          Merge duplicate tags automatically
+        </label>
+        <small>
+          Tags are reviewed weekly for synonyms and duplicates. Tags you created
+          or renamed always need your approval.
+        </small>
+        <button type="submit" class="secondary">
+          Save tagging settings
+        </button>
+      </form>
+    </section>
+  );
+};
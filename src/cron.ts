@@ -1,7 +1,14 @@
 import { Cron } from "croner";
+import { bot } from "./bot";
+import { config } from "./lib/config";
 import { cleanupOldCache } from "./lib/content-cache";
 import { defaultLogger } from "./lib/logger";
 import { cleanupExpiredTokens } from "./services/auth.service";
+import { sendScheduledDigests } from "./services/digest.service";
+import { cleanupOldExports } from "./services/export.service";
+import { pollDueFeeds } from "./services/feeds.service";
+import { queueImportedArticles } from "./services/import.service";
+import { runTagConsolidation } from "./services/tag-consolidation.service";
 
 const logger = defaultLogger.child({ module: "cron" });
 
@@ -19,7 +26,14 @@ export function startCrons(): void {
   });
   logger.info("Registered cron: Cache cleanup (daily at 3am)");
 
-  // 3. Auth Token Cleanup - hourly
+  // 3. Export Cleanup - daily at 3:30am
+  new Cron("30 3 * * *", async () => {
+    logger.info("Running export cleanup...");
+    await cleanupOldExports();
+  });
+  logger.info("Registered cron: Export cleanup (daily at 3:30am)");
+
+  // 4. Auth Token Cleanup - hourly
   new Cron("0 * * * *", async () => {
     logger.info("Running auth token cleanup...");
     const count = await cleanupExpiredTokens();
@@ -27,5 +41,41 @@ export function startCrons(): void {
   });
   logger.info("Registered cron: Auth token cleanup (hourly)");
 
+  // 5. Tag Consolidation - weekly on Sunday at 4am
+  new Cron("0 4 * * 0", async () => {
+    logger.info("Running tag consolidation...");
+    await runTagConsolidation();
+  });
+  logger.info("Registered cron: Tag consolidation (weekly on Sunday at 4am)");
+
+  // 6. Imported Articles - every minute, rate limited
+  new Cron("* * * * *", async () => {
+    const count = await queueImportedArticles(
+      config.IMPORT_ARTICLES_PER_MINUTE,
+    );
+    if (count > 0) {
+      logger.info(`Queued ${count} imported articles`);
+    }
+  });
+  logger.info("Registered cron: Imported articles queue (every minute)");
+
+  // 7. Feed Subscriptions - every 5 minutes, each feed once per interval
+  new Cron("*/5 * * * *", async () => {
+    const count = await pollDueFeeds();
+    if (count > 0) {
+      logger.info(`Saved ${count} articles from feeds`);
+    }
+  });
+  logger.info("Registered cron: Feed subscriptions (every 5 minutes)");
+
+  // 8. Telegram Digests - hourly, for users scheduled at that hour
+  new Cron("0 * * * *", async () => {
+    const count = await sendScheduledDigests(bot.api);
+    if (count > 0) {
+      logger.info(`Sent ${count} digests`);
+    }
+  });
+  logger.info("Registered cron: Telegram digests (hourly)");
+
   logger.info("All cron jobs started successfully");
 }
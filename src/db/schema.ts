@@ -1,15 +1,33 @@
 import { sql } from "drizzle-orm";
-import { index, integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+import {
+  blob,
+  index,
+  integer,
+  sqliteTable,
+  text,
+  uniqueIndex,
+} from "drizzle-orm/sqlite-core";
 
-export const users = sqliteTable("users", {
-  id: text("id")
-    .primaryKey()
-    .$defaultFn(() => crypto.randomUUID()),
-  createdAt: integer("created_at", { mode: "timestamp" })
-    .notNull()
-    .default(sql`(unixepoch())`),
-  preferences: text("preferences").notNull().default("{}"),
-});
+export const users = sqliteTable(
+  "users",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(unixepoch())`),
+    preferences: text("preferences").notNull().default("{}"),
+    // Secret part of the private feed URLs, created when first shown
+    feedToken: text("feed_token"),
+    // Local part of the newsletter address, created when first shown
+    inboundEmailToken: text("inbound_email_token"),
+  },
+  (table) => [
+    uniqueIndex("users_feed_token_idx").on(table.feedToken),
+    uniqueIndex("users_inbound_email_token_idx").on(table.inboundEmailToken),
+  ],
+);
 
 export const subscriptionType = ["full", "lite"] as const;
 
@@ -72,6 +90,9 @@ export const articles = sqliteTable(
       .notNull()
       .references(() => users.id, { onDelete: "cascade" }),
     url: text("url").notNull(),
+    // Dedupe key, unique per user. Null for content without a link of its
+    // own, like long Telegram messages
+    canonicalUrl: text("canonical_url"),
     title: text("title"),
     description: text("description"),
     imageUrl: text("image_url"),
@@ -95,8 +116,12 @@ export const articles = sqliteTable(
       .default(sql`(unixepoch())`),
     wordCount: integer("word_count"),
     readingTimeSeconds: integer("reading_time_seconds"),
+    // PDFs sent to the bot, read by the worker with the cached content
+    pageCount: integer("page_count"),
     readingPositionElement: integer("reading_position_element"),
     readingPositionOffset: integer("reading_position_offset"),
+    // Left out of digests until then
+    snoozedUntil: integer("snoozed_until", { mode: "timestamp" }),
   },
   (table) => [
     index("articles_user_id_idx").on(table.userId),
@@ -104,6 +129,10 @@ export const articles = sqliteTable(
     index("articles_archived_idx").on(table.archived),
     index("articles_rating_idx").on(table.rating),
     index("articles_created_at_idx").on(table.createdAt),
+    uniqueIndex("articles_user_id_canonical_url_idx").on(
+      table.userId,
+      table.canonicalUrl,
+    ),
   ],
 );
 
@@ -139,6 +168,11 @@ export const articleTags = sqliteTable(
     tagId: text("tag_id")
       .notNull()
       .references(() => tags.id, { onDelete: "cascade" }),
+    // Extracted by the worker and replaced on reprocessing, unlike tags added
+    // by hand or imported, even when they share the tag
+    autoGenerated: integer("auto_generated", { mode: "boolean" })
+      .notNull()
+      .default(false),
     createdAt: integer("created_at", { mode: "timestamp" })
       .notNull()
       .default(sql`(unixepoch())`),
@@ -169,6 +203,163 @@ export const articleSummaries = sqliteTable(
   (table) => [index("article_summaries_article_id_idx").on(table.articleId)],
 );
 
+export const articleQuestions = sqliteTable(
+  "article_questions",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    articleId: text("article_id")
+      .notNull()
+      .references(() => articles.id, { onDelete: "cascade" }),
+    question: text("question").notNull(),
+    // Null until the answer has been generated
+    answer: text("answer"),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(unixepoch())`),
+  },
+  (table) => [index("article_questions_article_id_idx").on(table.articleId)],
+);
+
+export const articleEmbeddings = sqliteTable("article_embeddings", {
+  articleId: text("article_id")
+    .primaryKey()
+    .references(() => articles.id, { onDelete: "cascade" }),
+  // Vectors from different models can't be compared
+  model: text("model").notNull(),
+  // Little-endian float32 array, L2-normalized
+  vector: blob("vector", { mode: "buffer" }).notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+});
+
+export const importSource = [
+  "pocket",
+  "instapaper",
+  "omnivore",
+  "bookmarks",
+] as const;
+
+export const articleImports = sqliteTable(
+  "article_imports",
+  {
+    articleId: text("article_id")
+      .primaryKey()
+      .references(() => articles.id, { onDelete: "cascade" }),
+    source: text("source", { enum: importSource }).notNull(),
+    // Imported articles are queued for processing a few at a time
+    queuedAt: integer("queued_at", { mode: "timestamp" }),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(unixepoch())`),
+  },
+  (table) => [index("article_imports_queued_at_idx").on(table.queuedAt)],
+);
+
+export const feeds = sqliteTable(
+  "feeds",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    url: text("url").notNull(),
+    // Saved articles are tagged with it
+    title: text("title").notNull(),
+    siteUrl: text("site_url"),
+    // Comma-separated, matched against entry titles, summaries and categories
+    includeKeywords: text("include_keywords").notNull().default(""),
+    excludeKeywords: text("exclude_keywords").notNull().default(""),
+    // Validators of the last response for conditional requests
+    etag: text("etag"),
+    lastModified: text("last_modified"),
+    lastFetchedAt: integer("last_fetched_at", { mode: "timestamp" }),
+    lastError: text("last_error"),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(unixepoch())`),
+  },
+  (table) => [
+    uniqueIndex("feeds_user_id_url_idx").on(table.userId, table.url),
+    index("feeds_last_fetched_at_idx").on(table.lastFetchedAt),
+  ],
+);
+
+// Entries already seen, saved or filtered out
+export const feedEntries = sqliteTable(
+  "feed_entries",
+  {
+    feedId: text("feed_id")
+      .notNull()
+      .references(() => feeds.id, { onDelete: "cascade" }),
+    entryId: text("entry_id").notNull(),
+    // Null when filtered out, or published before subscribing
+    articleId: text("article_id").references(() => articles.id, {
+      onDelete: "set null",
+    }),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(unixepoch())`),
+  },
+  (table) => [
+    uniqueIndex("feed_entries_feed_id_entry_id_idx").on(
+      table.feedId,
+      table.entryId,
+    ),
+  ],
+);
+
+// Emails already saved, so a message delivered again after a failure for
+// another recipient isn't saved twice
+export const inboundEmails = sqliteTable(
+  "inbound_emails",
+  {
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    messageId: text("message_id").notNull(),
+    articleId: text("article_id")
+      .notNull()
+      .references(() => articles.id, { onDelete: "cascade" }),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(unixepoch())`),
+  },
+  (table) => [
+    uniqueIndex("inbound_emails_user_id_message_id_idx").on(
+      table.userId,
+      table.messageId,
+    ),
+  ],
+);
+
+export const exportStatus = ["pending", "completed", "failed"] as const;
+
+export const accountExports = sqliteTable(
+  "account_exports",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    status: text("status", { enum: exportStatus }).notNull().default("pending"),
+    // Size of the zip file in bytes, once completed
+    fileSize: integer("file_size"),
+    error: text("error"),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(unixepoch())`),
+    completedAt: integer("completed_at", { mode: "timestamp" }),
+  },
+  (table) => [index("account_exports_user_id_idx").on(table.userId)],
+);
+
 export const authTokens = sqliteTable(
   "auth_tokens",
   {
@@ -187,3 +378,51 @@ export const authTokens = sqliteTable(
     index("auth_tokens_expires_at_idx").on(table.expiresAt),
   ],
 );
+
+export const apiTokens = sqliteTable(
+  "api_tokens",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    name: text("name").notNull(),
+    tokenHash: text("token_hash").notNull().unique(), // SHA-256 hex, the raw token is never stored
+    lastUsedAt: integer("last_used_at", { mode: "timestamp" }),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(unixepoch())`),
+  },
+  (table) => [index("api_tokens_user_id_idx").on(table.userId)],
+);
+
+export const tagSuggestionStatus = ["pending", "dismissed"] as const;
+
+export const tagSuggestions = sqliteTable(
+  "tag_suggestions",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    // Proposed merge: source is folded into target
+    sourceTagId: text("source_tag_id")
+      .notNull()
+      .references(() => tags.id, { onDelete: "cascade" }),
+    targetTagId: text("target_tag_id")
+      .notNull()
+      .references(() => tags.id, { onDelete: "cascade" }),
+    reason: text("reason"),
+    status: text("status", { enum: tagSuggestionStatus })
+      .notNull()
+      .default("pending"),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(unixepoch())`),
+  },
+  (table) => [index("tag_suggestions_user_id_idx").on(table.userId)],
+);
@@ -3,8 +3,16 @@ import type * as schema from "./schema";
 export type Article = typeof schema.articles.$inferSelect;
 export type Tag = typeof schema.tags.$inferSelect;
 export type Subscription = typeof schema.subscriptions.$inferSelect;
+export type ApiToken = typeof schema.apiTokens.$inferSelect;
+export type TagSuggestion = typeof schema.tagSuggestions.$inferSelect;
+export type ArticleQuestion = typeof schema.articleQuestions.$inferSelect;
+export type ArticleEmbedding = typeof schema.articleEmbeddings.$inferSelect;
+export type ArticleImport = typeof schema.articleImports.$inferSelect;
+export type AccountExport = typeof schema.accountExports.$inferSelect;
+export type Feed = typeof schema.feeds.$inferSelect;
 export type ArticleStatus = (typeof schema.articleStatus)[number];
 export type SubscriptionType = (typeof schema.subscriptionType)[number];
+export type ImportSource = (typeof schema.importSource)[number];
 
 // User Preferences TypeScript interfaces
 export interface ReaderPreferences {
@@ -12,11 +20,48 @@ export interface ReaderPreferences {
   fontSize: number; // 14-24px
 }
 
+export interface TaggingPreferences {
+  maxNewTagsPerArticle: number; // 0-10, existing tags are always reused
+  autoApplyConsolidation: boolean; // apply merge suggestions without approval
+}
+
+export interface DeliveryPreferences {
+  email: string | null; // e.g. the Send to Kindle address
+  format: "epub" | "html";
+}
+
+export interface DigestPreferences {
+  frequency: "off" | "daily" | "weekly";
+  hour: number; // 0-23, UTC
+  weekday: number; // 0-6 for weekly digests, 0 = Sunday
+  size: number; // 1-10 articles
+}
+
 export interface UserPreferences {
   reader?: ReaderPreferences;
+  tagging?: TaggingPreferences;
+  delivery?: DeliveryPreferences;
+  digest?: DigestPreferences;
 }
 
 export const DEFAULT_READER_PREFERENCES: ReaderPreferences = {
   fontFamily: "sans",
   fontSize: 18,
 };
+
+export const DEFAULT_TAGGING_PREFERENCES: TaggingPreferences = {
+  maxNewTagsPerArticle: 2,
+  autoApplyConsolidation: false,
+};
+
+export const DEFAULT_DELIVERY_PREFERENCES: DeliveryPreferences = {
+  email: null,
+  format: "epub",
+};
+
+export const DEFAULT_DIGEST_PREFERENCES: DigestPreferences = {
+  frequency: "off",
+  hour: 8,
+  weekday: 1,
+  size: 3,
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "bun:test";
+import { buildAtomFeed } from "./atom";
+import { parseFeed } from "./feed-parser";
+
+describe("atom", () => {
+  describe("buildAtomFeed", () => {
+    const feed = {
+      id: "tag:example.com,2026:feed",
+      title: "Tom & Jerry",
+      selfUrl: "https://example.com/feed.xml",
+      siteUrl: "https://example.com/",
+      entries: [
+        {
+          id: "urn:uuid:1",
+          title: "Older & wiser",
+          url: "https://example.com/1?a=1&b=2",
+          updated: new Date("2026-03-01T10:00:00Z"),
+          categories: [],
+        },
+        {
+          id: "urn:uuid:2",
+          title: "Newer",
+          url: "https://example.com/2",
+          updated: new Date("2026-03-02T10:00:00Z"),
+          published: new Date("2026-03-02T09:00:00Z"),
+          author: "Example",
+          summary: "Plain\u0007 text",
+          content: "<p>Hello <b>world</b></p>",
+          categories: ["rust", "go"],
+        },
+      ],
+    };
+
+    it("should escape text and embed content as HTML", () => {
+      const xml = buildAtomFeed(feed);
+
+      expect(xml).toContain('<title type="text">Tom &amp; Jerry</title>');
+      expect(xml).toContain("<updated>2026-03-02T10:00:00.000Z</updated>");
+      expect(xml).toContain('href="https://example.com/1?a=1&amp;b=2"');
+      expect(xml).toContain(
+        '<content type="html">&lt;p&gt;Hello &lt;b&gt;world&lt;/b&gt;&lt;/p&gt;</content>',
+      );
+      expect(xml).toContain('<summary type="text">Plain text</summary>');
+    });
+
+    it("should round-trip through the feed parser", () => {
+      const parsed = parseFeed(buildAtomFeed(feed), feed.selfUrl);
+
+      expect(parsed.title).toBe("Tom & Jerry");
+      expect(parsed.siteUrl).toBe("https://example.com/");
+      expect(parsed.entries.map((entry) => entry.title)).toEqual([
+        "Older & wiser",
+        "Newer",
+      ]);
+      expect(parsed.entries[1]).toMatchObject({
+        id: "urn:uuid:2",
+        summary: "Plain text",
+        publishedAt: new Date("2026-03-02T09:00:00Z"),
+        categories: ["rust", "go"],
+      });
+    });
+  });
+});
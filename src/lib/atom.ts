@@ -0,0 +1,86 @@
+export interface AtomEntry {
+  id: string;
+  title: string;
+  url: string;
+  updated: Date;
+  published?: Date;
+  author?: string | null;
+  // Plain text
+  summary?: string | null;
+  // HTML
+  content?: string | null;
+  categories: string[];
+}
+
+export interface AtomFeed {
+  id: string;
+  title: string;
+  // URL of the feed itself
+  selfUrl: string;
+  // Page the feed is about
+  siteUrl: string;
+  entries: AtomEntry[];
+}
+
+// Control characters aren't allowed in XML 1.0, even escaped
+const INVALID_XML_CHARS =
+  // biome-ignore lint/suspicious/noControlCharactersInRegex: matching them is the point
+  /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g;
+
+function escapeXml(value: string): string {
+  return Bun.escapeHTML(value.replace(INVALID_XML_CHARS, ""));
+}
+
+function element(name: string, value: string | null | undefined): string {
+  return value ? `<${name}>${escapeXml(value)}</${name}>` : "";
+}
+
+function renderEntry(entry: AtomEntry): string {
+  return [
+    "<entry>",
+    element("id", entry.id),
+    `<title type="text">${escapeXml(entry.title)}</title>`,
+    `<link rel="alternate" type="text/html" href="${escapeXml(entry.url)}"/>`,
+    element("updated", entry.updated.toISOString()),
+    element("published", entry.published?.toISOString()),
+    entry.author ? `<author>${element("name", entry.author)}</author>` : "",
+    ...entry.categories.map(
+      (category) => `<category term="${escapeXml(category)}"/>`,
+    ),
+    entry.summary
+      ? `<summary type="text">${escapeXml(entry.summary)}</summary>`
+      : "",
+    entry.content
+      ? `<content type="html">${escapeXml(entry.content)}</content>`
+      : "",
+    "</entry>",
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * Render an Atom 1.0 document
+ * The feed is as recent as its most recently updated entry
+ */
+export function buildAtomFeed(feed: AtomFeed): string {
+  const updated = feed.entries.reduce<Date | null>(
+    (latest, entry) =>
+      !latest || entry.updated > latest ? entry.updated : latest,
+    null,
+  );
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    element("id", feed.id),
+    `<title type="text">${escapeXml(feed.title)}</title>`,
+    `<link rel="self" type="application/atom+xml" href="${escapeXml(feed.selfUrl)}"/>`,
+    `<link rel="alternate" type="text/html" href="${escapeXml(feed.siteUrl)}"/>`,
+    element("updated", (updated ?? new Date(0)).toISOString()),
+    element("generator", "lateread"),
+    ...feed.entries.map(renderEntry),
+    "</feed>",
+    "",
+  ].join("\n");
+}
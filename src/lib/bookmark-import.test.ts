@@ -0,0 +1,140 @@
+import { describe, expect, it } from "bun:test";
+import { parseCsv, parseImportFile } from "./bookmark-import";
+import { ValidationError } from "./errors";
+
+describe("bookmark-import", () => {
+  describe("parseCsv", () => {
+    it("should handle quoted fields, escaped quotes and line breaks", () => {
+      expect(parseCsv('a,b\r\n"x, y","say ""hi""\nthere"\n\n')).toEqual([
+        ["a", "b"],
+        ["x, y", 'say "hi"\nthere'],
+      ]);
+    });
+  });
+
+  describe("parseImportFile", () => {
+    it("should parse Pocket HTML with archived links", () => {
+      const html = `<!DOCTYPE html>
+        <html><head><title>Pocket Export</title></head><body>
+        <h1>Unread</h1>
+        <ul><li><a href="https://example.com/a" time_added="1600000000" tags="rust,tools">Article A</a></li></ul>
+        <h1>Read Archive</h1>
+        <ul><li><a href="https://example.com/b" time_added="1500000000" tags="">Article B</a></li></ul>
+        </body></html>`;
+
+      const { source, bookmarks } = parseImportFile(html);
+
+      expect(source).toBe("pocket");
+      expect(bookmarks).toEqual([
+        {
+          url: "https://example.com/a",
+          title: "Article A",
+          savedAt: new Date(1600000000 * 1000),
+          archived: false,
+          favorite: false,
+          tags: ["rust", "tools"],
+        },
+        {
+          url: "https://example.com/b",
+          title: "Article B",
+          savedAt: new Date(1500000000 * 1000),
+          archived: true,
+          favorite: false,
+          tags: [],
+        },
+      ]);
+    });
+
+    it("should parse Pocket CSV", () => {
+      const csv =
+        "title,url,time_added,tags,status\n" +
+        "Article,https://example.com/a,1600000000,rust|tools,archive\n";
+
+      const { source, bookmarks } = parseImportFile(csv);
+
+      expect(source).toBe("pocket");
+      expect(bookmarks[0]).toMatchObject({
+        url: "https://example.com/a",
+        archived: true,
+        tags: ["rust", "tools"],
+      });
+    });
+
+    it("should parse Instapaper CSV folders", () => {
+      const csv =
+        "URL,Title,Selection,Folder,Timestamp\n" +
+        "https://example.com/a,A,,Starred,1600000000\n" +
+        "https://example.com/b,B,,Archive,1600000000\n" +
+        "https://example.com/c,C,,Recipes,1600000000\n";
+
+      const { source, bookmarks } = parseImportFile(csv);
+
+      expect(source).toBe("instapaper");
+      expect(
+        bookmarks.map(({ archived, favorite, tags }) => ({
+          archived,
+          favorite,
+          tags,
+        })),
+      ).toEqual([
+        { archived: false, favorite: true, tags: [] },
+        { archived: true, favorite: false, tags: [] },
+        { archived: false, favorite: false, tags: ["Recipes"] },
+      ]);
+    });
+
+    it("should parse Omnivore JSON", () => {
+      const json = JSON.stringify([
+        {
+          url: "https://example.com/a",
+          title: "A",
+          state: "Archived",
+          labels: ["Rust", { name: "Tools" }],
+          savedAt: "2023-05-01T10:00:00.000Z",
+        },
+      ]);
+
+      const { source, bookmarks } = parseImportFile(json);
+
+      expect(source).toBe("omnivore");
+      expect(bookmarks).toEqual([
+        {
+          url: "https://example.com/a",
+          title: "A",
+          savedAt: new Date("2023-05-01T10:00:00.000Z"),
+          archived: true,
+          favorite: false,
+          tags: ["Rust", "Tools"],
+        },
+      ]);
+    });
+
+    it("should parse browser bookmarks and skip other schemes and repeats", () => {
+      const html = `<!DOCTYPE NETSCAPE-Bookmark-file-1>
+        <TITLE>Bookmarks</TITLE>
+        <DL><p>
+          <DT><H3>Reading</H3>
+          <DL><p>
+            <DT><A HREF="https://example.com/a" ADD_DATE="1600000000" TAGS="later">A</A>
+            <DT><A HREF="https://example.com/a?utm_source=x">A again</A>
+            <DT><A HREF="javascript:void(0)">Bookmarklet</A>
+          </DL><p>
+        </DL>`;
+
+      const { source, bookmarks } = parseImportFile(html);
+
+      expect(source).toBe("bookmarks");
+      expect(bookmarks).toHaveLength(1);
+      expect(bookmarks[0]).toMatchObject({
+        url: "https://example.com/a",
+        savedAt: new Date(1600000000 * 1000),
+        tags: ["later"],
+      });
+    });
+
+    it("should reject unknown files", () => {
+      expect(() => parseImportFile("name,email\nx,y")).toThrow(ValidationError);
+      expect(() => parseImportFile("[not json")).toThrow(ValidationError);
+    });
+  });
+});
@@ -0,0 +1,309 @@
+import { JSDOM } from "jsdom";
+import type { ImportSource } from "../db/types";
+import { canonicalizeUrl } from "./canonical-url";
+import { ValidationError } from "./errors";
+
+/**
+ * A saved link from another read-later app or a browser
+ */
+export interface ImportedBookmark {
+  url: string;
+  title?: string;
+  savedAt?: Date;
+  archived: boolean;
+  favorite: boolean;
+  tags: string[];
+}
+
+export interface ParsedImport {
+  source: ImportSource;
+  bookmarks: ImportedBookmark[];
+}
+
+/**
+ * Parse a CSV document (RFC 4180: quoted fields, escaped quotes, line breaks
+ * inside quotes)
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines
+  return rows.filter((r) => r.some((value) => value.trim()));
+}
+
+/**
+ * Unix timestamp (seconds) or date string to a Date
+ */
+function parseDate(value: unknown): Date | undefined {
+  if (typeof value !== "string" && typeof value !== "number") {
+    return undefined;
+  }
+
+  const text = String(value).trim();
+  if (!text) {
+    return undefined;
+  }
+
+  const date = /^\d+$/.test(text)
+    ? new Date(Number(text) * 1000)
+    : new Date(text);
+
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+function splitTags(value: string | null | undefined, separator: string) {
+  return (value ?? "")
+    .split(separator)
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Rows of a CSV export as objects keyed by lowercase header
+ */
+function csvRecords(rows: string[][]): Array<Record<string, string>> {
+  const [header = [], ...records] = rows;
+  const keys = header.map((name) => name.trim().toLowerCase());
+
+  return records.map((record) =>
+    Object.fromEntries(keys.map((key, i) => [key, record[i] ?? ""])),
+  );
+}
+
+/**
+ * Pocket CSV: title,url,time_added,tags,status with "|" separated tags
+ */
+function parsePocketCsv(rows: string[][]): ImportedBookmark[] {
+  return csvRecords(rows).map((record) => ({
+    url: record.url ?? "",
+    title: record.title || undefined,
+    savedAt: parseDate(record.time_added),
+    archived: record.status === "archive",
+    favorite: record.favorite === "1" || record.favorite === "true",
+    tags: splitTags(record.tags, "|"),
+  }));
+}
+
+/**
+ * Instapaper CSV: URL,Title,Selection,Folder,Timestamp[,Highlights,Tags]
+ * Folders other than Unread, Archive and Starred become tags
+ */
+function parseInstapaperCsv(rows: string[][]): ImportedBookmark[] {
+  return csvRecords(rows).map((record) => {
+    const folder = record.folder ?? "";
+    const tags = parseInstapaperTags(record.tags);
+    if (folder && !["Unread", "Archive", "Starred"].includes(folder)) {
+      tags.push(folder);
+    }
+
+    return {
+      url: record.url ?? "",
+      title: record.title || undefined,
+      savedAt: parseDate(record.timestamp),
+      archived: folder === "Archive",
+      favorite: folder === "Starred",
+      tags,
+    };
+  });
+}
+
+/**
+ * Newer Instapaper exports list tags as a JSON array
+ */
+function parseInstapaperTags(value: string | undefined): string[] {
+  if (!value?.trim().startsWith("[")) {
+    return splitTags(value, ",");
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return Array.isArray(parsed)
+      ? parsed.filter((tag): tag is string => typeof tag === "string")
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Omnivore JSON export: an array of items with labels and savedAt
+ */
+function parseOmnivoreJson(text: string): ImportedBookmark[] {
+  let items: unknown;
+  try {
+    items = JSON.parse(text);
+  } catch {
+    throw new ValidationError("The JSON file couldn't be read");
+  }
+
+  if (!Array.isArray(items)) {
+    throw new ValidationError("Expected a list of items in the JSON file");
+  }
+
+  return items.flatMap((item) => {
+    if (typeof item !== "object" || item === null || !("url" in item)) {
+      return [];
+    }
+
+    const record = item as Record<string, unknown>;
+    const labels = Array.isArray(record.labels) ? record.labels : [];
+
+    return [
+      {
+        url: String(record.url),
+        title: typeof record.title === "string" ? record.title : undefined,
+        savedAt: parseDate(record.savedAt),
+        archived: record.state === "Archived" || Boolean(record.archivedAt),
+        favorite: false,
+        tags: labels.flatMap((label) => {
+          const name =
+            typeof label === "string"
+              ? label
+              : (label as { name?: unknown })?.name;
+          return typeof name === "string" && name.trim() ? [name.trim()] : [];
+        }),
+      },
+    ];
+  });
+}
+
+/**
+ * Netscape bookmark HTML from browsers, and Pocket's HTML export, which
+ * lists archived links under a "Read Archive" heading
+ */
+function parseBookmarksHtml(html: string): ImportedBookmark[] {
+  const { document } = new JSDOM(html).window;
+  const bookmarks: ImportedBookmark[] = [];
+  let archived = false;
+
+  for (const element of document.querySelectorAll("h1, a[href]")) {
+    if (element.tagName === "H1") {
+      archived = element.textContent?.trim().toLowerCase() === "read archive";
+      continue;
+    }
+
+    bookmarks.push({
+      url: element.getAttribute("href") ?? "",
+      title: element.textContent?.trim() || undefined,
+      savedAt: parseDate(
+        element.getAttribute("add_date") ?? element.getAttribute("time_added"),
+      ),
+      archived,
+      favorite: false,
+      tags: splitTags(element.getAttribute("tags"), ","),
+    });
+  }
+
+  return bookmarks;
+}
+
+/**
+ * Keep http(s) links only, once each
+ */
+function cleanBookmarks(bookmarks: ImportedBookmark[]): ImportedBookmark[] {
+  const seen = new Set<string>();
+
+  return bookmarks.filter((bookmark) => {
+    let url: URL;
+    try {
+      url = new URL(bookmark.url.trim());
+    } catch {
+      return false;
+    }
+
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      return false;
+    }
+
+    const key = canonicalizeUrl(url.toString());
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Detect the format of an export file and parse its links
+ * Supports Pocket (HTML, CSV), Instapaper (CSV), Omnivore (JSON) and
+ * browser bookmarks (Netscape HTML)
+ */
+export function parseImportFile(content: string): ParsedImport {
+  const text = content.replace(/^\uFEFF/, "").trim();
+
+  if (text.startsWith("[") || text.startsWith("{")) {
+    return {
+      source: "omnivore",
+      bookmarks: cleanBookmarks(parseOmnivoreJson(text)),
+    };
+  }
+
+  if (text.startsWith("<")) {
+    return {
+      source: /<title>\s*Pocket Export\s*<\/title>/i.test(text)
+        ? "pocket"
+        : "bookmarks",
+      bookmarks: cleanBookmarks(parseBookmarksHtml(text)),
+    };
+  }
+
+  const rows = parseCsv(text);
+  const header = (rows[0] ?? []).map((name) => name.trim().toLowerCase());
+
+  if (header.includes("url") && header.includes("folder")) {
+    return {
+      source: "instapaper",
+      bookmarks: cleanBookmarks(parseInstapaperCsv(rows)),
+    };
+  }
+
+  if (header.includes("url") && header.includes("time_added")) {
+    return {
+      source: "pocket",
+      bookmarks: cleanBookmarks(parsePocketCsv(rows)),
+    };
+  }
+
+  throw new ValidationError(
+    "Unrecognized file. Upload a Pocket, Instapaper or Omnivore export, or browser bookmarks",
+  );
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "bun:test";
+import { canonicalizeUrl } from "./canonical-url";
+
+describe("canonical-url", () => {
+  describe("canonicalizeUrl", () => {
+    it("should drop tracking parameters and keep the rest sorted", () => {
+      expect(
+        canonicalizeUrl(
+          "https://example.com/post?utm_source=x&b=2&fbclid=abc&a=1&UTM_Medium=y",
+        ),
+      ).toBe("https://example.com/post?a=1&b=2");
+    });
+
+    it("should drop the query string when only tracking is left", () => {
+      expect(canonicalizeUrl("https://example.com/post?utm_campaign=z")).toBe(
+        "https://example.com/post",
+      );
+    });
+
+    it("should lowercase the host and drop fragments and trailing slashes", () => {
+      expect(canonicalizeUrl("https://Example.COM/Post/#comments")).toBe(
+        "https://example.com/Post",
+      );
+      expect(canonicalizeUrl("https://example.com/")).toBe(
+        "https://example.com/",
+      );
+    });
+
+    it("should keep hash-bang routes", () => {
+      expect(canonicalizeUrl("https://example.com/#!/post/1")).toBe(
+        "https://example.com/#!/post/1",
+      );
+    });
+
+    it("should strip AMP paths, subdomains and parameters", () => {
+      expect(canonicalizeUrl("https://example.com/news/story/amp/")).toBe(
+        "https://example.com/news/story",
+      );
+      expect(canonicalizeUrl("https://example.com/story.amp.html")).toBe(
+        "https://example.com/story.html",
+      );
+      expect(canonicalizeUrl("https://amp.example.com/story")).toBe(
+        "https://example.com/story",
+      );
+      expect(canonicalizeUrl("https://example.com/story?amp=1&id=3")).toBe(
+        "https://example.com/story?id=3",
+      );
+    });
+
+    it("should keep paths and hosts that only look like AMP", () => {
+      expect(canonicalizeUrl("https://amp.dev/documentation/guides")).toBe(
+        "https://amp.dev/documentation/guides",
+      );
+      expect(canonicalizeUrl("https://amp.co.uk/story")).toBe(
+        "https://amp.co.uk/story",
+      );
+      expect(canonicalizeUrl("https://example.com/tags/amp")).toBe(
+        "https://example.com/tags/amp",
+      );
+      expect(canonicalizeUrl("https://example.com/amp")).toBe(
+        "https://example.com/amp",
+      );
+    });
+
+    it("should unwrap AMP viewer and cache links", () => {
+      expect(
+        canonicalizeUrl("https://www.google.com/amp/s/example.com/story/amp"),
+      ).toBe("https://example.com/story");
+      expect(
+        canonicalizeUrl(
+          "https://example-com.cdn.ampproject.org/c/s/example.com/story?utm_source=g",
+        ),
+      ).toBe("https://example.com/story");
+    });
+
+    it("should leave other schemes and invalid input unchanged", () => {
+      expect(canonicalizeUrl("mailto:someone@example.com")).toBe(
+        "mailto:someone@example.com",
+      );
+      expect(canonicalizeUrl("not a url")).toBe("not a url");
+    });
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * URL canonicalization, so the same article saved through different links
+ * (tracking parameters, AMP versions, trailing slashes) is recognized
+ */
+
+// Query parameters that only track where a click came from
+const TRACKING_PARAMS = new Set([
+  "fbclid",
+  "gclid",
+  "dclid",
+  "gbraid",
+  "wbraid",
+  "msclkid",
+  "yclid",
+  "igshid",
+  "mc_cid",
+  "mc_eid",
+  "_hsenc",
+  "_hsmi",
+  "mkt_tok",
+  "ref_src",
+  "ref_url",
+  "smid",
+  "cmpid",
+]);
+
+const TRACKING_PARAM_PREFIXES = ["utm_", "pk_", "mtm_"];
+
+// Query parameters that ask for the AMP version of a page
+const AMP_PARAMS = new Set(["amp", "outputtype"]);
+
+// Listing pages whose last segment can be the word "amp", as in /tags/amp
+const LISTING_SEGMENTS = new Set([
+  "tag",
+  "tags",
+  "topic",
+  "topics",
+  "category",
+  "categories",
+  "label",
+  "labels",
+  "search",
+]);
+
+// Second-level labels of country domains, as in co.uk or com.au
+const SECOND_LEVEL_LABELS = new Set([
+  "co",
+  "com",
+  "org",
+  "net",
+  "ac",
+  "gov",
+  "edu",
+]);
+
+function isTrackingParam(name: string): boolean {
+  const lower = name.toLowerCase();
+
+  return (
+    TRACKING_PARAMS.has(lower) ||
+    TRACKING_PARAM_PREFIXES.some((prefix) => lower.startsWith(prefix))
+  );
+}
+
+/**
+ * Unwrap AMP cache and viewer links to the publisher URL
+ *   https://www.google.com/amp/s/example.com/a  -> https://example.com/a
+ *   https://example-com.cdn.ampproject.org/c/s/example.com/a -> https://example.com/a
+ */
+function unwrapAmpCache(url: URL): URL {
+  const isGoogleViewer =
+    /^(www\.)?google\.[a-z.]+$/.test(url.hostname) &&
+    url.pathname.startsWith("/amp/");
+  const isAmpCache = url.hostname.endsWith(".cdn.ampproject.org");
+
+  if (!isGoogleViewer && !isAmpCache) {
+    return url;
+  }
+
+  // /amp/s/host/path (https) or /amp/host/path (http), the AMP cache adds
+  // a content type segment first: /c/s/host/path, /v/s/host/path
+  const match = url.pathname.match(/^\/(?:amp|[a-z])\/(s\/)?(.+)$/);
+  if (!match?.[2]) {
+    return url;
+  }
+
+  try {
+    return new URL(`${match[1] ? "https" : "http"}://${match[2]}${url.search}`);
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Path without the /amp suffix CMSs like WordPress add to article paths
+ *   /news/story/amp/ -> /news/story, but /tags/amp and /amp are kept
+ */
+function stripAmpPath(pathname: string): string {
+  const match = pathname.match(/^(.*\/([^/]+))\/amp\/?$/i);
+  if (
+    !match?.[1] ||
+    !match[2] ||
+    LISTING_SEGMENTS.has(match[2].toLowerCase())
+  ) {
+    return pathname;
+  }
+  return match[1];
+}
+
+/**
+ * Host without an amp. subdomain, unless only a public suffix is left
+ *   amp.example.com -> example.com, but amp.dev and amp.co.uk are kept
+ */
+function stripAmpHost(hostname: string): string {
+  if (!hostname.startsWith("amp.")) {
+    return hostname;
+  }
+
+  const labels = hostname.slice("amp.".length).split(".");
+  const isPublicSuffix =
+    labels.length < 2 ||
+    (labels.length === 2 &&
+      SECOND_LEVEL_LABELS.has(labels[0] ?? "") &&
+      labels[1]?.length === 2);
+
+  return isPublicSuffix ? hostname : labels.join(".");
+}
+
+/**
+ * Canonical form of an http(s) URL
+ * Lowercases the host, unwraps AMP links, drops tracking parameters,
+ * fragments and trailing slashes, and sorts the remaining parameters.
+ * Other schemes and unparseable input are returned unchanged
+ */
+export function canonicalizeUrl(input: string): string {
+  let url: URL;
+
+  try {
+    url = new URL(input.trim());
+  } catch {
+    return input;
+  }
+
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    return input;
+  }
+
+  url = unwrapAmpCache(url);
+
+  // AMP versions of the page: /amp, /amp/, /article.amp.html, amp.example.com
+  url.pathname = stripAmpPath(url.pathname).replace(/\.amp(\.html?)$/i, "$1");
+  url.hostname = stripAmpHost(url.hostname);
+
+  const params = [...url.searchParams.entries()]
+    .filter(
+      ([name]) => !isTrackingParam(name) && !AMP_PARAMS.has(name.toLowerCase()),
+    )
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  url.search = new URLSearchParams(params).toString();
+
+  // Hash-bang routes are part of the address in old single-page apps
+  if (!url.hash.startsWith("#!")) {
+    url.hash = "";
+  }
+
+  if (url.pathname.length > 1) {
+    url.pathname = url.pathname.replace(/\/+$/, "");
+  }
+
+  return url.toString();
+}
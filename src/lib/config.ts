@@ -3,44 +3,108 @@ import { defaultLogger } from "./logger";
 
 const logger = defaultLogger.child({ module: "config" });
 
-const configSchema = z.object({
-  // Server Configuration
-  PORT: z.coerce.number().default(3000),
-  NODE_ENV: z
-    .enum(["development", "production", "test"])
-    .default("development"),
-
-  // Database
-  DATABASE_URL: z.string().default("./data/app.db"),
-
-  // Telegram Bot
-  TELEGRAM_BOT_TOKEN: z.string().min(1, "TELEGRAM_BOT_TOKEN is required"),
-  BOT_USERNAME: z.string().min(1, "BOT_USERNAME is required"),
-  ADMIN_TELEGRAM_ID: z.coerce.number().optional(),
-
-  // LLM (Anthropic Claude)
-  ANTHROPIC_API_KEY: z.string().optional(),
-
-  // Gradium TTS
-  GRADIUM_API_KEY: z.string().optional(),
-  GRADIUM_TTS_MODE: z.enum(["http", "websocket"]).optional().default("http"),
-
-  // Authentication & Session
-  SESSION_SECRET: z
-    .string()
-    .min(32, "SESSION_SECRET must be at least 32 characters"),
-  SESSION_MAX_AGE_DAYS: z.coerce.number().default(180),
-
-  // Cache Configuration
-  CACHE_DIR: z.string().default("./cache/articles"),
-  CACHE_MAX_AGE_DAYS: z.coerce.number().default(30),
-
-  // Processing Configuration
-  PROCESSING_TIMEOUT_SECONDS: z.coerce.number().default(60),
-  MAX_RETRY_ATTEMPTS: z.coerce.number().default(3),
-  RETRY_DELAY_MINUTES: z.coerce.number().default(5),
-  LONG_MESSAGE_THRESHOLD: z.coerce.number().default(1000),
-});
+const configSchema = z
+  .object({
+    // Server Configuration
+    PORT: z.coerce.number().default(3000),
+    NODE_ENV: z
+      .enum(["development", "production", "test"])
+      .default("development"),
+
+    // Public web app URL, for links sent by the bot
+    APP_URL: z.string().url().default("https://lateread.app"),
+
+    // Database
+    DATABASE_URL: z.string().default("./data/app.db"),
+
+    // Telegram Bot
+    TELEGRAM_BOT_TOKEN: z.string().min(1, "TELEGRAM_BOT_TOKEN is required"),
+    BOT_USERNAME: z.string().min(1, "BOT_USERNAME is required"),
+    ADMIN_TELEGRAM_ID: z.coerce.number().optional(),
+
+    // LLM
+    // Defaults to "anthropic" when ANTHROPIC_API_KEY is set, disabled otherwise
+    LLM_PROVIDER: z.enum(["anthropic", "openai", "fake"]).optional(),
+    ANTHROPIC_API_KEY: z.string().optional(),
+    // OpenAI-compatible chat completions (OpenAI, Ollama, llama.cpp, vLLM)
+    OPENAI_BASE_URL: z.string().url().default("https://api.openai.com/v1"),
+    OPENAI_API_KEY: z.string().optional(),
+    // Model overrides per operation, provider defaults otherwise
+    LLM_TAGGING_MODEL: z.string().optional(),
+    LLM_SUMMARY_MODEL: z.string().optional(),
+    LLM_CONSOLIDATION_MODEL: z.string().optional(),
+    LLM_ANSWER_MODEL: z.string().optional(),
+
+    // Embeddings for related articles and semantic search
+    // "local" hashes words without network, "openai" uses OPENAI_BASE_URL
+    EMBEDDING_PROVIDER: z.enum(["local", "openai"]).default("local"),
+    EMBEDDING_MODEL: z.string().optional(),
+
+    // Text of photos (OCR) and voice notes (transcription) sent to the bot
+    // "none" ignores them, "openai" uses OPENAI_BASE_URL
+    MEDIA_TEXT_PROVIDER: z.enum(["none", "openai"]).default("none"),
+    OCR_MODEL: z.string().optional(),
+    TRANSCRIPTION_MODEL: z.string().optional(),
+
+    // Gradium TTS
+    GRADIUM_API_KEY: z.string().optional(),
+    GRADIUM_TTS_MODE: z.enum(["http", "websocket"]).optional().default("http"),
+
+    // Authentication & Session
+    SESSION_SECRET: z
+      .string()
+      .min(32, "SESSION_SECRET must be at least 32 characters"),
+    SESSION_MAX_AGE_DAYS: z.coerce.number().default(180),
+
+    // Cache Configuration
+    CACHE_DIR: z.string().default("./cache/articles"),
+    CACHE_MAX_AGE_DAYS: z.coerce.number().default(30),
+
+    // Account exports, kept for download for a week
+    EXPORT_DIR: z.string().default("./data/exports"),
+
+    // Email delivery (Send to Kindle), disabled without SMTP_HOST
+    SMTP_HOST: z.string().optional(),
+    SMTP_PORT: z.coerce.number().default(587),
+    // "tls" for port 465, "starttls" for 587, "none" for local relays
+    SMTP_SECURITY: z.enum(["tls", "starttls", "none"]).default("starttls"),
+    SMTP_USER: z.string().optional(),
+    SMTP_PASSWORD: z.string().optional(),
+    // Sender address, must be approved in the Kindle settings
+    SMTP_FROM: z.string().email().optional(),
+
+    // Newsletters by email, disabled without INBOUND_EMAIL_DOMAIN
+    // MX records of the domain point at this server, or a relay forwards to it
+    INBOUND_EMAIL_DOMAIN: z.string().optional(),
+    INBOUND_EMAIL_PORT: z.coerce.number().default(2525),
+    INBOUND_EMAIL_MAX_SIZE_MB: z.coerce.number().default(10),
+
+    // Processing Configuration
+    PROCESSING_TIMEOUT_SECONDS: z.coerce.number().default(60),
+    MAX_RETRY_ATTEMPTS: z.coerce.number().default(3),
+    RETRY_DELAY_MINUTES: z.coerce.number().default(5),
+    LONG_MESSAGE_THRESHOLD: z.coerce.number().default(1000),
+    // Imported articles queued for processing per minute
+    IMPORT_ARTICLES_PER_MINUTE: z.coerce.number().default(10),
+    // How often each subscribed feed is checked for new posts
+    FEED_POLL_INTERVAL_MINUTES: z.coerce.number().min(5).default(60),
+  })
+  .superRefine((env, ctx) => {
+    if (env.SMTP_HOST && !env.SMTP_FROM) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["SMTP_FROM"],
+        message: "SMTP_FROM is required when SMTP_HOST is set",
+      });
+    }
+    if (env.LLM_PROVIDER === "anthropic" && !env.ANTHROPIC_API_KEY) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["ANTHROPIC_API_KEY"],
+        message: "ANTHROPIC_API_KEY is required when LLM_PROVIDER is anthropic",
+      });
+    }
+  });
 
 // Parse and validate environment variables on module import
 const parseResult = configSchema.safeParse(process.env);
@@ -0,0 +1,109 @@
+import { describe, expect, it } from "bun:test";
+import { convertDocument, getDocumentFormat, textToHtml } from "./documents";
+import { buildEpub } from "./epub";
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+describe("documents", () => {
+  describe("getDocumentFormat", () => {
+    it("should prefer the extension over the MIME type", () => {
+      expect(getDocumentFormat("notes.md", "text/plain")).toBe("markdown");
+      expect(getDocumentFormat("book.EPUB", "application/octet-stream")).toBe(
+        "epub",
+      );
+      expect(getDocumentFormat("page.htm")).toBe("html");
+    });
+
+    it("should fall back to the MIME type", () => {
+      expect(getDocumentFormat(undefined, "application/pdf")).toBe("pdf");
+      expect(getDocumentFormat("notes", "text/plain")).toBe("text");
+    });
+
+    it("should return null for unsupported files", () => {
+      expect(getDocumentFormat("archive.zip", "application/zip")).toBeNull();
+      expect(getDocumentFormat("photo.jpg", "image/jpeg")).toBeNull();
+    });
+  });
+
+  describe("textToHtml", () => {
+    it("should escape text and split it into paragraphs", () => {
+      expect(textToHtml("First <line>\nsame paragraph\n\n  Second  ")).toBe(
+        "<p>First &lt;line&gt;<br>same paragraph</p>\n<p>Second</p>",
+      );
+    });
+  });
+
+  describe("convertDocument", () => {
+    it("should render markdown and take the title from its heading", async () => {
+      const document = await convertDocument(
+        encode(
+          "# Notes\n\nFirst paragraph with **bold** text.\n\n<script>alert(1)</script>",
+        ),
+        "markdown",
+      );
+
+      expect(document.title).toBe("Notes");
+      expect(document.excerpt).toBe("First paragraph with bold text.");
+      expect(document.content).toContain("<strong>bold</strong>");
+      expect(document.content).not.toContain("<script");
+      expect(document.textContent).toBe(
+        "Notes First paragraph with bold text.",
+      );
+    });
+
+    it("should sanitize HTML files and read their metadata", async () => {
+      const document = await convertDocument(
+        encode(
+          '<html><head><title>Saved page</title><meta name="author" content="Ann"></head>' +
+            '<body><p onclick="steal()">Only paragraph.</p></body></html>',
+        ),
+        "html",
+      );
+
+      expect(document).toMatchObject({
+        title: "Saved page",
+        author: "Ann",
+        excerpt: "Only paragraph.",
+      });
+      expect(document.content).toContain("Only paragraph.");
+      expect(document.content).not.toContain("onclick");
+    });
+
+    it("should keep plain text as paragraphs", async () => {
+      const document = await convertDocument(
+        encode("Line one\n\nLine two"),
+        "text",
+      );
+
+      expect(document.content).toBe("<p>Line one</p>\n<p>Line two</p>");
+      expect(document.excerpt).toBe("Line one");
+      expect(document.title).toBeUndefined();
+    });
+
+    it("should join the chapters of a book", async () => {
+      const epub = await buildEpub({
+        id: "book-1",
+        title: "Book",
+        author: "Author",
+        chapters: [
+          {
+            title: "One",
+            url: "https://example.com/1",
+            content: "<p>First chapter</p>",
+          },
+          {
+            title: "Two",
+            url: "https://example.com/2",
+            content: "<p>Second chapter</p>",
+          },
+        ],
+      });
+
+      const document = await convertDocument(epub, "epub");
+
+      expect(document).toMatchObject({ title: "Book", author: "Author" });
+      expect(document.textContent).toContain("First chapter");
+      expect(document.textContent).toContain("Second chapter");
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import { Readability } from "@mozilla/readability";
+import { JSDOM } from "jsdom";
+import { marked } from "marked";
+import { parseEpub } from "./epub";
+import { extractPdfContent } from "./pdf";
+import { sanitizeHtml } from "./sanitize-html";
+import { htmlToPlainText } from "./tts";
+
+export type DocumentFormat = "pdf" | "epub" | "html" | "markdown" | "text";
+
+export interface DocumentContent {
+  title?: string;
+  author?: string;
+  excerpt?: string;
+  // Sanitized HTML for the reader
+  content: string;
+  textContent: string;
+  // Only for PDFs
+  pageCount?: number;
+}
+
+const MAX_EXCERPT_LENGTH = 200;
+
+const EXTENSIONS: Record<string, DocumentFormat> = {
+  pdf: "pdf",
+  epub: "epub",
+  html: "html",
+  htm: "html",
+  xhtml: "html",
+  md: "markdown",
+  markdown: "markdown",
+  txt: "text",
+  text: "text",
+};
+
+const MIME_TYPES: Record<string, DocumentFormat> = {
+  "application/pdf": "pdf",
+  "application/epub+zip": "epub",
+  "text/html": "html",
+  "application/xhtml+xml": "html",
+  "text/markdown": "markdown",
+  "text/x-markdown": "markdown",
+  "text/plain": "text",
+};
+
+/**
+ * Format of an uploaded file, by extension first since clients often send
+ * markdown and EPUB files as text/plain or application/octet-stream
+ */
+export function getDocumentFormat(
+  fileName?: string,
+  mimeType?: string,
+): DocumentFormat | null {
+  const extension = fileName?.toLowerCase().match(/\.([a-z]+)$/)?.[1];
+  return (
+    (extension ? EXTENSIONS[extension] : undefined) ??
+    (mimeType ? MIME_TYPES[mimeType.toLowerCase()] : undefined) ??
+    null
+  );
+}
+
+/**
+ * Plain text as paragraphs, blank lines separate them
+ */
+export function textToHtml(text: string): string {
+  return text
+    .split(/\r?\n\s*\r?\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean)
+    .map(
+      (paragraph) =>
+        `<p>${Bun.escapeHTML(paragraph).replace(/\r?\n/g, "<br>")}</p>`,
+    )
+    .join("\n");
+}
+
+function truncate(text: string | undefined): string | undefined {
+  if (!text) {
+    return undefined;
+  }
+  return text.length > MAX_EXCERPT_LENGTH
+    ? `${text.slice(0, MAX_EXCERPT_LENGTH)}...`
+    : text;
+}
+
+/**
+ * First heading of the document, then its first paragraph
+ */
+function getHtmlMetadata(html: string) {
+  const { document } = new JSDOM(html).window;
+  const heading = document.querySelector("h1, h2")?.textContent?.trim();
+  const paragraph = document.querySelector("p")?.textContent?.trim();
+
+  return {
+    title: heading || undefined,
+    excerpt: truncate(paragraph?.replace(/\s+/g, " ")),
+  };
+}
+
+function convertHtml(html: string) {
+  const { document } = new JSDOM(html).window;
+  const title = document.title.trim() || undefined;
+  const author =
+    document
+      .querySelector('meta[name="author"]')
+      ?.getAttribute("content")
+      ?.trim() || undefined;
+
+  // Saved web pages read best cleaned up, plain documents are kept whole
+  const article = new Readability(document).parse();
+  const content = sanitizeHtml(article?.content || html);
+
+  return {
+    ...getHtmlMetadata(content),
+    ...(title ? { title } : {}),
+    author: article?.byline?.trim() || author,
+    content,
+  };
+}
+
+/**
+ * Convert an uploaded document into HTML for the reader
+ */
+export async function convertDocument(
+  data: Uint8Array,
+  format: DocumentFormat,
+): Promise<DocumentContent> {
+  if (format === "pdf") {
+    return extractPdfContent(data);
+  }
+
+  let converted: Omit<DocumentContent, "textContent">;
+
+  if (format === "epub") {
+    const book = parseEpub(data);
+    const content = sanitizeHtml(book.chapters.join("\n"));
+    converted = {
+      ...getHtmlMetadata(content),
+      title: book.title,
+      author: book.author,
+      content,
+    };
+  } else {
+    const text = new TextDecoder().decode(data);
+
+    if (format === "html") {
+      converted = convertHtml(text);
+    } else if (format === "markdown") {
+      const content = sanitizeHtml(await marked(text));
+      converted = { ...getHtmlMetadata(content), content };
+    } else {
+      converted = {
+        content: textToHtml(text),
+        excerpt: truncate(text.trim().split(/\r?\n/)[0]),
+      };
+    }
+  }
+
+  return { ...converted, textContent: htmlToPlainText(converted.content) };
+}
@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from "bun:test";
+import {
+  bufferToVector,
+  cosineSimilarity,
+  HashingEmbeddingProvider,
+  normalizeVector,
+  OpenAIEmbeddingProvider,
+  vectorToBuffer,
+} from "./embeddings";
+import { ExternalServiceError } from "./errors";
+
+const empty = new Float32Array();
+
+describe("embeddings", () => {
+  describe("normalizeVector", () => {
+    it("should scale vectors to unit length", () => {
+      expect([...normalizeVector(Float32Array.from([3, 4]))]).toEqual([
+        expect.closeTo(0.6),
+        expect.closeTo(0.8),
+      ]);
+    });
+
+    it("should leave zero vectors unchanged", () => {
+      expect([...normalizeVector(new Float32Array(3))]).toEqual([0, 0, 0]);
+    });
+  });
+
+  describe("cosineSimilarity", () => {
+    it("should return 0 for vectors of different dimensions", () => {
+      expect(
+        cosineSimilarity(Float32Array.from([1]), Float32Array.from([1, 0])),
+      ).toBe(0);
+    });
+  });
+
+  describe("vectorToBuffer and bufferToVector", () => {
+    it("should round-trip vectors", () => {
+      const vector = Float32Array.from([0.5, -1.25, 3]);
+
+      expect(bufferToVector(vectorToBuffer(vector))).toEqual(vector);
+    });
+  });
+
+  describe("HashingEmbeddingProvider", () => {
+    const provider = new HashingEmbeddingProvider();
+
+    it("should embed texts into normalized vectors", async () => {
+      const [vector] = await provider.embed(["Rust ownership and borrowing"]);
+
+      expect(vector).toHaveLength(1024);
+      expect(cosineSimilarity(vector ?? empty, vector ?? empty)).toBeCloseTo(1);
+      expect(provider.model).toBe("hashing-1024");
+    });
+
+    it("should place texts on the same topic closer together", async () => {
+      const [rust, rustAgain, baking] = await provider.embed([
+        "The Rust borrow checker enforces ownership of memory",
+        "Ownership and borrowing keep Rust memory safe",
+        "Sourdough bread needs a starter, flour and patience",
+      ]);
+
+      const related = cosineSimilarity(rust ?? empty, rustAgain ?? empty);
+      const unrelated = cosineSimilarity(rust ?? empty, baking ?? empty);
+      expect(related).toBeGreaterThan(0.3);
+      expect(related).toBeGreaterThan(unrelated);
+    });
+
+    it("should ignore case, punctuation and stopwords", async () => {
+      const [a, b] = await provider.embed([
+        "Rust, the language!",
+        "rust language",
+      ]);
+
+      expect(cosineSimilarity(a ?? empty, b ?? empty)).toBeCloseTo(1);
+    });
+  });
+
+  describe("OpenAIEmbeddingProvider", () => {
+    let spyFetch: ReturnType<typeof spyOn<typeof globalThis, "fetch">>;
+
+    beforeEach(() => {
+      spyFetch = spyOn(globalThis, "fetch");
+    });
+
+    afterEach(() => {
+      spyFetch.mockRestore();
+    });
+
+    const provider = new OpenAIEmbeddingProvider({
+      baseUrl: "http://localhost:11434/v1/",
+      apiKey: "sk-test",
+      model: "nomic-embed-text",
+    });
+
+    it("should request embeddings and return them in input order", async () => {
+      spyFetch.mockResolvedValue(
+        Response.json({
+          data: [
+            { index: 1, embedding: [0, 2] },
+            { index: 0, embedding: [3, 4] },
+          ],
+        }),
+      );
+
+      const vectors = await provider.embed(["first", "second"]);
+
+      expect(vectors.map((v) => [...v])).toEqual([
+        [expect.closeTo(0.6), expect.closeTo(0.8)],
+        [0, 1],
+      ]);
+      const [url, init] = spyFetch.mock.calls[0] as [string, RequestInit];
+      expect(url).toBe("http://localhost:11434/v1/embeddings");
+      expect(new Headers(init.headers).get("Authorization")).toBe(
+        "Bearer sk-test",
+      );
+      expect(JSON.parse(init.body as string)).toEqual({
+        model: "nomic-embed-text",
+        input: ["first", "second"],
+      });
+    });
+
+    it("should throw ExternalServiceError on error statuses", async () => {
+      spyFetch.mockResolvedValue(new Response("bad model", { status: 404 }));
+
+      await expect(provider.embed(["text"])).rejects.toThrow(
+        ExternalServiceError,
+      );
+    });
+
+    it("should throw ExternalServiceError when embeddings are missing", async () => {
+      spyFetch.mockResolvedValue(Response.json({ data: [] }));
+
+      await expect(provider.embed(["text"])).rejects.toThrow(
+        ExternalServiceError,
+      );
+    });
+
+    it("should not call the API without texts", async () => {
+      expect(await provider.embed([])).toEqual([]);
+      expect(spyFetch).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,259 @@
+import { config } from "./config";
+import { ExternalServiceError } from "./errors";
+import { defaultLogger } from "./logger";
+import {
+  type OpenAICompatibleEndpoint,
+  postOpenAICompatible,
+} from "./openai-compatible";
+
+const logger = defaultLogger.child({ module: "embeddings" });
+
+// Remote embedding requests are small, a stuck one must not hang a worker
+const EMBEDDING_REQUEST_TIMEOUT_MS = 30_000;
+
+export type EmbeddingProviderName = "local" | "openai";
+
+export interface EmbeddingProvider {
+  // Stored with every vector, vectors of different models are never compared
+  readonly model: string;
+  /**
+   * Embed texts into L2-normalized vectors, in input order
+   */
+  embed(texts: string[]): Promise<Float32Array[]>;
+}
+
+/**
+ * Scale a vector to unit length, so cosine similarity is a dot product
+ * Zero vectors are returned unchanged
+ */
+export function normalizeVector(vector: Float32Array): Float32Array {
+  let norm = 0;
+  for (const value of vector) {
+    norm += value * value;
+  }
+
+  norm = Math.sqrt(norm);
+  if (norm === 0) {
+    return vector;
+  }
+
+  return vector.map((value) => value / norm);
+}
+
+/**
+ * Cosine similarity of two normalized vectors
+ * Returns 0 when the dimensions differ
+ */
+export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+  if (a.length !== b.length) {
+    return 0;
+  }
+
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += (a[i] ?? 0) * (b[i] ?? 0);
+  }
+
+  return dot;
+}
+
+/**
+ * Serialize a vector for a SQLite blob (little-endian float32)
+ */
+export function vectorToBuffer(vector: Float32Array): Buffer {
+  const buffer = Buffer.alloc(vector.length * 4);
+  for (const [index, value] of vector.entries()) {
+    buffer.writeFloatLE(value, index * 4);
+  }
+  return buffer;
+}
+
+export function bufferToVector(buffer: Uint8Array): Float32Array {
+  const view = new DataView(
+    buffer.buffer,
+    buffer.byteOffset,
+    buffer.byteLength,
+  );
+  const vector = new Float32Array(Math.floor(buffer.byteLength / 4));
+  for (let i = 0; i < vector.length; i++) {
+    vector[i] = view.getFloat32(i * 4, true);
+  }
+  return vector;
+}
+
+const HASHING_DIMENSIONS = 1024;
+
+// Frequent words that say nothing about the topic
+const HASHING_STOPWORDS = new Set([
+  "about",
+  "also",
+  "and",
+  "are",
+  "been",
+  "but",
+  "can",
+  "could",
+  "for",
+  "from",
+  "had",
+  "has",
+  "have",
+  "into",
+  "its",
+  "just",
+  "more",
+  "not",
+  "one",
+  "only",
+  "our",
+  "than",
+  "that",
+  "the",
+  "their",
+  "them",
+  "then",
+  "there",
+  "these",
+  "they",
+  "this",
+  "was",
+  "were",
+  "what",
+  "when",
+  "which",
+  "will",
+  "with",
+  "would",
+  "you",
+  "your",
+]);
+
+// 32-bit FNV-1a
+function hashWord(word: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < word.length; i++) {
+    hash ^= word.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Local embeddings without network or model files
+ * Words are hashed into a fixed number of buckets with sublinear term
+ * frequency (the "hashing trick"), so texts sharing distinctive words end up
+ * close. Much weaker than a learned model, but good enough to find articles
+ * on the same topic.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly model = `hashing-${HASHING_DIMENSIONS}`;
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    return texts.map((text) => this.embedText(text));
+  }
+
+  private embedText(text: string): Float32Array {
+    const counts = new Map<string, number>();
+
+    for (const word of text.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) ?? []) {
+      if (!HASHING_STOPWORDS.has(word)) {
+        counts.set(word, (counts.get(word) ?? 0) + 1);
+      }
+    }
+
+    const vector = new Float32Array(HASHING_DIMENSIONS);
+
+    for (const [word, count] of counts) {
+      const hash = hashWord(word);
+      // The top bit picks a sign so bucket collisions tend to cancel out
+      const sign = hash & 0x80000000 ? -1 : 1;
+      const bucket = hash % HASHING_DIMENSIONS;
+      vector[bucket] = (vector[bucket] ?? 0) + sign * (1 + Math.log(count));
+    }
+
+    return normalizeVector(vector);
+  }
+}
+
+interface OpenAIEmbeddingOptions extends OpenAICompatibleEndpoint {
+  model: string;
+}
+
+/**
+ * Any OpenAI-compatible /embeddings endpoint
+ * Works with OpenAI and self-hosted servers like Ollama or llama.cpp
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string;
+  private endpoint: OpenAICompatibleEndpoint;
+
+  constructor(options: OpenAIEmbeddingOptions) {
+    this.model = options.model;
+    this.endpoint = { baseUrl: options.baseUrl, apiKey: options.apiKey };
+  }
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    if (texts.length === 0) {
+      return [];
+    }
+
+    const response = await postOpenAICompatible(
+      this.endpoint,
+      "/embeddings",
+      { model: this.model, input: texts },
+      { service: "Embeddings", timeoutMs: EMBEDDING_REQUEST_TIMEOUT_MS },
+    );
+
+    const data = (await response.json()) as {
+      data?: { index: number; embedding: number[] }[];
+    };
+
+    if (data.data?.length !== texts.length) {
+      throw new ExternalServiceError(
+        "Embeddings",
+        new Error("Unexpected number of embeddings in response"),
+      );
+    }
+
+    // Results carry their input index and aren't guaranteed to be in order
+    return [...data.data]
+      .sort((a, b) => a.index - b.index)
+      .map((item) => normalizeVector(Float32Array.from(item.embedding)));
+  }
+}
+
+const DEFAULT_OPENAI_EMBEDDING_MODEL = "text-embedding-3-small";
+
+/**
+ * Provider registry
+ */
+const EMBEDDING_PROVIDERS: Record<
+  EmbeddingProviderName,
+  () => EmbeddingProvider
+> = {
+  local: () => new HashingEmbeddingProvider(),
+  openai: () =>
+    new OpenAIEmbeddingProvider({
+      baseUrl: config.OPENAI_BASE_URL,
+      apiKey: config.OPENAI_API_KEY,
+      model: config.EMBEDDING_MODEL ?? DEFAULT_OPENAI_EMBEDDING_MODEL,
+    }),
+};
+
+let embeddingProvider: EmbeddingProvider | null = null;
+
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!embeddingProvider) {
+    embeddingProvider = EMBEDDING_PROVIDERS[config.EMBEDDING_PROVIDER]();
+    logger.info("Using embedding provider", {
+      provider: config.EMBEDDING_PROVIDER,
+      model: embeddingProvider.model,
+    });
+  }
+
+  return embeddingProvider;
+}
+
+export function _resetEmbeddingProvider() {
+  embeddingProvider = null;
+}
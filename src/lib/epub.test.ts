@@ -0,0 +1,215 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from "bun:test";
+import { readZip } from "../../test/fixtures";
+import { buildEpub, type EpubChapter, parseEpub } from "./epub";
+import * as safeFetchModule from "./safe-fetch";
+import { ZipWriter } from "./zip";
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+function readEpub(epub: Uint8Array): Map<string, string> {
+  const decoder = new TextDecoder();
+  return new Map(
+    [...readZip(epub)].map(([name, data]) => [name, decoder.decode(data)]),
+  );
+}
+
+function chapter(overrides: Partial<EpubChapter> = {}): EpubChapter {
+  return {
+    title: "First Article",
+    url: "https://example.com/posts/first",
+    siteName: "Example",
+    content: "<p>Hello world</p>",
+    ...overrides,
+  };
+}
+
+describe("epub", () => {
+  let spySafeFetch: ReturnType<
+    typeof spyOn<typeof safeFetchModule, "safeFetch">
+  >;
+
+  beforeEach(() => {
+    spySafeFetch = spyOn(safeFetchModule, "safeFetch").mockImplementation(
+      async (url) =>
+        url.endsWith(".png")
+          ? new Response(PNG, { headers: { "content-type": "image/png" } })
+          : new Response("Not found", { status: 404 }),
+    );
+  });
+
+  afterEach(() => {
+    spySafeFetch.mockRestore();
+  });
+
+  describe("buildEpub", () => {
+    it("should write the mimetype first and uncompressed", async () => {
+      const epub = await buildEpub({
+        id: "book-1",
+        title: "Book",
+        chapters: [chapter()],
+      });
+
+      expect(new TextDecoder().decode(epub.subarray(30, 58))).toBe(
+        "mimetypeapplication/epub+zip",
+      );
+      expect([...readZip(epub).keys()]).toEqual([
+        "mimetype",
+        "META-INF/container.xml",
+        "OEBPS/styles.css",
+        "OEBPS/chapter-1.xhtml",
+        "OEBPS/nav.xhtml",
+        "OEBPS/content.opf",
+      ]);
+    });
+
+    it("should describe the book in the package document", async () => {
+      const files = readEpub(
+        await buildEpub({
+          id: "book-1",
+          title: "Rust & Go",
+          language: "de",
+          author: "Example",
+          source: "https://example.com/posts/first",
+          chapters: [chapter(), chapter({ title: "Second" })],
+        }),
+      );
+      const opf = files.get("OEBPS/content.opf");
+
+      expect(opf).toContain(
+        '<dc:identifier id="book-id">urn:uuid:book-1</dc:identifier>',
+      );
+      expect(opf).toContain("<dc:title>Rust &amp; Go</dc:title>");
+      expect(opf).toContain("<dc:language>de</dc:language>");
+      expect(opf).toContain("<dc:creator>Example</dc:creator>");
+      expect(opf).toContain(
+        "<dc:source>https://example.com/posts/first</dc:source>",
+      );
+      expect(opf).toMatch(
+        /<meta property="dcterms:modified">\d{4}-\d\d-\d\dT\d\d:\d\d:\d\dZ<\/meta>/,
+      );
+      expect(opf).toContain(
+        '<itemref idref="nav"/>\n<itemref idref="chapter-1"/>\n<itemref idref="chapter-2"/>',
+      );
+      expect(files.get("OEBPS/nav.xhtml")).toContain(
+        '<li><a href="chapter-2.xhtml">Second</a></li>',
+      );
+    });
+
+    it("should convert article HTML to XHTML", async () => {
+      const files = readEpub(
+        await buildEpub({
+          id: "book-1",
+          title: "Book",
+          chapters: [
+            chapter({
+              content:
+                '<p>Line<br>break&nbsp;<a href="/about">about</a> <a href="#note">note</a></p><script>alert(1)</script><iframe src="https://example.com"></iframe>',
+            }),
+          ],
+        }),
+      );
+      const xhtml = files.get("OEBPS/chapter-1.xhtml");
+
+      expect(xhtml).toContain("<h1>First Article</h1>");
+      expect(xhtml).toContain(
+        '<p class="source"><a href="https://example.com/posts/first">Example</a></p>',
+      );
+      expect(xhtml).toContain("Line<br />break");
+      expect(xhtml).toContain('<a href="https://example.com/about">about</a>');
+      expect(xhtml).toContain('<a href="#note">note</a>');
+      expect(xhtml).not.toContain("script");
+      expect(xhtml).not.toContain("iframe");
+    });
+
+    it("should embed images and leave out the ones that can't be fetched", async () => {
+      const epub = await buildEpub({
+        id: "book-1",
+        title: "Book",
+        chapters: [
+          chapter({
+            content:
+              '<img src="/images/photo.png" srcset="/images/photo-2x.png 2x"><img src="https://example.com/missing.jpg" alt="Missing"><img src="data:image/png;base64,AAAA">',
+          }),
+          chapter({
+            title: "Second",
+            content: '<img src="https://example.com/images/photo.png">',
+          }),
+        ],
+      });
+      const files = readEpub(epub);
+
+      expect(readZip(epub).get("OEBPS/images/1.png")).toEqual(PNG);
+      expect(files.get("OEBPS/content.opf")).toContain(
+        '<item id="image-1" href="images/1.png" media-type="image/png"/>',
+      );
+      expect(files.get("OEBPS/chapter-1.xhtml")).toContain(
+        '<img src="images/1.png" alt="" />',
+      );
+      expect(files.get("OEBPS/chapter-1.xhtml")).not.toContain("Missing");
+      expect(files.get("OEBPS/chapter-1.xhtml")).not.toContain("data:");
+      expect(files.get("OEBPS/chapter-2.xhtml")).toContain(
+        '<img src="images/1.png" alt="" />',
+      );
+      // Downloaded once for both chapters
+      expect(spySafeFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not embed files that aren't images", async () => {
+      spySafeFetch.mockResolvedValue(
+        new Response("<html></html>", {
+          headers: { "content-type": "text/html" },
+        }),
+      );
+
+      const files = readEpub(
+        await buildEpub({
+          id: "book-1",
+          title: "Book",
+          chapters: [chapter({ content: '<p><img src="/image.png"></p>' })],
+        }),
+      );
+
+      expect(files.get("OEBPS/chapter-1.xhtml")).not.toContain("<img");
+      expect([...files.keys()].some((name) => name.includes("images/"))).toBe(
+        false,
+      );
+    });
+  });
+
+  describe("parseEpub", () => {
+    it("should read metadata and chapters in spine order", async () => {
+      const book = parseEpub(
+        await buildEpub({
+          id: "book-1",
+          title: "Rust & Go",
+          language: "de",
+          author: "Example",
+          chapters: [
+            chapter(),
+            chapter({ title: "Second", content: "<p>Second page</p>" }),
+          ],
+        }),
+      );
+
+      expect(book).toMatchObject({
+        title: "Rust & Go",
+        author: "Example",
+        language: "de",
+      });
+      expect(book.chapters).toHaveLength(2);
+      expect(book.chapters[0]).toContain("<p>Hello world</p>");
+      expect(book.chapters[1]).toContain("<p>Second page</p>");
+    });
+
+    it("should throw on archives without a package document", () => {
+      const chunks: Uint8Array[] = [];
+      const zip = new ZipWriter({ write: (chunk) => chunks.push(chunk) });
+      zip.add("index.html", "<p>Hello</p>");
+      zip.finish();
+
+      expect(() => parseEpub(Buffer.concat(chunks))).toThrow(
+        "Missing META-INF/container.xml in EPUB",
+      );
+    });
+  });
+});
@@ -0,0 +1,436 @@
+import { JSDOM } from "jsdom";
+import { defaultLogger } from "./logger";
+import { safeFetch } from "./safe-fetch";
+import { readZip, ZipWriter } from "./zip";
+
+const logger = defaultLogger.child({ module: "epub" });
+
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+// Keeps books small enough for e-readers and Telegram uploads
+const MAX_TOTAL_IMAGE_BYTES = 30 * 1024 * 1024;
+const IMAGE_TIMEOUT_MS = 15_000;
+// Uncompressed size of books read with parseEpub
+const MAX_BOOK_BYTES = 100 * 1024 * 1024;
+
+// EPUB 3 core media types for images
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "image/svg+xml": "svg",
+};
+
+// Remote media and interactive elements e-readers can't show
+const REMOVED_ELEMENTS =
+  "script, style, noscript, iframe, object, embed, video, audio, source, form, input, button, select, textarea, canvas";
+
+const CONTAINER_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`;
+
+const STYLESHEET = `body { line-height: 1.5; }
+img { max-width: 100%; height: auto; }
+pre { white-space: pre-wrap; }
+.source { font-size: 0.9em; margin-bottom: 2em; }
+`;
+
+export interface EpubChapter {
+  title: string;
+  url: string;
+  siteName?: string | null;
+  // Cleaned article HTML, as stored in the content cache
+  content: string;
+}
+
+export interface EpubBook {
+  id: string;
+  title: string;
+  language?: string | null;
+  author?: string | null;
+  // Original URL of single article books
+  source?: string;
+  chapters: EpubChapter[];
+}
+
+export interface ParsedEpub {
+  title?: string;
+  author?: string;
+  language?: string;
+  // Body HTML of the spine documents, in reading order
+  chapters: string[];
+}
+
+interface ManifestItem {
+  id: string;
+  href: string;
+  mediaType: string;
+  properties?: string;
+}
+
+function escapeXml(value: string): string {
+  return Bun.escapeHTML(value);
+}
+
+/**
+ * Downloads article images into the book, each URL once
+ */
+class ImageEmbedder {
+  private images = new Map<string, ManifestItem | null>();
+  private totalBytes = 0;
+  readonly items: ManifestItem[] = [];
+
+  constructor(
+    private readonly zip: ZipWriter,
+    private readonly modifiedAt: Date,
+  ) {}
+
+  /**
+   * Path of the embedded image, null when it can't be embedded
+   */
+  async embed(url: string): Promise<string | null> {
+    if (!this.images.has(url)) {
+      this.images.set(url, await this.download(url));
+    }
+
+    return this.images.get(url)?.href ?? null;
+  }
+
+  private async download(url: string): Promise<ManifestItem | null> {
+    if (this.totalBytes >= MAX_TOTAL_IMAGE_BYTES) {
+      return null;
+    }
+
+    try {
+      const response = await safeFetch(url, {
+        signal: AbortSignal.timeout(IMAGE_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        return null;
+      }
+
+      const mediaType = response.headers
+        .get("content-type")
+        ?.split(";")[0]
+        ?.trim()
+        .toLowerCase();
+      const extension = mediaType && IMAGE_EXTENSIONS[mediaType];
+      if (!mediaType || !extension) {
+        return null;
+      }
+
+      const data = new Uint8Array(await response.arrayBuffer());
+      if (
+        data.length > MAX_IMAGE_BYTES ||
+        this.totalBytes + data.length > MAX_TOTAL_IMAGE_BYTES
+      ) {
+        return null;
+      }
+
+      const index = this.items.length + 1;
+      const item: ManifestItem = {
+        id: `image-${index}`,
+        href: `images/${index}.${extension}`,
+        mediaType,
+      };
+
+      // Images are compressed already
+      this.zip.add(`OEBPS/${item.href}`, data, this.modifiedAt, {
+        store: true,
+      });
+      this.totalBytes += data.length;
+      this.items.push(item);
+
+      return item;
+    } catch (error) {
+      logger.warn("Failed to download image", { url, error });
+      return null;
+    }
+  }
+}
+
+/**
+ * XHTML body of a chapter with its images embedded
+ */
+async function chapterBody(
+  chapter: EpubChapter,
+  images: ImageEmbedder,
+): Promise<{ body: string; hasSvg: boolean }> {
+  const dom = new JSDOM(`<body>${chapter.content}</body>`, {
+    url: URL.canParse(chapter.url) ? chapter.url : undefined,
+  });
+  const { document } = dom.window;
+
+  for (const element of document.querySelectorAll(REMOVED_ELEMENTS)) {
+    element.remove();
+  }
+
+  for (const image of document.querySelectorAll("img")) {
+    const src = image.getAttribute("src") || image.getAttribute("data-src");
+    const url =
+      src && URL.canParse(src, chapter.url) ? new URL(src, chapter.url) : null;
+    const path =
+      url && (url.protocol === "http:" || url.protocol === "https:")
+        ? await images.embed(url.toString())
+        : null;
+
+    if (!path) {
+      image.remove();
+      continue;
+    }
+
+    image.setAttribute("src", path);
+    image.setAttribute("alt", image.getAttribute("alt") ?? "");
+    image.removeAttribute("srcset");
+    image.removeAttribute("sizes");
+    image.removeAttribute("data-src");
+  }
+
+  // Relative links would point inside the book
+  for (const anchor of document.querySelectorAll("a[href]")) {
+    const href = anchor.getAttribute("href") ?? "";
+    if (!href.startsWith("#") && URL.canParse(href, chapter.url)) {
+      anchor.setAttribute("href", new URL(href, chapter.url).toString());
+    }
+  }
+
+  const header = document.createElement("header");
+  const heading = document.createElement("h1");
+  heading.textContent = chapter.title;
+  header.append(heading);
+
+  if (URL.canParse(chapter.url)) {
+    const source = document.createElement("p");
+    const link = document.createElement("a");
+    source.className = "source";
+    link.href = chapter.url;
+    link.textContent = chapter.siteName || new URL(chapter.url).hostname;
+    source.append(link);
+    header.append(source);
+  }
+  document.body.prepend(header);
+
+  return {
+    body: new dom.window.XMLSerializer().serializeToString(document.body),
+    hasSvg: document.querySelector("svg") !== null,
+  };
+}
+
+function xhtmlDocument(title: string, language: string, body: string): string {
+  const lang = escapeXml(language);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="${lang}" xml:lang="${lang}">
+<head>
+<title>${escapeXml(title)}</title>
+<link rel="stylesheet" type="text/css" href="styles.css"/>
+</head>
+${body}
+</html>
+`;
+}
+
+function navDocument(
+  book: EpubBook,
+  language: string,
+  chapters: ManifestItem[],
+): string {
+  const entries = chapters.map(
+    (item, index) =>
+      `<li><a href="${item.href}">${escapeXml(book.chapters[index]?.title ?? "")}</a></li>`,
+  );
+
+  return xhtmlDocument(
+    book.title,
+    language,
+    `<body>
+<nav epub:type="toc" id="toc">
+<h1>${escapeXml(book.title)}</h1>
+<ol>
+${entries.join("\n")}
+</ol>
+</nav>
+</body>`,
+  );
+}
+
+function packageDocument(
+  book: EpubBook,
+  language: string,
+  items: ManifestItem[],
+  chapters: ManifestItem[],
+  modifiedAt: Date,
+): string {
+  const metadata = [
+    `<dc:identifier id="book-id">urn:uuid:${escapeXml(book.id)}</dc:identifier>`,
+    `<dc:title>${escapeXml(book.title)}</dc:title>`,
+    `<dc:language>${escapeXml(language)}</dc:language>`,
+    book.author && `<dc:creator>${escapeXml(book.author)}</dc:creator>`,
+    book.source && `<dc:source>${escapeXml(book.source)}</dc:source>`,
+    `<meta property="dcterms:modified">${modifiedAt.toISOString().replace(/\.\d{3}Z$/, "Z")}</meta>`,
+  ].filter(Boolean);
+
+  const manifest = items.map(
+    (item) =>
+      `<item id="${item.id}" href="${item.href}" media-type="${item.mediaType}"${item.properties ? ` properties="${item.properties}"` : ""}/>`,
+  );
+
+  // Books of several articles open on the table of contents
+  const spine = [
+    ...(chapters.length > 1 ? ["nav"] : []),
+    ...chapters.map((item) => item.id),
+  ].map((id) => `<itemref idref="${id}"/>`);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${escapeXml(language)}">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+${metadata.join("\n")}
+</metadata>
+<manifest>
+${manifest.join("\n")}
+</manifest>
+<spine>
+${spine.join("\n")}
+</spine>
+</package>
+`;
+}
+
+/**
+ * Build an EPUB 3 book, one chapter per article
+ * Images are downloaded and embedded, the ones that fail are left out
+ */
+export async function buildEpub(
+  book: EpubBook,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const modifiedAt = new Date();
+  const language = book.language || "en";
+  const chunks: Uint8Array[] = [];
+  const zip = new ZipWriter({ write: (chunk) => chunks.push(chunk) });
+
+  // Must be the first entry, uncompressed
+  zip.add("mimetype", "application/epub+zip", modifiedAt, { store: true });
+  zip.add("META-INF/container.xml", CONTAINER_XML, modifiedAt);
+  zip.add("OEBPS/styles.css", STYLESHEET, modifiedAt);
+
+  const images = new ImageEmbedder(zip, modifiedAt);
+  const chapters: ManifestItem[] = [];
+
+  for (const [index, chapter] of book.chapters.entries()) {
+    const { body, hasSvg } = await chapterBody(chapter, images);
+    const item: ManifestItem = {
+      id: `chapter-${index + 1}`,
+      href: `chapter-${index + 1}.xhtml`,
+      mediaType: "application/xhtml+xml",
+      properties: hasSvg ? "svg" : undefined,
+    };
+
+    zip.add(
+      `OEBPS/${item.href}`,
+      xhtmlDocument(chapter.title, language, body),
+      modifiedAt,
+    );
+    chapters.push(item);
+  }
+
+  const items: ManifestItem[] = [
+    {
+      id: "nav",
+      href: "nav.xhtml",
+      mediaType: "application/xhtml+xml",
+      properties: "nav",
+    },
+    { id: "styles", href: "styles.css", mediaType: "text/css" },
+    ...chapters,
+    ...images.items,
+  ];
+
+  zip.add("OEBPS/nav.xhtml", navDocument(book, language, chapters), modifiedAt);
+  zip.add(
+    "OEBPS/content.opf",
+    packageDocument(book, language, items, chapters, modifiedAt),
+    modifiedAt,
+  );
+  zip.finish();
+
+  return Buffer.concat(chunks);
+}
+
+function parseXml(data: Uint8Array | undefined, path: string): Document {
+  if (!data) {
+    throw new Error(`Missing ${path} in EPUB`);
+  }
+  return new JSDOM(new TextDecoder().decode(data), {
+    contentType: "application/xml",
+  }).window.document;
+}
+
+/**
+ * Path of an href relative to the file it appears in, "OEBPS/x.opf"
+ * and "text/1.xhtml" make "OEBPS/text/1.xhtml"
+ */
+function resolvePath(base: string, href: string): string {
+  const url = new URL(href, `file:///${base}`);
+  return decodeURIComponent(url.pathname.slice(1));
+}
+
+/**
+ * Read the metadata and chapters of an EPUB 2 or 3 book
+ * Chapters are read as HTML, XHTML parse errors don't lose a chapter
+ */
+export function parseEpub(epub: Uint8Array): ParsedEpub {
+  const files = readZip(epub, { maxSize: MAX_BOOK_BYTES });
+
+  const container = parseXml(
+    files.get("META-INF/container.xml"),
+    "META-INF/container.xml",
+  );
+  const opfPath = container
+    .getElementsByTagNameNS("*", "rootfile")[0]
+    ?.getAttribute("full-path");
+  if (!opfPath) {
+    throw new Error("EPUB has no package document");
+  }
+
+  const opf = parseXml(files.get(opfPath), opfPath);
+  const metadata = (name: string) =>
+    opf.getElementsByTagNameNS("*", name)[0]?.textContent?.trim() || undefined;
+
+  const manifest = new Map<string, string>();
+  for (const item of opf.getElementsByTagNameNS("*", "item")) {
+    const id = item.getAttribute("id");
+    const href = item.getAttribute("href");
+    // The table of contents repeats the chapter titles
+    const isNav = /\bnav\b/.test(item.getAttribute("properties") ?? "");
+    if (id && href && !isNav) {
+      manifest.set(id, resolvePath(opfPath, href));
+    }
+  }
+
+  const chapters: string[] = [];
+  for (const itemref of opf.getElementsByTagNameNS("*", "itemref")) {
+    const path = manifest.get(itemref.getAttribute("idref") ?? "");
+    const data = path ? files.get(path) : undefined;
+    if (!data) {
+      continue;
+    }
+
+    const { document } = new JSDOM(new TextDecoder().decode(data)).window;
+    const body = document.body.innerHTML.trim();
+    if (body) {
+      chapters.push(body);
+    }
+  }
+
+  return {
+    title: metadata("title"),
+    author: metadata("creator"),
+    language: metadata("language"),
+    chapters,
+  };
+}
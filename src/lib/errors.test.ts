@@ -4,6 +4,7 @@ import {
   ExternalServiceError,
   ForbiddenError,
   InternalError,
+  LLMOutputError,
   NotFoundError,
   UnauthorizedError,
   ValidationError,
@@ -118,6 +119,29 @@ describe("errors", () => {
     });
   });
 
+  describe("LLMOutputError", () => {
+    it("should create error with correct shape", () => {
+      const error = new LLMOutputError(
+        "tag_extraction",
+        ["language: Invalid", "tags: Required"],
+        3,
+      );
+
+      expect(error).toBeInstanceOf(Error);
+      expect(error).toBeInstanceOf(LLMOutputError);
+      expect(error.name).toBe("LLMOutputError");
+      expect(error.message).toBe(
+        "Invalid LLM output for tag_extraction: language: Invalid; tags: Required",
+      );
+      expect(error.statusCode).toBe(502);
+      expect(error.context).toEqual({
+        output: "tag_extraction",
+        issues: ["language: Invalid", "tags: Required"],
+        attempts: 3,
+      });
+    });
+  });
+
   describe("InternalError", () => {
     it("should create error with default message", () => {
       const error = new InternalError();
@@ -80,6 +80,23 @@ export class ExternalServiceError extends AppError {
   }
 }
 
+/**
+ * LLM response that doesn't match the expected schema, even after repair attempts (502)
+ *
+ * Usage: throw new LLMOutputError("tag_extraction", ["language: Invalid"], 3)
+ */
+export class LLMOutputError extends AppError {
+  override readonly statusCode = 502;
+
+  constructor(output: string, issues: string[], attempts: number) {
+    super(`Invalid LLM output for ${output}: ${issues.join("; ")}`, {
+      output,
+      issues,
+      attempts,
+    });
+  }
+}
+
 /**
  * Internal server error (500)
  *
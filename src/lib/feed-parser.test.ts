@@ -0,0 +1,177 @@
+import { describe, expect, it } from "bun:test";
+import { findFeedLinks, parseFeed } from "./feed-parser";
+
+const FEED_URL = "https://example.com/feed.xml";
+
+const RSS = `<?xml version="1.0"?>
+<rss version="2.0" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel>
+    <title>Example Blog</title>
+    <link>https://example.com/</link>
+    <item>
+      <title>Second &amp; last</title>
+      <link>/posts/2</link>
+      <guid isPermaLink="false">post-2</guid>
+      <description>&lt;p&gt;Hello &lt;b&gt;world&lt;/b&gt;&lt;/p&gt;</description>
+      <pubDate>Tue, 03 Mar 2026 10:00:00 GMT</pubDate>
+      <category>Rust</category>
+    </item>
+    <item>
+      <title>First</title>
+      <link>https://example.com/posts/1</link>
+      <dc:date>2026-03-01T10:00:00Z</dc:date>
+    </item>
+    <item>
+      <title>No link</title>
+    </item>
+  </channel>
+</rss>`;
+
+const ATOM = `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title type="html">Atom &amp;amp; &lt;i&gt;Blog&lt;/i&gt;</title>
+  <link rel="self" href="https://example.com/atom.xml"/>
+  <link href="https://example.com/"/>
+  <entry>
+    <id>tag:example.com,2026:1</id>
+    <title>Atom post</title>
+    <link rel="alternate" href="https://example.com/atom/1"/>
+    <updated>2026-03-02T10:00:00Z</updated>
+    <summary>Summary text</summary>
+    <category term="databases"/>
+  </entry>
+</feed>`;
+
+describe("feed-parser", () => {
+  describe("parseFeed", () => {
+    it("should parse RSS 2.0", () => {
+      const feed = parseFeed(RSS, FEED_URL);
+
+      expect(feed.title).toBe("Example Blog");
+      expect(feed.siteUrl).toBe("https://example.com/");
+      expect(feed.entries).toEqual([
+        {
+          id: "post-2",
+          url: "https://example.com/posts/2",
+          title: "Second & last",
+          summary: "Hello world",
+          publishedAt: new Date("2026-03-03T10:00:00Z"),
+          categories: ["Rust"],
+        },
+        {
+          id: "https://example.com/posts/1",
+          url: "https://example.com/posts/1",
+          title: "First",
+          summary: undefined,
+          publishedAt: new Date("2026-03-01T10:00:00Z"),
+          categories: [],
+        },
+      ]);
+    });
+
+    it("should parse RSS 1.0", () => {
+      const feed = parseFeed(
+        `<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#" xmlns="http://purl.org/rss/1.0/">
+          <channel><title>RDF</title></channel>
+          <item><title>Item</title><link>https://example.com/rdf/1</link></item>
+        </rdf:RDF>`,
+        FEED_URL,
+      );
+
+      expect(feed.title).toBe("RDF");
+      expect(feed.entries.map((entry) => entry.url)).toEqual([
+        "https://example.com/rdf/1",
+      ]);
+    });
+
+    it("should parse Atom", () => {
+      const feed = parseFeed(ATOM, FEED_URL);
+
+      expect(feed.title).toBe("Atom & Blog");
+      expect(feed.siteUrl).toBe("https://example.com/");
+      expect(feed.entries).toEqual([
+        {
+          id: "tag:example.com,2026:1",
+          url: "https://example.com/atom/1",
+          title: "Atom post",
+          summary: "Summary text",
+          publishedAt: new Date("2026-03-02T10:00:00Z"),
+          categories: ["databases"],
+        },
+      ]);
+    });
+
+    it("should parse JSON Feed", () => {
+      const feed = parseFeed(
+        JSON.stringify({
+          version: "https://jsonfeed.org/version/1.1",
+          title: "JSON Blog",
+          items: [
+            {
+              id: 1,
+              url: "https://example.com/json/1",
+              content_html: "<p>Body</p>",
+              tags: ["go", 3],
+            },
+            { id: "no-url" },
+          ],
+        }),
+        FEED_URL,
+      );
+
+      expect(feed.title).toBe("JSON Blog");
+      expect(feed.entries).toEqual([
+        {
+          id: "1",
+          url: "https://example.com/json/1",
+          title: undefined,
+          summary: "Body",
+          publishedAt: undefined,
+          categories: ["go"],
+        },
+      ]);
+    });
+
+    it("should skip duplicate entries", () => {
+      const feed = parseFeed(
+        `<rss><channel>
+          <item><link>https://example.com/a</link></item>
+          <item><link>https://example.com/a</link></item>
+        </channel></rss>`,
+        FEED_URL,
+      );
+
+      expect(feed.title).toBe("example.com");
+      expect(feed.entries).toHaveLength(1);
+    });
+
+    it.each([
+      ["HTML", "<!doctype html><html><body>Hi</body></html>"],
+      ["JSON", '{"items": []}'],
+      ["text", "not a feed"],
+    ])("should reject %s", (_, body) => {
+      expect(() => parseFeed(body, FEED_URL)).toThrow(
+        "Not an RSS, Atom or JSON feed",
+      );
+    });
+  });
+
+  describe("findFeedLinks", () => {
+    it("should find alternate feed links", () => {
+      const links = findFeedLinks(
+        `<html><head>
+          <link rel="alternate" type="application/rss+xml" href="/feed.xml">
+          <link rel="alternate" type="application/atom+xml" href="https://example.com/atom.xml">
+          <link rel="alternate" hreflang="de" href="/de">
+          <link rel="stylesheet" href="/style.css">
+        </head></html>`,
+        "https://example.com/blog/",
+      );
+
+      expect(links).toEqual([
+        "https://example.com/feed.xml",
+        "https://example.com/atom.xml",
+      ]);
+    });
+  });
+});
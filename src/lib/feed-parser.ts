@@ -0,0 +1,271 @@
+import { JSDOM } from "jsdom";
+import { ValidationError } from "./errors";
+
+/**
+ * A post of an RSS, Atom or JSON feed
+ */
+export interface FeedEntry {
+  // guid or id, the link when the feed has none
+  id: string;
+  url: string;
+  title?: string;
+  // Plain text of the summary or content, for keyword filters
+  summary?: string;
+  publishedAt?: Date;
+  categories: string[];
+}
+
+export interface ParsedFeed {
+  title: string;
+  siteUrl?: string;
+  entries: FeedEntry[];
+}
+
+const FEED_LINK_TYPES = [
+  "application/rss+xml",
+  "application/atom+xml",
+  "application/feed+json",
+  "application/json",
+];
+
+function resolveUrl(href: string | undefined, base: string) {
+  if (!href) {
+    return undefined;
+  }
+
+  try {
+    const resolved = new URL(href.trim(), base);
+    if (resolved.protocol !== "http:" && resolved.protocol !== "https:") {
+      return undefined;
+    }
+    return resolved.toString();
+  } catch {
+    return undefined;
+  }
+}
+
+function parseDate(value: string | undefined): Date | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const date = new Date(value.trim());
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+function plainText(html: string | undefined): string | undefined {
+  if (!html) {
+    return undefined;
+  }
+  const text = JSDOM.fragment(html).textContent?.replace(/\s+/g, " ").trim();
+  return text || undefined;
+}
+
+/**
+ * Child elements by local name, so namespaced elements like dc:date match
+ */
+function children(element: Element, name: string): Element[] {
+  return [...element.children].filter((child) => child.localName === name);
+}
+
+function childText(element: Element, ...names: string[]): string | undefined {
+  for (const name of names) {
+    const text = children(element, name)[0]?.textContent?.trim();
+    if (text) {
+      return text;
+    }
+  }
+  return undefined;
+}
+
+function cleanEntries(entries: Array<FeedEntry | null>): FeedEntry[] {
+  const seen = new Set<string>();
+  return entries.filter((entry): entry is FeedEntry => {
+    if (!entry || seen.has(entry.id)) {
+      return false;
+    }
+    seen.add(entry.id);
+    return true;
+  });
+}
+
+// RSS 2.0, and RSS 1.0 (RDF) where items are siblings of the channel
+function parseRss(root: Element, feedUrl: string): ParsedFeed {
+  const channel = children(root, "channel")[0];
+  const items = [
+    ...children(root, "item"),
+    ...(channel ? children(channel, "item") : []),
+  ];
+
+  return {
+    title: (channel && childText(channel, "title")) || new URL(feedUrl).host,
+    siteUrl: resolveUrl(channel && childText(channel, "link"), feedUrl),
+    entries: cleanEntries(
+      items.map((item) => {
+        const url = resolveUrl(childText(item, "link"), feedUrl);
+        if (!url) {
+          return null;
+        }
+
+        return {
+          id: childText(item, "guid") ?? url,
+          url,
+          title: plainText(childText(item, "title")),
+          summary: plainText(childText(item, "description", "encoded")),
+          publishedAt: parseDate(childText(item, "pubDate", "date")),
+          categories: children(item, "category")
+            .map((category) => category.textContent?.trim() ?? "")
+            .filter(Boolean),
+        };
+      }),
+    ),
+  };
+}
+
+function atomLink(element: Element, base: string): string | undefined {
+  const links = children(element, "link");
+  const link =
+    links.find((l) => (l.getAttribute("rel") ?? "alternate") === "alternate") ??
+    links[0];
+  return resolveUrl(link?.getAttribute("href") ?? undefined, base);
+}
+
+function parseAtom(root: Element, feedUrl: string): ParsedFeed {
+  return {
+    title: plainText(childText(root, "title")) || new URL(feedUrl).host,
+    siteUrl: atomLink(root, feedUrl),
+    entries: cleanEntries(
+      children(root, "entry").map((entry) => {
+        const url = atomLink(entry, feedUrl);
+        if (!url) {
+          return null;
+        }
+
+        return {
+          id: childText(entry, "id") ?? url,
+          url,
+          title: plainText(childText(entry, "title")),
+          summary: plainText(childText(entry, "summary", "content")),
+          publishedAt: parseDate(childText(entry, "published", "updated")),
+          categories: children(entry, "category")
+            .map((category) => category.getAttribute("term")?.trim() ?? "")
+            .filter(Boolean),
+        };
+      }),
+    ),
+  };
+}
+
+interface JsonFeed {
+  version?: unknown;
+  title?: unknown;
+  home_page_url?: unknown;
+  items?: unknown;
+}
+
+interface JsonFeedItem {
+  id?: unknown;
+  url?: unknown;
+  external_url?: unknown;
+  title?: unknown;
+  summary?: unknown;
+  content_text?: unknown;
+  content_html?: unknown;
+  date_published?: unknown;
+  tags?: unknown;
+}
+
+function str(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value : undefined;
+}
+
+function parseJsonFeed(feed: JsonFeed, feedUrl: string): ParsedFeed {
+  const items = Array.isArray(feed.items) ? (feed.items as JsonFeedItem[]) : [];
+
+  return {
+    title: str(feed.title) ?? new URL(feedUrl).host,
+    siteUrl: resolveUrl(str(feed.home_page_url), feedUrl),
+    entries: cleanEntries(
+      items.map((item) => {
+        const url = resolveUrl(
+          str(item.url) ?? str(item.external_url),
+          feedUrl,
+        );
+        if (!url) {
+          return null;
+        }
+
+        return {
+          id:
+            str(item.id) ?? (typeof item.id === "number" ? `${item.id}` : url),
+          url,
+          title: str(item.title),
+          summary:
+            str(item.summary) ??
+            str(item.content_text) ??
+            plainText(str(item.content_html)),
+          publishedAt: parseDate(str(item.date_published)),
+          categories: Array.isArray(item.tags)
+            ? item.tags.filter((tag): tag is string => typeof tag === "string")
+            : [],
+        };
+      }),
+    ),
+  };
+}
+
+/**
+ * Parse an RSS 2.0, RSS 1.0, Atom or JSON Feed document
+ * Relative links are resolved against the feed URL
+ */
+export function parseFeed(body: string, feedUrl: string): ParsedFeed {
+  const text = body.trim();
+
+  if (text.startsWith("{")) {
+    let json: JsonFeed;
+    try {
+      json = JSON.parse(text);
+    } catch {
+      throw new ValidationError("Not an RSS, Atom or JSON feed");
+    }
+    if (
+      typeof json.version !== "string" ||
+      !json.version.startsWith("https://jsonfeed.org/version/")
+    ) {
+      throw new ValidationError("Not an RSS, Atom or JSON feed");
+    }
+    return parseJsonFeed(json, feedUrl);
+  }
+
+  let root: Element | null = null;
+  try {
+    root = new JSDOM(text, { contentType: "text/xml" }).window.document
+      .documentElement;
+  } catch {
+    // Malformed XML, or HTML
+  }
+
+  switch (root?.localName) {
+    case "rss":
+    case "RDF":
+      return parseRss(root, feedUrl);
+    case "feed":
+      return parseAtom(root, feedUrl);
+    default:
+      throw new ValidationError("Not an RSS, Atom or JSON feed");
+  }
+}
+
+/**
+ * Feeds a web page links to with <link rel="alternate">
+ */
+export function findFeedLinks(html: string, pageUrl: string): string[] {
+  const document = JSDOM.fragment(html);
+  const links = [...document.querySelectorAll('link[rel~="alternate"]')]
+    .filter((link) =>
+      FEED_LINK_TYPES.includes(link.getAttribute("type")?.toLowerCase() ?? ""),
+    )
+    .map((link) => resolveUrl(link.getAttribute("href") ?? undefined, pageUrl))
+    .filter((url): url is string => !!url);
+
+  return [...new Set(links)];
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "bun:test";
+import {
+  buildFtsQuery,
+  SNIPPET_MATCH_END,
+  SNIPPET_MATCH_START,
+  splitSnippet,
+} from "./fts";
+
+describe("fts", () => {
+  describe("buildFtsQuery", () => {
+    const words = (value: string) => ({ value, phrase: false });
+    const phrase = (value: string) => ({ value, phrase: true });
+
+    it("should turn words into quoted prefix terms", () => {
+      expect(buildFtsQuery([words("Hello World")])).toBe('"hello"* "world"*');
+    });
+
+    it("should turn phrases into exact phrase matches", () => {
+      expect(buildFtsQuery([words("rust"), phrase("Borrow Checker")])).toBe(
+        '"rust"* "borrow checker"',
+      );
+    });
+
+    it("should drop FTS operators and punctuation", () => {
+      expect(buildFtsQuery([words('title:"rust" OR (c++) -go*')])).toBe(
+        '"title"* "rust"* "or"* "c"* "go"*',
+      );
+    });
+
+    it("should keep non-latin letters and digits", () => {
+      expect(buildFtsQuery([words("Привет 2024 café")])).toBe(
+        '"привет"* "2024"* "café"*',
+      );
+    });
+
+    it("should match any part when matchAny is set", () => {
+      expect(
+        buildFtsQuery([words("rust traits"), phrase("borrow checker")], {
+          matchAny: true,
+        }),
+      ).toBe('"rust"* OR "traits"* OR "borrow checker"');
+    });
+
+    it("should return null when there are no words", () => {
+      expect(buildFtsQuery([words("  %% !! "), phrase("--")])).toBeNull();
+      expect(buildFtsQuery([])).toBeNull();
+    });
+  });
+
+  describe("splitSnippet", () => {
+    it("should split marked matches from plain text", () => {
+      const snippet = `…the ${SNIPPET_MATCH_START}quick${SNIPPET_MATCH_END} fox and ${SNIPPET_MATCH_START}quick${SNIPPET_MATCH_END}`;
+
+      expect(splitSnippet(snippet)).toEqual([
+        { text: "…the ", match: false },
+        { text: "quick", match: true },
+        { text: " fox and ", match: false },
+        { text: "quick", match: true },
+      ]);
+    });
+
+    it("should return plain text unchanged", () => {
+      expect(splitSnippet("no matches here")).toEqual([
+        { text: "no matches here", match: false },
+      ]);
+    });
+
+    it("should treat an unterminated match as matched to the end", () => {
+      expect(splitSnippet(`a ${SNIPPET_MATCH_START}b`)).toEqual([
+        { text: "a ", match: false },
+        { text: "b", match: true },
+      ]);
+    });
+  });
+});
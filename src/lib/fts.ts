@@ -0,0 +1,69 @@
+import type { SearchText } from "./search-query";
+
+/**
+ * Helpers for SQLite FTS5 queries and snippets
+ */
+
+// Control characters wrapped around matched terms in snippets
+// They can't appear in extracted text, so the UI can safely split on them
+export const SNIPPET_MATCH_START = "\u0002";
+export const SNIPPET_MATCH_END = "\u0003";
+
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+function toWords(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{M}\p{N}]+/gu) ?? [];
+}
+
+/**
+ * Convert parsed search text into a safe FTS5 MATCH expression
+ * Words become quoted prefix terms and phrases quoted phrases, so FTS syntax
+ * in user input is inert. All parts must match (implicit AND) unless
+ * matchAny is set, which suits natural language questions ranked by bm25.
+ * Returns null when the input has no searchable words
+ */
+export function buildFtsQuery(
+  parts: SearchText[],
+  options: { matchAny?: boolean } = {},
+): string | null {
+  const expressions = parts.flatMap(({ value, phrase }) => {
+    const words = toWords(value);
+
+    if (words.length === 0) return [];
+    if (phrase) return [`"${words.join(" ")}"`];
+
+    return words.map((word) => `"${word}"*`);
+  });
+
+  if (expressions.length === 0) {
+    return null;
+  }
+
+  return expressions.join(options.matchAny ? " OR " : " ");
+}
+
+/**
+ * Split a snippet into plain and matched parts using the marker characters
+ */
+export function splitSnippet(snippet: string): SnippetPart[] {
+  const parts: SnippetPart[] = [];
+
+  for (const [index, chunk] of snippet.split(SNIPPET_MATCH_START).entries()) {
+    if (index === 0) {
+      if (chunk) parts.push({ text: chunk, match: false });
+      continue;
+    }
+
+    const endIndex = chunk.indexOf(SNIPPET_MATCH_END);
+    const match = endIndex === -1 ? chunk : chunk.slice(0, endIndex);
+    const rest = endIndex === -1 ? "" : chunk.slice(endIndex + 1);
+
+    if (match) parts.push({ text: match, match: true });
+    if (rest) parts.push({ text: rest, match: false });
+  }
+
+  return parts;
+}
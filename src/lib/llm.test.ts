@@ -1,26 +1,52 @@
-import { beforeEach, describe, expect, it, mock } from "bun:test";
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  mock,
+  spyOn,
+} from "bun:test";
 
 // Mock Anthropic SDK globally
 const mockAnthropicCreate = mock((_args: any) => Promise.resolve({} as any));
+const mockAnthropicStream = mock((_args: any): AsyncIterable<any> => {
+  throw new Error("Not mocked");
+});
 
 mock.module("@anthropic-ai/sdk", () => {
   return {
     default: class MockAnthropic {
       messages = {
         create: mockAnthropicCreate,
+        stream: mockAnthropicStream,
       };
     },
   };
 });
 
 // Import after mocking
+import { ExternalServiceError, LLMOutputError } from "./errors";
 import {
   ClaudeProvider,
+  createLLMProvider,
   extractJsonFromResponse,
+  FakeLLMProvider,
   getLLMProvider,
   isLLMAvailable,
+  OpenAICompatibleProvider,
+  parsePartialJson,
+  type SummaryResult,
 } from "./llm";
 
+async function collect(stream: AsyncIterable<SummaryResult>) {
+  const snapshots: SummaryResult[] = [];
+  for await (const snapshot of stream) {
+    snapshots.push(snapshot);
+  }
+  return snapshots;
+}
+
 describe("extractJsonFromResponse", () => {
   it("extracts tag response with array", () => {
     const response = '{"tags": ["javascript", "testing"], "confidence": 0.9}';
@@ -123,6 +149,41 @@ describe("extractJsonFromResponse", () => {
   });
 });
 
+describe("parsePartialJson", () => {
+  it("should parse complete JSON", () => {
+    expect(parsePartialJson('{"a": "b", "c": [1, 2]}')).toEqual({
+      a: "b",
+      c: [1, 2],
+    });
+  });
+
+  it("should close unterminated strings and brackets", () => {
+    expect(parsePartialJson('{"a": "hel')).toEqual({ a: "hel" });
+    expect(parsePartialJson('{"a": ["x", "y')).toEqual({ a: ["x"] });
+    expect(parsePartialJson('{"a": {"b": "c"')).toEqual({ a: { b: "c" } });
+  });
+
+  it("should drop dangling keys and separators", () => {
+    expect(parsePartialJson('{"a": "b", "lo')).toEqual({ a: "b" });
+    expect(parsePartialJson('{"a": "b", "long":')).toEqual({ a: "b" });
+    expect(parsePartialJson('{"a": "b",')).toEqual({ a: "b" });
+    expect(parsePartialJson("{")).toEqual({});
+  });
+
+  it("should not cut escape sequences in half", () => {
+    expect(parsePartialJson('{"a": "say \\')).toEqual({ a: "say " });
+    expect(parsePartialJson('{"a": "caf\\u00')).toEqual({ a: "caf" });
+    expect(parsePartialJson('{"a": "back\\\\')).toEqual({ a: "back\\" });
+    expect(parsePartialJson('{"a": "say \\"hi')).toEqual({ a: 'say "hi' });
+  });
+
+  it("should return null before any JSON arrives", () => {
+    expect(parsePartialJson("")).toBeNull();
+    expect(parsePartialJson("Sure, here")).toBeNull();
+    expect(parsePartialJson('{"confidence": 0.')).toBeNull();
+  });
+});
+
 describe("ClaudeProvider", () => {
   // Create a new provider instance for each test
   const createProvider = () => new ClaudeProvider("test-api-key");
@@ -226,20 +287,18 @@ describe("ClaudeProvider", () => {
       expect(userContent).toContain("a".repeat(100)); // Should still have some content
     });
 
-    it("should return fallback on API errors", async () => {
+    it("should throw ExternalServiceError on API errors", async () => {
       mockAnthropicCreate.mockRejectedValue(new Error("API error"));
 
       const provider = createProvider();
-      const result = await provider.extractTags("Test content", []);
 
-      expect(result).toEqual({
-        tags: [],
-        language: "en",
-        confidence: 0,
-      });
+      await expect(provider.extractTags("Test content", [])).rejects.toThrow(
+        ExternalServiceError,
+      );
+      expect(mockAnthropicCreate).toHaveBeenCalledTimes(1);
     });
 
-    it("should return fallback when response has no content blocks", async () => {
+    it("should throw LLMOutputError when response has no content blocks", async () => {
       const mockResponse = {
         id: "msg_123",
         type: "message",
@@ -254,16 +313,13 @@ describe("ClaudeProvider", () => {
       mockAnthropicCreate.mockResolvedValue(mockResponse as any);
 
       const provider = createProvider();
-      const result = await provider.extractTags("Test content", []);
 
-      expect(result).toEqual({
-        tags: [],
-        language: "en",
-        confidence: 0,
-      });
+      await expect(provider.extractTags("Test content", [])).rejects.toThrow(
+        LLMOutputError,
+      );
     });
 
-    it("should return fallback when response contains no valid JSON", async () => {
+    it("should retry and throw LLMOutputError when response contains no valid JSON", async () => {
       const mockResponse = {
         id: "msg_123",
         type: "message",
@@ -283,13 +339,100 @@ describe("ClaudeProvider", () => {
       mockAnthropicCreate.mockResolvedValue(mockResponse as any);
 
       const provider = createProvider();
-      const result = await provider.extractTags("Test content", []);
+
+      await expect(provider.extractTags("Test content", [])).rejects.toThrow(
+        "Invalid LLM output for tag_extraction",
+      );
+
+      // First request plus two repair turns
+      expect(mockAnthropicCreate).toHaveBeenCalledTimes(3);
+      const lastCallArgs = (mockAnthropicCreate.mock.calls as any[][])[2]?.[0];
+      expect(lastCallArgs?.messages).toHaveLength(5);
+      expect(lastCallArgs?.messages[2]?.content).toContain(
+        "does not match the required format",
+      );
+    });
+
+    it("should force a tool call with the output schema", async () => {
+      mockAnthropicCreate.mockResolvedValue({
+        id: "msg_123",
+        type: "message",
+        role: "assistant",
+        model: "claude-haiku-4-5",
+        content: [
+          {
+            type: "tool_use",
+            id: "toolu_1",
+            name: "tag_extraction",
+            input: { tags: ["Rust"], language: "EN", confidence: 0.9 },
+          },
+        ],
+        stop_reason: "tool_use",
+        stop_sequence: null,
+        usage: { input_tokens: 100, output_tokens: 50 },
+      } as any);
+
+      const provider = createProvider();
+      const result = await provider.extractTags("Rust content", []);
 
       expect(result).toEqual({
-        tags: [],
+        tags: ["rust"],
         language: "en",
-        confidence: 0,
+        confidence: 0.9,
+      });
+
+      const callArgs = (mockAnthropicCreate.mock.calls as any[][])[0]?.[0];
+      expect(callArgs?.tool_choice).toEqual({
+        type: "tool",
+        name: "tag_extraction",
       });
+      expect(callArgs?.tools[0]?.input_schema.required).toEqual([
+        "tags",
+        "language",
+        "confidence",
+      ]);
+    });
+
+    it("should repair invalid output with the validation issues", async () => {
+      const toolResponse = (input: unknown) =>
+        ({
+          id: "msg_123",
+          type: "message",
+          role: "assistant",
+          model: "claude-haiku-4-5",
+          content: [
+            { type: "tool_use", id: "toolu_1", name: "tag_extraction", input },
+          ],
+          stop_reason: "tool_use",
+          stop_sequence: null,
+          usage: { input_tokens: 100, output_tokens: 50 },
+        }) as any;
+
+      mockAnthropicCreate
+        .mockResolvedValueOnce(
+          toolResponse({ tags: ["rust"], language: "english", confidence: 1 }),
+        )
+        .mockResolvedValueOnce(
+          toolResponse({ tags: ["rust"], language: "en", confidence: 1 }),
+        );
+
+      const provider = createProvider();
+      const result = await provider.extractTags("Rust content", []);
+
+      expect(result.language).toBe("en");
+      expect(mockAnthropicCreate).toHaveBeenCalledTimes(2);
+      const repairArgs = (mockAnthropicCreate.mock.calls as any[][])[1]?.[0];
+      expect(repairArgs?.messages[1]).toEqual({
+        role: "assistant",
+        content: JSON.stringify({
+          tags: ["rust"],
+          language: "english",
+          confidence: 1,
+        }),
+      });
+      expect(repairArgs?.messages[2]?.content).toContain(
+        "language: Language must be an ISO 639-1 code",
+      );
     });
   });
 
@@ -431,17 +574,17 @@ describe("ClaudeProvider", () => {
       expect(userContent).toContain("a".repeat(100)); // Should still have some content
     });
 
-    it("should throw error on API errors", async () => {
+    it("should throw ExternalServiceError on API errors", async () => {
       mockAnthropicCreate.mockRejectedValue(new Error("API error"));
 
       const provider = createProvider();
 
       await expect(provider.summarize("Test content")).rejects.toThrow(
-        "Failed to generate summary",
+        ExternalServiceError,
       );
     });
 
-    it("should throw error when response has no content blocks", async () => {
+    it("should throw LLMOutputError when response has no content blocks", async () => {
       const mockResponse = {
         id: "msg_123",
         type: "message",
@@ -458,11 +601,11 @@ describe("ClaudeProvider", () => {
       const provider = createProvider();
 
       await expect(provider.summarize("Test content")).rejects.toThrow(
-        "Failed to generate summary",
+        LLMOutputError,
       );
     });
 
-    it("should throw error when summary fields are empty - oneSentence", async () => {
+    it("should throw LLMOutputError when summary fields are empty - oneSentence", async () => {
       const mockResponse = {
         id: "msg_123",
         type: "message",
@@ -488,11 +631,11 @@ describe("ClaudeProvider", () => {
       const provider = createProvider();
 
       await expect(provider.summarize("Test content")).rejects.toThrow(
-        "Failed to generate summary",
+        LLMOutputError,
       );
     });
 
-    it("should throw error when summary fields are empty - oneParagraph", async () => {
+    it("should throw LLMOutputError when summary fields are empty - oneParagraph", async () => {
       const mockResponse = {
         id: "msg_123",
         type: "message",
@@ -518,11 +661,11 @@ describe("ClaudeProvider", () => {
       const provider = createProvider();
 
       await expect(provider.summarize("Test content")).rejects.toThrow(
-        "Failed to generate summary",
+        LLMOutputError,
       );
     });
 
-    it("should throw error when summary fields are empty - long", async () => {
+    it("should throw LLMOutputError when summary fields are empty - long", async () => {
       const mockResponse = {
         id: "msg_123",
         type: "message",
@@ -548,12 +691,509 @@ describe("ClaudeProvider", () => {
       const provider = createProvider();
 
       await expect(provider.summarize("Test content")).rejects.toThrow(
-        "Failed to generate summary",
+        LLMOutputError,
       );
     });
   });
 });
 
+describe("ClaudeProvider consolidateTags", () => {
+  beforeEach(() => {
+    mockAnthropicCreate.mockReset();
+  });
+
+  const mockText = (text: string) =>
+    mockAnthropicCreate.mockResolvedValue({
+      id: "msg_123",
+      type: "message",
+      role: "assistant",
+      model: "claude-haiku-4-5",
+      content: [{ type: "text", text }],
+      stop_reason: "end_turn",
+      stop_sequence: null,
+      usage: { input_tokens: 100, output_tokens: 50 },
+    } as any);
+
+  it("should send tag usage and normalize proposed merges", async () => {
+    mockText(
+      '{"merges": [{"source": "JS", "target": "JavaScript", "reason": "abbreviation"}]}',
+    );
+
+    const provider = new ClaudeProvider("test-api-key");
+    const result = await provider.consolidateTags([
+      { name: "javascript", count: 10 },
+      { name: "js", count: 2 },
+    ]);
+
+    expect(result.merges).toEqual([
+      { source: "js", target: "javascript", reason: "abbreviation" },
+    ]);
+
+    const callArgs = (mockAnthropicCreate.mock.calls as any[][])[0]?.[0];
+    const userContent = callArgs?.messages[0]?.content as string;
+    expect(userContent).toContain("javascript: 10\njs: 2");
+  });
+
+  it("should throw LLMOutputError when the response has no JSON", async () => {
+    mockText("Nothing to merge.");
+
+    const provider = new ClaudeProvider("test-api-key");
+
+    await expect(
+      provider.consolidateTags([{ name: "rust", count: 1 }]),
+    ).rejects.toThrow(LLMOutputError);
+  });
+});
+
+describe("ClaudeProvider answerFromSources", () => {
+  beforeEach(() => {
+    mockAnthropicCreate.mockReset();
+  });
+
+  it("should send numbered passages and return the cited answer", async () => {
+    mockAnthropicCreate.mockResolvedValue({
+      id: "msg_123",
+      type: "message",
+      role: "assistant",
+      model: "claude-sonnet-4-5",
+      content: [
+        {
+          type: "tool_use",
+          id: "toolu_123",
+          name: "sourced_answer",
+          input: { answer: "Rust has no GC [2].", citations: [2] },
+        },
+      ],
+      stop_reason: "tool_use",
+      stop_sequence: null,
+      usage: { input_tokens: 100, output_tokens: 50 },
+    } as any);
+
+    const provider = new ClaudeProvider("test-api-key");
+    const result = await provider.answerFromSources("Does Rust have a GC?", [
+      { title: "Go runtime", text: "Go is garbage collected." },
+      { title: "Rust memory", text: "Rust has no garbage collector." },
+    ]);
+
+    expect(result).toEqual({ answer: "Rust has no GC [2].", citations: [2] });
+
+    const callArgs = (mockAnthropicCreate.mock.calls as any[][])[0]?.[0];
+    const userContent = callArgs?.messages[0]?.content as string;
+    expect(userContent).toContain(
+      "[2] Rust memory\nRust has no garbage collector.",
+    );
+    expect(userContent).toContain("Question: Does Rust have a GC?");
+  });
+});
+
+describe("ClaudeProvider summarizeStream", () => {
+  beforeEach(() => {
+    mockAnthropicCreate.mockReset();
+    mockAnthropicStream.mockReset();
+  });
+
+  const mockStream = (fragments: string[]) =>
+    mockAnthropicStream.mockImplementation(async function* () {
+      yield { type: "content_block_start", index: 0 };
+      for (const partial_json of fragments) {
+        yield {
+          type: "content_block_delta",
+          index: 0,
+          delta: { type: "input_json_delta", partial_json },
+        };
+      }
+      yield { type: "message_stop" };
+    });
+
+  it("should yield growing snapshots from streamed tool input", async () => {
+    mockStream([
+      '{"oneSentence": "Rust is',
+      ' safe.", "onePara',
+      'graph": "Ownership rules.", "long": "Details',
+      '."}',
+    ]);
+
+    const provider = new ClaudeProvider("test-api-key");
+    const snapshots = await collect(
+      provider.summarizeStream("Article content", "de"),
+    );
+
+    expect(snapshots.map((s) => s.oneSentence)).toEqual([
+      "Rust is",
+      "Rust is safe.",
+      "Rust is safe.",
+      "Rust is safe.",
+      "Rust is safe.",
+    ]);
+    expect(snapshots.at(-1)).toEqual({
+      oneSentence: "Rust is safe.",
+      oneParagraph: "Ownership rules.",
+      long: "Details.",
+    });
+
+    const args = (mockAnthropicStream.mock.calls as any[][])[0]?.[0];
+    expect(args?.model).toBe("claude-sonnet-4-5");
+    expect(args?.tool_choice).toEqual({ type: "tool", name: "summary" });
+    expect(args?.messages[0]?.content).toContain(
+      "Generate all summaries in DE language",
+    );
+  });
+
+  it("should fall back to a repaired request when the streamed summary is invalid", async () => {
+    mockStream(['{"oneSentence": "Only one."}']);
+    mockAnthropicCreate.mockResolvedValue({
+      content: [
+        {
+          type: "tool_use",
+          name: "summary",
+          input: { oneSentence: "One.", oneParagraph: "Two.", long: "Three." },
+        },
+      ],
+    } as any);
+
+    const provider = new ClaudeProvider("test-api-key");
+    const snapshots = await collect(provider.summarizeStream("Content"));
+
+    expect(snapshots.at(-1)).toEqual({
+      oneSentence: "One.",
+      oneParagraph: "Two.",
+      long: "Three.",
+    });
+    expect(mockAnthropicCreate).toHaveBeenCalledTimes(1);
+  });
+
+  it("should throw ExternalServiceError when the stream fails", async () => {
+    mockAnthropicStream.mockImplementation(async function* () {
+      yield {
+        type: "content_block_delta",
+        index: 0,
+        delta: { type: "input_json_delta", partial_json: '{"one' },
+      };
+      throw new Error("overloaded");
+    });
+
+    const provider = new ClaudeProvider("test-api-key");
+
+    await expect(collect(provider.summarizeStream("Content"))).rejects.toThrow(
+      ExternalServiceError,
+    );
+  });
+});
+
+describe("ClaudeProvider answer", () => {
+  beforeEach(() => {
+    mockAnthropicStream.mockReset();
+  });
+
+  it("should stream a plain text answer grounded in the article", async () => {
+    mockAnthropicStream.mockImplementation(async function* () {
+      for (const text of ["Ownership ", "frees memory."]) {
+        yield {
+          type: "content_block_delta",
+          index: 0,
+          delta: { type: "text_delta", text },
+        };
+      }
+    });
+
+    const provider = new ClaudeProvider("test-api-key", {
+      answer: "claude-opus-4-1",
+    });
+    const deltas: string[] = [];
+    for await (const delta of provider.answer("Article about Rust", [
+      { role: "user", content: "What frees memory?" },
+    ])) {
+      deltas.push(delta);
+    }
+
+    expect(deltas).toEqual(["Ownership ", "frees memory."]);
+
+    const args = (mockAnthropicStream.mock.calls as any[][])[0]?.[0];
+    expect(args?.model).toBe("claude-opus-4-1");
+    expect(args?.system).toContain("Article content:\nArticle about Rust");
+    expect(args?.messages).toEqual([
+      { role: "user", content: "What frees memory?" },
+    ]);
+    expect(args?.tools).toBeUndefined();
+    expect(args?.tool_choice).toBeUndefined();
+  });
+});
+
+describe("OpenAICompatibleProvider", () => {
+  let spyFetch: ReturnType<typeof spyOn<typeof globalThis, "fetch">>;
+
+  beforeEach(() => {
+    spyFetch = spyOn(globalThis, "fetch");
+  });
+
+  afterEach(() => {
+    spyFetch.mockRestore();
+  });
+
+  const mockCompletion = (content: string | null) =>
+    // A fresh body per call, repair turns read the response again
+    spyFetch.mockImplementation((async () =>
+      Response.json({
+        choices: [{ message: { role: "assistant", content } }],
+      })) as unknown as typeof fetch);
+
+  it("should call chat completions with the configured model", async () => {
+    mockCompletion(
+      '<think>hmm</think> {"tags": ["Rust"], "language": "EN", "confidence": 0.8}',
+    );
+
+    const provider = new OpenAICompatibleProvider({
+      baseUrl: "http://localhost:11434/v1/",
+      models: { tagging: "llama3.2" },
+    });
+    const result = await provider.extractTags("Content about Rust", []);
+
+    expect(result).toEqual({ tags: ["rust"], language: "en", confidence: 0.8 });
+
+    const [url, init] = spyFetch.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe("http://localhost:11434/v1/chat/completions");
+    expect(new Headers(init.headers).has("Authorization")).toBe(false);
+    const body = JSON.parse(init.body as string);
+    expect(body.model).toBe("llama3.2");
+    expect(body.messages[0].role).toBe("system");
+    expect(body.messages[1].content).toContain("Content about Rust");
+  });
+
+  it("should send the API key and use per-operation models", async () => {
+    mockCompletion(
+      JSON.stringify({
+        oneSentence: "One.",
+        oneParagraph: "Paragraph.",
+        long: "Long.",
+      }),
+    );
+
+    const provider = new OpenAICompatibleProvider({
+      baseUrl: "https://api.openai.com/v1",
+      apiKey: "sk-test",
+      models: { tagging: "small", summary: "large" },
+    });
+    await provider.summarize("Content");
+
+    const [, init] = spyFetch.mock.calls[0] as [string, RequestInit];
+    expect(new Headers(init.headers).get("Authorization")).toBe(
+      "Bearer sk-test",
+    );
+    expect(JSON.parse(init.body as string).model).toBe("large");
+  });
+
+  it("should request JSON schema output", async () => {
+    mockCompletion('{"merges": []}');
+
+    const provider = new OpenAICompatibleProvider({
+      baseUrl: "http://localhost:8080/v1",
+    });
+    await provider.consolidateTags([{ name: "rust", count: 1 }]);
+
+    const [, init] = spyFetch.mock.calls[0] as [string, RequestInit];
+    const { response_format } = JSON.parse(init.body as string);
+    expect(response_format.type).toBe("json_schema");
+    expect(response_format.json_schema.name).toBe("tag_consolidation");
+    expect(response_format.json_schema.schema.required).toEqual(["merges"]);
+  });
+
+  it("should throw ExternalServiceError when the server errors", async () => {
+    spyFetch.mockResolvedValue(
+      new Response("model not found", { status: 404 }),
+    );
+
+    const provider = new OpenAICompatibleProvider({
+      baseUrl: "http://localhost:8080/v1",
+    });
+
+    await expect(provider.extractTags("Content", [])).rejects.toThrow(
+      ExternalServiceError,
+    );
+  });
+
+  it("should stream summaries from server-sent events", async () => {
+    const chunks = [
+      '{"oneSentence": "Short.", ',
+      '"oneParagraph": "Para.", "long": ',
+      '"Long."}',
+    ];
+    const events = chunks
+      .map(
+        (content) =>
+          `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`,
+      )
+      .join("");
+    // Split mid-line to exercise buffering across network chunks
+    const body = `${events}data: [DONE]\n\n`;
+    const middle = Math.floor(body.length / 2);
+    spyFetch.mockResolvedValue(
+      new Response(
+        new ReadableStream({
+          start(controller) {
+            const encoder = new TextEncoder();
+            controller.enqueue(encoder.encode(body.slice(0, middle)));
+            controller.enqueue(encoder.encode(body.slice(middle)));
+            controller.close();
+          },
+        }),
+      ),
+    );
+
+    const provider = new OpenAICompatibleProvider({
+      baseUrl: "http://localhost:11434/v1",
+    });
+    const snapshots = await collect(provider.summarizeStream("Content"));
+
+    expect(snapshots.at(-1)).toEqual({
+      oneSentence: "Short.",
+      oneParagraph: "Para.",
+      long: "Long.",
+    });
+    const [, init] = spyFetch.mock.calls[0] as [string, RequestInit];
+    expect(JSON.parse(init.body as string).stream).toBe(true);
+  });
+
+  it("should throw LLMOutputError when the response has no content", async () => {
+    mockCompletion(null);
+
+    const provider = new OpenAICompatibleProvider({
+      baseUrl: "http://localhost:8080/v1",
+    });
+
+    await expect(provider.summarize("Content")).rejects.toThrow(LLMOutputError);
+  });
+});
+
+describe("FakeLLMProvider", () => {
+  const provider = new FakeLLMProvider();
+  const content =
+    "Rust ownership explained. Ownership rules keep Rust memory safe. Borrowing lets code use values without ownership. The borrow checker enforces it.";
+
+  it("should extract frequent words as tags, preferring existing tags", async () => {
+    const result = await provider.extractTags(content, ["borrowing", "go"]);
+
+    expect(result.tags).toEqual([
+      "borrowing",
+      "ownership",
+      "rust",
+      "borrow",
+      "checker",
+    ]);
+    expect(result.language).toBe("en");
+  });
+
+  it("should be deterministic", async () => {
+    expect(await provider.extractTags(content, [])).toEqual(
+      await provider.extractTags(content, []),
+    );
+    expect(await provider.summarize(content)).toEqual(
+      await provider.summarize(content),
+    );
+  });
+
+  it("should summarize with leading sentences", async () => {
+    const result = await provider.summarize(content);
+
+    expect(result.oneSentence).toBe("Rust ownership explained.");
+    expect(result.oneParagraph).toBe(
+      "Rust ownership explained. Ownership rules keep Rust memory safe. Borrowing lets code use values without ownership.",
+    );
+    expect(result.long).toBe(content);
+  });
+
+  it("should stream the summary word by word", async () => {
+    const snapshots = await collect(provider.summarizeStream(content));
+
+    expect(snapshots[0]).toEqual({
+      oneSentence: "Rust ",
+      oneParagraph: "",
+      long: "",
+    });
+    expect(snapshots.at(-1)).toEqual(await provider.summarize(content));
+  });
+
+  it("should answer with the sentences matching the question", async () => {
+    let answer = "";
+    for await (const delta of provider.answer(content, [
+      { role: "user", content: "What does the borrow checker do?" },
+    ])) {
+      answer += delta;
+    }
+
+    expect(answer).toBe("The borrow checker enforces it.");
+  });
+
+  it("should say when the article doesn't answer the question", async () => {
+    let answer = "";
+    for await (const delta of provider.answer(content, [
+      { role: "user", content: "Who won the election?" },
+    ])) {
+      answer += delta;
+    }
+
+    expect(answer).toBe("The article doesn't answer that question.");
+  });
+
+  it("should cite the passages matching the question", async () => {
+    const result = await provider.answerFromSources(
+      "Does Rust collect garbage?",
+      [
+        { title: "Go", text: "Go is garbage collected." },
+        { title: "Rust", text: "Rust has no garbage collector." },
+        { title: "Rust", text: "Memory is freed by ownership." },
+      ],
+    );
+
+    expect(result).toEqual({
+      answer: "Go is garbage collected. [1] Rust has no garbage collector. [2]",
+      citations: [1, 2],
+    });
+  });
+
+  it("should cite nothing when no passage matches", async () => {
+    const result = await provider.answerFromSources("Who won the election?", [
+      { title: "Rust", text: "Rust has no garbage collector." },
+    ]);
+
+    expect(result.citations).toEqual([]);
+  });
+
+  it("should fail to summarize empty content", async () => {
+    await expect(provider.summarize("   ")).rejects.toThrow(
+      "Failed to generate summary",
+    );
+  });
+
+  it("should merge spelling variants into the most used tag", async () => {
+    const result = await provider.consolidateTags([
+      { name: "javascript", count: 1 },
+      { name: "java-script", count: 3 },
+      { name: "rust", count: 2 },
+      { name: "databases", count: 2 },
+      { name: "database", count: 5 },
+    ]);
+
+    expect(result.merges).toEqual([
+      {
+        source: "javascript",
+        target: "java-script",
+        reason: "spelling variant",
+      },
+      { source: "databases", target: "database", reason: "spelling variant" },
+    ]);
+  });
+});
+
+describe("createLLMProvider", () => {
+  it("should create each registered provider", () => {
+    expect(createLLMProvider("anthropic")).toBeInstanceOf(ClaudeProvider);
+    expect(createLLMProvider("openai")).toBeInstanceOf(
+      OpenAICompatibleProvider,
+    );
+    expect(createLLMProvider("fake")).toBeInstanceOf(FakeLLMProvider);
+  });
+});
+
 describe("getLLMProvider and isLLMAvailable", () => {
   it("isLLMAvailable should return true when API key is set", () => {
     // .env.test has ANTHROPIC_API_KEY set
@@ -1,27 +1,125 @@
 import Anthropic from "@anthropic-ai/sdk";
+import { z } from "zod";
 import { config } from "./config";
-import { ExternalServiceError } from "./errors";
+import { ExternalServiceError, LLMOutputError } from "./errors";
 import {
+  ARTICLE_QA_SYSTEM_PROMPT,
+  LIBRARY_QA_SYSTEM_PROMPT,
   SUMMARIZATION_SYSTEM_PROMPT,
+  TAG_CONSOLIDATION_SYSTEM_PROMPT,
   TAG_EXTRACTION_SYSTEM_PROMPT,
 } from "./llm-prompts";
 import { defaultLogger } from "./logger";
+import {
+  type OpenAICompatibleEndpoint,
+  postOpenAICompatible,
+} from "./openai-compatible";
 
 const logger = defaultLogger.child({ module: "llm" });
 
-interface TagExtractionResult {
-  tags: string[];
-  language: string;
-  confidence: number;
+// Local models can be slow, but a stuck request must not hang a worker forever
+const LLM_REQUEST_TIMEOUT_MS = 120_000;
+
+export type LLMProviderName = "anthropic" | "openai" | "fake";
+
+/**
+ * Model name per LLM operation
+ * Tagging runs for every saved article, so it should use a small, fast model
+ */
+export interface LLMModels {
+  tagging: string;
+  summary: string;
+  consolidation: string;
+  answer: string;
+}
+
+const DEFAULT_MODELS: Record<Exclude<LLMProviderName, "fake">, LLMModels> = {
+  anthropic: {
+    tagging: "claude-haiku-4-5",
+    summary: "claude-sonnet-4-5",
+    consolidation: "claude-haiku-4-5",
+    answer: "claude-sonnet-4-5",
+  },
+  openai: {
+    tagging: "gpt-4o-mini",
+    summary: "gpt-4o-mini",
+    consolidation: "gpt-4o-mini",
+    answer: "gpt-4o-mini",
+  },
+};
+
+export const tagExtractionSchema = z.object({
+  tags: z
+    .array(z.string().trim().toLowerCase().min(1).max(100))
+    .max(20)
+    .describe("Lowercase tags for the main topics of the article"),
+  language: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .regex(/^[a-z]{2}$/, "Language must be an ISO 639-1 code")
+    .describe("ISO 639-1 code of the article's primary language"),
+  confidence: z.number().min(0).max(1),
+});
+
+export const summarySchema = z.object({
+  oneSentence: z.string().trim().min(1, "One-sentence summary is required"),
+  oneParagraph: z.string().trim().min(1, "One-paragraph summary is required"),
+  long: z.string().trim().min(1, "Detailed summary is required"),
+});
+
+export const tagConsolidationSchema = z.object({
+  merges: z.array(
+    z.object({
+      source: z.string().trim().toLowerCase().min(1),
+      target: z.string().trim().toLowerCase().min(1),
+      reason: z.string().optional(),
+    }),
+  ),
+});
+
+export const sourcedAnswerSchema = z.object({
+  answer: z.string().trim().min(1, "Answer is required"),
+  citations: z
+    .array(z.number().int().min(1))
+    .describe("Numbers of the passages cited in the answer"),
+});
+
+// Summary fields in the order they are generated
+export const SUMMARY_FIELDS = ["oneSentence", "oneParagraph", "long"] as const;
+
+// Partial summaries while streaming, fields fill in one after another
+const summarySnapshotSchema = z.object({
+  oneSentence: z.string().default(""),
+  oneParagraph: z.string().default(""),
+  long: z.string().default(""),
+});
+
+export type TagExtractionResult = z.infer<typeof tagExtractionSchema>;
+export type SummaryResult = z.infer<typeof summarySchema>;
+export type TagConsolidationResult = z.infer<typeof tagConsolidationSchema>;
+export type TagMergeProposal = TagConsolidationResult["merges"][number];
+export type SourcedAnswer = z.infer<typeof sourcedAnswerSchema>;
+
+export interface ChatMessage {
+  role: "user" | "assistant";
+  content: string;
 }
 
-export interface SummaryResult {
-  oneSentence: string;
-  oneParagraph: string;
-  long: string;
+export interface TagUsage {
+  name: string;
+  count: number;
 }
 
-interface LLMProvider {
+/**
+ * Passage from a saved article, numbered by its position in the list
+ */
+export interface SourcePassage {
+  title: string;
+  text: string;
+}
+
+export interface LLMProvider {
   extractTags(
     content: string,
     existingTags: string[],
@@ -30,6 +128,28 @@ interface LLMProvider {
     content: string,
     languageCode?: string | null,
   ): Promise<SummaryResult>;
+  /**
+   * Stream a summary while it is generated
+   * Yields growing snapshots, the last one is the complete validated summary
+   */
+  summarizeStream(
+    content: string,
+    languageCode?: string | null,
+  ): AsyncIterable<SummaryResult>;
+  consolidateTags(tags: TagUsage[]): Promise<TagConsolidationResult>;
+  /**
+   * Stream a plain text answer to the last user message
+   * The answer is grounded in the article content only
+   */
+  answer(content: string, messages: ChatMessage[]): AsyncIterable<string>;
+  /**
+   * Answer a question from passages of several articles
+   * Citations are 1-based passage numbers, also marked as [n] in the answer
+   */
+  answerFromSources(
+    question: string,
+    sources: SourcePassage[],
+  ): Promise<SourcedAnswer>;
 }
 
 /**
@@ -40,6 +160,7 @@ interface LLMProvider {
  * - Extracts first JSON object found
  * - Does not support multiple separate JSON objects
  * - Designed for simple flat objects (tags, summaries)
+ * - Doesn't check the shape, validate the result with a schema
  */
 export function extractJsonFromResponse<T>(
   responseText: string,
@@ -60,124 +181,831 @@ export function extractJsonFromResponse<T>(
   }
 }
 
-export class ClaudeProvider implements LLMProvider {
-  private client: Anthropic;
-  private taggingModel = "claude-haiku-4-5";
-  private summaryModel = "claude-sonnet-4-5";
+/**
+ * Parse a JSON object that may still be incomplete
+ * Closes an unterminated string and open brackets, and drops a dangling key.
+ * Returns null when nothing parseable has arrived yet
+ */
+export function parsePartialJson(text: string): unknown {
+  const start = text.indexOf("{");
+  if (start === -1) {
+    return null;
+  }
 
-  constructor(apiKey: string) {
-    this.client = new Anthropic({
-      apiKey,
-    });
+  let json = text.slice(start);
+  const closers: string[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (const char of json) {
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === "\\") escaped = true;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === "{") {
+      closers.push("}");
+    } else if (char === "[") {
+      closers.push("]");
+    } else if (char === "}" || char === "]") {
+      closers.pop();
+    }
+  }
+
+  if (inString) {
+    // An escape sequence can't be cut in half
+    json = escaped
+      ? json.slice(0, -1)
+      : json.replace(/((?:^|[^\\])(?:\\\\)*)\\u[0-9a-fA-F]{0,3}$/, "$1");
+    json += '"';
+  }
+
+  // A key without its value yet ({"a": "b", "c") or a trailing separator
+  json = json
+    .replace(/([{,])\s*"(?:[^"\\]|\\.)*"\s*:?\s*$/, "$1")
+    .replace(/[,:]\s*$/, "");
+
+  try {
+    return JSON.parse(json + closers.reverse().join(""));
+  } catch {
+    return null;
+  }
+}
+
+// Repair turns after the first invalid response
+const MAX_REPAIR_ATTEMPTS = 2;
+
+/**
+ * Expected shape of a structured LLM response
+ * Providers enforce it natively (tool use, JSON schema mode) and the result
+ * is validated again since models don't always comply
+ */
+interface StructuredOutput<T> {
+  name: string;
+  description: string;
+  schema: z.ZodType<T>;
+}
+
+interface CompletionRequest {
+  model: string;
+  system: string;
+  messages: ChatMessage[];
+  maxTokens: number;
+  // Plain text response when omitted
+  output?: StructuredOutput<unknown>;
+}
+
+const TAG_EXTRACTION_OUTPUT: StructuredOutput<TagExtractionResult> = {
+  name: "tag_extraction",
+  description: "Record the article's tags and language",
+  schema: tagExtractionSchema,
+};
+
+const SUMMARY_OUTPUT: StructuredOutput<SummaryResult> = {
+  name: "summary",
+  description: "Record the three article summaries",
+  schema: summarySchema,
+};
+
+const TAG_CONSOLIDATION_OUTPUT: StructuredOutput<TagConsolidationResult> = {
+  name: "tag_consolidation",
+  description: "Record the tag merges",
+  schema: tagConsolidationSchema,
+};
+
+const SOURCED_ANSWER_OUTPUT: StructuredOutput<SourcedAnswer> = {
+  name: "sourced_answer",
+  description: "Record the answer and the passages it cites",
+  schema: sourcedAnswerSchema,
+};
+
+/**
+ * JSON schema for a structured output, as accepted by tool and JSON modes
+ */
+function toJsonSchema(output: StructuredOutput<unknown>) {
+  const { $schema: _, ...schema } = z.toJSONSchema(output.schema, {
+    io: "input",
+  });
+  return schema;
+}
+
+function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map(
+    (issue) => `${issue.path.join(".") || "response"}: ${issue.message}`,
+  );
+}
+
+/**
+ * Shared prompting, validation and repair for chat-style LLM APIs
+ * Subclasses only implement a structured completion request
+ */
+abstract class ChatLLMProvider implements LLMProvider {
+  protected abstract readonly name: string;
+  protected readonly models: LLMModels;
+
+  constructor(models: LLMModels) {
+    this.models = models;
+  }
+
+  /**
+   * Send the conversation and return the parsed structured response
+   * Returns null when the response contains no JSON
+   */
+  protected abstract complete(request: CompletionRequest): Promise<unknown>;
+
+  /**
+   * Stream the response text, the raw JSON of a structured response
+   */
+  protected abstract completeStream(
+    request: CompletionRequest,
+  ): AsyncIterable<string>;
+
+  /**
+   * Request a structured response, asking the model to repair invalid output
+   * Throws LLMOutputError when it is still invalid after the repair attempts
+   */
+  protected async generate<T>(
+    output: StructuredOutput<T>,
+    request: {
+      model: string;
+      system: string;
+      prompt: string;
+      maxTokens: number;
+    },
+  ): Promise<T> {
+    const messages: ChatMessage[] = [{ role: "user", content: request.prompt }];
+    let issues: string[] = [];
+
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      const response = await this.complete({
+        model: request.model,
+        system: request.system,
+        maxTokens: request.maxTokens,
+        messages: [...messages],
+        output,
+      });
+
+      const result = output.schema.safeParse(response);
+      if (result.success) {
+        return result.data;
+      }
+
+      issues = formatIssues(result.error);
+      logger.warn("Invalid LLM output", {
+        provider: this.name,
+        output: output.name,
+        attempt: attempt + 1,
+        issues,
+      });
+
+      messages.push(
+        { role: "assistant", content: JSON.stringify(response) },
+        {
+          role: "user",
+          content: `Your response does not match the required format:
+${issues.map((issue) => `- ${issue}`).join("\n")}
+Respond again with the complete corrected JSON object only.`,
+        },
+      );
+    }
+
+    throw new LLMOutputError(output.name, issues, MAX_REPAIR_ATTEMPTS + 1);
   }
 
   async extractTags(
     content: string,
     existingTags: string[],
   ): Promise<TagExtractionResult> {
-    try {
-      // Truncate content to ~10k words (roughly 40k characters)
-      const truncatedContent = content.substring(0, 40000);
+    // Truncate content to ~10k words (roughly 40k characters)
+    const truncatedContent = content.substring(0, 40000);
 
-      const existingTagsText =
-        existingTags.length > 0
-          ? `\nExisting tags to consider reusing:\n${existingTags.join(", ")}\n`
-          : "";
+    const existingTagsText =
+      existingTags.length > 0
+        ? `\nExisting tags to consider reusing:\n${existingTags.join(", ")}\n`
+        : "";
 
-      const userPrompt = `Analyze this article and extract 5-10 relevant tags.
+    const userPrompt = `Analyze this article and extract 5-10 relevant tags.
 ${existingTagsText}
 Article content:
 ${truncatedContent}`;
 
-      const message = await this.client.messages.create({
-        model: this.taggingModel,
-        max_tokens: 1024,
-        system: TAG_EXTRACTION_SYSTEM_PROMPT,
-        messages: [
-          {
-            role: "user",
-            content: userPrompt,
-          },
-        ],
-      });
+    return this.generate(TAG_EXTRACTION_OUTPUT, {
+      model: this.models.tagging,
+      maxTokens: 1024,
+      system: TAG_EXTRACTION_SYSTEM_PROMPT,
+      prompt: userPrompt,
+    });
+  }
 
-      // Extract JSON from response
-      const firstBlock = message.content[0];
-      if (!firstBlock || firstBlock.type !== "text") {
-        logger.error("Unexpected response format from LLM");
-        return { tags: [], language: "en", confidence: 0 };
-      }
+  private summaryPrompt(content: string, languageCode?: string | null) {
+    // Truncate content if too long (max ~100k tokens = ~400k characters)
+    const truncatedContent = content.substring(0, 400000);
 
-      const result = extractJsonFromResponse<TagExtractionResult>(
-        firstBlock.text,
-        { tags: [], language: "en", confidence: 0 },
-      );
+    const languageHint = languageCode
+      ? `\nIMPORTANT: The article is in ${languageCode.toUpperCase()}. Generate all summaries in ${languageCode.toUpperCase()} language.\n`
+      : "";
 
-      return {
-        ...result,
-        // Normalize tags to lowercase
-        tags: result.tags.map((tag: string) => tag.toLowerCase()),
-        // Normalize language to lowercase
-        language: result.language.toLowerCase(),
-      };
-    } catch (error) {
-      logger.error("Claude tag extraction failed", { error });
-      return { tags: [], language: "en", confidence: 0 };
-    }
+    return `Analyze this article and provide three different summaries (one sentence, one paragraph, and detailed).${languageHint}
+Article content:
+${truncatedContent}`;
   }
 
   async summarize(
     content: string,
     languageCode?: string | null,
   ): Promise<SummaryResult> {
-    try {
-      // Truncate content if too long (max ~100k tokens = ~400k characters)
-      const truncatedContent = content.substring(0, 400000);
+    return this.generate(SUMMARY_OUTPUT, {
+      model: this.models.summary,
+      maxTokens: 2048,
+      system: SUMMARIZATION_SYSTEM_PROMPT,
+      prompt: this.summaryPrompt(content, languageCode),
+    });
+  }
 
-      const languageHint = languageCode
-        ? `\nIMPORTANT: The article is in ${languageCode.toUpperCase()}. Generate all summaries in ${languageCode.toUpperCase()} language.\n`
-        : "";
+  async *summarizeStream(
+    content: string,
+    languageCode?: string | null,
+  ): AsyncIterable<SummaryResult> {
+    const deltas = this.completeStream({
+      model: this.models.summary,
+      maxTokens: 2048,
+      system: SUMMARIZATION_SYSTEM_PROMPT,
+      messages: [
+        { role: "user", content: this.summaryPrompt(content, languageCode) },
+      ],
+      output: SUMMARY_OUTPUT,
+    });
+
+    let text = "";
+    let previous: SummaryResult | null = null;
+
+    for await (const delta of deltas) {
+      text += delta;
+
+      const snapshot = summarySnapshotSchema.safeParse(parsePartialJson(text));
+      if (
+        snapshot.success &&
+        (!previous ||
+          snapshot.data.oneSentence !== previous.oneSentence ||
+          snapshot.data.oneParagraph !== previous.oneParagraph ||
+          snapshot.data.long !== previous.long)
+      ) {
+        previous = snapshot.data;
+        yield snapshot.data;
+      }
+    }
+
+    const result = summarySchema.safeParse(parsePartialJson(text));
+    if (result.success) {
+      yield result.data;
+      return;
+    }
+
+    // Streamed output can't be repaired in place, retry with the repair loop
+    logger.warn("Invalid streamed LLM output", {
+      provider: this.name,
+      output: SUMMARY_OUTPUT.name,
+      issues: formatIssues(result.error),
+    });
+    yield await this.summarize(content, languageCode);
+  }
+
+  async consolidateTags(tags: TagUsage[]): Promise<TagConsolidationResult> {
+    const userPrompt = `Find tags that should be merged.
+
+Tags (name: article count):
+${tags.map((tag) => `${tag.name}: ${tag.count}`).join("\n")}`;
+
+    return this.generate(TAG_CONSOLIDATION_OUTPUT, {
+      model: this.models.consolidation,
+      maxTokens: 2048,
+      system: TAG_CONSOLIDATION_SYSTEM_PROMPT,
+      prompt: userPrompt,
+    });
+  }
+
+  async *answer(
+    content: string,
+    messages: ChatMessage[],
+  ): AsyncIterable<string> {
+    // Same budget as summaries, the article goes into the system prompt
+    // so it isn't repeated for every turn of the conversation
+    const truncatedContent = content.substring(0, 400000);
+
+    yield* this.completeStream({
+      model: this.models.answer,
+      maxTokens: 1024,
+      system: `${ARTICLE_QA_SYSTEM_PROMPT}
 
-      const userPrompt = `Analyze this article and provide three different summaries (one sentence, one paragraph, and detailed).${languageHint}
 Article content:
-${truncatedContent}`;
+${truncatedContent}`,
+      messages,
+    });
+  }
 
-      const message = await this.client.messages.create({
-        model: this.summaryModel,
-        max_tokens: 2048,
-        system: SUMMARIZATION_SYSTEM_PROMPT,
-        messages: [
+  async answerFromSources(
+    question: string,
+    sources: SourcePassage[],
+  ): Promise<SourcedAnswer> {
+    const passages = sources
+      .map((source, index) => `[${index + 1}] ${source.title}\n${source.text}`)
+      .join("\n\n");
+
+    return this.generate(SOURCED_ANSWER_OUTPUT, {
+      model: this.models.answer,
+      maxTokens: 1024,
+      system: LIBRARY_QA_SYSTEM_PROMPT,
+      prompt: `Passages:
+${passages}
+
+Question: ${question}`,
+    });
+  }
+}
+
+/**
+ * Anthropic Claude via the Messages API
+ * Structured output is enforced by forcing a single tool call
+ */
+export class ClaudeProvider extends ChatLLMProvider {
+  protected readonly name = "Claude";
+  private client: Anthropic;
+
+  constructor(apiKey: string, models: Partial<LLMModels> = {}) {
+    super({ ...DEFAULT_MODELS.anthropic, ...models });
+    this.client = new Anthropic({
+      apiKey,
+    });
+  }
+
+  private toMessageParams(
+    request: CompletionRequest,
+  ): Anthropic.MessageCreateParamsNonStreaming {
+    const { output } = request;
+
+    return {
+      model: request.model,
+      max_tokens: request.maxTokens,
+      system: request.system,
+      messages: request.messages,
+      ...(output && {
+        tools: [
           {
-            role: "user",
-            content: userPrompt,
+            name: output.name,
+            description: output.description,
+            input_schema: toJsonSchema(output) as Anthropic.Tool.InputSchema,
           },
         ],
-      });
+        tool_choice: { type: "tool", name: output.name },
+      }),
+    };
+  }
 
-      // Extract JSON from response
-      const firstBlock = message.content[0];
-      if (!firstBlock || firstBlock.type !== "text") {
-        logger.warn("Unexpected response format from LLM");
-        throw new Error("Failed to generate summary");
-      }
+  protected async complete(request: CompletionRequest): Promise<unknown> {
+    let message: Anthropic.Message;
 
-      const result = extractJsonFromResponse<SummaryResult>(firstBlock.text, {
-        oneSentence: "",
-        oneParagraph: "",
-        long: "",
-      });
+    try {
+      message = await this.client.messages.create(
+        this.toMessageParams(request),
+        { timeout: LLM_REQUEST_TIMEOUT_MS },
+      );
+    } catch (error) {
+      throw new ExternalServiceError(
+        "Claude",
+        error instanceof Error ? error : undefined,
+      );
+    }
+
+    const toolUse = message.content.find((block) => block.type === "tool_use");
+    if (toolUse) {
+      return toolUse.input;
+    }
 
-      // Validate we got actual content
-      if (!result.oneSentence || !result.oneParagraph || !result.long) {
-        throw new Error("Incomplete summary response from LLM");
+    // Fall back to JSON in a text answer
+    const textBlock = message.content.find((block) => block.type === "text");
+    return textBlock
+      ? extractJsonFromResponse<unknown>(textBlock.text, null)
+      : null;
+  }
+
+  protected async *completeStream(
+    request: CompletionRequest,
+  ): AsyncIterable<string> {
+    try {
+      const stream = this.client.messages.stream(
+        this.toMessageParams(request),
+        { timeout: LLM_REQUEST_TIMEOUT_MS },
+      );
+
+      for await (const event of stream) {
+        if (event.type !== "content_block_delta") continue;
+
+        // Tool input arrives as JSON fragments, text answers as plain text
+        if (event.delta.type === "input_json_delta") {
+          yield event.delta.partial_json;
+        } else if (event.delta.type === "text_delta") {
+          yield event.delta.text;
+        }
       }
+    } catch (error) {
+      throw new ExternalServiceError(
+        "Claude",
+        error instanceof Error ? error : undefined,
+      );
+    }
+  }
+}
+
+interface OpenAICompatibleOptions extends OpenAICompatibleEndpoint {
+  models?: Partial<LLMModels>;
+}
+
+/**
+ * Any OpenAI-compatible chat completions endpoint
+ * Works with OpenAI, Ollama (http://localhost:11434/v1), llama.cpp server,
+ * vLLM and similar self-hosted servers. Structured output uses JSON schema
+ * response format
+ */
+export class OpenAICompatibleProvider extends ChatLLMProvider {
+  protected readonly name = "OpenAI-compatible";
+  private endpoint: OpenAICompatibleEndpoint;
+
+  constructor(options: OpenAICompatibleOptions) {
+    super({ ...DEFAULT_MODELS.openai, ...options.models });
+    this.endpoint = { baseUrl: options.baseUrl, apiKey: options.apiKey };
+  }
+
+  /**
+   * POST a chat completion request
+   */
+  private post(request: CompletionRequest, stream: boolean): Promise<Response> {
+    return postOpenAICompatible(
+      this.endpoint,
+      "/chat/completions",
+      {
+        model: request.model,
+        max_tokens: request.maxTokens,
+        messages: [
+          { role: "system", content: request.system },
+          ...request.messages,
+        ],
+        ...(request.output && {
+          response_format: {
+            type: "json_schema",
+            json_schema: {
+              name: request.output.name,
+              schema: toJsonSchema(request.output),
+            },
+          },
+        }),
+        ...(stream ? { stream: true } : {}),
+      },
+      { service: "LLM", timeoutMs: LLM_REQUEST_TIMEOUT_MS },
+    );
+  }
+
+  protected async complete(request: CompletionRequest): Promise<unknown> {
+    const response = await this.post(request, false);
+
+    const data = (await response.json()) as {
+      choices?: { message?: { content?: string | null } }[];
+    };
+    const text = data.choices?.[0]?.message?.content;
+
+    return typeof text === "string"
+      ? extractJsonFromResponse<unknown>(text, null)
+      : null;
+  }
+
+  protected async *completeStream(
+    request: CompletionRequest,
+  ): AsyncIterable<string> {
+    const response = await this.post(request, true);
+
+    if (!response.body) {
+      return;
+    }
+
+    // Server-sent events, one "data: {json}" line per chunk
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+
+        for (const line of lines) {
+          const data = line.match(/^data:\s*(.*)$/)?.[1]?.trim();
+          if (!data || data === "[DONE]") continue;
 
-      return result;
+          const event = JSON.parse(data) as {
+            choices?: { delta?: { content?: string | null } }[];
+          };
+          const content = event.choices?.[0]?.delta?.content;
+          if (content) {
+            yield content;
+          }
+        }
+      }
     } catch (error) {
-      logger.error("Claude summarization failed", { error });
+      throw new ExternalServiceError(
+        "LLM",
+        error instanceof Error ? error : undefined,
+      );
+    } finally {
+      reader.releaseLock();
+    }
+  }
+}
+
+const FAKE_STOPWORDS = new Set([
+  "about",
+  "after",
+  "also",
+  "been",
+  "before",
+  "being",
+  "could",
+  "does",
+  "from",
+  "have",
+  "into",
+  "just",
+  "more",
+  "most",
+  "much",
+  "only",
+  "other",
+  "over",
+  "same",
+  "should",
+  "some",
+  "such",
+  "than",
+  "that",
+  "their",
+  "them",
+  "then",
+  "there",
+  "these",
+  "they",
+  "this",
+  "those",
+  "very",
+  "were",
+  "what",
+  "when",
+  "where",
+  "which",
+  "while",
+  "will",
+  "with",
+  "would",
+  "your",
+]);
+
+/**
+ * Deterministic provider for tests and offline development
+ * No network: tags are frequent words, summaries are leading sentences,
+ * and tags differing only in punctuation or a plural "s" are merged
+ */
+export class FakeLLMProvider implements LLMProvider {
+  async extractTags(
+    content: string,
+    existingTags: string[],
+  ): Promise<TagExtractionResult> {
+    const words = content.toLowerCase().match(/\p{L}[\p{L}\p{N}-]{3,}/gu) ?? [];
+    const wordSet = new Set(words);
+
+    const counts = new Map<string, number>();
+    for (const word of words) {
+      if (!FAKE_STOPWORDS.has(word)) {
+        counts.set(word, (counts.get(word) ?? 0) + 1);
+      }
+    }
+
+    const frequentWords = [...counts.entries()]
+      .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+      .map(([word]) => word);
+
+    // Existing tags that appear in the text win, like a real model reusing them
+    const tags = [
+      ...existingTags.filter((tag) => wordSet.has(tag.toLowerCase())),
+      ...frequentWords,
+    ];
+
+    return {
+      tags: [...new Set(tags.map((tag) => tag.toLowerCase()))].slice(0, 5),
+      language: "en",
+      confidence: tags.length > 0 ? 1 : 0,
+    };
+  }
+
+  async summarize(
+    content: string,
+    _languageCode?: string | null,
+  ): Promise<SummaryResult> {
+    const text = content.replace(/\s+/g, " ").trim();
+
+    if (!text) {
       throw new Error("Failed to generate summary");
     }
+
+    const sentences = text.split(/(?<=[.!?])\s+/);
+
+    return {
+      oneSentence: sentences[0] ?? text,
+      oneParagraph: sentences.slice(0, 3).join(" "),
+      long: text.split(" ").slice(0, 500).join(" "),
+    };
+  }
+
+  async *summarizeStream(
+    content: string,
+    languageCode?: string | null,
+  ): AsyncIterable<SummaryResult> {
+    const summary = await this.summarize(content, languageCode);
+    const snapshot: SummaryResult = {
+      oneSentence: "",
+      oneParagraph: "",
+      long: "",
+    };
+
+    // Word by word, like tokens from a real model
+    for (const field of SUMMARY_FIELDS) {
+      for (const word of summary[field].split(/(?<= )/)) {
+        snapshot[field] += word;
+        yield { ...snapshot };
+      }
+    }
   }
+
+  async *answer(
+    content: string,
+    messages: ChatMessage[],
+  ): AsyncIterable<string> {
+    const question = messages.at(-1)?.content ?? "";
+    const questionWords = new Set(
+      question.toLowerCase().match(/\p{L}[\p{L}\p{N}-]{3,}/gu) ?? [],
+    );
+
+    // Sentences sharing the most words with the question, in article order
+    const sentences = content
+      .replace(/\s+/g, " ")
+      .trim()
+      .split(/(?<=[.!?])\s+/);
+    const scored = sentences.map((sentence, index) => ({
+      sentence,
+      index,
+      score: (
+        sentence.toLowerCase().match(/\p{L}[\p{L}\p{N}-]{3,}/gu) ?? []
+      ).filter((word) => questionWords.has(word)).length,
+    }));
+    const relevant = scored
+      .filter((s) => s.score > 0)
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .slice(0, 2)
+      .sort((a, b) => a.index - b.index)
+      .map((s) => s.sentence);
+
+    const answer =
+      relevant.length > 0
+        ? relevant.join(" ")
+        : "The article doesn't answer that question.";
+
+    for (const word of answer.split(/(?<= )/)) {
+      yield word;
+    }
+  }
+
+  async answerFromSources(
+    question: string,
+    sources: SourcePassage[],
+  ): Promise<SourcedAnswer> {
+    const questionWords = new Set(
+      question.toLowerCase().match(/\p{L}[\p{L}\p{N}-]{3,}/gu) ?? [],
+    );
+
+    // The two passages sharing the most words with the question, in order
+    const cited = sources
+      .map((source, index) => ({
+        text: source.text,
+        number: index + 1,
+        score: (
+          source.text.toLowerCase().match(/\p{L}[\p{L}\p{N}-]{3,}/gu) ?? []
+        ).filter((word) => questionWords.has(word)).length,
+      }))
+      .filter((s) => s.score > 0)
+      .sort((a, b) => b.score - a.score || a.number - b.number)
+      .slice(0, 2)
+      .sort((a, b) => a.number - b.number);
+
+    if (cited.length === 0) {
+      return {
+        answer: "Your saved articles don't answer that question.",
+        citations: [],
+      };
+    }
+
+    return {
+      answer: cited.map((s) => `${s.text} [${s.number}]`).join(" "),
+      citations: cited.map((s) => s.number),
+    };
+  }
+
+  async consolidateTags(tags: TagUsage[]): Promise<TagConsolidationResult> {
+    const groups = new Map<string, TagUsage[]>();
+
+    for (const tag of tags) {
+      const key = tag.name.replace(/[^\p{L}\p{N}]+/gu, "").replace(/s$/, "");
+      groups.set(key, [...(groups.get(key) ?? []), tag]);
+    }
+
+    const merges: TagMergeProposal[] = [];
+
+    for (const group of groups.values()) {
+      // Most used tag wins, then the shortest name
+      const [target, ...sources] = [...group].sort(
+        (a, b) =>
+          b.count - a.count ||
+          a.name.length - b.name.length ||
+          a.name.localeCompare(b.name),
+      );
+
+      if (!target) continue;
+
+      for (const source of sources) {
+        merges.push({
+          source: source.name,
+          target: target.name,
+          reason: "spelling variant",
+        });
+      }
+    }
+
+    return { merges };
+  }
+}
+
+/**
+ * Name of the configured LLM provider, null when AI features are disabled
+ * Without LLM_PROVIDER, Anthropic is used when its API key is set
+ */
+function getConfiguredProviderName(): LLMProviderName | null {
+  if (config.LLM_PROVIDER) {
+    return config.LLM_PROVIDER;
+  }
+
+  return config.ANTHROPIC_API_KEY ? "anthropic" : null;
+}
+
+/**
+ * Per-operation model overrides from config
+ */
+function getConfiguredModels(): Partial<LLMModels> {
+  const models: Partial<LLMModels> = {};
+
+  if (config.LLM_TAGGING_MODEL) models.tagging = config.LLM_TAGGING_MODEL;
+  if (config.LLM_SUMMARY_MODEL) models.summary = config.LLM_SUMMARY_MODEL;
+  if (config.LLM_CONSOLIDATION_MODEL) {
+    models.consolidation = config.LLM_CONSOLIDATION_MODEL;
+  }
+  if (config.LLM_ANSWER_MODEL) models.answer = config.LLM_ANSWER_MODEL;
+
+  return models;
+}
+
+/**
+ * Provider registry
+ * Config validation guarantees the required credentials are present
+ */
+const LLM_PROVIDERS: Record<
+  LLMProviderName,
+  (models: Partial<LLMModels>) => LLMProvider
+> = {
+  anthropic: (models) =>
+    new ClaudeProvider(config.ANTHROPIC_API_KEY ?? "", models),
+  openai: (models) =>
+    new OpenAICompatibleProvider({
+      baseUrl: config.OPENAI_BASE_URL,
+      apiKey: config.OPENAI_API_KEY,
+      models,
+    }),
+  fake: () => new FakeLLMProvider(),
+};
+
+/**
+ * Create a provider by name with the configured model overrides
+ */
+export function createLLMProvider(name: LLMProviderName): LLMProvider {
+  return LLM_PROVIDERS[name](getConfiguredModels());
 }
 
 let llmProvider: LLMProvider | null = null;
@@ -187,8 +1015,11 @@ export function getLLMProvider(): LLMProvider {
     return llmProvider;
   }
 
-  if (config.ANTHROPIC_API_KEY) {
-    llmProvider = new ClaudeProvider(config.ANTHROPIC_API_KEY);
+  const providerName = getConfiguredProviderName();
+
+  if (providerName) {
+    llmProvider = createLLMProvider(providerName);
+    logger.info("Using LLM provider", { provider: providerName });
     return llmProvider;
   }
 
@@ -203,11 +1034,29 @@ export function getLLMProvider(): LLMProvider {
     summarize: async (_content: string, _languageCode?: string | null) => {
       throw new ExternalServiceError("LLM provider not configured");
     },
+
+    async *summarizeStream(content: string, languageCode?: string | null) {
+      yield await this.summarize(content, languageCode);
+    },
+
+    consolidateTags: async (_tags: TagUsage[]) => ({ merges: [] }),
+
+    answer: (_content: string, _messages: ChatMessage[]) => {
+      throw new ExternalServiceError("LLM provider not configured");
+    },
+
+    answerFromSources: async (_question: string, _sources: SourcePassage[]) => {
+      throw new ExternalServiceError("LLM provider not configured");
+    },
   };
 
   return llmProvider;
 }
 
 export function isLLMAvailable() {
-  return !!config.ANTHROPIC_API_KEY;
+  return getConfiguredProviderName() !== null;
+}
+
+export function _resetLLMProvider() {
+  llmProvider = null;
 }
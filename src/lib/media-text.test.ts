@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from "bun:test";
+import { ExternalServiceError } from "./errors";
+import {
+  type MediaFile,
+  NoopMediaTextProvider,
+  OpenAIMediaTextProvider,
+} from "./media-text";
+
+const image: MediaFile = {
+  data: new Uint8Array([1, 2, 3]),
+  mimeType: "image/jpeg",
+  fileName: "photo.jpg",
+};
+
+const voice: MediaFile = {
+  data: new Uint8Array([4, 5, 6]),
+  mimeType: "audio/ogg",
+  fileName: "voice.ogg",
+};
+
+describe("media-text", () => {
+  describe("NoopMediaTextProvider", () => {
+    it("should return no text", async () => {
+      const provider = new NoopMediaTextProvider();
+
+      expect(await provider.recognizeText(image)).toBe("");
+      expect(await provider.transcribe(voice)).toBe("");
+    });
+  });
+
+  describe("OpenAIMediaTextProvider", () => {
+    let spyFetch: ReturnType<typeof spyOn<typeof globalThis, "fetch">>;
+
+    beforeEach(() => {
+      spyFetch = spyOn(globalThis, "fetch");
+    });
+
+    afterEach(() => {
+      spyFetch.mockRestore();
+    });
+
+    const provider = new OpenAIMediaTextProvider({
+      baseUrl: "http://localhost:8000/v1/",
+      apiKey: "sk-test",
+      ocrModel: "vision-model",
+      transcriptionModel: "whisper-model",
+    });
+
+    it("should send images as data URLs to chat completions", async () => {
+      spyFetch.mockResolvedValue(
+        Response.json({
+          choices: [{ message: { content: " # Receipt\n\nTotal: 5 " } }],
+        }),
+      );
+
+      expect(await provider.recognizeText(image)).toBe("# Receipt\n\nTotal: 5");
+
+      const [url, init] = spyFetch.mock.calls[0] as [string, RequestInit];
+      expect(url).toBe("http://localhost:8000/v1/chat/completions");
+      expect(new Headers(init.headers).get("Authorization")).toBe(
+        "Bearer sk-test",
+      );
+      const body = JSON.parse(init.body as string);
+      expect(body.model).toBe("vision-model");
+      expect(body.messages[0].content[1].image_url.url).toBe(
+        "data:image/jpeg;base64,AQID",
+      );
+    });
+
+    it("should upload recordings to the transcriptions endpoint", async () => {
+      spyFetch.mockResolvedValue(Response.json({ text: "Hello there." }));
+
+      expect(await provider.transcribe(voice)).toBe("Hello there.");
+
+      const [url, init] = spyFetch.mock.calls[0] as [string, RequestInit];
+      expect(url).toBe("http://localhost:8000/v1/audio/transcriptions");
+      const form = init.body as FormData;
+      expect(form.get("model")).toBe("whisper-model");
+      expect((form.get("file") as File).name).toBe("voice.ogg");
+    });
+
+    it("should throw ExternalServiceError on error statuses", async () => {
+      spyFetch.mockResolvedValue(new Response("no vision", { status: 400 }));
+
+      await expect(provider.recognizeText(image)).rejects.toThrow(
+        ExternalServiceError,
+      );
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import { config } from "./config";
+import { defaultLogger } from "./logger";
+import {
+  type OpenAICompatibleEndpoint,
+  postOpenAICompatible,
+} from "./openai-compatible";
+
+const logger = defaultLogger.child({ module: "media-text" });
+
+// Audio uploads and vision requests take longer than chat completions
+const MEDIA_REQUEST_TIMEOUT_MS = 120_000;
+
+const OCR_PROMPT =
+  "Transcribe all text in this image as Markdown, keeping headings, lists and paragraphs. Reply with the text only, or nothing if there is no text.";
+
+export type MediaTextProviderName = "none" | "openai";
+
+export interface MediaFile {
+  data: Uint8Array;
+  mimeType: string;
+  fileName: string;
+}
+
+export interface MediaTextProvider {
+  /**
+   * Text in an image as Markdown, empty when there is none
+   */
+  recognizeText(image: MediaFile): Promise<string>;
+
+  /**
+   * Spoken words of a recording as plain text
+   */
+  transcribe(audio: MediaFile): Promise<string>;
+}
+
+/**
+ * Default provider, photos and voice notes come back without text
+ */
+export class NoopMediaTextProvider implements MediaTextProvider {
+  async recognizeText(_image: MediaFile): Promise<string> {
+    return "";
+  }
+
+  async transcribe(_audio: MediaFile): Promise<string> {
+    return "";
+  }
+}
+
+interface OpenAIMediaTextOptions extends OpenAICompatibleEndpoint {
+  ocrModel: string;
+  transcriptionModel: string;
+}
+
+/**
+ * OpenAI-compatible vision chat completions for images, and the
+ * /audio/transcriptions endpoint (Whisper) for recordings
+ */
+export class OpenAIMediaTextProvider implements MediaTextProvider {
+  private endpoint: OpenAICompatibleEndpoint;
+  private ocrModel: string;
+  private transcriptionModel: string;
+
+  constructor(options: OpenAIMediaTextOptions) {
+    this.endpoint = { baseUrl: options.baseUrl, apiKey: options.apiKey };
+    this.ocrModel = options.ocrModel;
+    this.transcriptionModel = options.transcriptionModel;
+  }
+
+  private async post(path: string, body: object | FormData) {
+    const response = await postOpenAICompatible(this.endpoint, path, body, {
+      service: "Media text",
+      timeoutMs: MEDIA_REQUEST_TIMEOUT_MS,
+    });
+    return response.json();
+  }
+
+  async recognizeText(image: MediaFile): Promise<string> {
+    const dataUrl = `data:${image.mimeType};base64,${Buffer.from(image.data).toString("base64")}`;
+
+    const data = (await this.post("/chat/completions", {
+      model: this.ocrModel,
+      messages: [
+        {
+          role: "user",
+          content: [
+            { type: "text", text: OCR_PROMPT },
+            { type: "image_url", image_url: { url: dataUrl } },
+          ],
+        },
+      ],
+    })) as { choices?: { message?: { content?: string | null } }[] };
+
+    return data.choices?.[0]?.message?.content?.trim() ?? "";
+  }
+
+  async transcribe(audio: MediaFile): Promise<string> {
+    const form = new FormData();
+    form.append("model", this.transcriptionModel);
+    form.append(
+      "file",
+      new Blob([new Uint8Array(audio.data)], { type: audio.mimeType }),
+      audio.fileName,
+    );
+
+    const data = (await this.post("/audio/transcriptions", form)) as {
+      text?: string;
+    };
+
+    return data.text?.trim() ?? "";
+  }
+}
+
+const DEFAULT_OPENAI_OCR_MODEL = "gpt-4o-mini";
+const DEFAULT_OPENAI_TRANSCRIPTION_MODEL = "whisper-1";
+
+/**
+ * Provider registry
+ */
+const MEDIA_TEXT_PROVIDERS: Record<
+  MediaTextProviderName,
+  () => MediaTextProvider
+> = {
+  none: () => new NoopMediaTextProvider(),
+  openai: () =>
+    new OpenAIMediaTextProvider({
+      baseUrl: config.OPENAI_BASE_URL,
+      apiKey: config.OPENAI_API_KEY,
+      ocrModel: config.OCR_MODEL ?? DEFAULT_OPENAI_OCR_MODEL,
+      transcriptionModel:
+        config.TRANSCRIPTION_MODEL ?? DEFAULT_OPENAI_TRANSCRIPTION_MODEL,
+    }),
+};
+
+let mediaTextProvider: MediaTextProvider | null = null;
+
+export function getMediaTextProvider(): MediaTextProvider {
+  if (!mediaTextProvider) {
+    mediaTextProvider = MEDIA_TEXT_PROVIDERS[config.MEDIA_TEXT_PROVIDER]();
+    logger.info("Using media text provider", {
+      provider: config.MEDIA_TEXT_PROVIDER,
+    });
+  }
+
+  return mediaTextProvider;
+}
+
+export function isMediaTextAvailable() {
+  return config.MEDIA_TEXT_PROVIDER !== "none";
+}
+
+export function _resetMediaTextProvider() {
+  mediaTextProvider = null;
+}
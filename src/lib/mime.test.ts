@@ -0,0 +1,116 @@
+import { describe, expect, it } from "bun:test";
+import { decodeHeader, parseAddress, parseEmail } from "./mime";
+
+function raw(lines: string[]): Uint8Array {
+  return Buffer.from(lines.join("\r\n"), "latin1");
+}
+
+describe("mime", () => {
+  describe("decodeHeader", () => {
+    it("should decode base64 and quoted-printable encoded words", () => {
+      expect(
+        decodeHeader("=?UTF-8?B?w4lkaXRpb24=?= =?utf-8?Q?_n=C2=B01?="),
+      ).toBe("Édition n°1");
+      expect(decodeHeader("=?iso-8859-1?Q?Caf=E9?= time")).toBe("Café time");
+    });
+
+    it("should decode raw UTF-8", () => {
+      expect(decodeHeader(Buffer.from("Grüße").toString("latin1"))).toBe(
+        "Grüße",
+      );
+    });
+  });
+
+  describe("parseAddress", () => {
+    it("should parse names and bare addresses", () => {
+      expect(parseAddress('"Weekly, Rust" <News@Rust.example.com>')).toEqual({
+        name: "Weekly, Rust",
+        address: "news@rust.example.com",
+      });
+      expect(parseAddress("news@rust.example.com (Weekly Rust)")).toEqual({
+        name: "Weekly Rust",
+        address: "news@rust.example.com",
+      });
+      expect(parseAddress("news@rust.example.com")).toEqual({
+        name: undefined,
+        address: "news@rust.example.com",
+      });
+      expect(parseAddress("undisclosed-recipients:;")).toBeUndefined();
+    });
+  });
+
+  describe("parseEmail", () => {
+    it("should read headers and the first HTML and text parts", () => {
+      const email = parseEmail(
+        raw([
+          "From: =?utf-8?Q?Caf=C3=A9?= Weekly <news@cafe.example.com>",
+          "Subject: Issue",
+          "  forty-two",
+          "Date: Mon, 19 Oct 2026 08:00:00 +0000 (UTC)",
+          "Message-ID: <abc@cafe.example.com>",
+          'Content-Type: multipart/mixed; boundary="outer"',
+          "",
+          "Preamble",
+          "--outer",
+          "Content-Type: multipart/alternative; boundary=inner",
+          "",
+          "--inner",
+          "Content-Type: text/plain; charset=utf-8",
+          "Content-Transfer-Encoding: quoted-printable",
+          "",
+          "Caf=C3=A9 news, a very long line that is wrapped by the encod=",
+          "er",
+          "--inner",
+          "Content-Type: text/html; charset=utf-8",
+          "Content-Transfer-Encoding: base64",
+          "",
+          Buffer.from("<p>Café news</p>").toString("base64"),
+          "--inner--",
+          "--outer",
+          "Content-Type: text/html",
+          "Content-Disposition: attachment; filename=old.html",
+          "",
+          "<p>Attachment</p>",
+          "--outer--",
+        ]),
+      );
+
+      expect(email).toEqual({
+        subject: "Issue forty-two",
+        from: { name: "Café Weekly", address: "news@cafe.example.com" },
+        date: new Date("2026-10-19T08:00:00Z"),
+        messageId: "abc@cafe.example.com",
+        html: "<p>Café news</p>",
+        text: "Café news, a very long line that is wrapped by the encoder",
+      });
+    });
+
+    it("should read the body of a message forwarded as an attachment", () => {
+      const email = parseEmail(
+        raw([
+          "From: me@example.com",
+          "Content-Type: multipart/mixed; boundary=b",
+          "",
+          "--b",
+          "Content-Type: message/rfc822",
+          "",
+          "From: news@rust.example.com",
+          "Content-Type: text/html; charset=iso-8859-1",
+          "",
+          "<p>R\xe9sum\xe9</p>",
+          "--b--",
+        ]),
+      );
+
+      expect(email.html).toBe("<p>Résumé</p>");
+    });
+
+    it("should treat a message without Content-Type as plain text", () => {
+      const email = parseEmail(raw(["Subject: Hi", "", "Hello"]));
+
+      expect(email.text).toBe("Hello");
+      expect(email.html).toBeUndefined();
+      expect(email.from).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,279 @@
+export interface EmailAddress {
+  name?: string;
+  address: string;
+}
+
+/**
+ * Parts of an RFC 822 message needed to save it as an article
+ */
+export interface ParsedEmail {
+  subject?: string;
+  from?: EmailAddress;
+  date?: Date;
+  messageId?: string;
+  // First text/html and text/plain bodies, attachments are skipped
+  html?: string;
+  text?: string;
+}
+
+interface MimePart {
+  headers: Map<string, string>;
+  // Raw bytes as a latin1 string, one character per byte
+  body: string;
+}
+
+interface HeaderValue {
+  value: string;
+  params: Record<string, string>;
+}
+
+// Nested multiparts of real messages are a few levels deep at most
+const MAX_DEPTH = 10;
+
+/**
+ * Split headers from the body, unfolding continued header lines
+ */
+function parsePart(raw: string): MimePart {
+  const match = /\r?\n\r?\n/.exec(raw);
+  const head = match ? raw.slice(0, match.index) : raw;
+  const body = match ? raw.slice(match.index + match[0].length) : "";
+
+  const headers = new Map<string, string>();
+  let current: string | null = null;
+
+  for (const line of head.split(/\r?\n/)) {
+    if (/^[ \t]/.test(line) && current) {
+      headers.set(current, `${headers.get(current)} ${line.trim()}`);
+      continue;
+    }
+
+    const colon = line.indexOf(":");
+    if (colon <= 0) {
+      continue;
+    }
+    current = line.slice(0, colon).trim().toLowerCase();
+    // The first occurrence wins, later ones are usually added by relays
+    if (!headers.has(current)) {
+      headers.set(current, line.slice(colon + 1).trim());
+    } else {
+      current = null;
+    }
+  }
+
+  return { headers, body };
+}
+
+/**
+ * "text/html; charset=utf-8" into the value and its parameters
+ */
+function parseHeaderValue(header: string | undefined): HeaderValue {
+  const [value = "", ...rest] = (header ?? "").split(";");
+  const params: Record<string, string> = {};
+
+  for (const param of rest) {
+    const equals = param.indexOf("=");
+    if (equals === -1) {
+      continue;
+    }
+    const name = param.slice(0, equals).trim().toLowerCase();
+    params[name] = param
+      .slice(equals + 1)
+      .trim()
+      .replace(/^"(.*)"$/, "$1");
+  }
+
+  return { value: value.trim().toLowerCase(), params };
+}
+
+function decodeCharset(bytes: Uint8Array, charset = "utf-8"): string {
+  try {
+    return new TextDecoder(charset.trim().toLowerCase()).decode(bytes);
+  } catch {
+    // Unknown charset label
+    return new TextDecoder().decode(bytes);
+  }
+}
+
+function decodeQuotedPrintable(body: string): Uint8Array {
+  const text = body.replace(/=\r?\n/g, "");
+  const bytes: number[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    const hex = text.slice(i + 1, i + 3);
+    if (text[i] === "=" && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(Number.parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(text.charCodeAt(i) & 0xff);
+    }
+  }
+  return Uint8Array.from(bytes);
+}
+
+function decodeTransferEncoding(body: string, encoding: string): Uint8Array {
+  switch (encoding) {
+    case "base64":
+      return Buffer.from(body.replace(/[^A-Za-z0-9+/=]/g, ""), "base64");
+    case "quoted-printable":
+      return decodeQuotedPrintable(body);
+    default:
+      return Buffer.from(body, "latin1");
+  }
+}
+
+/**
+ * Decode RFC 2047 encoded words, and raw UTF-8 of SMTPUTF8 messages
+ */
+export function decodeHeader(value: string): string {
+  const utf8 = decodeCharset(Buffer.from(value, "latin1"));
+
+  return (
+    utf8
+      // Whitespace between encoded words is dropped
+      .replace(/(\?=)\s+(=\?)/g, "$1$2")
+      .replace(
+        /=\?([^?]+)\?([bBqQ])\?([^?]*)\?=/g,
+        (_, charset: string, encoding: string, text: string) => {
+          const bytes =
+            encoding.toUpperCase() === "B"
+              ? Buffer.from(text, "base64")
+              : decodeQuotedPrintable(text.replace(/_/g, " "));
+          // RFC 2231 language suffix, as in "utf-8*en"
+          return decodeCharset(bytes, charset.split("*")[0]);
+        },
+      )
+  );
+}
+
+/**
+ * "Name <address>", "address (Name)" or a bare address
+ */
+export function parseAddress(value: string): EmailAddress | undefined {
+  const decoded = decodeHeader(value).trim();
+
+  const angle = /^(.*?)\s*<([^<>\s]+@[^<>\s]+)>/.exec(decoded);
+  if (angle?.[2]) {
+    const name = angle[1]
+      ?.trim()
+      .replace(/^"(.*)"$/, "$1")
+      .replace(/\\(.)/g, "$1");
+    return { name: name || undefined, address: angle[2].toLowerCase() };
+  }
+
+  const bare = /^([^\s@]+@[^\s@()]+)(?:\s*\((.*)\))?$/.exec(decoded);
+  if (bare?.[1]) {
+    return {
+      name: bare[2]?.trim() || undefined,
+      address: bare[1].toLowerCase(),
+    };
+  }
+  return undefined;
+}
+
+function splitMultipart(body: string, boundary: string): string[] {
+  const delimiter = `--${boundary}`;
+  const parts: string[] = [];
+  let current: string[] | null = null;
+
+  for (const line of body.split(/\r?\n/)) {
+    if (line.startsWith(delimiter)) {
+      if (current) {
+        parts.push(current.join("\r\n"));
+      }
+      // The closing delimiter ends the parts, the epilogue is ignored
+      if (line.slice(delimiter.length).startsWith("--")) {
+        return parts;
+      }
+      current = [];
+    } else {
+      current?.push(line);
+    }
+  }
+
+  if (current) {
+    parts.push(current.join("\r\n"));
+  }
+  return parts;
+}
+
+function collectBodies(
+  part: MimePart,
+  result: Pick<ParsedEmail, "html" | "text">,
+  depth = 0,
+): void {
+  if (depth > MAX_DEPTH) {
+    return;
+  }
+
+  const contentType = parseHeaderValue(
+    part.headers.get("content-type") ?? "text/plain",
+  );
+  const disposition = parseHeaderValue(part.headers.get("content-disposition"));
+
+  if (contentType.value.startsWith("multipart/")) {
+    const boundary = contentType.params.boundary;
+    if (!boundary) {
+      return;
+    }
+    for (const child of splitMultipart(part.body, boundary)) {
+      collectBodies(parsePart(child), result, depth + 1);
+    }
+    return;
+  }
+
+  // Forwarded as an attachment
+  if (contentType.value === "message/rfc822") {
+    collectBodies(parsePart(part.body), result, depth + 1);
+    return;
+  }
+
+  if (disposition.value === "attachment") {
+    return;
+  }
+
+  const key =
+    contentType.value === "text/html"
+      ? "html"
+      : contentType.value === "text/plain"
+        ? "text"
+        : null;
+  if (!key || result[key] !== undefined) {
+    return;
+  }
+
+  const encoding = (
+    part.headers.get("content-transfer-encoding") ?? ""
+  ).toLowerCase();
+  result[key] = decodeCharset(
+    decodeTransferEncoding(part.body, encoding),
+    contentType.params.charset,
+  );
+}
+
+function parseDate(value: string | undefined): Date | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const date = new Date(value.replace(/\s*\(.*\)\s*$/, ""));
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Parse a raw RFC 822 message
+ */
+export function parseEmail(raw: Uint8Array): ParsedEmail {
+  const message = parsePart(Buffer.from(raw).toString("latin1"));
+  const bodies: Pick<ParsedEmail, "html" | "text"> = {};
+  collectBodies(message, bodies);
+
+  const subject = message.headers.get("subject");
+  const from = message.headers.get("from");
+
+  return {
+    subject: subject ? decodeHeader(subject).trim() || undefined : undefined,
+    from: from ? parseAddress(from) : undefined,
+    date: parseDate(message.headers.get("date")),
+    messageId: message.headers.get("message-id")?.replace(/^<|>$/g, ""),
+    ...bodies,
+  };
+}
@@ -0,0 +1,60 @@
+import { ExternalServiceError } from "./errors";
+
+export interface OpenAICompatibleEndpoint {
+  baseUrl: string;
+  // Optional: local servers (Ollama, llama.cpp) usually don't need one
+  apiKey?: string;
+}
+
+interface PostOptions {
+  // Name in the ExternalServiceError, like "LLM"
+  service: string;
+  timeoutMs: number;
+}
+
+/**
+ * POST to an OpenAI-compatible API, like /chat/completions
+ * Objects are sent as JSON, FormData as multipart. Throws
+ * ExternalServiceError on network failures and error statuses
+ */
+export async function postOpenAICompatible(
+  endpoint: OpenAICompatibleEndpoint,
+  path: string,
+  body: object | FormData,
+  { service, timeoutMs }: PostOptions,
+): Promise<Response> {
+  const isForm = body instanceof FormData;
+
+  // Plain fetch on purpose: the endpoint is operator-configured and
+  // often on localhost, which safeFetch would reject
+  let response: Response;
+
+  try {
+    response = await fetch(`${endpoint.baseUrl.replace(/\/+$/, "")}${path}`, {
+      method: "POST",
+      headers: {
+        // fetch sets the multipart boundary itself
+        ...(isForm ? {} : { "Content-Type": "application/json" }),
+        ...(endpoint.apiKey
+          ? { Authorization: `Bearer ${endpoint.apiKey}` }
+          : {}),
+      },
+      body: isForm ? body : JSON.stringify(body),
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+  } catch (error) {
+    throw new ExternalServiceError(
+      service,
+      error instanceof Error ? error : undefined,
+    );
+  }
+
+  if (!response.ok) {
+    throw new ExternalServiceError(
+      service,
+      new Error(`HTTP ${response.status}: ${await response.text()}`),
+    );
+  }
+
+  return response;
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "bun:test";
+import { extractPassages } from "./passages";
+
+describe("passages", () => {
+  describe("extractPassages", () => {
+    it("should number passages like the reader position elements", () => {
+      const passages = extractPassages(`
+        <h1>Title</h1>
+        <p>First <em>paragraph</em>.</p>
+        <div><p>Nested   in a div</p></div>
+        <ul>
+          <li>One</li>
+          <li>Two</li>
+        </ul>
+      `);
+
+      expect(passages).toEqual([
+        { element: 0, text: "Title" },
+        { element: 1, text: "First paragraph." },
+        { element: 2, text: "Nested in a div" },
+        { element: 3, text: "One Two" },
+      ]);
+    });
+
+    it("should skip containers of other elements and empty elements", () => {
+      const passages = extractPassages(`
+        <blockquote><p>Quoted</p><p>Twice</p></blockquote>
+        <p>   </p>
+        <figure><img src="a.png"></figure>
+        <p>After</p>
+      `);
+
+      expect(passages).toEqual([
+        { element: 1, text: "Quoted" },
+        { element: 2, text: "Twice" },
+        { element: 5, text: "After" },
+      ]);
+    });
+
+    it("should return an empty list for content without passages", () => {
+      expect(extractPassages("")).toEqual([]);
+      expect(extractPassages("<div>Loose text</div>")).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,36 @@
+import { JSDOM } from "jsdom";
+
+/**
+ * Article content split into passages addressable by reader position
+ */
+
+// Elements counted for reading positions, must match
+// getContentElements in web/scripts/reader-position.js
+export const READER_POSITION_SELECTOR =
+  "p, h1, h2, h3, h4, h5, h6, ul, ol, blockquote, pre, figure";
+
+export interface Passage {
+  // Index among the reader position elements, as in readingPositionElement
+  element: number;
+  text: string;
+}
+
+/**
+ * Split article HTML into text passages with their reader position
+ * Containers of other positioned elements (a blockquote of paragraphs) are
+ * skipped so their text isn't repeated, as are elements without text
+ */
+export function extractPassages(html: string): Passage[] {
+  const { document } = new JSDOM(html).window;
+  const elements = document.body.querySelectorAll(READER_POSITION_SELECTOR);
+
+  return [...elements].flatMap((element, index) => {
+    if (element.querySelector(READER_POSITION_SELECTOR)) {
+      return [];
+    }
+
+    const text = (element.textContent ?? "").replace(/\s+/g, " ").trim();
+
+    return text ? [{ element: index, text }] : [];
+  });
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "bun:test";
+import { createPdf } from "../../test/fixtures";
+import { extractPdfContent, isPdf } from "./pdf";
+
+const paper = [
+  [
+    { text: "Attention Is All You Need", fontSize: 18, y: 720 },
+    { text: "Introduction", fontSize: 14, y: 680 },
+    {
+      text: "Recurrent models are slow to train on long sequences of",
+      fontSize: 10,
+      y: 660,
+    },
+    { text: "tokens, and they are hard to paral-", fontSize: 10, y: 648 },
+    { text: "lelize across many devices.", fontSize: 10, y: 636 },
+    {
+      text: "Transformers rely on attention instead of recurrence.",
+      fontSize: 10,
+      y: 610,
+    },
+    { text: "Preprint", fontSize: 8, y: 60 },
+    { text: "1", fontSize: 10, y: 40 },
+  ],
+  [
+    { text: "Results", fontSize: 14, y: 720 },
+    { text: "It works <well> & scales.", fontSize: 10, y: 700 },
+    { text: "Preprint", fontSize: 8, y: 60 },
+    { text: "2", fontSize: 10, y: 40 },
+  ],
+  [
+    { text: "Conclusion", fontSize: 14, y: 720 },
+    { text: "Attention is all you need.", fontSize: 10, y: 700 },
+    { text: "Preprint", fontSize: 8, y: 60 },
+    { text: "3", fontSize: 10, y: 40 },
+  ],
+];
+
+describe("pdf", () => {
+  describe("isPdf", () => {
+    it("should detect PDFs by content type or signature", () => {
+      const html = new TextEncoder().encode("<html></html>");
+
+      expect(isPdf(html, "application/pdf")).toBe(true);
+      expect(isPdf(createPdf([[]]), "application/octet-stream")).toBe(true);
+      expect(isPdf(html, "text/html; charset=utf-8")).toBe(false);
+    });
+
+    it("should only sniff untyped responses, at the start of the file", () => {
+      const encode = (text: string) => new TextEncoder().encode(text);
+      const page = encode(
+        "<html><title>Every PDF starts with %PDF-1.7</title></html>",
+      );
+
+      expect(isPdf(page, "text/html")).toBe(false);
+      expect(isPdf(page, null)).toBe(false);
+      expect(isPdf(createPdf([[]]), "text/html")).toBe(false);
+      expect(isPdf(createPdf([[]]))).toBe(true);
+      expect(
+        isPdf(encode("\ufeff\n%PDF-1.4"), "application/octet-stream"),
+      ).toBe(true);
+    });
+  });
+
+  describe("extractPdfContent", () => {
+    it("should reflow text into headings and paragraphs", async () => {
+      const pdf = await extractPdfContent(
+        createPdf(paper, { Title: "main.dvi", Author: "Vaswani et al." }),
+      );
+
+      expect(pdf.title).toBe("Attention Is All You Need");
+      expect(pdf.author).toBe("Vaswani et al.");
+      expect(pdf.pageCount).toBe(3);
+      expect(pdf.content).toBe(
+        [
+          "<h2>Introduction</h2>",
+          "<p>Recurrent models are slow to train on long sequences of tokens, and they are hard to parallelize across many devices.</p>",
+          "<p>Transformers rely on attention instead of recurrence.</p>",
+          "<h2>Results</h2>",
+          "<p>It works &lt;well&gt; &amp; scales.</p>",
+          "<h2>Conclusion</h2>",
+          "<p>Attention is all you need.</p>",
+        ].join("\n"),
+      );
+      expect(pdf.excerpt).toStartWith("Recurrent models are slow");
+      expect(pdf.textContent).not.toContain("Preprint");
+    });
+
+    it("should prefer the title from the metadata", async () => {
+      const pdf = await extractPdfContent(
+        createPdf(paper, { Title: "Attention (2017)" }),
+      );
+
+      expect(pdf.title).toBe("Attention (2017)");
+      expect(pdf.author).toBeUndefined();
+      expect(pdf.content).toStartWith("<h2>Attention Is All You Need</h2>");
+    });
+
+    it("should return empty content for PDFs without text", async () => {
+      const pdf = await extractPdfContent(createPdf([[], []]));
+
+      expect(pdf.pageCount).toBe(2);
+      expect(pdf.content).toBe("");
+      expect(pdf.textContent).toBe("");
+    });
+
+    it("should reject files that aren't PDFs", async () => {
+      await expect(
+        extractPdfContent(new TextEncoder().encode("<html></html>")),
+      ).rejects.toThrow();
+    });
+  });
+});
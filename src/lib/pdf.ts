@@ -0,0 +1,292 @@
+import { extractTextItems, getDocumentProxy, getMeta } from "unpdf";
+
+export interface PdfContent {
+  title?: string;
+  author?: string;
+  // First paragraph, usually the abstract of a paper
+  excerpt?: string;
+  pageCount: number;
+  // Reflowed HTML of headings and paragraphs
+  content: string;
+  textContent: string;
+}
+
+interface TextItem {
+  str: string;
+  x: number;
+  y: number;
+  width: number;
+  fontSize: number;
+}
+
+interface Line {
+  text: string;
+  x: number;
+  y: number;
+  end: number;
+  fontSize: number;
+  page: number;
+}
+
+interface Block {
+  type: "heading" | "paragraph";
+  fontSize: number;
+  text: string;
+}
+
+const MAX_EXCERPT_LENGTH = 200;
+// Headers and footers repeat on at least this share of pages
+const REPEATED_LINE_SHARE = 0.5;
+// Text this much larger than the body text is a heading
+const HEADING_SCALE = 1.15;
+const MAX_HEADING_LENGTH = 200;
+
+// Titles set by authoring tools rather than authors
+const PLACEHOLDER_TITLE =
+  /^(?:untitled|microsoft (?:word|powerpoint) - .*|.*\.(?:dvi|docx?|pptx?|tex|pdf))$/i;
+
+/**
+ * PDF by content type or, for servers sending no type or
+ * application/octet-stream, by the "%PDF-" signature starting the file
+ */
+export function isPdf(data: Uint8Array, contentType?: string | null): boolean {
+  const type = contentType?.split(";")[0]?.trim().toLowerCase();
+  if (type === "application/pdf") {
+    return true;
+  }
+  if (type && type !== "application/octet-stream") {
+    return false;
+  }
+  // A byte order mark or whitespace may come first
+  const head = Buffer.from(data.subarray(0, 16)).toString("latin1");
+  return /^(?:\xef\xbb\xbf)?\s*%PDF-/.test(head);
+}
+
+function median(values: number[]): number {
+  const sorted = values.toSorted((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)] ?? 0;
+}
+
+/**
+ * Join text items on the same baseline into lines, in content stream order
+ */
+function groupLines(items: TextItem[], page: number): Line[] {
+  const lines: Line[] = [];
+
+  for (const item of items) {
+    const str = item.str.replace(/\s+/g, " ");
+    if (!str.trim()) {
+      continue;
+    }
+
+    const line = lines.at(-1);
+    const sameLine =
+      line &&
+      Math.abs(line.y - item.y) <= Math.max(line.fontSize, item.fontSize) / 2;
+
+    if (!line || !sameLine) {
+      lines.push({
+        text: str,
+        x: item.x,
+        y: item.y,
+        end: item.x + item.width,
+        fontSize: item.fontSize,
+        page,
+      });
+      continue;
+    }
+
+    // Gaps between items are spaces the PDF doesn't encode
+    const gap = item.x - line.end > item.fontSize * 0.15;
+    line.text +=
+      gap && !line.text.endsWith(" ") && !str.startsWith(" ") ? ` ${str}` : str;
+    line.end = Math.max(line.end, item.x + item.width);
+    line.fontSize = Math.max(line.fontSize, item.fontSize);
+  }
+
+  for (const line of lines) {
+    line.text = line.text.trim();
+  }
+  return lines;
+}
+
+function normalizeRepeatedLine(text: string): string {
+  return text.toLowerCase().replace(/\d+/g, "#");
+}
+
+/**
+ * Drop page numbers, and running headers and footers repeated across pages
+ */
+function removePageFurniture(pages: Line[][]): Line[] {
+  const pagesWithLine = new Map<string, number>();
+  for (const lines of pages) {
+    for (const text of new Set(
+      lines.map((line) => normalizeRepeatedLine(line.text)),
+    )) {
+      pagesWithLine.set(text, (pagesWithLine.get(text) ?? 0) + 1);
+    }
+  }
+
+  const minRepeats = Math.max(3, pages.length * REPEATED_LINE_SHARE);
+  return pages
+    .flat()
+    .filter(
+      (line) =>
+        !/^(?:page\s*)?\d+(?:\s*(?:of|\/)\s*\d+)?$/i.test(line.text) &&
+        (pagesWithLine.get(normalizeRepeatedLine(line.text)) ?? 0) < minRepeats,
+    );
+}
+
+/**
+ * Font size of most of the text
+ */
+function getBodyFontSize(lines: Line[]): number {
+  const characters = new Map<number, number>();
+  for (const line of lines) {
+    const size = Math.round(line.fontSize * 2) / 2;
+    characters.set(size, (characters.get(size) ?? 0) + line.text.length);
+  }
+  return [...characters].reduce(
+    (best, entry) => (entry[1] > best[1] ? entry : best),
+    [0, 0],
+  )[0];
+}
+
+function joinLines(text: string, next: string): string {
+  // Words hyphenated across lines
+  if (/\p{L}-$/u.test(text) && /^\p{Ll}/u.test(next)) {
+    return text.slice(0, -1) + next;
+  }
+  return `${text} ${next}`;
+}
+
+/**
+ * Merge lines into headings and paragraphs
+ * A paragraph ends at a larger gap than the usual line spacing, or after a
+ * short line ending a sentence
+ */
+function buildBlocks(lines: Line[]): Block[] {
+  const bodySize = getBodyFontSize(lines);
+  const isHeading = (line: Line) =>
+    line.fontSize >= bodySize * HEADING_SCALE &&
+    line.text.length <= MAX_HEADING_LENGTH;
+
+  const body = lines.filter((line) => !isHeading(line));
+  const lineGap = median(
+    body
+      .slice(1)
+      .map((line, index) => {
+        const previous = body[index];
+        return previous && previous.page === line.page
+          ? previous.y - line.y
+          : 0;
+      })
+      .filter((gap) => gap > 0),
+  );
+  const lineWidth = median(body.map((line) => line.end - line.x));
+
+  const blocks: Block[] = [];
+  let previous: Line | undefined;
+
+  for (const line of lines) {
+    const type = isHeading(line) ? "heading" : "paragraph";
+    const block = blocks.at(-1);
+
+    const continues =
+      block &&
+      previous &&
+      block.type === type &&
+      Math.abs(block.fontSize - line.fontSize) < 0.5 &&
+      (previous.page !== line.page ||
+        previous.y - line.y <= (lineGap || line.fontSize * 1.2) * 1.5) &&
+      !(
+        type === "paragraph" &&
+        /[.!?:"”]$/.test(previous.text) &&
+        previous.end - previous.x < lineWidth * 0.8
+      );
+
+    if (continues) {
+      block.text = joinLines(block.text, line.text);
+    } else {
+      blocks.push({ type, fontSize: line.fontSize, text: line.text });
+    }
+    previous = line;
+  }
+
+  return blocks;
+}
+
+function renderBlocks(blocks: Block[]): string {
+  // The largest headings are sections, smaller ones subsections
+  const headingSizes = [
+    ...new Set(
+      blocks
+        .filter((block) => block.type === "heading")
+        .map((block) => block.fontSize),
+    ),
+  ].toSorted((a, b) => b - a);
+
+  return blocks
+    .map((block) => {
+      if (block.type === "paragraph") {
+        return `<p>${Bun.escapeHTML(block.text)}</p>`;
+      }
+      const tag = block.fontSize === headingSizes[0] ? "h2" : "h3";
+      return `<${tag}>${Bun.escapeHTML(block.text)}</${tag}>`;
+    })
+    .join("\n");
+}
+
+function getInfoString(info: Record<string, unknown>, key: string) {
+  const value = info[key];
+  return typeof value === "string" ? value.trim() || undefined : undefined;
+}
+
+/**
+ * Extract the text of a PDF as reflowable HTML
+ * Headings are told apart by font size, so scanned PDFs without a text layer
+ * come back empty
+ */
+export async function extractPdfContent(data: Uint8Array): Promise<PdfContent> {
+  // pdf.js takes ownership of the buffer it is given, and warns on stdout
+  const pdf = await getDocumentProxy(new Uint8Array(data), { verbosity: 0 });
+
+  try {
+    const { info } = await getMeta(pdf);
+    const { totalPages, items } = await extractTextItems(pdf);
+
+    const lines = removePageFurniture(
+      items.map((pageItems, index) => groupLines(pageItems, index + 1)),
+    );
+    const blocks = buildBlocks(lines);
+
+    const infoTitle = getInfoString(info, "Title");
+    const title =
+      infoTitle && !PLACEHOLDER_TITLE.test(infoTitle)
+        ? infoTitle
+        : blocks.find((block) => block.type === "heading")?.text;
+    const excerpt = blocks.find(
+      (block) => block.type === "paragraph" && block.text.length > 40,
+    )?.text;
+    // The reader shows the title above the content already
+    const content =
+      blocks[0]?.type === "heading" &&
+      blocks[0].text.toLowerCase() === title?.toLowerCase()
+        ? blocks.slice(1)
+        : blocks;
+
+    return {
+      title,
+      author: getInfoString(info, "Author"),
+      excerpt:
+        excerpt && excerpt.length > MAX_EXCERPT_LENGTH
+          ? `${excerpt.slice(0, MAX_EXCERPT_LENGTH)}...`
+          : excerpt,
+      pageCount: totalPages,
+      content: renderBlocks(content),
+      textContent: content.map((block) => block.text).join("\n\n"),
+    };
+  } finally {
+    await pdf.loadingTask.destroy();
+  }
+}
@@ -1,6 +1,7 @@
 import path from "node:path";
 import bunline, { type Queue } from "bunline";
 import { bot } from "../bot";
+import { getArticleBatchStatus } from "../services/articles.service";
 import { markArticleAsError } from "../services/retry.service";
 import { config } from "./config";
 import { defaultLogger } from "./logger";
@@ -13,6 +14,8 @@ const logger = defaultLogger.child({ module: "queue" });
 export interface TelegramContext {
   chatId: number;
   messageId: number;
+  // Articles saved from the same message, reported together when all finish
+  batch?: string[];
 }
 
 /**
@@ -23,8 +26,20 @@ export interface ArticleJobData {
   telegram?: TelegramContext;
 }
 
-// Queue instance (singleton)
+/**
+ * Job data for emailing an article, e.g. to a Kindle
+ */
+export interface DeliveryJobData {
+  articleId: string;
+  userId: string;
+}
+
+// Queue instances (singletons)
 let articleQueue: Queue<ArticleJobData> | null = null;
+let deliveryQueue: Queue<DeliveryJobData> | null = null;
+
+// Messages already reported, the last two jobs of a batch can finish together
+const reportedBatches = new Set<string>();
 
 /**
  * Get the database path for the queue
@@ -35,6 +50,48 @@ function getQueueDbPath(): string {
   return path.join(dbDir, "queue.db");
 }
 
+/**
+ * React to a message with several links once all of them are processed,
+ * and reply with the links that couldn't be saved
+ */
+async function reportBatchResult(
+  telegram: TelegramContext,
+  batch: string[],
+): Promise<void> {
+  const status = await getArticleBatchStatus(batch);
+  const key = `${telegram.chatId}:${telegram.messageId}`;
+
+  if (!status.finished || reportedBatches.has(key)) {
+    return;
+  }
+  reportedBatches.add(key);
+  setTimeout(() => reportedBatches.delete(key), 60_000).unref();
+
+  const failed = status.failed.length;
+  const emoji = failed === 0 ? "👍" : failed === status.total ? "👎" : "🤷";
+
+  try {
+    await bot.api.setMessageReaction(telegram.chatId, telegram.messageId, [
+      { type: "emoji", emoji },
+    ]);
+
+    if (failed > 0) {
+      await bot.api.sendMessage(
+        telegram.chatId,
+        `Couldn't save ${failed} of ${status.total} links:\n` +
+          status.failed.map((article) => article.url).join("\n"),
+        {
+          reply_parameters: { message_id: telegram.messageId },
+          link_preview_options: { is_disabled: true },
+        },
+      );
+    }
+    logger.info("Reported batch result", { total: status.total, failed });
+  } catch (error) {
+    logger.warn("Failed to report batch result", { error });
+  }
+}
+
 /**
  * Get or create the article processing queue
  */
@@ -67,7 +124,9 @@ export function initQueue(): void {
   // Subscribe to job completion events for message feedback
   articleQueue.on("job:completed", async (job) => {
     const { telegram, articleId } = job.data;
-    if (telegram) {
+    if (telegram?.batch) {
+      await reportBatchResult(telegram, telegram.batch);
+    } else if (telegram) {
       try {
         await bot.api.setMessageReaction(telegram.chatId, telegram.messageId, [
           { type: "emoji", emoji: "👍" },
@@ -88,7 +147,9 @@ export function initQueue(): void {
       String(error) || "Max retry attempts exceeded",
     );
 
-    if (telegram) {
+    if (telegram?.batch) {
+      await reportBatchResult(telegram, telegram.batch);
+    } else if (telegram) {
       try {
         await bot.api.setMessageReaction(telegram.chatId, telegram.messageId, [
           { type: "emoji", emoji: "👎" },
@@ -112,6 +173,25 @@ export function initQueue(): void {
     .pathname;
   logger.info("Starting queue processor", { workerPath });
   articleQueue.process(workerPath);
+
+  deliveryQueue = bunline.createQueue<DeliveryJobData>("article-delivery", {
+    dbPath,
+    maxConcurrency: 1,
+    pollInterval: 1000,
+    lockDuration: 5 * 60 * 1000,
+  });
+
+  deliveryQueue.on("job:exhausted", (job, error) => {
+    logger.error("Article delivery exhausted all retries", {
+      articleId: job.data.articleId,
+      userId: job.data.userId,
+      error: String(error),
+    });
+  });
+
+  deliveryQueue.process(
+    new URL("../workers/delivery-worker.ts", import.meta.url).pathname,
+  );
 }
 
 /**
@@ -134,7 +214,27 @@ export function addArticleJob(
 }
 
 /**
- * Stop the queue gracefully
+ * Add an article to the email delivery queue
+ * Retried a few times a minute apart, mail servers recover quickly
+ */
+export function addDeliveryJob(data: DeliveryJobData): void {
+  if (!deliveryQueue) {
+    throw new Error("Delivery queue not initialized. Call initQueue() first.");
+  }
+
+  deliveryQueue.add(data, {
+    maxRetries: config.MAX_RETRY_ATTEMPTS,
+    backoffType: "exponential",
+    backoffDelay: 60 * 1000,
+  });
+  logger.info("Added article delivery to queue", {
+    articleId: data.articleId,
+    userId: data.userId,
+  });
+}
+
+/**
+ * Stop the queues gracefully
  */
 export async function stopQueue(): Promise<void> {
   if (!articleQueue) {
@@ -142,7 +242,11 @@ export async function stopQueue(): Promise<void> {
   }
 
   logger.info("Stopping article queue...");
-  await articleQueue.stop({ graceful: true, timeout: 30000 });
+  await Promise.all([
+    articleQueue.stop({ graceful: true, timeout: 30000 }),
+    deliveryQueue?.stop({ graceful: true, timeout: 30000 }),
+  ]);
   articleQueue = null;
+  deliveryQueue = null;
   logger.info("Article queue stopped");
 }
@@ -1,5 +1,6 @@
 import { afterEach, beforeEach, describe, expect, it, spyOn } from "bun:test";
 import dns from "node:dns/promises";
+import { createPdf } from "../../test/fixtures";
 import { extractCleanContent } from "./readability";
 
 describe("readability", () => {
@@ -43,12 +44,7 @@ describe("readability", () => {
         </html>
       `;
 
-      // @ts-expect-error Fetch override
-      spyOn(globalThis, "fetch").mockResolvedValueOnce({
-        ok: true,
-        status: 200,
-        text: () => Promise.resolve(mockHtml),
-      });
+      spyOn(globalThis, "fetch").mockResolvedValueOnce(new Response(mockHtml));
 
       const result = await extractCleanContent("https://example.com/article");
 
@@ -74,12 +70,7 @@ describe("readability", () => {
         </html>
       `;
 
-      // @ts-expect-error Fetch override
-      spyOn(globalThis, "fetch").mockResolvedValueOnce({
-        ok: true,
-        status: 200,
-        text: () => Promise.resolve(mockHtml),
-      });
+      spyOn(globalThis, "fetch").mockResolvedValueOnce(new Response(mockHtml));
 
       const result = await extractCleanContent("https://example.com/article");
 
@@ -100,18 +91,94 @@ describe("readability", () => {
         </html>
       `;
 
-      // @ts-expect-error Fetch override
-      spyOn(globalThis, "fetch").mockResolvedValueOnce({
-        ok: true,
-        status: 200,
-        text: () => Promise.resolve(mockHtml),
-      });
+      spyOn(globalThis, "fetch").mockResolvedValueOnce(new Response(mockHtml));
 
       const result = await extractCleanContent("https://example.com/article");
 
       expect(result.description).toBe("Regular description");
     });
 
+    it("should extract the canonical URL", async () => {
+      const mockHtml = `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <link rel="canonical" href="/posts/article/?utm_source=feed">
+          <meta property="og:url" content="https://example.com/og">
+        </head>
+        <body><article><p>Content here</p></article></body>
+        </html>
+      `;
+
+      spyOn(globalThis, "fetch").mockResolvedValueOnce(new Response(mockHtml));
+
+      const result = await extractCleanContent(
+        "https://example.com/amp/article",
+      );
+
+      expect(result.canonicalUrl).toBe("https://example.com/posts/article");
+    });
+
+    it("should fall back to og:url for the canonical URL", async () => {
+      const mockHtml = `
+        <!DOCTYPE html>
+        <html>
+        <head><meta property="og:url" content="https://example.com/og"></head>
+        <body><article><p>Content here</p></article></body>
+        </html>
+      `;
+
+      spyOn(globalThis, "fetch").mockResolvedValueOnce(new Response(mockHtml));
+
+      const result = await extractCleanContent("https://example.com/article");
+
+      expect(result.canonicalUrl).toBe("https://example.com/og");
+    });
+
+    it("should ignore canonical URLs with other schemes", async () => {
+      const mockHtml = `
+        <!DOCTYPE html>
+        <html>
+        <head><link rel="canonical" href="javascript:alert(1)"></head>
+        <body><article><p>Content here</p></article></body>
+        </html>
+      `;
+
+      spyOn(globalThis, "fetch").mockResolvedValueOnce(new Response(mockHtml));
+
+      const result = await extractCleanContent("https://example.com/article");
+
+      expect(result.canonicalUrl).toBeUndefined();
+    });
+
+    it("should extract PDFs sniffed from the content", async () => {
+      const pdf = createPdf(
+        [
+          [
+            { text: "A Whitepaper", fontSize: 18, y: 720 },
+            { text: "It explains everything in detail.", fontSize: 10, y: 690 },
+          ],
+          [{ text: "And then some more.", fontSize: 10, y: 720 }],
+        ],
+        { Author: "Jane Doe" },
+      );
+      spyOn(globalThis, "fetch").mockResolvedValueOnce(
+        new Response(pdf, {
+          headers: { "content-type": "application/octet-stream" },
+        }),
+      );
+
+      const result = await extractCleanContent("https://example.com/paper");
+
+      expect(result).toMatchObject({
+        title: "A Whitepaper",
+        content: "<p>It explains everything in detail. And then some more.</p>",
+        siteName: "Jane Doe",
+        description: "It explains everything in detail. And then some more.",
+        pageCount: 2,
+      });
+    });
+
     it("should handle HTTP errors", async () => {
       // @ts-expect-error Fetch override
       spyOn(globalThis, "fetch").mockResolvedValueOnce({
@@ -194,14 +261,11 @@ describe("readability", () => {
       // @ts-expect-error Mock fetch
       spyOn(globalThis, "fetch").mockImplementation((_url, options) => {
         capturedHeaders = options?.headers;
-        return Promise.resolve({
-          ok: true,
-          status: 200,
-          text: () =>
-            Promise.resolve(
-              "<html><body><article><p>Content</p></article></body></html>",
-            ),
-        });
+        return Promise.resolve(
+          new Response(
+            "<html><body><article><p>Content</p></article></body></html>",
+          ),
+        );
       });
 
       await extractCleanContent("https://example.com/article");
@@ -227,12 +291,7 @@ describe("readability", () => {
         </html>
       `;
 
-      // @ts-expect-error Mock fetch
-      spyOn(globalThis, "fetch").mockResolvedValueOnce({
-        ok: true,
-        status: 200,
-        text: () => Promise.resolve(mockHtml),
-      });
+      spyOn(globalThis, "fetch").mockResolvedValueOnce(new Response(mockHtml));
 
       const result = await extractCleanContent("https://example.com/article");
 
@@ -256,12 +315,7 @@ describe("readability", () => {
         </body>
       `;
 
-      // @ts-expect-error Fetch override
-      spyOn(globalThis, "fetch").mockResolvedValueOnce({
-        ok: true,
-        status: 200,
-        text: () => Promise.resolve(mockHtml),
-      });
+      spyOn(globalThis, "fetch").mockResolvedValueOnce(new Response(mockHtml));
 
       // JSDOM can handle malformed HTML and Readability should extract content
       const result = await extractCleanContent("https://example.com/broken");
@@ -288,15 +342,11 @@ describe("readability", () => {
       });
 
       it("should allow valid public URLs", async () => {
-        // @ts-expect-error Fetch override
-        spyOn(globalThis, "fetch").mockResolvedValueOnce({
-          ok: true,
-          status: 200,
-          text: () =>
-            Promise.resolve(
-              "<html><body><article><p>Content</p></article></body></html>",
-            ),
-        });
+        spyOn(globalThis, "fetch").mockResolvedValueOnce(
+          new Response(
+            "<html><body><article><p>Content</p></article></body></html>",
+          ),
+        );
         expect(
           extractCleanContent("https://example.com/article"),
         ).resolves.toBeDefined();
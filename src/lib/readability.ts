@@ -1,5 +1,7 @@
 import { Readability } from "@mozilla/readability";
 import { JSDOM } from "jsdom";
+import { canonicalizeUrl } from "./canonical-url";
+import { extractPdfContent, isPdf } from "./pdf";
 import { safeFetch } from "./safe-fetch";
 
 export interface ExtractedContent {
@@ -11,11 +13,40 @@ export interface ExtractedContent {
   siteName?: string;
   description?: string;
   imageUrl?: string;
+  canonicalUrl?: string;
+  // Only for PDFs
+  pageCount?: number;
 }
 
 const USER_AGENT =
   "Mozilla/5.0 (compatible; lateread/1.0; +https://github.com/wannabehero)";
 
+/**
+ * Canonical URL the page declares, resolved against the page URL
+ */
+function getDeclaredCanonicalUrl(
+  document: Document,
+  ogUrl: string | undefined,
+  pageUrl: string,
+): string | undefined {
+  const href =
+    document.querySelector('link[rel~="canonical"]')?.getAttribute("href") ||
+    ogUrl;
+  if (!href) {
+    return undefined;
+  }
+
+  try {
+    const resolved = new URL(href, pageUrl);
+    if (resolved.protocol !== "http:" && resolved.protocol !== "https:") {
+      return undefined;
+    }
+    return canonicalizeUrl(resolved.toString());
+  } catch {
+    return undefined;
+  }
+}
+
 export async function extractCleanContent(
   url: string,
 ): Promise<ExtractedContent> {
@@ -31,7 +62,24 @@ export async function extractCleanContent(
       throw new Error(`HTTP error: ${response.status} ${response.statusText}`);
     }
 
-    const html = await response.text();
+    const body = new Uint8Array(await response.arrayBuffer());
+
+    // Links to papers and whitepapers often point at a PDF
+    if (isPdf(body, response.headers.get("content-type"))) {
+      const pdf = await extractPdfContent(body);
+      return {
+        title: pdf.title || "Untitled",
+        content: pdf.content,
+        textContent: pdf.textContent,
+        excerpt: pdf.excerpt,
+        byline: pdf.author,
+        siteName: pdf.author,
+        description: pdf.excerpt,
+        pageCount: pdf.pageCount,
+      };
+    }
+
+    const html = new TextDecoder().decode(body);
 
     // Parse HTML with JSDOM
     const dom = new JSDOM(html, { url });
@@ -72,6 +120,11 @@ export async function extractCleanContent(
     const ogDescription = getMetaContent("og:description", "description");
     const ogImage = getMetaContent("og:image", "image");
     const ogSiteName = getMetaContent("og:site_name");
+    const canonicalUrl = getDeclaredCanonicalUrl(
+      document,
+      getMetaContent("og:url"),
+      url,
+    );
 
     // Run Readability to extract article content
     const reader = new Readability(document);
@@ -91,6 +144,7 @@ export async function extractCleanContent(
       siteName: ogSiteName || article.siteName || undefined,
       description: ogDescription || article.excerpt || undefined,
       imageUrl: ogImage || undefined,
+      canonicalUrl,
     };
   } catch (error) {
     if (error instanceof Error) {
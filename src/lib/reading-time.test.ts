@@ -133,4 +133,18 @@ describe("calculateReadingStats", () => {
     expect(stats2.wordCount).toBe(113);
     expect(stats2.readingTimeSeconds).toBe(30); // Should round to 30
   });
+
+  it("should allow at least 30 seconds per PDF page", () => {
+    const html = "<p>Slide with four words.</p>";
+
+    expect(calculateReadingStats(html, 10)).toEqual({
+      wordCount: 4,
+      readingTimeSeconds: 300,
+    });
+    // Text heavy pages are still timed by their words
+    const words = Array.from({ length: 450 }, (_, i) => `word${i}`);
+    expect(
+      calculateReadingStats(`<p>${words.join(" ")}</p>`, 1).readingTimeSeconds,
+    ).toBe(120);
+  });
 });
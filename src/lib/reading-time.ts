@@ -1,6 +1,8 @@
 import { htmlToPlainText } from "./tts";
 
 const WORDS_PER_MINUTE = 225;
+// Slides and figures take longer than their few words suggest
+const MIN_SECONDS_PER_PAGE = 30;
 
 export interface ReadingStats {
   wordCount: number;
@@ -9,13 +11,20 @@ export interface ReadingStats {
 
 /**
  * Calculate reading statistics from HTML content
- * Uses 225 WPM as the average reading speed
+ * Uses 225 WPM as the average reading speed, and at least 30 seconds a page
+ * for content extracted from a PDF
  */
-export function calculateReadingStats(htmlContent: string): ReadingStats {
+export function calculateReadingStats(
+  htmlContent: string,
+  pageCount?: number,
+): ReadingStats {
   const plainText = htmlToPlainText(htmlContent);
   const words = plainText.split(/\s+/).filter((word) => word.length > 0);
   const wordCount = words.length;
-  const readingTimeSeconds = Math.round((wordCount / WORDS_PER_MINUTE) * 60);
+  const readingTimeSeconds = Math.max(
+    Math.round((wordCount / WORDS_PER_MINUTE) * 60),
+    (pageCount ?? 0) * MIN_SECONDS_PER_PAGE,
+  );
 
   return { wordCount, readingTimeSeconds };
 }
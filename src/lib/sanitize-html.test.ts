@@ -0,0 +1,38 @@
+import { describe, expect, it } from "bun:test";
+import { sanitizeHtml } from "./sanitize-html";
+
+describe("sanitizeHtml", () => {
+  it("should remove scripts, styles and forms", () => {
+    expect(
+      sanitizeHtml(
+        '<html><head><style>p{}</style></head><body><p>Text</p><script>alert(1)</script><form><input name="q"></form><iframe src="https://example.com"></iframe></body></html>',
+      ),
+    ).toBe("<p>Text</p>");
+  });
+
+  it("should keep links and images but drop other attributes", () => {
+    expect(
+      sanitizeHtml(
+        '<p class="x" style="color:red" onclick="steal()"><a href="https://example.com" target="_blank">Link</a><img src="https://example.com/a.png" alt="A" width="600"></p>',
+      ),
+    ).toBe(
+      '<p><a href="https://example.com">Link</a><img src="https://example.com/a.png" alt="A"></p>',
+    );
+  });
+
+  it("should drop unsafe URLs", () => {
+    expect(
+      sanitizeHtml(
+        '<a href="javascript:alert(1)">Link</a><a href="mailto:me@example.com">Mail</a><img src="data:image/png;base64,AAAA">',
+      ),
+    ).toBe('<a>Link</a><a href="mailto:me@example.com">Mail</a>');
+  });
+
+  it("should remove hidden text, tracking pixels and comments", () => {
+    expect(
+      sanitizeHtml(
+        '<div style="display: none">Preheader</div><span hidden>Hidden</span><!--[if mso]>Outlook<![endif]--><p>Text</p><img src="https://t.example.com/open.gif" width="1" height="1"><img src="https://t.example.com/p.gif" style="height:0px;width:0px">',
+      ),
+    ).toBe("<p>Text</p>");
+  });
+});
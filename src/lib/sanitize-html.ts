@@ -0,0 +1,96 @@
+import { JSDOM } from "jsdom";
+
+// Active content, document metadata and embedded media
+const REMOVED_ELEMENTS =
+  "script, style, noscript, template, iframe, frame, frameset, object, embed, applet, form, input, button, select, textarea, link, meta, base, title, svg, math, video, audio, source, track, canvas";
+
+// Layout attributes are dropped, the reader styles the content
+const ALLOWED_ATTRIBUTES = new Set([
+  "href",
+  "src",
+  "alt",
+  "title",
+  "colspan",
+  "rowspan",
+  "start",
+  "lang",
+  "dir",
+]);
+
+// Preheaders and other text email clients hide
+const HIDDEN_STYLE =
+  /(?:^|;)\s*(?:display\s*:\s*none|visibility\s*:\s*hidden|max-height\s*:\s*0|font-size\s*:\s*0|opacity\s*:\s*0)\b/i;
+
+function isSafeUrl(value: string, protocols: string[]): boolean {
+  try {
+    return protocols.includes(new URL(value.trim()).protocol);
+  } catch {
+    return false;
+  }
+}
+
+function isTrackingPixel(image: Element): boolean {
+  const size = (name: "width" | "height") => {
+    const attribute = image.getAttribute(name);
+    const style = new RegExp(`(?:^|;)\\s*${name}\\s*:\\s*(\\d+)px`, "i").exec(
+      image.getAttribute("style") ?? "",
+    );
+    return Number(attribute ?? style?.[1] ?? Number.NaN);
+  };
+  return size("width") <= 1 || size("height") <= 1;
+}
+
+/**
+ * Reduce untrusted HTML, like an email, to markup safe to show in the reader
+ * Scripts, styles, forms, hidden text, tracking pixels and attributes other
+ * than links and alt texts are removed
+ */
+export function sanitizeHtml(html: string): string {
+  const { document, NodeFilter } = new JSDOM(html).window;
+  const body = document.body;
+
+  for (const element of body.querySelectorAll(REMOVED_ELEMENTS)) {
+    element.remove();
+  }
+
+  for (const element of body.querySelectorAll("[hidden], [style]")) {
+    if (
+      element.hasAttribute("hidden") ||
+      HIDDEN_STYLE.test(element.getAttribute("style") ?? "")
+    ) {
+      element.remove();
+    }
+  }
+
+  for (const image of body.querySelectorAll("img")) {
+    const src = image.getAttribute("src") ?? "";
+    if (isTrackingPixel(image) || !isSafeUrl(src, ["http:", "https:"])) {
+      image.remove();
+    }
+  }
+
+  for (const element of body.querySelectorAll("*")) {
+    for (const { name } of [...element.attributes]) {
+      if (!ALLOWED_ATTRIBUTES.has(name)) {
+        element.removeAttribute(name);
+      }
+    }
+
+    const href = element.getAttribute("href");
+    if (href !== null && !isSafeUrl(href, ["http:", "https:", "mailto:"])) {
+      element.removeAttribute("href");
+    }
+  }
+
+  // Conditional comments of Outlook and the like
+  const comments = document.createTreeWalker(body, NodeFilter.SHOW_COMMENT);
+  const removed: Node[] = [];
+  while (comments.nextNode()) {
+    removed.push(comments.currentNode);
+  }
+  for (const comment of removed) {
+    comment.parentNode?.removeChild(comment);
+  }
+
+  return body.innerHTML.trim();
+}
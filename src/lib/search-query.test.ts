@@ -0,0 +1,126 @@
+import { describe, expect, it } from "bun:test";
+import { parseSearchQuery } from "./search-query";
+
+describe("search-query", () => {
+  describe("parseSearchQuery", () => {
+    it("should parse plain words as text", () => {
+      const query = parseSearchQuery("rust async");
+
+      expect(query.text).toEqual([
+        { value: "rust", phrase: false },
+        { value: "async", phrase: false },
+      ]);
+      expect(query.tags).toEqual([]);
+    });
+
+    it("should parse quoted phrases", () => {
+      const query = parseSearchQuery('"borrow checker" rust');
+
+      expect(query.text).toEqual([
+        { value: "borrow checker", phrase: true },
+        { value: "rust", phrase: false },
+      ]);
+    });
+
+    it("should treat an unterminated quote as a phrase to the end", () => {
+      const query = parseSearchQuery('"borrow checker');
+
+      expect(query.text).toEqual([{ value: "borrow checker", phrase: true }]);
+    });
+
+    it("should parse exclusions", () => {
+      const query = parseSearchQuery('rust -crypto -"web3 hype"');
+
+      expect(query.text).toEqual([{ value: "rust", phrase: false }]);
+      expect(query.excludedText).toEqual([
+        { value: "crypto", phrase: false },
+        { value: "web3 hype", phrase: true },
+      ]);
+    });
+
+    it("should parse tag filters, lowercased and quoted", () => {
+      const query = parseSearchQuery(
+        'tag:Rust tag:"machine learning" -tag:news',
+      );
+
+      expect(query.tags).toEqual(["rust", "machine learning"]);
+      expect(query.excludedTags).toEqual(["news"]);
+      expect(query.text).toEqual([]);
+    });
+
+    it("should parse site and lang filters", () => {
+      const query = parseSearchQuery(
+        "site:NYTimes.com -site:medium.com lang:DE -lang:en",
+      );
+
+      expect(query.sites).toEqual(["nytimes.com"]);
+      expect(query.excludedSites).toEqual(["medium.com"]);
+      expect(query.languages).toEqual(["de"]);
+      expect(query.excludedLanguages).toEqual(["en"]);
+    });
+
+    it("should parse is: flags and their negations", () => {
+      expect(parseSearchQuery("is:archived is:unread is:liked")).toMatchObject({
+        archived: true,
+        unread: true,
+        liked: true,
+      });
+      expect(
+        parseSearchQuery("-is:archived -is:unread -is:liked"),
+      ).toMatchObject({ archived: false, unread: false, liked: false });
+    });
+
+    it("should parse before: dates as UTC midnight", () => {
+      const query = parseSearchQuery("before:2026-01-01");
+
+      expect(query.before).toEqual(new Date("2026-01-01T00:00:00Z"));
+    });
+
+    it("should treat invalid filter values as text", () => {
+      const query = parseSearchQuery(
+        "is:bogus before:2026-02-31 before:yesterday -before:2026-01-01",
+      );
+
+      expect(query.archived).toBeUndefined();
+      expect(query.before).toBeUndefined();
+      expect(query.text).toEqual([
+        { value: "is:bogus", phrase: false },
+        { value: "before:2026-02-31", phrase: false },
+        { value: "before:yesterday", phrase: false },
+      ]);
+      expect(query.excludedText).toEqual([
+        { value: "before:2026-01-01", phrase: false },
+      ]);
+    });
+
+    it("should treat unknown keys and URLs as text", () => {
+      const query = parseSearchQuery("author:bob https://example.com/a");
+
+      expect(query.text).toEqual([
+        { value: "author:bob", phrase: false },
+        { value: "https://example.com/a", phrase: false },
+      ]);
+    });
+
+    it("should treat filters without a value as text", () => {
+      const query = parseSearchQuery("tag: is:");
+
+      expect(query.tags).toEqual([]);
+      expect(query.text).toEqual([
+        { value: "tag:", phrase: false },
+        { value: "is:", phrase: false },
+      ]);
+    });
+
+    it("should combine text and filters in any order", () => {
+      const query = parseSearchQuery('is:unread "type system" tag:rust traits');
+
+      expect(query.unread).toBe(true);
+      expect(query.tags).toEqual(["rust"]);
+      expect(query.text).toEqual([
+        { value: "type system", phrase: true },
+        { value: "traits", phrase: false },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Search query language
+ *
+ * Supported syntax (filters can be negated with a leading "-"):
+ *   tag:rust            article has tag (quotes allow spaces: tag:"machine learning")
+ *   site:nytimes.com    URL host or site name
+ *   is:archived         also is:unread, is:liked
+ *   lang:de             detected article language
+ *   before:2026-01-01   saved before the given date (UTC)
+ *   "exact phrase"      phrase match
+ *   -word, -"phrase"    exclude matches
+ *
+ * Unknown filters and invalid values are treated as plain text.
+ */
+
+export interface SearchText {
+  value: string;
+  phrase: boolean;
+}
+
+export interface SearchQuery {
+  text: SearchText[];
+  excludedText: SearchText[];
+  tags: string[];
+  excludedTags: string[];
+  sites: string[];
+  excludedSites: string[];
+  languages: string[];
+  excludedLanguages: string[];
+  archived?: boolean;
+  unread?: boolean;
+  liked?: boolean;
+  before?: Date;
+}
+
+const IS_FLAGS = ["archived", "unread", "liked"] as const;
+
+// -? key: ("quoted value" | bare value)
+const TOKEN_PATTERN = /(-?)(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+
+function parseDate(value: string): Date | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return null;
+  }
+
+  const date = new Date(`${value}T00:00:00Z`);
+
+  // Rejects impossible dates like 2026-02-31 that Date silently rolls over
+  if (Number.isNaN(date.getTime()) || !date.toISOString().startsWith(value)) {
+    return null;
+  }
+
+  return date;
+}
+
+/**
+ * Apply a key:value filter to the query
+ * Returns false when the filter is unknown or its value is invalid
+ */
+function applyFilter(
+  query: SearchQuery,
+  key: string,
+  value: string,
+  negated: boolean,
+): boolean {
+  if (!value) {
+    return false;
+  }
+
+  switch (key) {
+    case "tag":
+      (negated ? query.excludedTags : query.tags).push(value.toLowerCase());
+      return true;
+
+    case "site":
+      (negated ? query.excludedSites : query.sites).push(value.toLowerCase());
+      return true;
+
+    case "lang":
+      (negated ? query.excludedLanguages : query.languages).push(
+        value.toLowerCase(),
+      );
+      return true;
+
+    case "is": {
+      const flag = IS_FLAGS.find((f) => f === value.toLowerCase());
+      if (!flag) return false;
+      query[flag] = !negated;
+      return true;
+    }
+
+    case "before": {
+      const date = parseDate(value);
+      if (!date || negated) return false;
+      query.before = date;
+      return true;
+    }
+
+    default:
+      return false;
+  }
+}
+
+/**
+ * Parse a search string into free text and structured filters
+ */
+export function parseSearchQuery(input: string): SearchQuery {
+  const query: SearchQuery = {
+    text: [],
+    excludedText: [],
+    tags: [],
+    excludedTags: [],
+    sites: [],
+    excludedSites: [],
+    languages: [],
+    excludedLanguages: [],
+  };
+
+  for (const match of input.matchAll(TOKEN_PATTERN)) {
+    const [raw, minus, key, quoted, bare] = match;
+    const negated = minus === "-";
+    const value = (quoted ?? bare ?? "").trim();
+
+    if (key && applyFilter(query, key.toLowerCase(), value, negated)) {
+      continue;
+    }
+
+    // Not a filter: the whole token (including any "key:") is text
+    const text: SearchText =
+      quoted !== undefined
+        ? { value: key ? `${key} ${value}` : value, phrase: true }
+        : { value: negated ? raw.slice(1) : raw, phrase: false };
+
+    if (!text.value.trim()) {
+      continue;
+    }
+
+    (negated ? query.excludedText : query.text).push(text);
+  }
+
+  return query;
+}
@@ -0,0 +1,287 @@
+import net from "node:net";
+import { defaultLogger } from "./logger";
+
+const logger = defaultLogger.child({ module: "smtp-server" });
+
+const IDLE_TIMEOUT_MS = 5 * 60_000;
+// RFC 5321 allows 512 for commands, a little more for extensions
+const MAX_COMMAND_LENGTH = 2048;
+const MAX_RECIPIENTS = 50;
+const CRLF = Buffer.from("\r\n");
+
+export interface InboundMessage {
+  from: string;
+  recipients: string[];
+  // Message as received, dot-stuffing undone, CRLF line endings
+  data: Uint8Array;
+}
+
+export interface SmtpServerOptions {
+  port: number;
+  hostname?: string;
+  // Name in the greeting and EHLO reply
+  domain: string;
+  maxSize: number;
+  // Checked at RCPT TO, so mail for unknown addresses is refused early
+  acceptRecipient: (address: string) => Promise<boolean>;
+  // Throwing replies with a temporary failure, so the sender retries
+  onMessage: (message: InboundMessage) => Promise<void>;
+}
+
+export interface SmtpServer {
+  port: number;
+  stop: () => Promise<void>;
+}
+
+/**
+ * Address of "MAIL FROM:<a@b> SIZE=1" or "RCPT TO:<a@b>", "" for a null sender
+ */
+function parsePath(argument: string, prefix: string): string | null {
+  const match = new RegExp(`^${prefix}:\\s*<([^>]*)>`, "i").exec(argument);
+  return match ? (match[1] ?? "").trim() : null;
+}
+
+/**
+ * One client connection, commands are handled one at a time in order
+ */
+class SmtpSession {
+  private buffer = Buffer.alloc(0);
+  private reading: "command" | "data" = "command";
+  private from: string | null = null;
+  private recipients: string[] = [];
+  private data: Buffer[] = [];
+  private dataSize = 0;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly socket: net.Socket,
+    private readonly options: SmtpServerOptions,
+  ) {
+    socket.setTimeout(IDLE_TIMEOUT_MS, () => {
+      this.reply(421, `${options.domain} Timeout, closing connection`);
+      socket.end();
+    });
+    socket.on("data", (chunk: Buffer) => {
+      this.queue = this.queue
+        .then(() => this.receive(chunk))
+        .catch((error) => {
+          logger.error("SMTP session failed", { error });
+          socket.destroy();
+        });
+    });
+    socket.on("error", (error) => {
+      logger.debug("SMTP connection error", { error });
+    });
+
+    this.reply(220, `${options.domain} ESMTP lateread`);
+  }
+
+  private reply(code: number, ...lines: string[]): void {
+    if (this.socket.writable) {
+      this.socket.write(
+        lines
+          .map(
+            (line, index) =>
+              `${code}${index < lines.length - 1 ? "-" : " "}${line}\r\n`,
+          )
+          .join(""),
+      );
+    }
+  }
+
+  private reset(): void {
+    this.from = null;
+    this.recipients = [];
+    this.data = [];
+    this.dataSize = 0;
+  }
+
+  private async receive(chunk: Buffer): Promise<void> {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    let newline = this.buffer.indexOf(0x0a);
+    while (newline !== -1) {
+      const line = this.buffer.subarray(
+        0,
+        newline > 0 && this.buffer[newline - 1] === 0x0d
+          ? newline - 1
+          : newline,
+      );
+      this.buffer = this.buffer.subarray(newline + 1);
+
+      if (this.reading === "data") {
+        await this.dataLine(line);
+      } else {
+        await this.command(line.toString("utf8"));
+      }
+      if (this.socket.destroyed) {
+        return;
+      }
+      newline = this.buffer.indexOf(0x0a);
+    }
+
+    if (this.reading === "command" && this.buffer.length > MAX_COMMAND_LENGTH) {
+      this.buffer = Buffer.alloc(0);
+      this.reply(500, "Line too long");
+    } else if (
+      this.reading === "data" &&
+      this.buffer.length > this.options.maxSize
+    ) {
+      // Never ending line, counted so the message is refused
+      this.dataSize += this.buffer.length;
+      this.buffer = Buffer.alloc(0);
+    }
+  }
+
+  private async command(line: string): Promise<void> {
+    const [verb = "", ...rest] = line.split(" ");
+    const argument = rest.join(" ").trim();
+
+    switch (verb.toUpperCase()) {
+      case "EHLO":
+        this.reset();
+        this.reply(
+          250,
+          this.options.domain,
+          `SIZE ${this.options.maxSize}`,
+          "8BITMIME",
+          "SMTPUTF8",
+        );
+        return;
+      case "HELO":
+        this.reset();
+        this.reply(250, this.options.domain);
+        return;
+      case "MAIL": {
+        const from = parsePath(argument, "FROM");
+        if (from === null) {
+          this.reply(501, "Syntax: MAIL FROM:<address>");
+          return;
+        }
+        const size = Number(/\bSIZE=(\d+)/i.exec(argument)?.[1] ?? 0);
+        if (size > this.options.maxSize) {
+          this.reply(552, "Message too large");
+          return;
+        }
+        this.reset();
+        this.from = from;
+        this.reply(250, "OK");
+        return;
+      }
+      case "RCPT": {
+        const recipient = parsePath(argument, "TO");
+        if (this.from === null) {
+          this.reply(503, "Send MAIL FROM first");
+        } else if (!recipient) {
+          this.reply(501, "Syntax: RCPT TO:<address>");
+        } else if (this.recipients.length >= MAX_RECIPIENTS) {
+          this.reply(452, "Too many recipients");
+        } else if (await this.options.acceptRecipient(recipient)) {
+          this.recipients.push(recipient);
+          this.reply(250, "OK");
+        } else {
+          this.reply(550, "No such mailbox");
+        }
+        return;
+      }
+      case "DATA":
+        if (this.recipients.length === 0) {
+          this.reply(503, "Send RCPT TO first");
+          return;
+        }
+        this.reading = "data";
+        this.reply(354, "End data with <CR><LF>.<CR><LF>");
+        return;
+      case "RSET":
+        this.reset();
+        this.reply(250, "OK");
+        return;
+      case "NOOP":
+        this.reply(250, "OK");
+        return;
+      case "VRFY":
+        this.reply(252, "Cannot verify");
+        return;
+      case "QUIT":
+        this.reply(221, `${this.options.domain} Bye`);
+        this.socket.end();
+        return;
+      default:
+        this.reply(502, "Command not implemented");
+    }
+  }
+
+  private async dataLine(line: Buffer): Promise<void> {
+    // A lone dot ends the data
+    if (line.length === 1 && line[0] === 0x2e) {
+      this.reading = "command";
+      await this.deliver();
+      return;
+    }
+
+    this.dataSize += line.length + 2;
+    // Counted but not kept, the message is refused at the end
+    if (this.dataSize <= this.options.maxSize) {
+      this.data.push(line[0] === 0x2e ? line.subarray(1) : line, CRLF);
+    }
+  }
+
+  private async deliver(): Promise<void> {
+    const message: InboundMessage = {
+      from: this.from ?? "",
+      recipients: this.recipients,
+      data: Buffer.concat(this.data),
+    };
+    const size = this.dataSize;
+    this.reset();
+
+    if (size > this.options.maxSize) {
+      this.reply(552, "Message too large");
+      return;
+    }
+
+    try {
+      await this.options.onMessage(message);
+      this.reply(250, "OK");
+    } catch (error) {
+      logger.error("Failed to handle inbound message", { error });
+      this.reply(451, "Local error, try again later");
+    }
+  }
+}
+
+/**
+ * Minimal SMTP server receiving mail for local recipients
+ * No TLS or AUTH, run it behind a relay or a TLS terminating proxy
+ */
+export function startSmtpServer(
+  options: SmtpServerOptions,
+): Promise<SmtpServer> {
+  const sockets = new Set<net.Socket>();
+
+  const server = net.createServer((socket) => {
+    sockets.add(socket);
+    socket.on("close", () => sockets.delete(socket));
+    new SmtpSession(socket, options);
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port, options.hostname, () => {
+      server.off("error", reject);
+      const address = server.address();
+
+      resolve({
+        port:
+          typeof address === "object" && address ? address.port : options.port,
+        stop: () =>
+          new Promise<void>((done) => {
+            for (const socket of sockets) {
+              socket.destroy();
+            }
+            server.close(() => done());
+          }),
+      });
+    });
+  });
+}
@@ -0,0 +1,204 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import net from "node:net";
+import { ExternalServiceError } from "./errors";
+import { buildMimeMessage, type MailMessage, sendMail } from "./smtp";
+
+interface StubOptions {
+  // Reply code for RCPT TO
+  rcptCode?: number;
+  extensions?: string[];
+}
+
+/**
+ * Minimal SMTP server recording commands and message data
+ */
+class SmtpStub {
+  commands: string[] = [];
+  data = "";
+  private server: net.Server;
+
+  constructor(private options: StubOptions = {}) {
+    this.server = net.createServer((socket) => this.handle(socket));
+  }
+
+  listen(): Promise<number> {
+    return new Promise((resolve) => {
+      this.server.listen(0, "127.0.0.1", () => {
+        resolve((this.server.address() as net.AddressInfo).port);
+      });
+    });
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  private handle(socket: net.Socket): void {
+    let buffer = "";
+    let inData = false;
+
+    socket.write("220 stub ESMTP\r\n");
+    socket.on("data", (chunk) => {
+      buffer += chunk.toString("utf8");
+
+      if (inData) {
+        const end = buffer.indexOf("\r\n.\r\n");
+        if (end === -1) {
+          return;
+        }
+        this.data = buffer.slice(0, end);
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        socket.write("250 Queued\r\n");
+      }
+
+      let index = buffer.indexOf("\r\n");
+      while (index !== -1 && !inData) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        this.commands.push(line);
+        inData = this.reply(socket, line);
+        index = buffer.indexOf("\r\n");
+      }
+    });
+  }
+
+  private reply(socket: net.Socket, line: string): boolean {
+    const command = line.split(" ")[0]?.toUpperCase();
+
+    switch (command) {
+      case "EHLO": {
+        const extensions = this.options.extensions ?? ["AUTH PLAIN LOGIN"];
+        const lines = ["stub", ...extensions].map(
+          (ext, i) => `250${i < extensions.length ? "-" : " "}${ext}\r\n`,
+        );
+        socket.write(lines.join(""));
+        return false;
+      }
+      case "AUTH":
+        socket.write("235 Authenticated\r\n");
+        return false;
+      case "RCPT":
+        socket.write(`${this.options.rcptCode ?? 250} Recipient\r\n`);
+        return false;
+      case "DATA":
+        socket.write("354 Go ahead\r\n");
+        return true;
+      case "QUIT":
+        socket.end("221 Bye\r\n");
+        return false;
+      default:
+        socket.write("250 OK\r\n");
+        return false;
+    }
+  }
+}
+
+const message: MailMessage = {
+  from: "lateread@example.com",
+  to: "reader@kindle.com",
+  subject: "Rust & Go",
+  text: "Hello",
+  attachments: [
+    {
+      filename: "rust-go.epub",
+      contentType: "application/epub+zip",
+      content: new TextEncoder().encode("epub data"),
+    },
+  ],
+};
+
+describe("smtp", () => {
+  describe("buildMimeMessage", () => {
+    it("should build a multipart message with base64 parts", () => {
+      const mime = buildMimeMessage(message, new Date("2026-01-02T03:04:05Z"));
+
+      expect(mime).toContain("From: lateread@example.com\r\n");
+      expect(mime).toContain("Subject: Rust & Go\r\n");
+      expect(mime).toContain("Date: Fri, 02 Jan 2026 03:04:05 GMT\r\n");
+      expect(mime).toContain(
+        `Content-Disposition: attachment; filename="rust-go.epub"`,
+      );
+      expect(mime).toContain(Buffer.from("epub data").toString("base64"));
+      expect(mime.trimEnd()).toMatch(/--lateread-[\w-]+--$/);
+    });
+
+    it("should encode non-ASCII subjects and filenames", () => {
+      const mime = buildMimeMessage({
+        ...message,
+        subject: "Привет",
+        attachments: [{ ...message.attachments![0]!, filename: "привет.epub" }],
+      });
+
+      expect(mime).toContain(
+        `Subject: =?UTF-8?B?${Buffer.from("Привет").toString("base64")}?=`,
+      );
+      expect(mime).toContain(
+        `filename*=UTF-8''${encodeURIComponent("привет.epub")}`,
+      );
+    });
+  });
+
+  describe("sendMail", () => {
+    let stub: SmtpStub;
+
+    afterEach(async () => {
+      await stub.close();
+    });
+
+    describe("with an accepting server", () => {
+      let port: number;
+
+      beforeEach(async () => {
+        stub = new SmtpStub();
+        port = await stub.listen();
+      });
+
+      it("should deliver the message", async () => {
+        await sendMail(message, { host: "127.0.0.1", port, security: "none" });
+
+        expect(stub.commands).toEqual([
+          "EHLO lateread",
+          "MAIL FROM:<lateread@example.com>",
+          "RCPT TO:<reader@kindle.com>",
+          "DATA",
+          "QUIT",
+        ]);
+        expect(stub.data).toContain("To: reader@kindle.com\r\n");
+        expect(stub.data).toContain(
+          Buffer.from("epub data").toString("base64"),
+        );
+      });
+
+      it("should authenticate with credentials", async () => {
+        await sendMail(message, {
+          host: "127.0.0.1",
+          port,
+          security: "none",
+          user: "user",
+          password: "secret",
+        });
+
+        expect(stub.commands).toContain(
+          `AUTH PLAIN ${Buffer.from("\0user\0secret").toString("base64")}`,
+        );
+      });
+
+      it("should require STARTTLS when configured", async () => {
+        await expect(
+          sendMail(message, { host: "127.0.0.1", port, security: "starttls" }),
+        ).rejects.toThrow(ExternalServiceError);
+      });
+    });
+
+    it("should throw when the recipient is rejected", async () => {
+      stub = new SmtpStub({ rcptCode: 550 });
+      const port = await stub.listen();
+
+      await expect(
+        sendMail(message, { host: "127.0.0.1", port, security: "none" }),
+      ).rejects.toThrow(ExternalServiceError);
+      expect(stub.commands).not.toContain("DATA");
+    });
+  });
+});
@@ -0,0 +1,389 @@
+import { randomUUID } from "node:crypto";
+import net from "node:net";
+import tls from "node:tls";
+import { config } from "./config";
+import { ExternalServiceError } from "./errors";
+import { defaultLogger } from "./logger";
+
+const logger = defaultLogger.child({ module: "smtp" });
+
+const SMTP_TIMEOUT_MS = 30_000;
+
+/**
+ * "tls" connects over TLS (usually port 465), "starttls" requires an upgrade
+ * after connecting (587), "none" stays plain text, for local relays and tests
+ */
+export type SmtpSecurity = "tls" | "starttls" | "none";
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  security: SmtpSecurity;
+  user?: string;
+  password?: string;
+  // Name sent with EHLO
+  clientName?: string;
+}
+
+export interface MailAttachment {
+  filename: string;
+  contentType: string;
+  content: Uint8Array;
+}
+
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  attachments?: MailAttachment[];
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+export function isEmailDeliveryAvailable(): boolean {
+  return !!config.SMTP_HOST && !!config.SMTP_FROM;
+}
+
+function getSmtpOptions(): SmtpOptions {
+  if (!config.SMTP_HOST) {
+    throw new Error("SMTP_HOST is not configured");
+  }
+
+  return {
+    host: config.SMTP_HOST,
+    port: config.SMTP_PORT,
+    security: config.SMTP_SECURITY,
+    user: config.SMTP_USER,
+    password: config.SMTP_PASSWORD,
+  };
+}
+
+/**
+ * RFC 2047 encoded header value, only when it isn't plain ASCII
+ */
+function encodeHeader(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) {
+    return value;
+  }
+  return `=?UTF-8?B?${Buffer.from(value).toString("base64")}?=`;
+}
+
+function base64Lines(content: Uint8Array | string): string {
+  const encoded = Buffer.from(content).toString("base64");
+  return encoded.match(/.{1,76}/g)?.join("\r\n") ?? "";
+}
+
+/**
+ * MIME message with a text part and attachments, CRLF line endings
+ */
+export function buildMimeMessage(
+  message: MailMessage,
+  date: Date = new Date(),
+): string {
+  const boundary = `lateread-${randomUUID()}`;
+  const domain = message.from.split("@")[1] ?? "localhost";
+
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/mixed; boundary="${boundary}"`,
+  ];
+
+  const parts = [
+    [
+      "Content-Type: text/plain; charset=utf-8",
+      "Content-Transfer-Encoding: base64",
+      "",
+      base64Lines(message.text),
+    ].join("\r\n"),
+    ...(message.attachments ?? []).map((attachment) => {
+      // ASCII fallback for clients without RFC 2231 support
+      const fallback = attachment.filename.replace(/[^\w.-]+/g, "_");
+      const encoded = encodeURIComponent(attachment.filename);
+
+      return [
+        `Content-Type: ${attachment.contentType}; name="${fallback}"`,
+        `Content-Disposition: attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`,
+        "Content-Transfer-Encoding: base64",
+        "",
+        base64Lines(attachment.content),
+      ].join("\r\n");
+    }),
+  ];
+
+  return [
+    ...headers,
+    "",
+    ...parts.map((part) => `--${boundary}\r\n${part}`),
+    `--${boundary}--`,
+    "",
+  ].join("\r\n");
+}
+
+/**
+ * Reads SMTP replies from a socket, one command at a time
+ */
+class SmtpConnection {
+  private buffer = "";
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: {
+    resolve: (reply: SmtpReply) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+  private failure: Error | null = null;
+
+  private readonly onData = (chunk: Buffer) => {
+    this.buffer += chunk.toString("utf8");
+
+    let index = this.buffer.indexOf("\n");
+    while (index !== -1) {
+      const line = this.buffer.slice(0, index).replace(/\r$/, "");
+      this.buffer = this.buffer.slice(index + 1);
+      this.lines.push(line.slice(4));
+
+      // "250-" continues a multiline reply, "250 " ends it
+      if (line[3] !== "-") {
+        this.replies.push({
+          code: Number(line.slice(0, 3)),
+          lines: this.lines,
+        });
+        this.lines = [];
+      }
+      index = this.buffer.indexOf("\n");
+    }
+    this.flush();
+  };
+
+  private readonly onError = (error: Error) => {
+    this.failure = error;
+    this.flush();
+  };
+
+  private readonly onClose = () => {
+    this.failure ??= new Error("Connection closed");
+    this.flush();
+  };
+
+  constructor(private socket: net.Socket) {
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.setTimeout(SMTP_TIMEOUT_MS, () =>
+      socket.destroy(new Error("SMTP timeout")),
+    );
+    socket.on("data", this.onData);
+    socket.on("error", this.onError);
+    socket.on("close", this.onClose);
+  }
+
+  private detach(socket: net.Socket): void {
+    socket.setTimeout(0);
+    socket.off("data", this.onData);
+    socket.off("error", this.onError);
+    socket.off("close", this.onClose);
+  }
+
+  private flush(): void {
+    if (!this.waiting) {
+      return;
+    }
+
+    const reply = this.replies.shift();
+    if (reply) {
+      this.waiting.resolve(reply);
+      this.waiting = null;
+    } else if (this.failure) {
+      this.waiting.reject(this.failure);
+      this.waiting = null;
+    }
+  }
+
+  read(): Promise<SmtpReply> {
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+      this.flush();
+    });
+  }
+
+  /**
+   * Send a command and check the reply code
+   * Secrets are left out of errors with a label
+   */
+  async command(
+    line: string,
+    expected: number[],
+    label: string = line,
+  ): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    const reply = await this.read();
+
+    if (!expected.includes(reply.code)) {
+      throw new Error(`${label}: ${reply.code} ${reply.lines.join(" ")}`);
+    }
+    return reply;
+  }
+
+  async startTls(host: string): Promise<void> {
+    this.detach(this.socket);
+
+    const secure = tls.connect({ socket: this.socket, servername: host });
+    await new Promise<void>((resolve, reject) => {
+      secure.once("secureConnect", resolve);
+      secure.once("error", reject);
+    });
+
+    this.socket = secure;
+    this.attach(secure);
+  }
+
+  close(): void {
+    this.detach(this.socket);
+    // Resets and TLS alerts after QUIT would crash the process unhandled
+    this.socket.on("error", () => {});
+    this.socket.end();
+  }
+}
+
+function connect(options: SmtpOptions): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket =
+      options.security === "tls"
+        ? tls.connect({
+            host: options.host,
+            port: options.port,
+            servername: options.host,
+          })
+        : net.connect({ host: options.host, port: options.port });
+
+    socket.once(
+      options.security === "tls" ? "secureConnect" : "connect",
+      () => {
+        socket.off("error", reject);
+        resolve(socket);
+      },
+    );
+    socket.once("error", reject);
+  });
+}
+
+/**
+ * Lines starting with a dot are doubled, a lone dot ends the data
+ */
+function dotStuff(data: string): string {
+  return data.replace(/^\./gm, "..");
+}
+
+async function authenticate(
+  connection: SmtpConnection,
+  extensions: string[],
+  user: string,
+  password: string,
+): Promise<void> {
+  const auth = extensions.find((line) => line.toUpperCase().startsWith("AUTH"));
+  const methods = auth?.toUpperCase().split(/\s+/).slice(1) ?? [];
+
+  if (methods.includes("PLAIN")) {
+    const credentials = Buffer.from(`\0${user}\0${password}`).toString(
+      "base64",
+    );
+    await connection.command(`AUTH PLAIN ${credentials}`, [235], "AUTH PLAIN");
+    return;
+  }
+
+  if (methods.includes("LOGIN")) {
+    await connection.command("AUTH LOGIN", [334]);
+    await connection.command(
+      Buffer.from(user).toString("base64"),
+      [334],
+      "AUTH LOGIN user",
+    );
+    await connection.command(
+      Buffer.from(password).toString("base64"),
+      [235],
+      "AUTH LOGIN password",
+    );
+    return;
+  }
+
+  throw new Error("Server offers no supported AUTH method");
+}
+
+/**
+ * Send an email through the configured SMTP server
+ * Failures throw ExternalServiceError so delivery jobs are retried
+ */
+export async function sendMail(
+  message: MailMessage,
+  options: SmtpOptions = getSmtpOptions(),
+): Promise<void> {
+  let connection: SmtpConnection | null = null;
+
+  try {
+    connection = new SmtpConnection(await connect(options));
+    const clientName = options.clientName ?? "lateread";
+
+    const greeting = await connection.read();
+    if (greeting.code !== 220) {
+      throw new Error(`Greeting: ${greeting.code} ${greeting.lines.join(" ")}`);
+    }
+
+    let { lines: extensions } = await connection.command(
+      `EHLO ${clientName}`,
+      [250],
+    );
+
+    if (options.security === "starttls") {
+      if (!extensions.some((line) => line.toUpperCase() === "STARTTLS")) {
+        throw new Error("Server doesn't support STARTTLS");
+      }
+      await connection.command("STARTTLS", [220]);
+      await connection.startTls(options.host);
+      ({ lines: extensions } = await connection.command(
+        `EHLO ${clientName}`,
+        [250],
+      ));
+    }
+
+    if (options.user && options.password) {
+      await authenticate(
+        connection,
+        extensions,
+        options.user,
+        options.password,
+      );
+    }
+
+    await connection.command(`MAIL FROM:<${message.from}>`, [250]);
+    await connection.command(`RCPT TO:<${message.to}>`, [250, 251]);
+    await connection.command("DATA", [354]);
+    await connection.command(
+      `${dotStuff(buildMimeMessage(message))}\r\n.`,
+      [250],
+      "Message data",
+    );
+    await connection.command("QUIT", [221]).catch(() => {});
+
+    logger.info("Email sent", {
+      to: message.to,
+      attachments: message.attachments?.length ?? 0,
+    });
+  } catch (error) {
+    logger.error("Failed to send email", { to: message.to, error });
+    throw new ExternalServiceError(
+      "SMTP",
+      error instanceof Error ? error : new Error(String(error)),
+    );
+  } finally {
+    connection?.close();
+  }
+}
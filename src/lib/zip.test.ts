@@ -0,0 +1,128 @@
+import { describe, expect, it } from "bun:test";
+import { crc32, inflateRawSync } from "node:zlib";
+import { readZip as readZipFiles, ZipWriter } from "./zip";
+
+/**
+ * Read files back through the central directory, like unzip does
+ */
+function readZip(zip: Uint8Array): Map<string, string> {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const decoder = new TextDecoder();
+  const end = zip.length - 22;
+
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  let position = view.getUint32(end + 16, true);
+
+  const files = new Map<string, string>();
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(position, true)).toBe(0x02014b50);
+    const method = view.getUint16(position + 10, true);
+    const crc = view.getUint32(position + 16, true);
+    const compressedSize = view.getUint32(position + 20, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const offset = view.getUint32(position + 42, true);
+    const name = decoder.decode(
+      zip.subarray(position + 46, position + 46 + nameLength),
+    );
+
+    expect(view.getUint32(offset, true)).toBe(0x04034b50);
+    const dataStart = offset + 30 + view.getUint16(offset + 26, true);
+    const raw = zip.subarray(dataStart, dataStart + compressedSize);
+    const data = method === 0 ? raw : inflateRawSync(raw);
+    expect(crc32(data)).toBe(crc);
+
+    files.set(name, decoder.decode(data));
+    position += 46 + nameLength;
+  }
+
+  return files;
+}
+
+function buildZip(build: (zip: ZipWriter) => void): Uint8Array {
+  const chunks: Uint8Array[] = [];
+  const zip = new ZipWriter({ write: (chunk) => chunks.push(chunk) });
+  build(zip);
+  zip.finish();
+  return Buffer.concat(chunks);
+}
+
+describe("zip", () => {
+  describe("ZipWriter", () => {
+    it("should write files that can be read back", () => {
+      const zip = buildZip((writer) => {
+        writer.add("articles.json", '{"articles":[]}');
+        writer.add("articles/ünïcode.html", "<p>Привет</p>".repeat(100));
+        writer.add("empty.txt", new Uint8Array());
+      });
+
+      expect(readZip(zip)).toEqual(
+        new Map([
+          ["articles.json", '{"articles":[]}'],
+          ["articles/ünïcode.html", "<p>Привет</p>".repeat(100)],
+          ["empty.txt", ""],
+        ]),
+      );
+    });
+
+    it("should store files uncompressed right after their header", () => {
+      const zip = buildZip((writer) => {
+        writer.add("mimetype", "application/epub+zip", new Date(), {
+          store: true,
+        });
+        writer.add("index.html", "<p>Hello</p>");
+      });
+
+      // Readers sniff the EPUB mimetype at a fixed offset
+      expect(new TextDecoder().decode(zip.subarray(30, 58))).toBe(
+        "mimetypeapplication/epub+zip",
+      );
+      expect(readZip(zip).get("index.html")).toBe("<p>Hello</p>");
+    });
+
+    it("should write an empty archive", () => {
+      expect(readZip(buildZip(() => {}))).toEqual(new Map());
+    });
+  });
+
+  describe("readZip", () => {
+    it("should read files written by ZipWriter", () => {
+      const zip = buildZip((writer) => {
+        writer.add("mimetype", "application/epub+zip", new Date(), {
+          store: true,
+        });
+        writer.add("OEBPS/ünïcode.xhtml", "<p>Привет</p>".repeat(100));
+      });
+
+      const files = readZipFiles(zip);
+
+      expect([...files.keys()]).toEqual(["mimetype", "OEBPS/ünïcode.xhtml"]);
+      expect(new TextDecoder().decode(files.get("OEBPS/ünïcode.xhtml"))).toBe(
+        "<p>Привет</p>".repeat(100),
+      );
+    });
+
+    it("should find the directory behind an archive comment", () => {
+      const zip = buildZip((writer) => writer.add("a.txt", "a"));
+      const commented = Buffer.concat([zip, Buffer.from("comment")]);
+      // Comment length in the end of central directory record
+      commented.writeUInt16LE(7, zip.length - 2);
+
+      expect(readZipFiles(commented).has("a.txt")).toBe(true);
+    });
+
+    it("should refuse archives larger than the limit uncompressed", () => {
+      const zip = buildZip((writer) => writer.add("big.txt", "a".repeat(1000)));
+
+      expect(() => readZipFiles(zip, { maxSize: 100 })).toThrow(
+        "ZIP archive too large",
+      );
+    });
+
+    it("should throw on files that aren't archives", () => {
+      expect(() => readZipFiles(new TextEncoder().encode("hello"))).toThrow(
+        "Not a ZIP archive",
+      );
+    });
+  });
+});
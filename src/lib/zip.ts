@@ -0,0 +1,220 @@
+import { crc32, deflateRawSync, inflateRawSync } from "node:zlib";
+
+/**
+ * Minimal streaming ZIP writer and an in-memory reader
+ * Entries are compressed and written as they're added, only the central
+ * directory is kept in memory. No ZIP64: up to 65535 entries and 4 GB
+ */
+
+interface ZipSink {
+  write(chunk: Uint8Array): unknown;
+}
+
+interface CentralEntry {
+  name: Uint8Array;
+  method: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  time: number;
+  date: number;
+  offset: number;
+}
+
+const MAX_ENTRIES = 0xffff;
+const MAX_SIZE = 0xffffffff;
+// General purpose flag: file names are UTF-8
+const UTF8_FLAG = 0x0800;
+const STORE = 0;
+const DEFLATE = 8;
+const VERSION = 20;
+const END_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+// The end record is followed by a comment of up to 64 KB
+const MAX_END_OFFSET = 22 + 0xffff;
+
+/**
+ * MS-DOS time and date fields, in local time like other ZIP tools
+ */
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getFullYear(), 1980);
+
+  return {
+    time:
+      (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+export class ZipWriter {
+  private offset = 0;
+  private entries: CentralEntry[] = [];
+  private encoder = new TextEncoder();
+
+  constructor(private readonly sink: ZipSink) {}
+
+  private write(chunk: Uint8Array): void {
+    this.sink.write(chunk);
+    this.offset += chunk.length;
+  }
+
+  /**
+   * Add a file, paths use forward slashes: "articles/1.html"
+   * Stored files are written uncompressed, like the EPUB mimetype
+   */
+  add(
+    path: string,
+    content: string | Uint8Array,
+    modifiedAt: Date = new Date(),
+    { store = false }: { store?: boolean } = {},
+  ): void {
+    if (this.entries.length >= MAX_ENTRIES) {
+      throw new Error("Too many files for a ZIP archive");
+    }
+
+    const data =
+      typeof content === "string" ? this.encoder.encode(content) : content;
+    const compressed = store ? data : deflateRawSync(data);
+
+    if (data.length > MAX_SIZE || this.offset + compressed.length > MAX_SIZE) {
+      throw new Error("ZIP archive too large");
+    }
+
+    const entry: CentralEntry = {
+      name: this.encoder.encode(path),
+      method: store ? STORE : DEFLATE,
+      crc: crc32(data),
+      compressedSize: compressed.length,
+      size: data.length,
+      offset: this.offset,
+      ...dosDateTime(modifiedAt),
+    };
+
+    const header = new DataView(new ArrayBuffer(30));
+    header.setUint32(0, 0x04034b50, true);
+    header.setUint16(4, VERSION, true);
+    header.setUint16(6, UTF8_FLAG, true);
+    header.setUint16(8, entry.method, true);
+    header.setUint16(10, entry.time, true);
+    header.setUint16(12, entry.date, true);
+    header.setUint32(14, entry.crc, true);
+    header.setUint32(18, entry.compressedSize, true);
+    header.setUint32(22, entry.size, true);
+    header.setUint16(26, entry.name.length, true);
+    header.setUint16(28, 0, true);
+
+    this.write(new Uint8Array(header.buffer));
+    this.write(entry.name);
+    this.write(compressed);
+    this.entries.push(entry);
+  }
+
+  /**
+   * Write the central directory, no files can be added after
+   */
+  finish(): void {
+    const directoryOffset = this.offset;
+
+    for (const entry of this.entries) {
+      const header = new DataView(new ArrayBuffer(46));
+      header.setUint32(0, 0x02014b50, true);
+      header.setUint16(4, VERSION, true);
+      header.setUint16(6, VERSION, true);
+      header.setUint16(8, UTF8_FLAG, true);
+      header.setUint16(10, entry.method, true);
+      header.setUint16(12, entry.time, true);
+      header.setUint16(14, entry.date, true);
+      header.setUint32(16, entry.crc, true);
+      header.setUint32(20, entry.compressedSize, true);
+      header.setUint32(24, entry.size, true);
+      header.setUint16(28, entry.name.length, true);
+      // Extra field, comment, disk number, attributes: all empty
+      header.setUint32(42, entry.offset, true);
+
+      this.write(new Uint8Array(header.buffer));
+      this.write(entry.name);
+    }
+
+    const directorySize = this.offset - directoryOffset;
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true);
+    end.setUint16(8, this.entries.length, true);
+    end.setUint16(10, this.entries.length, true);
+    end.setUint32(12, directorySize, true);
+    end.setUint32(16, directoryOffset, true);
+
+    this.write(new Uint8Array(end.buffer));
+  }
+}
+
+/**
+ * Read the files of a ZIP archive through its central directory
+ * Only stored and deflated entries, like ZipWriter and EPUB tools write.
+ * Throws when the files add up to more than maxSize, so zip bombs stop early
+ */
+export function readZip(
+  zip: Uint8Array,
+  { maxSize = MAX_SIZE }: { maxSize?: number } = {},
+): Map<string, Uint8Array> {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const decoder = new TextDecoder();
+
+  let end = zip.length - 22;
+  const minEnd = Math.max(0, zip.length - MAX_END_OFFSET);
+  while (end >= minEnd && view.getUint32(end, true) !== END_SIGNATURE) {
+    end--;
+  }
+  if (end < minEnd) {
+    throw new Error("Not a ZIP archive");
+  }
+
+  const count = view.getUint16(end + 10, true);
+  let position = view.getUint32(end + 16, true);
+  let totalSize = 0;
+
+  const files = new Map<string, Uint8Array>();
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(position, true) !== CENTRAL_SIGNATURE) {
+      throw new Error("Corrupt ZIP archive");
+    }
+
+    const method = view.getUint16(position + 10, true);
+    const compressedSize = view.getUint32(position + 20, true);
+    const size = view.getUint32(position + 24, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const extraLength = view.getUint16(position + 30, true);
+    const commentLength = view.getUint16(position + 32, true);
+    const offset = view.getUint32(position + 42, true);
+    const name = decoder.decode(
+      zip.subarray(position + 46, position + 46 + nameLength),
+    );
+
+    totalSize += size;
+    if (totalSize > maxSize) {
+      throw new Error("ZIP archive too large");
+    }
+
+    // Local headers have their own name and extra field lengths
+    const dataStart =
+      offset +
+      30 +
+      view.getUint16(offset + 26, true) +
+      view.getUint16(offset + 28, true);
+    const data = zip.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === STORE) {
+      files.set(name, data);
+    } else if (method === DEFLATE) {
+      // The declared size can lie, the output is capped to it
+      files.set(name, inflateRawSync(data, { maxOutputLength: size || 1 }));
+    } else {
+      throw new Error(`Unsupported ZIP compression method ${method}`);
+    }
+
+    position += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return files;
+}
@@ -8,6 +8,7 @@ import { runMigrations } from "./lib/db";
 import { defaultLogger } from "./lib/logger";
 import { initQueue, stopQueue } from "./lib/queue";
 import { websocket } from "./lib/websocket";
+import { startInboundEmailServer } from "./services/inbound-email.service";
 
 const logger = defaultLogger.child({ module: "main" });
 
@@ -40,11 +41,18 @@ logger.info(`Telegram bot: @${config.BOT_USERNAME}`);
 // Start cron jobs
 startCrons();
 
+// Receive newsletters by email, when INBOUND_EMAIL_DOMAIN is set
+const inboundEmailServer = startInboundEmailServer().catch((error) => {
+  logger.error("Failed to start inbound email server", { error });
+  return null;
+});
+
 // Graceful shutdown
 process.on("SIGINT", async () => {
   logger.info("Shutting down...");
   await stopBot();
   await stopQueue();
+  await (await inboundEmailServer)?.stop();
   server.stop();
   process.exit(0);
 });
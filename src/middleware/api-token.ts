@@ -0,0 +1,35 @@
+import type { Context, Next } from "hono";
+import { authenticateApiToken } from "../services/api-tokens.service";
+import type { AppContext } from "../types/context";
+
+const BEARER_PREFIX = "Bearer ";
+
+/**
+ * Personal API token authentication
+ *
+ * Reads `Authorization: Bearer <token>` and sets `userId` in the context.
+ * An explicit but invalid token is rejected right away instead of
+ * silently falling back to the session cookie.
+ */
+export function apiToken() {
+  return async (c: Context<AppContext>, next: Next) => {
+    const header = c.req.header("authorization");
+
+    if (!header) {
+      await next();
+      return;
+    }
+
+    const token = header.startsWith(BEARER_PREFIX)
+      ? header.slice(BEARER_PREFIX.length).trim()
+      : "";
+    const userId = token ? await authenticateApiToken(token) : null;
+
+    if (!userId) {
+      return c.json({ error: "Invalid API token" }, 401);
+    }
+
+    c.set("userId", userId);
+    await next();
+  };
+}
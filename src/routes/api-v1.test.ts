@@ -0,0 +1,370 @@
+import { beforeEach, describe, expect, it } from "bun:test";
+import { eq } from "drizzle-orm";
+import type { Hono } from "hono";
+import { db, queue, resetDatabase } from "../../test/bootstrap";
+import {
+  addTagToArticle,
+  createAuthHeaders,
+  createCompletedArticle,
+  createTag,
+  createUser,
+} from "../../test/fixtures";
+import { createApp } from "../app";
+import { articles } from "../db/schema";
+import { createApiToken } from "../services/api-tokens.service";
+import type { AppContext } from "../types/context";
+
+describe("routes/api-v1", () => {
+  let app: Hono<AppContext>;
+  let testUserId: string;
+  let tokenHeaders: Record<string, string>;
+
+  beforeEach(async () => {
+    resetDatabase();
+
+    const user = await createUser(db);
+    testUserId = user.id;
+
+    const { token } = await createApiToken(testUserId, "test");
+    tokenHeaders = { Authorization: `Bearer ${token}` };
+
+    app = createApp();
+  });
+
+  describe("Authentication", () => {
+    it("should return 401 without credentials", async () => {
+      const res = await app.request("/api/v1/articles");
+
+      expect(res.status).toBe(401);
+      expect(await res.json()).toEqual({ error: "Unauthorized" });
+    });
+
+    it("should return 401 for an invalid bearer token", async () => {
+      const res = await app.request("/api/v1/articles", {
+        headers: { Authorization: "Bearer lr_invalid" },
+      });
+
+      expect(res.status).toBe(401);
+      expect(await res.json()).toEqual({ error: "Invalid API token" });
+    });
+
+    it("should reject an invalid bearer token even with a valid session", async () => {
+      const res = await app.request("/api/v1/articles", {
+        headers: {
+          ...(createAuthHeaders(testUserId) as Record<string, string>),
+          Authorization: "Bearer lr_invalid",
+        },
+      });
+
+      expect(res.status).toBe(401);
+    });
+
+    it("should accept the session cookie", async () => {
+      const res = await app.request("/api/v1/articles", {
+        headers: createAuthHeaders(testUserId),
+      });
+
+      expect(res.status).toBe(200);
+    });
+
+    it("should not accept API tokens outside of /api/v1", async () => {
+      const res = await app.request("/api/articles/processing-count", {
+        headers: tokenHeaders,
+      });
+
+      expect(res.status).toBe(401);
+    });
+  });
+
+  describe("GET /api/v1/articles", () => {
+    it("should list completed articles as JSON with tags", async () => {
+      const article = await createCompletedArticle(db, testUserId, {
+        title: "JSON Article",
+      });
+      const tag = await createTag(db, testUserId, "json");
+      await addTagToArticle(db, article.id, tag.id);
+
+      const res = await app.request("/api/v1/articles", {
+        headers: tokenHeaders,
+      });
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get("content-type")).toContain("application/json");
+
+      const json = await res.json();
+      expect(json.hasMore).toBe(false);
+      expect(json.nextCursor).toBeNull();
+      expect(json.articles).toHaveLength(1);
+      expect(json.articles[0]).toMatchObject({
+        id: article.id,
+        title: "JSON Article",
+        status: "completed",
+        archived: false,
+        tags: [{ id: tag.id, name: "json" }],
+      });
+      expect(json.articles[0].userId).toBeUndefined();
+    });
+
+    it("should filter by archived status", async () => {
+      await createCompletedArticle(db, testUserId, { title: "Inbox" });
+      await createCompletedArticle(db, testUserId, {
+        title: "Archived",
+        archived: true,
+      });
+
+      const res = await app.request("/api/v1/articles?archived=true", {
+        headers: tokenHeaders,
+      });
+
+      const json = await res.json();
+      expect(json.articles.map((a: { title: string }) => a.title)).toEqual([
+        "Archived",
+      ]);
+    });
+
+    it("should paginate with limit and cursor", async () => {
+      for (let i = 0; i < 3; i++) {
+        await createCompletedArticle(db, testUserId);
+      }
+
+      const first = await app.request("/api/v1/articles?limit=2", {
+        headers: tokenHeaders,
+      });
+      const firstJson = await first.json();
+
+      expect(firstJson.articles).toHaveLength(2);
+      expect(firstJson.hasMore).toBe(true);
+
+      const second = await app.request(
+        `/api/v1/articles?limit=2&cursor=${encodeURIComponent(firstJson.nextCursor)}`,
+        { headers: tokenHeaders },
+      );
+      const secondJson = await second.json();
+
+      expect(secondJson.articles).toHaveLength(1);
+      expect(secondJson.hasMore).toBe(false);
+    });
+
+    it("should filter by tags", async () => {
+      const tagged = await createCompletedArticle(db, testUserId, {
+        title: "Tagged",
+      });
+      const tag = await createTag(db, testUserId, "rust");
+      await addTagToArticle(db, tagged.id, tag.id);
+      await createCompletedArticle(db, testUserId, { title: "Untagged" });
+
+      const res = await app.request("/api/v1/articles?tag=rust", {
+        headers: tokenHeaders,
+      });
+
+      const json = await res.json();
+      expect(json.articles.map((a: { title: string }) => a.title)).toEqual([
+        "Tagged",
+      ]);
+    });
+
+    it("should return 400 for invalid limit", async () => {
+      const res = await app.request("/api/v1/articles?limit=1000", {
+        headers: tokenHeaders,
+      });
+
+      expect(res.status).toBe(400);
+      const json = await res.json();
+      expect(json.context.fields.errors.limit).toBe(
+        "Limit must be at most 100",
+      );
+    });
+
+    it("should not list other users' articles", async () => {
+      const other = await createUser(db);
+      await createCompletedArticle(db, other.id);
+
+      const res = await app.request("/api/v1/articles", {
+        headers: tokenHeaders,
+      });
+
+      const json = await res.json();
+      expect(json.articles).toHaveLength(0);
+    });
+  });
+
+  describe("POST /api/v1/articles", () => {
+    it("should create an article and queue it", async () => {
+      const res = await app.request("/api/v1/articles", {
+        method: "POST",
+        headers: { ...tokenHeaders, "Content-Type": "application/json" },
+        body: JSON.stringify({ url: "https://example.com/from-api" }),
+      });
+
+      expect(res.status).toBe(201);
+      const json = await res.json();
+      expect(json.url).toBe("https://example.com/from-api");
+      expect(json.status).toBe("pending");
+      expect(json.tags).toEqual([]);
+
+      expect(queue.addArticleJob).toHaveBeenCalledWith(json.id);
+    });
+
+    it("should return the existing article for a saved link", async () => {
+      const saved = await createCompletedArticle(db, testUserId, {
+        url: "https://example.com/saved",
+        canonicalUrl: "https://example.com/saved",
+      });
+
+      const res = await app.request("/api/v1/articles", {
+        method: "POST",
+        headers: { ...tokenHeaders, "Content-Type": "application/json" },
+        body: JSON.stringify({ url: "https://example.com/saved#intro" }),
+      });
+
+      expect(res.status).toBe(200);
+      const json = await res.json();
+      expect(json.id).toBe(saved.id);
+      expect(json.status).toBe("completed");
+      expect(queue.addArticleJob).not.toHaveBeenCalled();
+    });
+
+    it("should reject unsafe URLs", async () => {
+      const res = await app.request("/api/v1/articles", {
+        method: "POST",
+        headers: { ...tokenHeaders, "Content-Type": "application/json" },
+        body: JSON.stringify({ url: "http://127.0.0.1/secret" }),
+      });
+
+      expect(res.status).toBe(400);
+      expect(queue.addArticleJob).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("GET /api/v1/articles/:id", () => {
+    it("should return the article", async () => {
+      const article = await createCompletedArticle(db, testUserId);
+
+      const res = await app.request(`/api/v1/articles/${article.id}`, {
+        headers: tokenHeaders,
+      });
+
+      expect(res.status).toBe(200);
+      const json = await res.json();
+      expect(json.id).toBe(article.id);
+    });
+
+    it("should return 404 for another user's article", async () => {
+      const other = await createUser(db);
+      const article = await createCompletedArticle(db, other.id);
+
+      const res = await app.request(`/api/v1/articles/${article.id}`, {
+        headers: tokenHeaders,
+      });
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe("POST /api/v1/articles/:id/archive", () => {
+    it("should archive by default", async () => {
+      const article = await createCompletedArticle(db, testUserId);
+
+      const res = await app.request(`/api/v1/articles/${article.id}/archive`, {
+        method: "POST",
+        headers: tokenHeaders,
+      });
+
+      expect(res.status).toBe(200);
+      const json = await res.json();
+      expect(json.archived).toBe(true);
+      expect(json.archivedAt).not.toBeNull();
+    });
+
+    it("should be idempotent and support unarchiving", async () => {
+      const article = await createCompletedArticle(db, testUserId, {
+        archived: true,
+      });
+
+      const archiveAgain = await app.request(
+        `/api/v1/articles/${article.id}/archive`,
+        {
+          method: "POST",
+          headers: { ...tokenHeaders, "Content-Type": "application/json" },
+          body: JSON.stringify({ archived: true }),
+        },
+      );
+      expect((await archiveAgain.json()).archived).toBe(true);
+
+      const unarchive = await app.request(
+        `/api/v1/articles/${article.id}/archive`,
+        {
+          method: "POST",
+          headers: { ...tokenHeaders, "Content-Type": "application/json" },
+          body: JSON.stringify({ archived: false }),
+        },
+      );
+      const json = await unarchive.json();
+      expect(json.archived).toBe(false);
+      expect(json.archivedAt).toBeNull();
+    });
+  });
+
+  describe("POST /api/v1/articles/:id/rate", () => {
+    it("should rate and archive the article", async () => {
+      const article = await createCompletedArticle(db, testUserId);
+
+      const res = await app.request(`/api/v1/articles/${article.id}/rate`, {
+        method: "POST",
+        headers: { ...tokenHeaders, "Content-Type": "application/json" },
+        body: JSON.stringify({ rating: -1 }),
+      });
+
+      expect(res.status).toBe(200);
+      const json = await res.json();
+      expect(json.rating).toBe(-1);
+      expect(json.archived).toBe(true);
+    });
+
+    it("should reject invalid ratings", async () => {
+      const article = await createCompletedArticle(db, testUserId);
+
+      const res = await app.request(`/api/v1/articles/${article.id}/rate`, {
+        method: "POST",
+        headers: { ...tokenHeaders, "Content-Type": "application/json" },
+        body: JSON.stringify({ rating: 5 }),
+      });
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe("DELETE /api/v1/articles/:id", () => {
+    it("should delete the article", async () => {
+      const article = await createCompletedArticle(db, testUserId);
+
+      const res = await app.request(`/api/v1/articles/${article.id}`, {
+        method: "DELETE",
+        headers: tokenHeaders,
+      });
+
+      expect(res.status).toBe(204);
+
+      const rows = await db
+        .select()
+        .from(articles)
+        .where(eq(articles.id, article.id));
+      expect(rows).toHaveLength(0);
+    });
+  });
+
+  describe("GET /api/v1/tags", () => {
+    it("should list the user's tags", async () => {
+      const tag = await createTag(db, testUserId, "rust");
+      const other = await createUser(db);
+      await createTag(db, other.id, "go");
+
+      const res = await app.request("/api/v1/tags", { headers: tokenHeaders });
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({
+        tags: [{ id: tag.id, name: "rust" }],
+      });
+    });
+  });
+});
@@ -0,0 +1,226 @@
+import { Hono } from "hono";
+import { z } from "zod";
+import type { Tag } from "../db/types";
+import { addArticleJob } from "../lib/queue";
+import { validator } from "../lib/validator";
+import { requireAuth } from "../middleware/auth";
+import { articleIdParam, articleUrl, tagFilterQuery } from "../schemas/common";
+import {
+  type ArticleWithTags,
+  createArticle,
+  deleteArticle,
+  getArticlesWithTags,
+  getArticleWithTagsById,
+  rateArticle,
+  setArticleArchived,
+} from "../services/articles.service";
+import { getUserTags } from "../services/tags.service";
+import type { AppContext } from "../types/context";
+
+/**
+ * Versioned JSON API for scripts, CLIs and browser extensions
+ * Authenticated with personal API tokens (Authorization: Bearer ...)
+ * or the regular session cookie
+ */
+const apiV1 = new Hono<AppContext>();
+
+apiV1.use("/api/v1/*", requireAuth("json-401"));
+
+function toTagJson(tag: Pick<Tag, "id" | "name">) {
+  return { id: tag.id, name: tag.name };
+}
+
+function toArticleJson(article: ArticleWithTags) {
+  return {
+    id: article.id,
+    url: article.url,
+    title: article.title,
+    description: article.description,
+    imageUrl: article.imageUrl,
+    siteName: article.siteName,
+    language: article.language,
+    status: article.status,
+    archived: article.archived,
+    archivedAt: article.archivedAt,
+    rating: article.rating,
+    wordCount: article.wordCount,
+    readingTimeSeconds: article.readingTimeSeconds,
+    createdAt: article.createdAt,
+    processedAt: article.processedAt,
+    readAt: article.readAt,
+    tags: article.tags.map(toTagJson),
+  };
+}
+
+/**
+ * GET /api/v1/articles - List completed articles with cursor pagination
+ */
+apiV1.get(
+  "/api/v1/articles",
+  validator(
+    "query",
+    z.object({
+      archived: z
+        .enum(["true", "false"], {
+          message: "Archived must be 'true' or 'false'",
+        })
+        .optional()
+        .transform((val) => (val === undefined ? undefined : val === "true")),
+      q: z.string().trim().max(500, "Search query too long").optional(),
+      cursor: z.string().optional(),
+      limit: z.coerce
+        .number()
+        .int("Limit must be a whole number")
+        .min(1, "Limit must be at least 1")
+        .max(100, "Limit must be at most 100")
+        .optional(),
+      ...tagFilterQuery,
+    }),
+  ),
+  async (c) => {
+    const userId = c.get("userId");
+    const { archived, q, cursor, limit, tag, match } = c.req.valid("query");
+
+    const result = await getArticlesWithTags(userId, {
+      archived,
+      query: q,
+      cursor,
+      limit,
+      tags: tag,
+      tagMode: match,
+    });
+
+    return c.json({
+      articles: result.articles.map(toArticleJson),
+      nextCursor: result.nextCursor,
+      hasMore: result.hasMore,
+    });
+  },
+);
+
+/**
+ * POST /api/v1/articles - Save a URL and queue it for processing
+ */
+apiV1.post(
+  "/api/v1/articles",
+  validator("json", z.object({ url: articleUrl })),
+  async (c) => {
+    const userId = c.get("userId");
+    const { url } = c.req.valid("json");
+
+    c.var.logger.info("Saving article from API", { userId, url });
+
+    const { article, duplicate, shouldProcess } = await createArticle({
+      userId,
+      url,
+    });
+    if (shouldProcess) {
+      addArticleJob(article.id);
+    }
+
+    // Saving a link again returns the existing article
+    if (duplicate) {
+      return c.json(
+        toArticleJson(await getArticleWithTagsById(article.id, userId)),
+        200,
+      );
+    }
+
+    return c.json(toArticleJson({ ...article, tags: [] }), 201);
+  },
+);
+
+/**
+ * GET /api/v1/articles/:id - Get a single article
+ */
+apiV1.get(
+  "/api/v1/articles/:id",
+  validator("param", articleIdParam),
+  async (c) => {
+    const userId = c.get("userId");
+    const { id: articleId } = c.req.valid("param");
+
+    const article = await getArticleWithTagsById(articleId, userId);
+
+    return c.json(toArticleJson(article));
+  },
+);
+
+/**
+ * POST /api/v1/articles/:id/archive - Archive or unarchive an article
+ */
+apiV1.post(
+  "/api/v1/articles/:id/archive",
+  validator("param", articleIdParam),
+  validator(
+    "json",
+    z.object({
+      archived: z.boolean().default(true),
+    }),
+  ),
+  async (c) => {
+    const userId = c.get("userId");
+    const { id: articleId } = c.req.valid("param");
+    const { archived } = c.req.valid("json");
+
+    await setArticleArchived(articleId, userId, archived);
+    const article = await getArticleWithTagsById(articleId, userId);
+
+    return c.json(toArticleJson(article));
+  },
+);
+
+/**
+ * POST /api/v1/articles/:id/rate - Rate and archive an article
+ */
+apiV1.post(
+  "/api/v1/articles/:id/rate",
+  validator("param", articleIdParam),
+  validator(
+    "json",
+    z.object({
+      rating: z.union([z.literal(-1), z.literal(1)], {
+        message: "Rating must be -1 or 1",
+      }),
+    }),
+  ),
+  async (c) => {
+    const userId = c.get("userId");
+    const { id: articleId } = c.req.valid("param");
+    const { rating } = c.req.valid("json");
+
+    await rateArticle(articleId, userId, rating);
+    const article = await getArticleWithTagsById(articleId, userId);
+
+    return c.json(toArticleJson(article));
+  },
+);
+
+/**
+ * DELETE /api/v1/articles/:id - Delete an article
+ */
+apiV1.delete(
+  "/api/v1/articles/:id",
+  validator("param", articleIdParam),
+  async (c) => {
+    const userId = c.get("userId");
+    const { id: articleId } = c.req.valid("param");
+
+    await deleteArticle(articleId, userId);
+
+    return c.body(null, 204);
+  },
+);
+
+/**
+ * GET /api/v1/tags - List the user's tags
+ */
+apiV1.get("/api/v1/tags", async (c) => {
+  const userId = c.get("userId");
+
+  const tags = await getUserTags(userId);
+
+  return c.json({ tags: tags.map(toTagJson) });
+});
+
+export default apiV1;
@@ -9,23 +9,68 @@ import {
 } from "bun:test";
 import { eq } from "drizzle-orm";
 import type { Hono } from "hono";
-import { db, resetDatabase } from "../../test/bootstrap";
+import { db, queue, resetDatabase } from "../../test/bootstrap";
 import {
+  addTagToArticle,
   createArticle,
   createAuthHeaders,
   createCompletedArticle,
+  createFeed,
+  createSubscription,
+  createTag,
   createUser,
   parseHtml,
 } from "../../test/fixtures";
 import { createApp } from "../app";
-import { articles } from "../db/schema";
+import {
+  apiTokens,
+  articles,
+  articleTags,
+  feeds,
+  tagSuggestions,
+  tags,
+} from "../db/schema";
+import { config } from "../lib/config";
+import { ExternalServiceError } from "../lib/errors";
 import type { SummaryResult } from "../lib/llm";
+import * as llm from "../lib/llm";
 import type { TTSProvider } from "../lib/tts";
 import * as tts from "../lib/tts";
+import { createApiToken } from "../services/api-tokens.service";
 import * as contentService from "../services/content.service";
+import { getInboundEmailAddress } from "../services/inbound-email.service";
+import {
+  getDeliveryPreferences,
+  getDigestPreferences,
+  getTaggingPreferences,
+  updateDeliveryPreferences,
+} from "../services/preferences.service";
+import * as questionsService from "../services/questions.service";
+import {
+  askQuestion,
+  getArticleQuestions,
+} from "../services/questions.service";
+import { getFeedToken } from "../services/reading-feeds.service";
 import * as summariesService from "../services/summaries.service";
 import type { AppContext } from "../types/context";
 
+// Parse SSE "event: x\ndata: y" blocks, joining multi-line data
+function parseEvents(body: string) {
+  return body
+    .split("\n\n")
+    .filter(Boolean)
+    .map((block) => {
+      const lines = block.split("\n");
+      return {
+        event: lines.find((l) => l.startsWith("event: "))?.slice(7),
+        data: lines
+          .filter((l) => l.startsWith("data: "))
+          .map((l) => l.slice(6))
+          .join("\n"),
+      };
+    });
+}
+
 describe("routes/api", () => {
   let app: Hono<AppContext>;
   let testUserId: string;
@@ -45,6 +90,131 @@ describe("routes/api", () => {
     app = createApp();
   });
 
+  describe("POST /api/articles", () => {
+    it("should create a pending article and queue it for processing", async () => {
+      const formData = new FormData();
+      formData.append("url", "https://example.com/new-article");
+
+      const res = await app.request("/api/articles", {
+        headers: authHeaders,
+        method: "POST",
+        body: formData,
+      });
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get("x-toast-message")).toBe("Article saved");
+
+      const [created] = await db
+        .select()
+        .from(articles)
+        .where(eq(articles.userId, testUserId));
+
+      expect(created?.url).toBe("https://example.com/new-article");
+      expect(created?.status).toBe("pending");
+
+      expect(queue.addArticleJob).toHaveBeenCalledTimes(1);
+      expect(queue.addArticleJob).toHaveBeenCalledWith(created?.id);
+    });
+
+    it("should not queue a link that is already saved", async () => {
+      const saved = await createCompletedArticle(db, testUserId, {
+        url: "https://example.com/saved",
+        canonicalUrl: "https://example.com/saved",
+        archived: true,
+      });
+
+      const formData = new FormData();
+      formData.append("url", "https://example.com/saved/?utm_source=rss");
+
+      const res = await app.request("/api/articles", {
+        headers: authHeaders,
+        method: "POST",
+        body: formData,
+      });
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get("x-toast-message")).toBe("Already saved");
+      expect(queue.addArticleJob).not.toHaveBeenCalled();
+
+      const rows = await db
+        .select()
+        .from(articles)
+        .where(eq(articles.userId, testUserId));
+      expect(rows).toHaveLength(1);
+      expect(rows[0]?.id).toBe(saved.id);
+      expect(rows[0]?.archived).toBe(false);
+    });
+
+    it("should render the article list with the processing banner", async () => {
+      await createCompletedArticle(db, testUserId, { title: "Existing" });
+
+      const formData = new FormData();
+      formData.append("url", "https://example.com/new-article");
+
+      const res = await app.request("/api/articles", {
+        headers: { ...authHeaders, "hx-request": "true" },
+        method: "POST",
+        body: formData,
+      });
+
+      const html = await res.text();
+      const doc = parseHtml(html);
+
+      expect(doc.querySelector("#article-container")).toBeTruthy();
+      expect(doc.querySelector(".add-article-form")).toBeTruthy();
+      expect(html).toContain("1 article processing");
+      expect(html).toContain("Existing");
+    });
+
+    it("should trim whitespace around the URL", async () => {
+      const formData = new FormData();
+      formData.append("url", "  https://example.com/padded  ");
+
+      const res = await app.request("/api/articles", {
+        headers: authHeaders,
+        method: "POST",
+        body: formData,
+      });
+
+      expect(res.status).toBe(200);
+
+      const [created] = await db
+        .select()
+        .from(articles)
+        .where(eq(articles.userId, testUserId));
+
+      expect(created?.url).toBe("https://example.com/padded");
+    });
+
+    it.each([
+      ["not a url"],
+      ["ftp://example.com/file"],
+      ["http://localhost:3000/admin"],
+      ["http://192.168.1.1/"],
+    ])("should reject %s", async (url) => {
+      const formData = new FormData();
+      formData.append("url", url);
+
+      const res = await app.request("/api/articles", {
+        headers: authHeaders,
+        method: "POST",
+        body: formData,
+      });
+
+      expect(res.status).toBe(400);
+      const json = await res.json();
+      expect(json.error).toBe("Validation failed");
+      expect(json.context.fields.errors.url).toBeDefined();
+
+      const rows = await db
+        .select()
+        .from(articles)
+        .where(eq(articles.userId, testUserId));
+      expect(rows).toHaveLength(0);
+      expect(queue.addArticleJob).not.toHaveBeenCalled();
+    });
+  });
+
   describe("POST /api/articles/:id/read", () => {
     it("should mark article as read and return 204", async () => {
       const article = await createCompletedArticle(db, testUserId);
@@ -686,6 +856,243 @@ describe("routes/api", () => {
     });
   });
 
+  describe("GET /api/articles/:id/summary/stream", () => {
+    let spyStreamSummary: ReturnType<
+      typeof spyOn<typeof summariesService, "streamSummary">
+    >;
+
+    beforeEach(() => {
+      spyStreamSummary = spyOn(summariesService, "streamSummary");
+    });
+
+    afterEach(() => {
+      spyStreamSummary.mockRestore();
+    });
+
+    it("should stream field deltas and the final summary", async () => {
+      const article = await createCompletedArticle(db, testUserId, {
+        language: "de",
+      });
+      spyStreamSummary.mockImplementation(async function* () {
+        yield { oneSentence: "Rust", oneParagraph: "", long: "" };
+        yield { oneSentence: "Rust is safe.", oneParagraph: "Own", long: "" };
+        yield {
+          oneSentence: "Rust is safe.",
+          oneParagraph: "Ownership.",
+          long: "Details.",
+        };
+      });
+
+      const res = await app.request(
+        `/api/articles/${article.id}/summary/stream`,
+        { headers: authHeaders },
+      );
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get("content-type")).toContain("text/event-stream");
+
+      const events = parseEvents(await res.text());
+      expect(events.map((e) => e.event)).toEqual([
+        "render",
+        "delta",
+        "delta",
+        "delta",
+        "delta",
+        "delta",
+        "done",
+      ]);
+      expect(events[0]?.data).toContain('data-stream-field="oneSentence"');
+      expect(events[0]?.data).toContain("Generating...");
+      expect(
+        events
+          .filter((e) => e.event === "delta")
+          .map((e) => JSON.parse(e.data)),
+      ).toEqual([
+        { field: "oneSentence", text: "Rust" },
+        { field: "oneSentence", text: " is safe." },
+        { field: "oneParagraph", text: "Own" },
+        { field: "oneParagraph", text: "ership." },
+        { field: "long", text: "Details." },
+      ]);
+      expect(events[6]?.data).toContain("Details.");
+      expect(events[6]?.data).not.toContain("Generating...");
+
+      expect(spyStreamSummary).toHaveBeenCalledWith(
+        testUserId,
+        article.id,
+        article.url,
+        "de",
+      );
+    });
+
+    it("should send an error event when generation fails", async () => {
+      const article = await createCompletedArticle(db, testUserId);
+      spyStreamSummary.mockImplementation(async function* () {
+        yield { oneSentence: "Rust", oneParagraph: "", long: "" };
+        throw new ExternalServiceError("Claude");
+      });
+
+      const res = await app.request(
+        `/api/articles/${article.id}/summary/stream`,
+        { headers: authHeaders },
+      );
+
+      const events = parseEvents(await res.text());
+      expect(events.at(-1)?.event).toBe("stream-error");
+      expect(events.at(-1)?.data).toContain("External service error: Claude");
+    });
+
+    it("should return 404 when article belongs to different user", async () => {
+      const otherUser = await createUser(db);
+      const article = await createCompletedArticle(db, otherUser.id);
+
+      const res = await app.request(
+        `/api/articles/${article.id}/summary/stream`,
+        { headers: authHeaders },
+      );
+
+      expect(res.status).toBe(404);
+      expect(spyStreamSummary).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Article questions", () => {
+    let spyIsLLMAvailable: ReturnType<
+      typeof spyOn<typeof llm, "isLLMAvailable">
+    >;
+    let spyStreamAnswer: ReturnType<
+      typeof spyOn<typeof questionsService, "streamAnswer">
+    >;
+
+    beforeEach(async () => {
+      await createSubscription(db, testUserId, { type: "lite" });
+      spyIsLLMAvailable = spyOn(llm, "isLLMAvailable").mockReturnValue(true);
+      spyStreamAnswer = spyOn(questionsService, "streamAnswer");
+    });
+
+    afterEach(() => {
+      spyIsLLMAvailable.mockRestore();
+      spyStreamAnswer.mockRestore();
+    });
+
+    async function ask(articleId: string, question: string) {
+      const formData = new FormData();
+      formData.append("question", question);
+
+      return app.request(`/api/articles/${articleId}/questions`, {
+        headers: authHeaders,
+        method: "POST",
+        body: formData,
+      });
+    }
+
+    it("should save the question and return the conversation", async () => {
+      const article = await createCompletedArticle(db, testUserId);
+
+      const res = await ask(article.id, "  What is ownership?  ");
+
+      expect(res.status).toBe(200);
+      const [question] = await getArticleQuestions(article.id);
+      expect(question?.question).toBe("What is ownership?");
+
+      const doc = parseHtml(await res.text());
+      expect(doc.querySelector(".ask-question")?.textContent).toBe(
+        "What is ownership?",
+      );
+      expect(doc.querySelector("stream-view")?.getAttribute("src")).toBe(
+        `/api/articles/${article.id}/questions/${question?.id}/answer`,
+      );
+      expect(doc.querySelector("form.ask-form")).toBeTruthy();
+    });
+
+    it("should reject empty questions", async () => {
+      const article = await createCompletedArticle(db, testUserId);
+
+      const res = await ask(article.id, "   ");
+
+      expect(res.status).toBe(400);
+      expect(await getArticleQuestions(article.id)).toEqual([]);
+    });
+
+    it("should return 403 without a subscription", async () => {
+      const user = await createUser(db);
+      const article = await createCompletedArticle(db, user.id);
+      authHeaders = createAuthHeaders(user.id);
+
+      const res = await ask(article.id, "Why?");
+
+      expect(res.status).toBe(403);
+    });
+
+    it("should return 403 when no LLM is configured", async () => {
+      const article = await createCompletedArticle(db, testUserId);
+      spyIsLLMAvailable.mockReturnValue(false);
+
+      const res = await ask(article.id, "Why?");
+
+      expect(res.status).toBe(403);
+    });
+
+    it("should return 404 when article belongs to different user", async () => {
+      const otherUser = await createUser(db);
+      const article = await createCompletedArticle(db, otherUser.id);
+
+      const res = await ask(article.id, "Why?");
+
+      expect(res.status).toBe(404);
+    });
+
+    it("should stream the answer", async () => {
+      const article = await createCompletedArticle(db, testUserId);
+      const question = await askQuestion(article.id, "Why?");
+      spyStreamAnswer.mockImplementation(async function* () {
+        yield "Because ";
+        yield "of ownership.";
+      });
+
+      const res = await app.request(
+        `/api/articles/${article.id}/questions/${question.id}/answer`,
+        { headers: authHeaders },
+      );
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get("content-type")).toContain("text/event-stream");
+
+      const events = parseEvents(await res.text());
+      expect(events.map((e) => e.event)).toEqual([
+        "render",
+        "delta",
+        "delta",
+        "done",
+      ]);
+      expect(JSON.parse(events[1]?.data ?? "")).toEqual({
+        field: "answer",
+        text: "Because ",
+      });
+      expect(events[3]?.data).toContain("Because of ownership.");
+      expect(spyStreamAnswer).toHaveBeenCalledWith(
+        testUserId,
+        article.id,
+        article.url,
+        question.id,
+      );
+    });
+
+    it("should return 404 for another article's question", async () => {
+      const article = await createCompletedArticle(db, testUserId);
+      const other = await createCompletedArticle(db, testUserId);
+      const question = await askQuestion(other.id, "Why?");
+
+      const res = await app.request(
+        `/api/articles/${article.id}/questions/${question.id}/answer`,
+        { headers: authHeaders },
+      );
+
+      expect(res.status).toBe(404);
+      expect(spyStreamAnswer).not.toHaveBeenCalled();
+    });
+  });
+
   describe("GET /api/articles/processing-count", () => {
     it("should return processing banner with correct count", async () => {
       // Create articles with different statuses - use createArticle for non-completed statuses
@@ -1321,6 +1728,692 @@ describe("routes/api", () => {
     });
   });
 
+  describe("POST /api/reading-feeds/reset", () => {
+    it("should replace the feed token", async () => {
+      const token = await getFeedToken(testUserId);
+
+      const res = await app.request("/api/reading-feeds/reset", {
+        headers: authHeaders,
+        method: "POST",
+      });
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get("x-toast-message")).toBe("Feed links reset");
+      const doc = parseHtml(await res.text());
+      const newToken = await getFeedToken(testUserId);
+      expect(newToken).not.toBe(token);
+      expect(
+        doc.querySelector("#reading-feeds .feed-link")?.getAttribute("value"),
+      ).toContain(newToken);
+    });
+  });
+
+  describe("POST /api/inbound-email/reset", () => {
+    let inboundDomain: string | undefined;
+
+    beforeEach(() => {
+      inboundDomain = config.INBOUND_EMAIL_DOMAIN;
+      config.INBOUND_EMAIL_DOMAIN = "in.lateread.app";
+    });
+
+    afterEach(() => {
+      config.INBOUND_EMAIL_DOMAIN = inboundDomain;
+    });
+
+    it("should replace the newsletter address", async () => {
+      const address = await getInboundEmailAddress(testUserId);
+
+      const res = await app.request("/api/inbound-email/reset", {
+        headers: authHeaders,
+        method: "POST",
+      });
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get("x-toast-message")).toBe(
+        "Newsletter address reset",
+      );
+      const doc = parseHtml(await res.text());
+      const newAddress = await getInboundEmailAddress(testUserId);
+      expect(newAddress).not.toBe(address);
+      expect(
+        doc
+          .querySelector("#inbound-email .inbound-email-address")
+          ?.getAttribute("value"),
+      ).toBe(newAddress);
+    });
+
+    it("should return 400 when inbound email isn't configured", async () => {
+      config.INBOUND_EMAIL_DOMAIN = undefined;
+
+      const res = await app.request("/api/inbound-email/reset", {
+        headers: authHeaders,
+        method: "POST",
+      });
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe("POST /api/tokens", () => {
+    it("should create a token and show it once", async () => {
+      const formData = new FormData();
+      formData.append("name", "my script");
+
+      const res = await app.request("/api/tokens", {
+        headers: authHeaders,
+        method: "POST",
+        body: formData,
+      });
+
+      expect(res.status).toBe(200);
+      const html = await res.text();
+      const doc = parseHtml(html);
+
+      const tokenInput = doc.querySelector(".new-token input");
+      expect(tokenInput?.getAttribute("value")).toStartWith("lr_");
+      expect(doc.querySelector(".token-item")?.textContent).toContain(
+        "my script",
+      );
+
+      const rows = await db
+        .select()
+        .from(apiTokens)
+        .where(eq(apiTokens.userId, testUserId));
+      expect(rows).toHaveLength(1);
+    });
+
+    it("should return 400 for an empty name", async () => {
+      const formData = new FormData();
+      formData.append("name", "   ");
+
+      const res = await app.request("/api/tokens", {
+        headers: authHeaders,
+        method: "POST",
+        body: formData,
+      });
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe("DELETE /api/tokens/:id", () => {
+    it("should revoke the token", async () => {
+      const { apiToken } = await createApiToken(testUserId, "legacy");
+
+      const res = await app.request(`/api/tokens/${apiToken.id}`, {
+        headers: authHeaders,
+        method: "DELETE",
+      });
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get("x-toast-message")).toBe("Token revoked");
+      const doc = parseHtml(await res.text());
+      expect(doc.querySelectorAll(".token-item")).toHaveLength(0);
+
+      const rows = await db
+        .select()
+        .from(apiTokens)
+        .where(eq(apiTokens.userId, testUserId));
+      expect(rows).toHaveLength(0);
+    });
+
+    it("should return 404 for another user's token", async () => {
+      const otherUser = await createUser(db);
+      const { apiToken } = await createApiToken(otherUser.id, "theirs");
+
+      const res = await app.request(`/api/tokens/${apiToken.id}`, {
+        headers: authHeaders,
+        method: "DELETE",
+      });
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe("POST /api/articles/:id/tags", () => {
+    it("should add a manual tag and return the tag list", async () => {
+      const article = await createCompletedArticle(db, testUserId);
+      const formData = new FormData();
+      formData.append("name", "Rust");
+
+      const res = await app.request(`/api/articles/${article.id}/tags`, {
+        headers: authHeaders,
+        method: "POST",
+        body: formData,
+      });
+
+      expect(res.status).toBe(200);
+      const doc = parseHtml(await res.text());
+      expect(doc.querySelector("#article-tags .tag-badge")?.textContent).toBe(
+        "rust",
+      );
+
+      const [tag] = await db
+        .select()
+        .from(tags)
+        .where(eq(tags.userId, testUserId));
+      expect(tag?.autoGenerated).toBe(false);
+    });
+
+    it("should return 400 for an empty name", async () => {
+      const article = await createCompletedArticle(db, testUserId);
+      const formData = new FormData();
+      formData.append("name", " ");
+
+      const res = await app.request(`/api/articles/${article.id}/tags`, {
+        headers: authHeaders,
+        method: "POST",
+        body: formData,
+      });
+
+      expect(res.status).toBe(400);
+    });
+
+    it("should return 404 for another user's article", async () => {
+      const otherUser = await createUser(db);
+      const article = await createCompletedArticle(db, otherUser.id);
+      const formData = new FormData();
+      formData.append("name", "rust");
+
+      const res = await app.request(`/api/articles/${article.id}/tags`, {
+        headers: authHeaders,
+        method: "POST",
+        body: formData,
+      });
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe("DELETE /api/articles/:id/tags/:tagId", () => {
+    it("should remove the tag from the article", async () => {
+      const article = await createCompletedArticle(db, testUserId);
+      const rust = await createTag(db, testUserId, "rust");
+      const go = await createTag(db, testUserId, "go");
+      await addTagToArticle(db, article.id, rust.id);
+      await addTagToArticle(db, article.id, go.id);
+
+      const res = await app.request(
+        `/api/articles/${article.id}/tags/${rust.id}`,
+        { headers: authHeaders, method: "DELETE" },
+      );
+
+      expect(res.status).toBe(200);
+      const doc = parseHtml(await res.text());
+      const names = Array.from(
+        doc.querySelectorAll("#article-tags .tag-badge"),
+      ).map((a) => a.textContent);
+      expect(names).toEqual(["go"]);
+    });
+
+    it("should return 400 for an invalid tag ID", async () => {
+      const article = await createCompletedArticle(db, testUserId);
+
+      const res = await app.request(
+        `/api/articles/${article.id}/tags/not-a-uuid`,
+        { headers: authHeaders, method: "DELETE" },
+      );
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe("POST /api/tags/:id/rename", () => {
+    it("should rename the tag and return the management section", async () => {
+      const tag = await createTag(db, testUserId, "js");
+      const formData = new FormData();
+      formData.append("name", "JavaScript");
+
+      const res = await app.request(`/api/tags/${tag.id}/rename`, {
+        headers: authHeaders,
+        method: "POST",
+        body: formData,
+      });
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get("x-toast-message")).toBe("Tag renamed");
+      const html = await res.text();
+      expect(parseHtml(html).querySelector("#tag-management")).toBeTruthy();
+      expect(html).toContain("javascript");
+    });
+
+    it("should return 400 when the name is taken", async () => {
+      const tag = await createTag(db, testUserId, "js");
+      await createTag(db, testUserId, "javascript");
+      const formData = new FormData();
+      formData.append("name", "javascript");
+
+      const res = await app.request(`/api/tags/${tag.id}/rename`, {
+        headers: authHeaders,
+        method: "POST",
+        body: formData,
+      });
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe("POST /api/tags/:id/merge", () => {
+    it("should merge the tag into the target", async () => {
+      const article = await createCompletedArticle(db, testUserId);
+      const source = await createTag(db, testUserId, "js");
+      const target = await createTag(db, testUserId, "javascript");
+      await addTagToArticle(db, article.id, source.id);
+      const formData = new FormData();
+      formData.append("targetId", target.id);
+
+      const res = await app.request(`/api/tags/${source.id}/merge`, {
+        headers: authHeaders,
+        method: "POST",
+        body: formData,
+      });
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get("x-toast-message")).toBe("Tags merged");
+      const doc = parseHtml(await res.text());
+      expect(doc.querySelectorAll(".tag-manage-item")).toHaveLength(1);
+
+      const links = await db
+        .select()
+        .from(articleTags)
+        .where(eq(articleTags.articleId, article.id));
+      expect(links.map((l) => l.tagId)).toEqual([target.id]);
+    });
+
+    it("should return 404 for another user's target tag", async () => {
+      const source = await createTag(db, testUserId, "js");
+      const otherUser = await createUser(db);
+      const target = await createTag(db, otherUser.id, "javascript");
+      const formData = new FormData();
+      formData.append("targetId", target.id);
+
+      const res = await app.request(`/api/tags/${source.id}/merge`, {
+        headers: authHeaders,
+        method: "POST",
+        body: formData,
+      });
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe("DELETE /api/tags/:id", () => {
+    it("should delete the tag", async () => {
+      const tag = await createTag(db, testUserId, "js");
+
+      const res = await app.request(`/api/tags/${tag.id}`, {
+        headers: authHeaders,
+        method: "DELETE",
+      });
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get("x-toast-message")).toBe("Tag deleted");
+      const html = await res.text();
+      expect(html).toContain("No tags yet.");
+    });
+  });
+
+  describe("POST /api/tag-suggestions/:id/approve", () => {
+    it("should merge the suggested tags", async () => {
+      const js = await createTag(db, testUserId, "js");
+      const javascript = await createTag(db, testUserId, "javascript");
+      const [suggestion] = await db
+        .insert(tagSuggestions)
+        .values({
+          userId: testUserId,
+          sourceTagId: js.id,
+          targetTagId: javascript.id,
+        })
+        .returning();
+
+      const res = await app.request(
+        `/api/tag-suggestions/${suggestion?.id}/approve`,
+        { headers: authHeaders, method: "POST" },
+      );
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get("x-toast-message")).toBe("Tags merged");
+      const doc = parseHtml(await res.text());
+      expect(doc.querySelectorAll(".tag-manage-item")).toHaveLength(1);
+      expect(doc.querySelector(".tag-suggestion")).toBeNull();
+    });
+
+    it("should return 404 for another user's suggestion", async () => {
+      const otherUser = await createUser(db);
+      const js = await createTag(db, otherUser.id, "js");
+      const javascript = await createTag(db, otherUser.id, "javascript");
+      const [suggestion] = await db
+        .insert(tagSuggestions)
+        .values({
+          userId: otherUser.id,
+          sourceTagId: js.id,
+          targetTagId: javascript.id,
+        })
+        .returning();
+
+      const res = await app.request(
+        `/api/tag-suggestions/${suggestion?.id}/approve`,
+        { headers: authHeaders, method: "POST" },
+      );
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe("POST /api/tag-suggestions/:id/dismiss", () => {
+    it("should dismiss the suggestion and keep the tags", async () => {
+      const js = await createTag(db, testUserId, "js");
+      const javascript = await createTag(db, testUserId, "javascript");
+      const [suggestion] = await db
+        .insert(tagSuggestions)
+        .values({
+          userId: testUserId,
+          sourceTagId: js.id,
+          targetTagId: javascript.id,
+        })
+        .returning();
+
+      const res = await app.request(
+        `/api/tag-suggestions/${suggestion?.id}/dismiss`,
+        { headers: authHeaders, method: "POST" },
+      );
+
+      expect(res.status).toBe(200);
+      const doc = parseHtml(await res.text());
+      expect(doc.querySelectorAll(".tag-manage-item")).toHaveLength(2);
+      expect(doc.querySelector(".tag-suggestion")).toBeNull();
+    });
+  });
+
+  describe("POST /api/preferences/tagging", () => {
+    it("should save tagging preferences", async () => {
+      const formData = new FormData();
+      formData.append("maxNewTagsPerArticle", "0");
+      formData.append("autoApplyConsolidation", "true");
+
+      const res = await app.request("/api/preferences/tagging", {
+        headers: authHeaders,
+        method: "POST",
+        body: formData,
+      });
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get("x-toast-message")).toBe("Tagging settings saved");
+      expect(await getTaggingPreferences(testUserId)).toEqual({
+        maxNewTagsPerArticle: 0,
+        autoApplyConsolidation: true,
+      });
+    });
+
+    it("should turn auto-apply off when the checkbox is unchecked", async () => {
+      const formData = new FormData();
+      formData.append("maxNewTagsPerArticle", "3");
+
+      await app.request("/api/preferences/tagging", {
+        headers: authHeaders,
+        method: "POST",
+        body: formData,
+      });
+
+      expect(
+        (await getTaggingPreferences(testUserId)).autoApplyConsolidation,
+      ).toBe(false);
+    });
+
+    it("should return 400 for an out of range cap", async () => {
+      const formData = new FormData();
+      formData.append("maxNewTagsPerArticle", "11");
+
+      const res = await app.request("/api/preferences/tagging", {
+        headers: authHeaders,
+        method: "POST",
+        body: formData,
+      });
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe("POST /api/preferences/digest", () => {
+    async function save(fields: Record<string, string>) {
+      const formData = new FormData();
+      for (const [key, value] of Object.entries(fields)) {
+        formData.append(key, value);
+      }
+
+      return app.request("/api/preferences/digest", {
+        headers: authHeaders,
+        method: "POST",
+        body: formData,
+      });
+    }
+
+    it("should save the digest schedule", async () => {
+      const res = await save({
+        frequency: "weekly",
+        hour: "19",
+        weekday: "5",
+        size: "4",
+      });
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get("x-toast-message")).toBe("Digest settings saved");
+      expect(await getDigestPreferences(testUserId)).toEqual({
+        frequency: "weekly",
+        hour: 19,
+        weekday: 5,
+        size: 4,
+      });
+
+      const doc = parseHtml(await res.text());
+      expect(
+        doc.querySelector<HTMLOptionElement>(
+          "select[name=frequency] option[selected]",
+        )?.value,
+      ).toBe("weekly");
+    });
+
+    it.each([
+      [{ frequency: "hourly", hour: "8", weekday: "1", size: "3" }],
+      [{ frequency: "daily", hour: "24", weekday: "1", size: "3" }],
+      [{ frequency: "daily", hour: "8", weekday: "7", size: "3" }],
+      [{ frequency: "daily", hour: "8", weekday: "1", size: "11" }],
+    ])("should return 400 for %o", async (fields) => {
+      const res = await save(fields);
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe("Email delivery", () => {
+    let smtpConfig: Pick<typeof config, "SMTP_HOST" | "SMTP_FROM">;
+
+    beforeEach(() => {
+      smtpConfig = { SMTP_HOST: config.SMTP_HOST, SMTP_FROM: config.SMTP_FROM };
+      config.SMTP_HOST = "smtp.example.com";
+      config.SMTP_FROM = "lateread@example.com";
+    });
+
+    afterEach(() => {
+      Object.assign(config, smtpConfig);
+    });
+
+    describe("POST /api/articles/:id/deliver", () => {
+      it("should queue a delivery", async () => {
+        await updateDeliveryPreferences(testUserId, { email: "me@kindle.com" });
+        const article = await createCompletedArticle(db, testUserId);
+
+        const res = await app.request(`/api/articles/${article.id}/deliver`, {
+          headers: authHeaders,
+          method: "POST",
+        });
+
+        expect(res.status).toBe(204);
+        expect(res.headers.get("x-toast-message")).toBe(
+          "Sending to your Kindle",
+        );
+        expect(queue.addDeliveryJob).toHaveBeenCalledWith({
+          articleId: article.id,
+          userId: testUserId,
+        });
+      });
+
+      it("should return 400 without a delivery address", async () => {
+        const article = await createCompletedArticle(db, testUserId);
+
+        const res = await app.request(`/api/articles/${article.id}/deliver`, {
+          headers: authHeaders,
+          method: "POST",
+        });
+
+        expect(res.status).toBe(400);
+        expect(queue.addDeliveryJob).not.toHaveBeenCalled();
+      });
+
+      it("should return 404 for another user's article", async () => {
+        await updateDeliveryPreferences(testUserId, { email: "me@kindle.com" });
+        const other = await createUser(db);
+        const article = await createCompletedArticle(db, other.id);
+
+        const res = await app.request(`/api/articles/${article.id}/deliver`, {
+          headers: authHeaders,
+          method: "POST",
+        });
+
+        expect(res.status).toBe(404);
+        expect(queue.addDeliveryJob).not.toHaveBeenCalled();
+      });
+    });
+
+    describe("POST /api/preferences/delivery", () => {
+      async function save(email: string, format = "epub") {
+        const formData = new FormData();
+        formData.append("email", email);
+        formData.append("format", format);
+
+        return app.request("/api/preferences/delivery", {
+          headers: authHeaders,
+          method: "POST",
+          body: formData,
+        });
+      }
+
+      it("should save delivery preferences", async () => {
+        const res = await save(" me@kindle.com ", "html");
+
+        expect(res.status).toBe(200);
+        expect(res.headers.get("x-toast-message")).toBe(
+          "Delivery settings saved",
+        );
+        expect(await getDeliveryPreferences(testUserId)).toEqual({
+          email: "me@kindle.com",
+          format: "html",
+        });
+
+        const doc = parseHtml(await res.text());
+        expect(
+          doc.querySelector<HTMLInputElement>("input[name=email]")?.value,
+        ).toBe("me@kindle.com");
+      });
+
+      it("should clear the address when empty", async () => {
+        await updateDeliveryPreferences(testUserId, { email: "me@kindle.com" });
+
+        await save("");
+
+        expect((await getDeliveryPreferences(testUserId)).email).toBeNull();
+      });
+
+      it("should return 400 for an invalid address", async () => {
+        const res = await save("not an email");
+
+        expect(res.status).toBe(400);
+      });
+
+      it("should return 400 when SMTP isn't configured", async () => {
+        config.SMTP_HOST = undefined;
+
+        const res = await save("me@kindle.com");
+
+        expect(res.status).toBe(400);
+      });
+    });
+  });
+
+  describe("POST /api/feeds/:id", () => {
+    it("should save the feed and return it", async () => {
+      const feed = await createFeed(db, testUserId);
+      const formData = new FormData();
+      formData.append("title", " Rust Blog ");
+      formData.append("includeKeywords", "Rust");
+      formData.append("excludeKeywords", "");
+
+      const res = await app.request(`/api/feeds/${feed.id}`, {
+        method: "POST",
+        headers: authHeaders,
+        body: formData,
+      });
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get("x-toast-message")).toBe("Feed saved");
+      const doc = parseHtml(await res.text());
+      expect(doc.querySelector(`#feed-${feed.id} strong`)?.textContent).toBe(
+        "Rust Blog",
+      );
+
+      const [updated] = await db
+        .select()
+        .from(feeds)
+        .where(eq(feeds.id, feed.id));
+      expect(updated).toMatchObject({
+        title: "Rust Blog",
+        includeKeywords: "rust",
+      });
+    });
+
+    it("should return 400 without a name", async () => {
+      const feed = await createFeed(db, testUserId);
+      const formData = new FormData();
+      formData.append("title", " ");
+
+      const res = await app.request(`/api/feeds/${feed.id}`, {
+        method: "POST",
+        headers: authHeaders,
+        body: formData,
+      });
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe("DELETE /api/feeds/:id", () => {
+    it("should unsubscribe", async () => {
+      const feed = await createFeed(db, testUserId);
+
+      const res = await app.request(`/api/feeds/${feed.id}`, {
+        method: "DELETE",
+        headers: authHeaders,
+      });
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get("x-toast-message")).toBe("Unsubscribed");
+      expect(await db.select().from(feeds)).toHaveLength(0);
+    });
+
+    it("should return 404 for another user's feed", async () => {
+      const otherUser = await createUser(db);
+      const feed = await createFeed(db, otherUser.id);
+
+      const res = await app.request(`/api/feeds/${feed.id}`, {
+        method: "DELETE",
+        headers: authHeaders,
+      });
+
+      expect(res.status).toBe(404);
+      expect(await db.select().from(feeds)).toHaveLength(1);
+    });
+  });
+
   describe("Authentication", () => {
     it.each([
       ["POST", "/api/articles/some-id/read"],
@@ -1329,9 +2422,23 @@ describe("routes/api", () => {
       ["POST", "/api/articles/some-id/archive"],
       ["POST", "/api/articles/some-id/rate?rating=1"],
       ["POST", "/api/articles/some-id/summarize"],
+      ["GET", "/api/articles/some-id/summary/stream"],
+      ["POST", "/api/articles/some-id/questions"],
+      ["GET", "/api/articles/some-id/questions/some-id/answer"],
       ["GET", "/api/articles/processing-count"],
       ["GET", "/api/articles/some-id/tts"],
       ["POST", "/api/preferences/reader"],
+      ["POST", "/api/articles"],
+      ["POST", "/api/tokens"],
+      ["DELETE", "/api/tokens/some-id"],
+      ["POST", "/api/articles/some-id/tags"],
+      ["DELETE", "/api/articles/some-id/tags/some-id"],
+      ["POST", "/api/tags/some-id/rename"],
+      ["POST", "/api/tags/some-id/merge"],
+      ["DELETE", "/api/tags/some-id"],
+      ["POST", "/api/tag-suggestions/some-id/approve"],
+      ["POST", "/api/tag-suggestions/some-id/dismiss"],
+      ["POST", "/api/preferences/tagging"],
     ])("should return 401 for %s %s without auth", async (method, path) => {
       const options: RequestInit = { method };
 
@@ -1,17 +1,44 @@
 import { Hono } from "hono";
-import { stream } from "hono/streaming";
+import { stream, streamSSE } from "hono/streaming";
 import { z } from "zod";
 import { ArticleList } from "../components/ArticleList";
+import { ArticleTags } from "../components/ArticleTags";
+import { AskAnswer, AskConversation } from "../components/AskPanel";
 import { EmptyState } from "../components/EmptyState";
+import { ErrorPartial } from "../components/errors/ErrorPartial";
+import { FeedItem } from "../components/FeedsPage";
 import { ProcessingBanner } from "../components/ProcessingBanner";
 import { SummaryView } from "../components/SummaryView";
+import { ApiTokens } from "../components/settings/ApiTokens";
+import { DeliverySettings } from "../components/settings/DeliverySettings";
+import { DigestSettings } from "../components/settings/DigestSettings";
+import { InboundEmail } from "../components/settings/InboundEmail";
+import { ReadingFeeds } from "../components/settings/ReadingFeeds";
+import { TagManagement } from "../components/settings/TagManagement";
+import { config } from "../lib/config";
+import { AppError, ForbiddenError, ValidationError } from "../lib/errors";
+import { isLLMAvailable, SUMMARY_FIELDS, type SummaryResult } from "../lib/llm";
+import { addArticleJob, addDeliveryJob } from "../lib/queue";
+import { isEmailDeliveryAvailable } from "../lib/smtp";
 import { getTTSProvider, htmlToPlainText } from "../lib/tts";
 import { validator } from "../lib/validator";
 import { requireAuth } from "../middleware/auth";
-import { articleIdParam } from "../schemas/common";
+import {
+  articleIdParam,
+  articleUrl,
+  feedIdParam,
+  tagIdParam,
+  tagName,
+} from "../schemas/common";
+import {
+  createApiToken,
+  getUserApiTokens,
+  revokeApiToken,
+} from "../services/api-tokens.service";
 import {
   countArticles,
   countArticlesByStatus,
+  createArticle,
   deleteArticle,
   getArticlesWithTags,
   getArticleWithTagsById,
@@ -21,12 +48,121 @@ import {
   updateReadingPosition,
 } from "../services/articles.service";
 import { getArticleContent } from "../services/content.service";
-import { updateReaderPreferences } from "../services/preferences.service";
-import { getOrGenerateSummary } from "../services/summaries.service";
+import { getDeliveryAddress } from "../services/delivery.service";
+import { deleteFeed, getFeed, updateFeed } from "../services/feeds.service";
+import {
+  isInboundEmailAvailable,
+  resetInboundEmailAddress,
+} from "../services/inbound-email.service";
+import {
+  getTaggingPreferences,
+  updateDeliveryPreferences,
+  updateDigestPreferences,
+  updateReaderPreferences,
+  updateTaggingPreferences,
+} from "../services/preferences.service";
+import {
+  askQuestion,
+  getArticleQuestion,
+  getArticleQuestions,
+  streamAnswer,
+} from "../services/questions.service";
+import { resetFeedToken } from "../services/reading-feeds.service";
+import { getAllowedFeaturesForUser } from "../services/subscription.service";
+import {
+  getOrGenerateSummary,
+  streamSummary,
+} from "../services/summaries.service";
+import {
+  approveTagSuggestion,
+  dismissTagSuggestion,
+  getPendingTagSuggestions,
+} from "../services/tag-consolidation.service";
+import {
+  addArticleTag,
+  deleteTag,
+  getUserTagsWithCounts,
+  mergeTags,
+  removeArticleTag,
+  renameTag,
+} from "../services/tags.service";
 import type { AppContext } from "../types/context";
 
 const api = new Hono<AppContext>();
 
+/**
+ * Render the settings tag management section with fresh data
+ */
+async function renderTagManagement(userId: string) {
+  const [tags, suggestions, preferences] = await Promise.all([
+    getUserTagsWithCounts(userId),
+    getPendingTagSuggestions(userId),
+    getTaggingPreferences(userId),
+  ]);
+
+  return (
+    <TagManagement
+      tags={tags}
+      suggestions={suggestions}
+      preferences={preferences}
+    />
+  );
+}
+
+/**
+ * Asking questions needs a subscription and a configured LLM
+ */
+async function assertCanAsk(userId: string) {
+  const features = await getAllowedFeaturesForUser(userId);
+
+  if (!features.ask || !isLLMAvailable()) {
+    throw new ForbiddenError("Asking questions requires a subscription");
+  }
+}
+
+/**
+ * POST /api/articles - Save a URL from the web app
+ */
+api.post(
+  "/api/articles",
+  requireAuth("json-401"),
+  validator(
+    "form",
+    z.object({
+      url: articleUrl,
+    }),
+  ),
+  async (c) => {
+    const userId = c.get("userId");
+    const { url } = c.req.valid("form");
+
+    c.var.logger.info("Saving article from web", { userId, url });
+
+    const { article, duplicate, shouldProcess } = await createArticle({
+      userId,
+      url,
+    });
+    if (shouldProcess) {
+      addArticleJob(article.id);
+    }
+
+    const [result, count] = await Promise.all([
+      getArticlesWithTags(userId, { archived: false }),
+      countArticlesByStatus(userId, ["pending", "processing"]),
+    ]);
+
+    c.header("x-toast-message", duplicate ? "Already saved" : "Article saved");
+    return c.html(
+      <ArticleList
+        articles={result.articles}
+        archived={false}
+        processingCount={count}
+        nextCursor={result.nextCursor}
+      />,
+    );
+  },
+);
+
 /**
  * POST /api/articles/:id/read - Mark article as read
  */
@@ -44,6 +180,27 @@ api.post(
   },
 );
 
+/**
+ * POST /api/articles/:id/deliver - Email the article to the delivery address
+ */
+api.post(
+  "/api/articles/:id/deliver",
+  requireAuth("json-401"),
+  validator("param", articleIdParam),
+  async (c) => {
+    const userId = c.get("userId");
+    const { id: articleId } = c.req.valid("param");
+
+    await getArticleWithTagsById(articleId, userId);
+    await getDeliveryAddress(userId);
+
+    addDeliveryJob({ articleId, userId });
+
+    c.header("x-toast-message", "Sending to your Kindle");
+    return c.body(null, 204);
+  },
+);
+
 /**
  * POST /api/articles/:id/position - Save reading position
  */
@@ -190,6 +347,57 @@ api.delete(
   },
 );
 
+/**
+ * POST /api/articles/:id/tags - Manually tag an article
+ */
+api.post(
+  "/api/articles/:id/tags",
+  requireAuth("json-401"),
+  validator("param", articleIdParam),
+  validator("form", z.object({ name: tagName })),
+  async (c) => {
+    const userId = c.get("userId");
+    const { id: articleId } = c.req.valid("param");
+    const { name } = c.req.valid("form");
+
+    c.var.logger.info("Adding tag to article", { articleId, userId });
+
+    await addArticleTag(articleId, userId, name);
+    const article = await getArticleWithTagsById(articleId, userId);
+
+    return c.html(<ArticleTags articleId={articleId} tags={article.tags} />);
+  },
+);
+
+/**
+ * DELETE /api/articles/:id/tags/:tagId - Remove a tag from an article
+ */
+api.delete(
+  "/api/articles/:id/tags/:tagId",
+  requireAuth("json-401"),
+  validator(
+    "param",
+    articleIdParam.extend({
+      tagId: z.string().uuid("Invalid tag ID format"),
+    }),
+  ),
+  async (c) => {
+    const userId = c.get("userId");
+    const { id: articleId, tagId } = c.req.valid("param");
+
+    c.var.logger.info("Removing tag from article", {
+      articleId,
+      userId,
+      tagId,
+    });
+
+    await removeArticleTag(articleId, userId, tagId);
+    const article = await getArticleWithTagsById(articleId, userId);
+
+    return c.html(<ArticleTags articleId={articleId} tags={article.tags} />);
+  },
+);
+
 /**
  * POST /api/articles/:id/summarize - Generate article summary
  */
@@ -217,6 +425,203 @@ api.post(
   },
 );
 
+/**
+ * GET /api/articles/:id/summary/stream - Stream summary generation (SSE)
+ *
+ * Events:
+ * - render: SummaryView HTML to show while generating
+ * - delta: {"field", "text"} JSON, text to append to a summary field
+ * - done: final SummaryView HTML
+ * - stream-error: error HTML ("error" is reserved by EventSource)
+ *
+ * Generation continues after the client disconnects, so the summary is
+ * still cached for the next visit
+ */
+api.get(
+  "/api/articles/:id/summary/stream",
+  requireAuth("json-401"),
+  validator("param", articleIdParam),
+  async (c) => {
+    const userId = c.get("userId");
+    const { id: articleId } = c.req.valid("param");
+
+    // Verify article exists and belongs to user
+    const article = await getArticleWithTagsById(articleId, userId);
+
+    return streamSSE(c, async (sse) => {
+      const sent: SummaryResult = {
+        oneSentence: "",
+        oneParagraph: "",
+        long: "",
+      };
+      let summary: SummaryResult | null = null;
+
+      await sse.writeSSE({
+        event: "render",
+        data: (<SummaryView summary={sent} streaming />).toString(),
+      });
+
+      try {
+        for await (const snapshot of streamSummary(
+          userId,
+          articleId,
+          article.url,
+          article.language,
+        )) {
+          summary = snapshot;
+
+          // Snapshots only grow, anything else is fixed by the final render
+          for (const field of SUMMARY_FIELDS) {
+            const text = snapshot[field];
+            if (
+              text.length > sent[field].length &&
+              text.startsWith(sent[field])
+            ) {
+              await sse.writeSSE({
+                event: "delta",
+                data: JSON.stringify({
+                  field,
+                  text: text.slice(sent[field].length),
+                }),
+              });
+              sent[field] = text;
+            }
+          }
+        }
+      } catch (error) {
+        c.var.logger.error("Summary generation failed", { articleId, error });
+
+        const message =
+          error instanceof AppError
+            ? error.message
+            : "Failed to generate summary";
+        await sse.writeSSE({
+          event: "stream-error",
+          data: (<ErrorPartial message={message} />).toString(),
+        });
+        return;
+      }
+
+      if (summary) {
+        await sse.writeSSE({
+          event: "done",
+          data: (<SummaryView summary={summary} />).toString(),
+        });
+      }
+    });
+  },
+);
+
+/**
+ * POST /api/articles/:id/questions - Ask a question about an article
+ * Returns the conversation, the new question streams its answer
+ */
+api.post(
+  "/api/articles/:id/questions",
+  requireAuth("json-401"),
+  validator("param", articleIdParam),
+  validator(
+    "form",
+    z.object({
+      question: z
+        .string()
+        .trim()
+        .min(1, "Question is required")
+        .max(2000, "Question must be at most 2000 characters"),
+    }),
+  ),
+  async (c) => {
+    const userId = c.get("userId");
+    const { id: articleId } = c.req.valid("param");
+    const { question } = c.req.valid("form");
+
+    await assertCanAsk(userId);
+
+    // Verify article exists and belongs to user
+    await getArticleWithTagsById(articleId, userId);
+
+    c.var.logger.info("Asking about article", { articleId, userId });
+
+    await askQuestion(articleId, question);
+    const questions = await getArticleQuestions(articleId);
+
+    return c.html(
+      <AskConversation articleId={articleId} questions={questions} />,
+    );
+  },
+);
+
+/**
+ * GET /api/articles/:id/questions/:questionId/answer - Stream an answer (SSE)
+ *
+ * Events follow the summary stream: render, delta ({"field": "answer"}),
+ * done and stream-error. Like summaries, the answer is still saved when the
+ * client disconnects
+ */
+api.get(
+  "/api/articles/:id/questions/:questionId/answer",
+  requireAuth("json-401"),
+  validator(
+    "param",
+    articleIdParam.extend({
+      questionId: z.string().uuid("Invalid question ID format"),
+    }),
+  ),
+  async (c) => {
+    const userId = c.get("userId");
+    const { id: articleId, questionId } = c.req.valid("param");
+
+    await assertCanAsk(userId);
+
+    // Verify article and question exist and belong to user
+    const article = await getArticleWithTagsById(articleId, userId);
+    await getArticleQuestion(articleId, questionId);
+
+    return streamSSE(c, async (sse) => {
+      let answer = "";
+
+      await sse.writeSSE({
+        event: "render",
+        data: (<AskAnswer answer="" streaming />).toString(),
+      });
+
+      try {
+        for await (const delta of streamAnswer(
+          userId,
+          articleId,
+          article.url,
+          questionId,
+        )) {
+          answer += delta;
+          await sse.writeSSE({
+            event: "delta",
+            data: JSON.stringify({ field: "answer", text: delta }),
+          });
+        }
+      } catch (error) {
+        c.var.logger.error("Answer generation failed", {
+          articleId,
+          questionId,
+          error,
+        });
+
+        const message =
+          error instanceof AppError ? error.message : "Failed to answer";
+        await sse.writeSSE({
+          event: "stream-error",
+          data: (<ErrorPartial message={message} />).toString(),
+        });
+        return;
+      }
+
+      await sse.writeSSE({
+        event: "done",
+        data: (<AskAnswer answer={answer.trim()} />).toString(),
+      });
+    });
+  },
+);
+
 /**
  * GET /api/articles/processing-count - Get count of processing articles
  */
@@ -348,4 +753,383 @@ api.post(
   },
 );
 
+/**
+ * POST /api/preferences/tagging - Update automatic tagging preferences
+ */
+api.post(
+  "/api/preferences/tagging",
+  requireAuth("json-401"),
+  validator(
+    "form",
+    z.object({
+      maxNewTagsPerArticle: z.coerce
+        .number({
+          message: "New tags per article must be a number",
+        })
+        .int("New tags per article must be a whole number")
+        .min(0, "New tags per article must be at least 0")
+        .max(10, "New tags per article must be at most 10"),
+      // Unchecked checkboxes are not submitted
+      autoApplyConsolidation: z
+        .literal("true")
+        .optional()
+        .transform((v) => v === "true"),
+    }),
+  ),
+  async (c) => {
+    const userId = c.get("userId");
+    const { maxNewTagsPerArticle, autoApplyConsolidation } =
+      c.req.valid("form");
+
+    await updateTaggingPreferences(userId, {
+      maxNewTagsPerArticle,
+      autoApplyConsolidation,
+    });
+
+    c.header("x-toast-message", "Tagging settings saved");
+    return c.html(await renderTagManagement(userId));
+  },
+);
+
+/**
+ * POST /api/preferences/digest - Update the Telegram digest schedule
+ */
+api.post(
+  "/api/preferences/digest",
+  requireAuth("json-401"),
+  validator(
+    "form",
+    z.object({
+      frequency: z.enum(["off", "daily", "weekly"], {
+        message: "Frequency must be off, daily or weekly",
+      }),
+      hour: z.coerce
+        .number({ message: "Time must be a number" })
+        .int("Time must be a whole hour")
+        .min(0, "Time must be between 0 and 23")
+        .max(23, "Time must be between 0 and 23"),
+      weekday: z.coerce
+        .number({ message: "Day must be a number" })
+        .int("Day must be a whole number")
+        .min(0, "Day must be between 0 and 6")
+        .max(6, "Day must be between 0 and 6"),
+      size: z.coerce
+        .number({ message: "Articles must be a number" })
+        .int("Articles must be a whole number")
+        .min(1, "Articles must be at least 1")
+        .max(10, "Articles must be at most 10"),
+    }),
+  ),
+  async (c) => {
+    const userId = c.get("userId");
+    const preferences = c.req.valid("form");
+
+    await updateDigestPreferences(userId, preferences);
+
+    c.header("x-toast-message", "Digest settings saved");
+    return c.html(<DigestSettings preferences={preferences} />);
+  },
+);
+
+/**
+ * POST /api/preferences/delivery - Update the email delivery address and format
+ */
+api.post(
+  "/api/preferences/delivery",
+  requireAuth("json-401"),
+  validator(
+    "form",
+    z.object({
+      // Empty to stop deliveries
+      email: z
+        .union([
+          z.literal(""),
+          z.string().trim().email("Enter a valid email address"),
+        ])
+        .transform((v) => v || null),
+      format: z.enum(["epub", "html"], {
+        message: "Format must be EPUB or HTML",
+      }),
+    }),
+  ),
+  async (c) => {
+    const userId = c.get("userId");
+    const { email, format } = c.req.valid("form");
+
+    if (!isEmailDeliveryAvailable() || !config.SMTP_FROM) {
+      throw new ValidationError("Email delivery is not available");
+    }
+
+    await updateDeliveryPreferences(userId, { email, format });
+
+    c.header("x-toast-message", "Delivery settings saved");
+    return c.html(
+      <DeliverySettings
+        preferences={{ email, format }}
+        senderAddress={config.SMTP_FROM}
+      />,
+    );
+  },
+);
+
+/**
+ * POST /api/reading-feeds/reset - Replace the token of the private feed URLs
+ */
+api.post("/api/reading-feeds/reset", requireAuth("json-401"), async (c) => {
+  const userId = c.get("userId");
+
+  c.var.logger.info("Resetting feed token", { userId });
+
+  const token = await resetFeedToken(userId);
+
+  c.header("x-toast-message", "Feed links reset");
+  return c.html(<ReadingFeeds token={token} />);
+});
+
+/**
+ * POST /api/inbound-email/reset - Replace the newsletter address
+ */
+api.post("/api/inbound-email/reset", requireAuth("json-401"), async (c) => {
+  const userId = c.get("userId");
+
+  if (!isInboundEmailAvailable()) {
+    throw new ValidationError("Newsletters by email are not available");
+  }
+
+  c.var.logger.info("Resetting inbound email address", { userId });
+
+  const address = await resetInboundEmailAddress(userId);
+
+  c.header("x-toast-message", "Newsletter address reset");
+  return c.html(<InboundEmail address={address} />);
+});
+
+/**
+ * POST /api/tokens - Create a personal API token
+ */
+api.post(
+  "/api/tokens",
+  requireAuth("json-401"),
+  validator(
+    "form",
+    z.object({
+      name: z
+        .string()
+        .trim()
+        .min(1, "Token name is required")
+        .max(100, "Token name must be at most 100 characters"),
+    }),
+  ),
+  async (c) => {
+    const userId = c.get("userId");
+    const { name } = c.req.valid("form");
+
+    c.var.logger.info("Creating API token", { userId });
+
+    const { token } = await createApiToken(userId, name);
+    const tokens = await getUserApiTokens(userId);
+
+    return c.html(<ApiTokens tokens={tokens} newToken={token} />);
+  },
+);
+
+/**
+ * DELETE /api/tokens/:id - Revoke a personal API token
+ */
+api.delete(
+  "/api/tokens/:id",
+  requireAuth("json-401"),
+  validator(
+    "param",
+    z.object({
+      id: z.string().uuid("Invalid token ID format"),
+    }),
+  ),
+  async (c) => {
+    const userId = c.get("userId");
+    const { id: tokenId } = c.req.valid("param");
+
+    c.var.logger.info("Revoking API token", { userId, tokenId });
+
+    await revokeApiToken(tokenId, userId);
+    const tokens = await getUserApiTokens(userId);
+
+    c.header("x-toast-message", "Token revoked");
+    return c.html(<ApiTokens tokens={tokens} />);
+  },
+);
+
+/**
+ * POST /api/tags/:id/rename - Rename a tag
+ */
+api.post(
+  "/api/tags/:id/rename",
+  requireAuth("json-401"),
+  validator("param", tagIdParam),
+  validator("form", z.object({ name: tagName })),
+  async (c) => {
+    const userId = c.get("userId");
+    const { id: tagId } = c.req.valid("param");
+    const { name } = c.req.valid("form");
+
+    c.var.logger.info("Renaming tag", { userId, tagId });
+
+    await renameTag(tagId, userId, name);
+
+    c.header("x-toast-message", "Tag renamed");
+    return c.html(await renderTagManagement(userId));
+  },
+);
+
+/**
+ * POST /api/tags/:id/merge - Merge a tag into another tag
+ */
+api.post(
+  "/api/tags/:id/merge",
+  requireAuth("json-401"),
+  validator("param", tagIdParam),
+  validator(
+    "form",
+    z.object({
+      targetId: z.string().uuid("Invalid tag ID format"),
+    }),
+  ),
+  async (c) => {
+    const userId = c.get("userId");
+    const { id: tagId } = c.req.valid("param");
+    const { targetId } = c.req.valid("form");
+
+    c.var.logger.info("Merging tags", { userId, tagId, targetId });
+
+    await mergeTags(tagId, targetId, userId);
+
+    c.header("x-toast-message", "Tags merged");
+    return c.html(await renderTagManagement(userId));
+  },
+);
+
+/**
+ * DELETE /api/tags/:id - Delete a tag and remove it from all articles
+ */
+api.delete(
+  "/api/tags/:id",
+  requireAuth("json-401"),
+  validator("param", tagIdParam),
+  async (c) => {
+    const userId = c.get("userId");
+    const { id: tagId } = c.req.valid("param");
+
+    c.var.logger.info("Deleting tag", { userId, tagId });
+
+    await deleteTag(tagId, userId);
+
+    c.header("x-toast-message", "Tag deleted");
+    return c.html(await renderTagManagement(userId));
+  },
+);
+
+/**
+ * POST /api/tag-suggestions/:id/approve - Apply a suggested tag merge
+ */
+api.post(
+  "/api/tag-suggestions/:id/approve",
+  requireAuth("json-401"),
+  validator(
+    "param",
+    z.object({
+      id: z.string().uuid("Invalid suggestion ID format"),
+    }),
+  ),
+  async (c) => {
+    const userId = c.get("userId");
+    const { id: suggestionId } = c.req.valid("param");
+
+    c.var.logger.info("Approving tag suggestion", { userId, suggestionId });
+
+    await approveTagSuggestion(suggestionId, userId);
+
+    c.header("x-toast-message", "Tags merged");
+    return c.html(await renderTagManagement(userId));
+  },
+);
+
+/**
+ * POST /api/tag-suggestions/:id/dismiss - Dismiss a suggested tag merge
+ */
+api.post(
+  "/api/tag-suggestions/:id/dismiss",
+  requireAuth("json-401"),
+  validator(
+    "param",
+    z.object({
+      id: z.string().uuid("Invalid suggestion ID format"),
+    }),
+  ),
+  async (c) => {
+    const userId = c.get("userId");
+    const { id: suggestionId } = c.req.valid("param");
+
+    c.var.logger.info("Dismissing tag suggestion", { userId, suggestionId });
+
+    await dismissTagSuggestion(suggestionId, userId);
+
+    c.header("x-toast-message", "Suggestion dismissed");
+    return c.html(await renderTagManagement(userId));
+  },
+);
+
+/**
+ * POST /api/feeds/:id - Rename a feed or change its keyword filters
+ */
+api.post(
+  "/api/feeds/:id",
+  requireAuth("json-401"),
+  validator("param", feedIdParam),
+  validator(
+    "form",
+    z.object({
+      title: z
+        .string()
+        .trim()
+        .min(1, "Feed name is required")
+        .max(100, "Feed name must be at most 100 characters"),
+      includeKeywords: z.string().max(500).default(""),
+      excludeKeywords: z.string().max(500).default(""),
+    }),
+  ),
+  async (c) => {
+    const userId = c.get("userId");
+    const { id: feedId } = c.req.valid("param");
+    const settings = c.req.valid("form");
+
+    c.var.logger.info("Updating feed", { userId, feedId });
+
+    await updateFeed(feedId, userId, settings);
+    const feed = await getFeed(feedId, userId);
+
+    c.header("x-toast-message", "Feed saved");
+    return c.html(<FeedItem feed={feed} />);
+  },
+);
+
+/**
+ * DELETE /api/feeds/:id - Unsubscribe from a feed
+ */
+api.delete(
+  "/api/feeds/:id",
+  requireAuth("json-401"),
+  validator("param", feedIdParam),
+  async (c) => {
+    const userId = c.get("userId");
+    const { id: feedId } = c.req.valid("param");
+
+    c.var.logger.info("Unsubscribing from feed", { userId, feedId });
+
+    await deleteFeed(feedId, userId);
+
+    c.header("x-toast-message", "Unsubscribed");
+    return c.html("");
+  },
+);
+
 export default api;
@@ -12,9 +12,12 @@ import {
   parseHtml,
 } from "../../test/fixtures";
 import { createApp } from "../app";
+import { articleQuestions } from "../db/schema";
 import * as llm from "../lib/llm";
 import * as tts from "../lib/tts";
+import { updateReadingPosition } from "../services/articles.service";
 import * as contentService from "../services/content.service";
+import { embedArticle } from "../services/embeddings.service";
 import type { AppContext } from "../types/context";
 
 describe("routes/articles", () => {
@@ -73,6 +76,11 @@ describe("routes/articles", () => {
       // Should contain both articles
       expect(html).toContain("Test Article 1");
       expect(html).toContain("Test Article 2");
+
+      // Should offer the unread articles as EPUB
+      expect(doc.querySelector(".epub-download")?.getAttribute("href")).toBe(
+        "/epub",
+      );
     });
 
     it("should render archived articles at /archive", async () => {
@@ -147,6 +155,23 @@ describe("routes/articles", () => {
       expect(html).not.toContain("articles processing");
     });
 
+    it("should show the add URL form in the inbox only", async () => {
+      const inboxRes = await app.request("/articles", { headers: authHeaders });
+      const inboxDoc = parseHtml(await inboxRes.text());
+
+      const form = inboxDoc.querySelector("form.add-article-form");
+      expect(form).toBeTruthy();
+      expect(form?.getAttribute("hx-post")).toBe("/api/articles");
+      expect(form?.querySelector('input[name="url"]')).toBeTruthy();
+
+      const archiveRes = await app.request("/archive", {
+        headers: authHeaders,
+      });
+      const archiveDoc = parseHtml(await archiveRes.text());
+
+      expect(archiveDoc.querySelector("form.add-article-form")).toBeNull();
+    });
+
     it("should not show other users' articles", async () => {
       const otherUser = await createUser(db);
 
@@ -199,6 +224,96 @@ describe("routes/articles", () => {
       // Should show article (tags are not displayed in list view, only in reader view)
       expect(html).toContain("Tagged Article");
     });
+
+    it("should filter by tag and show the active filter", async () => {
+      const rust = await createTag(db, testUserId, "rust");
+      const tagged = await createCompletedArticle(db, testUserId, {
+        title: "Rust Article",
+      });
+      await addTagToArticle(db, tagged.id, rust.id);
+      await createCompletedArticle(db, testUserId, { title: "Other Article" });
+
+      const res = await app.request("/articles?tag=Rust", {
+        headers: authHeaders,
+      });
+      const html = await res.text();
+      const doc = parseHtml(html);
+
+      expect(res.status).toBe(200);
+      expect(html).toContain("Rust Article");
+      expect(html).not.toContain("Other Article");
+
+      const bar = doc.querySelector(".tag-filter-bar");
+      expect(bar?.textContent).toContain("rust");
+      expect(
+        bar?.querySelector(".tag-filter-clear")?.getAttribute("href"),
+      ).toBe("/articles");
+    });
+
+    it("should combine archive tag filters with match=any", async () => {
+      const rust = await createTag(db, testUserId, "rust");
+      const go = await createTag(db, testUserId, "go");
+      const rustArticle = await createCompletedArticle(db, testUserId, {
+        title: "Archived Rust",
+        archived: true,
+      });
+      await addTagToArticle(db, rustArticle.id, rust.id);
+      const goArticle = await createCompletedArticle(db, testUserId, {
+        title: "Archived Go",
+        archived: true,
+      });
+      await addTagToArticle(db, goArticle.id, go.id);
+      const inboxArticle = await createCompletedArticle(db, testUserId, {
+        title: "Inbox Rust",
+      });
+      await addTagToArticle(db, inboxArticle.id, rust.id);
+
+      const anyRes = await app.request("/archive?tag=rust&tag=go&match=any", {
+        headers: authHeaders,
+      });
+      const anyHtml = await anyRes.text();
+
+      expect(anyHtml).toContain("Archived Rust");
+      expect(anyHtml).toContain("Archived Go");
+      expect(anyHtml).not.toContain("Inbox Rust");
+      expect(
+        parseHtml(anyHtml)
+          .querySelector(".tag-filter-mode")
+          ?.getAttribute("href"),
+      ).toBe("/archive?tag=rust&tag=go");
+
+      const allRes = await app.request("/archive?tag=rust&tag=go", {
+        headers: authHeaders,
+      });
+      const allHtml = await allRes.text();
+
+      expect(allHtml).toContain("No articles match the selected tags");
+    });
+
+    it("should keep tag filters in the load more trigger", async () => {
+      const rust = await createTag(db, testUserId, "rust");
+      for (let i = 0; i < 21; i++) {
+        const article = await createCompletedArticle(db, testUserId);
+        await addTagToArticle(db, article.id, rust.id);
+      }
+
+      const res = await app.request("/articles?tag=rust", {
+        headers: authHeaders,
+      });
+      const doc = parseHtml(await res.text());
+
+      expect(
+        doc.querySelector(".load-more-trigger")?.getAttribute("hx-get"),
+      ).toMatch(/^\/articles\?cursor=[^&]+&archived=false&tag=rust$/);
+    });
+
+    it("should return 400 for an invalid match mode", async () => {
+      const res = await app.request("/articles?tag=rust&match=some", {
+        headers: authHeaders,
+      });
+
+      expect(res.status).toBe(400);
+    });
   });
 
   describe("GET /articles/:id", () => {
@@ -248,6 +363,11 @@ describe("routes/articles", () => {
       expect(html).toContain("Test Article");
       expect(html).toContain("Example Site");
       expect(html).toContain("Article content here");
+      expect(doc.querySelector(".epub-button")?.getAttribute("href")).toBe(
+        `/articles/${article.id}/epub`,
+      );
+      // No SMTP server configured in tests
+      expect(doc.querySelector(".deliver-button")).toBeNull();
     });
 
     it("should display article URL as title when title is null", async () => {
@@ -293,6 +413,24 @@ describe("routes/articles", () => {
       expect(doc.querySelector(".reader-tags")).toBeTruthy();
       expect(html).toContain("technology");
       expect(html).toContain("programming");
+
+      // Tags link to their tag pages
+      const links = Array.from(
+        doc.querySelectorAll(".reader-tags a.tag-badge"),
+      ).map((a) => a.getAttribute("href"));
+      expect(links).toEqual(["/tags/technology", "/tags/programming"]);
+
+      // Tags can be removed and added inline
+      expect(
+        doc
+          .querySelector(".reader-tags button.tag-remove")
+          ?.getAttribute("hx-delete"),
+      ).toBe(`/api/articles/${article.id}/tags/${tag1.id}`);
+      expect(
+        doc
+          .querySelector(".reader-tags form.tag-add-form")
+          ?.getAttribute("hx-post"),
+      ).toBe(`/api/articles/${article.id}/tags`);
     });
 
     it("should show summary feature when LLM is available and user has subscription", async () => {
@@ -316,7 +454,116 @@ describe("routes/articles", () => {
       // Check for summary section
       expect(doc.querySelector(".reader-summary")).toBeTruthy();
       expect(html).toContain("Summary");
-      expect(html).toContain(`/api/articles/${article.id}/summarize`);
+      expect(html).toContain(`/api/articles/${article.id}/summary/stream`);
+
+      spyIsLLMAvailable.mockRestore();
+    });
+
+    it("should show the ask panel with earlier questions", async () => {
+      const article = await createCompletedArticle(db, testUserId);
+      await createSubscription(db, testUserId, { type: "lite" });
+      await db
+        .insert(articleQuestions)
+        .values([
+          { articleId: article.id, question: "Why?", answer: "Because." },
+        ]);
+
+      spyGetArticleContent.mockResolvedValue("<p>Content</p>");
+
+      const spyIsLLMAvailable = spyOn(llm, "isLLMAvailable");
+      spyIsLLMAvailable.mockReturnValue(true);
+
+      const res = await app.request(`/articles/${article.id}`, {
+        headers: authHeaders,
+      });
+      const doc = parseHtml(await res.text());
+
+      expect(res.status).toBe(200);
+      expect(doc.querySelector(".reader-ask")).toBeTruthy();
+      expect(doc.querySelector(".ask-question")?.textContent).toBe("Why?");
+      expect(doc.querySelector(".ask-answer")?.textContent).toBe("Because.");
+      expect(doc.querySelector("form.ask-form")?.getAttribute("hx-post")).toBe(
+        `/api/articles/${article.id}/questions`,
+      );
+
+      spyIsLLMAvailable.mockRestore();
+    });
+
+    it("should list related articles", async () => {
+      const article = await createCompletedArticle(db, testUserId, {
+        title: "Rust ownership and borrowing",
+      });
+      const related = await createCompletedArticle(db, testUserId, {
+        title: "Borrowing rules in Rust",
+      });
+      await embedArticle(article.id, "Rust ownership and borrowing");
+      await embedArticle(related.id, "Borrowing rules in Rust");
+      spyGetArticleContent.mockResolvedValue("<p>Content</p>");
+
+      const res = await app.request(`/articles/${article.id}`, {
+        headers: authHeaders,
+      });
+      const doc = parseHtml(await res.text());
+
+      const links = doc.querySelectorAll(".reader-related a");
+      expect(links).toHaveLength(1);
+      expect(links[0]?.getAttribute("href")).toBe(`/articles/${related.id}`);
+      expect(links[0]?.textContent).toBe("Borrowing rules in Rust");
+    });
+
+    it("should not show related articles without embeddings", async () => {
+      const article = await createCompletedArticle(db, testUserId);
+      spyGetArticleContent.mockResolvedValue("<p>Content</p>");
+
+      const res = await app.request(`/articles/${article.id}`, {
+        headers: authHeaders,
+      });
+      const doc = parseHtml(await res.text());
+
+      expect(doc.querySelector(".reader-related")).toBeNull();
+    });
+
+    it("should open at the element given in the query", async () => {
+      const article = await createCompletedArticle(db, testUserId);
+      await updateReadingPosition(article.id, testUserId, {
+        element: 3,
+        offset: 40,
+      });
+      spyGetArticleContent.mockResolvedValue("<p>Content</p>");
+
+      const saved = parseHtml(
+        await (
+          await app.request(`/articles/${article.id}`, { headers: authHeaders })
+        ).text(),
+      ).querySelector("reader-position");
+      const linked = parseHtml(
+        await (
+          await app.request(`/articles/${article.id}?element=7`, {
+            headers: authHeaders,
+          })
+        ).text(),
+      ).querySelector("reader-position");
+
+      expect(saved?.getAttribute("initial-element")).toBe("3");
+      expect(saved?.getAttribute("initial-offset")).toBe("40");
+      expect(linked?.getAttribute("initial-element")).toBe("7");
+      expect(linked?.getAttribute("initial-offset")).toBe("0");
+    });
+
+    it("should not show the ask panel without a subscription", async () => {
+      const article = await createCompletedArticle(db, testUserId);
+
+      spyGetArticleContent.mockResolvedValue("<p>Content</p>");
+
+      const spyIsLLMAvailable = spyOn(llm, "isLLMAvailable");
+      spyIsLLMAvailable.mockReturnValue(true);
+
+      const res = await app.request(`/articles/${article.id}`, {
+        headers: authHeaders,
+      });
+      const doc = parseHtml(await res.text());
+
+      expect(doc.querySelector(".reader-ask")).toBeNull();
 
       spyIsLLMAvailable.mockRestore();
     });
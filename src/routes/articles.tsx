@@ -4,17 +4,21 @@ import { ArticleCards } from "../components/ArticleCards";
 import { ArticleList } from "../components/ArticleList";
 import { ReaderView } from "../components/ReaderView";
 import { isLLMAvailable } from "../lib/llm";
+import { isEmailDeliveryAvailable } from "../lib/smtp";
 import { isTTSAvailable } from "../lib/tts";
 import { validator } from "../lib/validator";
 import { requireAuth } from "../middleware/auth";
-import { articleIdParam } from "../schemas/common";
+import { articleIdParam, tagFilterQuery } from "../schemas/common";
 import {
   countArticlesByStatus,
   getArticlesWithTags,
   getArticleWithTagsById,
+  type TagMatchMode,
 } from "../services/articles.service";
 import { getArticleContent } from "../services/content.service";
+import { getRelatedArticles } from "../services/embeddings.service";
 import { getReaderPreferences } from "../services/preferences.service";
+import { getArticleQuestions } from "../services/questions.service";
 import { getAllowedFeaturesForUser } from "../services/subscription.service";
 import type { AppContext } from "../types/context";
 import { renderWithLayout } from "./utils/render";
@@ -26,11 +30,17 @@ export async function renderArticlesList(
   userId: string,
   archived: boolean = false,
   cursor?: string,
+  tagFilter: { tags: string[]; tagMode: TagMatchMode } = {
+    tags: [],
+    tagMode: "all",
+  },
 ) {
   const [result, processingCount] = await Promise.all([
     getArticlesWithTags(userId, {
       archived,
       cursor,
+      tags: tagFilter.tags,
+      tagMode: tagFilter.tagMode,
     }),
     countArticlesByStatus(userId, ["pending", "processing"]),
   ]);
@@ -43,6 +53,8 @@ export async function renderArticlesList(
         nextCursor={result.nextCursor}
         basePath={archived ? "/archive" : "/articles"}
         archived={archived}
+        tags={tagFilter.tags}
+        tagMode={tagFilter.tagMode}
       />,
     );
   }
@@ -54,6 +66,8 @@ export async function renderArticlesList(
       archived={archived}
       processingCount={processingCount}
       nextCursor={result.nextCursor}
+      tags={tagFilter.tags}
+      tagMode={tagFilter.tagMode}
     />
   );
 
@@ -70,12 +84,16 @@ articlesRouter.get(
     "query",
     z.object({
       cursor: z.string().optional(),
+      ...tagFilterQuery,
     }),
   ),
   async (c) => {
     const userId = c.get("userId");
-    const { cursor } = c.req.valid("query");
-    return renderArticlesList(c, userId, false, cursor);
+    const { cursor, tag, match } = c.req.valid("query");
+    return renderArticlesList(c, userId, false, cursor, {
+      tags: tag,
+      tagMode: match,
+    });
   },
 );
 
@@ -89,25 +107,37 @@ articlesRouter.get(
     "query",
     z.object({
       cursor: z.string().optional(),
+      ...tagFilterQuery,
     }),
   ),
   async (c) => {
     const userId = c.get("userId");
-    const { cursor } = c.req.valid("query");
-    return renderArticlesList(c, userId, true, cursor);
+    const { cursor, tag, match } = c.req.valid("query");
+    return renderArticlesList(c, userId, true, cursor, {
+      tags: tag,
+      tagMode: match,
+    });
   },
 );
 
 /**
  * GET /articles/:id - Read article
+ * ?element=N opens the article at that reader position instead of the saved one
  */
 articlesRouter.get(
   "/articles/:id",
   requireAuth("redirect"),
   validator("param", articleIdParam),
+  validator(
+    "query",
+    z.object({
+      element: z.coerce.number().int().min(0).optional(),
+    }),
+  ),
   async (c) => {
     const userId = c.get("userId");
     const { id: articleId } = c.req.valid("param");
+    const { element } = c.req.valid("query");
 
     // Get article with tags
     const [article, preferences, features] = await Promise.all([
@@ -117,6 +147,11 @@ articlesRouter.get(
     ]);
 
     const content = await getArticleContent(userId, articleId, article.url);
+    const canAsk = features.ask && isLLMAvailable();
+    const [questions, relatedArticles] = await Promise.all([
+      canAsk ? getArticleQuestions(articleId) : [],
+      getRelatedArticles(userId, articleId),
+    ]);
 
     const readerContent = (
       <ReaderView
@@ -125,11 +160,19 @@ articlesRouter.get(
         features={{
           summary: features.summary && isLLMAvailable(),
           tts: features.tts && isTTSAvailable(),
+          ask: canAsk,
+          delivery: isEmailDeliveryAvailable(),
         }}
-        readingPosition={{
-          element: article.readingPositionElement,
-          offset: article.readingPositionOffset,
-        }}
+        questions={questions}
+        relatedArticles={relatedArticles}
+        readingPosition={
+          element !== undefined
+            ? { element, offset: 0 }
+            : {
+                element: article.readingPositionElement,
+                offset: article.readingPositionOffset,
+              }
+        }
       />
     );
 
@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from "bun:test";
+import type { Hono } from "hono";
+import { db, resetDatabase } from "../../test/bootstrap";
+import {
+  createAuthHeaders,
+  createCompletedArticle,
+  createSubscription,
+  createUser,
+  parseHtml,
+} from "../../test/fixtures";
+import { createApp } from "../app";
+import * as llm from "../lib/llm";
+import * as contentService from "../services/content.service";
+import { indexArticleContent } from "../services/search-index.service";
+import type { AppContext } from "../types/context";
+
+const ARTICLE_HTML =
+  "<h1>Lighthouses</h1><p>Lighthouse keepers trimmed the wicks every night.</p>";
+
+describe("routes/ask", () => {
+  let app: Hono<AppContext>;
+  let testUserId: string;
+  let authHeaders: HeadersInit;
+  let spyGetArticleContent: ReturnType<
+    typeof spyOn<typeof contentService, "getArticleContent">
+  >;
+  let spyGetLLMProvider: ReturnType<typeof spyOn<typeof llm, "getLLMProvider">>;
+  let spyIsLLMAvailable: ReturnType<typeof spyOn<typeof llm, "isLLMAvailable">>;
+
+  beforeEach(async () => {
+    resetDatabase();
+
+    const user = await createUser(db);
+    testUserId = user.id;
+    authHeaders = createAuthHeaders(testUserId);
+    app = createApp();
+
+    spyGetArticleContent = spyOn(contentService, "getArticleContent");
+    spyGetArticleContent.mockResolvedValue(ARTICLE_HTML);
+    spyGetLLMProvider = spyOn(llm, "getLLMProvider");
+    spyGetLLMProvider.mockReturnValue(new llm.FakeLLMProvider());
+    spyIsLLMAvailable = spyOn(llm, "isLLMAvailable");
+    spyIsLLMAvailable.mockReturnValue(true);
+  });
+
+  afterEach(() => {
+    spyGetArticleContent.mockRestore();
+    spyGetLLMProvider.mockRestore();
+    spyIsLLMAvailable.mockRestore();
+  });
+
+  describe("GET /ask", () => {
+    it("should redirect when not authenticated", async () => {
+      const res = await app.request("/ask");
+
+      expect(res.status).toBe(302);
+    });
+
+    it("should render the question form", async () => {
+      await createSubscription(db, testUserId, { type: "lite" });
+
+      const res = await app.request("/ask", { headers: authHeaders });
+      const doc = parseHtml(await res.text());
+
+      expect(res.status).toBe(200);
+      expect(doc.querySelector("form.library-ask-form")).toBeTruthy();
+      expect(doc.querySelector("#library-answer .empty-state")).toBeTruthy();
+    });
+
+    it("should answer with citations linking into the reader", async () => {
+      await createSubscription(db, testUserId, { type: "lite" });
+      const article = await createCompletedArticle(db, testUserId, {
+        title: "Lighthouses",
+      });
+      await indexArticleContent(article.id, ARTICLE_HTML);
+
+      const res = await app.request(
+        `/ask?q=${encodeURIComponent("What did lighthouse keepers do?")}`,
+        { headers: authHeaders },
+      );
+      const doc = parseHtml(await res.text());
+
+      expect(res.status).toBe(200);
+      expect(doc.querySelector(".library-answer-text")?.textContent).toBe(
+        "Lighthouse keepers trimmed the wicks every night. [1]",
+      );
+      expect(
+        doc.querySelector(".library-citation-marker")?.getAttribute("href"),
+      ).toBe("#citation-1");
+      const source = doc.querySelector("#citation-1 a");
+      expect(source?.getAttribute("href")).toBe(
+        `/articles/${article.id}?element=1`,
+      );
+      expect(source?.textContent).toBe("Lighthouses");
+    });
+
+    it("should return only the answer for HTMX requests", async () => {
+      await createSubscription(db, testUserId, { type: "lite" });
+
+      const res = await app.request("/ask?q=sourdough", {
+        headers: {
+          ...authHeaders,
+          "HX-Request": "true",
+          "HX-Target": "library-answer",
+        },
+      });
+      const html = await res.text();
+
+      expect(html).not.toContain("<html");
+      expect(parseHtml(html).querySelector(".empty-state")?.textContent).toBe(
+        'No saved articles match "sourdough"',
+      );
+    });
+
+    it("should not answer without a subscription", async () => {
+      const answerFromSources = spyOn(
+        llm.FakeLLMProvider.prototype,
+        "answerFromSources",
+      );
+
+      const res = await app.request("/ask?q=lighthouse", {
+        headers: authHeaders,
+      });
+      const doc = parseHtml(await res.text());
+
+      expect(res.status).toBe(200);
+      expect(doc.querySelector("form.library-ask-form")).toBeNull();
+      expect(doc.querySelector(".empty-state")?.textContent).toContain(
+        "requires a subscription",
+      );
+      expect(answerFromSources).not.toHaveBeenCalled();
+      answerFromSources.mockRestore();
+    });
+  });
+});
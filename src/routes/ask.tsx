@@ -0,0 +1,60 @@
+import { Hono } from "hono";
+import { z } from "zod";
+import {
+  LibraryAnswerView,
+  LibraryAskPage,
+} from "../components/LibraryAskPage";
+import { isLLMAvailable } from "../lib/llm";
+import { validator } from "../lib/validator";
+import { requireAuth } from "../middleware/auth";
+import { answerFromLibrary } from "../services/library-qa.service";
+import { getAllowedFeaturesForUser } from "../services/subscription.service";
+import type { AppContext } from "../types/context";
+import { renderWithLayout } from "./utils/render";
+
+const askRouter = new Hono<AppContext>();
+
+/**
+ * GET /ask - Answer a question from the user's saved articles, with citations
+ */
+askRouter.get(
+  "/ask",
+  requireAuth("redirect"),
+  validator(
+    "query",
+    z.object({
+      q: z.string().trim().max(2000, "Question too long").optional(),
+    }),
+  ),
+  async (c) => {
+    const userId = c.get("userId");
+    const { q: question } = c.req.valid("query");
+
+    const features = await getAllowedFeaturesForUser(userId);
+    const available = features.ask && isLLMAvailable();
+
+    const result =
+      available && question ? await answerFromLibrary(userId, question) : null;
+
+    // HTMX partial response for the answer
+    if (
+      c.req.header("hx-request") === "true" &&
+      c.req.header("hx-target") === "library-answer"
+    ) {
+      return c.html(<LibraryAnswerView question={question} result={result} />);
+    }
+
+    return renderWithLayout({
+      c,
+      content: (
+        <LibraryAskPage
+          question={question}
+          result={result}
+          available={available}
+        />
+      ),
+    });
+  },
+);
+
+export default askRouter;
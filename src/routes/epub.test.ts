@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from "bun:test";
+import { randomUUID } from "node:crypto";
+import type { Hono } from "hono";
+import { db, resetDatabase } from "../../test/bootstrap";
+import {
+  createAuthHeaders,
+  createCompletedArticle,
+  createUser,
+} from "../../test/fixtures";
+import { createApp } from "../app";
+import { contentCache } from "../lib/content-cache";
+import type { AppContext } from "../types/context";
+
+describe("routes/epub", () => {
+  let app: Hono<AppContext>;
+  let testUserId: string;
+  let authHeaders: HeadersInit;
+  let spyGet: ReturnType<typeof spyOn<typeof contentCache, "get">>;
+
+  beforeEach(async () => {
+    resetDatabase();
+    spyGet = spyOn(contentCache, "get").mockResolvedValue("<p>Content</p>");
+
+    const user = await createUser(db);
+    testUserId = user.id;
+    authHeaders = createAuthHeaders(testUserId);
+
+    app = createApp();
+  });
+
+  afterEach(() => {
+    spyGet.mockRestore();
+  });
+
+  describe("GET /articles/:id/epub", () => {
+    it("should redirect to login when not authenticated", async () => {
+      const article = await createCompletedArticle(db, testUserId);
+
+      const res = await app.request(`/articles/${article.id}/epub`);
+
+      expect(res.status).toBe(302);
+    });
+
+    it("should download the article as EPUB", async () => {
+      const article = await createCompletedArticle(db, testUserId, {
+        title: "Привет мир",
+      });
+
+      const res = await app.request(`/articles/${article.id}/epub`, {
+        headers: authHeaders,
+      });
+      const body = new Uint8Array(await res.arrayBuffer());
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get("Content-Type")).toBe("application/epub+zip");
+      expect(res.headers.get("Content-Disposition")).toBe(
+        `attachment; filename*=UTF-8''${encodeURIComponent("привет-мир.epub")}`,
+      );
+      expect(res.headers.get("Content-Length")).toBe(String(body.length));
+    });
+
+    it("should return 404 for a missing article", async () => {
+      const res = await app.request(`/articles/${randomUUID()}/epub`, {
+        headers: authHeaders,
+      });
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe("GET /epub", () => {
+    it("should download unread articles as EPUB", async () => {
+      await createCompletedArticle(db, testUserId);
+
+      const res = await app.request("/epub", { headers: authHeaders });
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get("Content-Type")).toBe("application/epub+zip");
+    });
+
+    it("should return 400 when there are no unread articles", async () => {
+      const res = await app.request("/epub?tag=rust", { headers: authHeaders });
+
+      expect(res.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { Hono } from "hono";
+import { z } from "zod";
+import { validator } from "../lib/validator";
+import { requireAuth } from "../middleware/auth";
+import { articleIdParam, tagFilterQuery } from "../schemas/common";
+import {
+  createArticleEpub,
+  createDigestEpub,
+  type EpubFile,
+} from "../services/epub.service";
+import type { AppContext } from "../types/context";
+
+const epubRouter = new Hono<AppContext>();
+
+function epubResponse(file: EpubFile): Response {
+  return new Response(file.data, {
+    headers: {
+      "Content-Type": "application/epub+zip",
+      "Content-Length": String(file.data.length),
+      "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(file.filename)}`,
+    },
+  });
+}
+
+/**
+ * GET /articles/:id/epub - Download an article as EPUB
+ */
+epubRouter.get(
+  "/articles/:id/epub",
+  requireAuth("redirect"),
+  validator("param", articleIdParam),
+  async (c) => {
+    const userId = c.get("userId");
+    const { id } = c.req.valid("param");
+
+    const file = await createArticleEpub(userId, id);
+
+    return epubResponse(file);
+  },
+);
+
+/**
+ * GET /epub - Download unread articles as EPUB, filtered like the list
+ */
+epubRouter.get(
+  "/epub",
+  requireAuth("redirect"),
+  validator("query", z.object(tagFilterQuery)),
+  async (c) => {
+    const userId = c.get("userId");
+    const { tag, match } = c.req.valid("query");
+
+    const file = await createDigestEpub(userId, { tags: tag, tagMode: match });
+    c.var.logger.info("Created EPUB digest", {
+      userId,
+      articles: file.articleCount,
+    });
+
+    return epubResponse(file);
+  },
+);
+
+export default epubRouter;
@@ -0,0 +1,162 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { rm } from "node:fs/promises";
+import { join } from "node:path";
+import type { Hono } from "hono";
+import { db, resetDatabase } from "../../test/bootstrap";
+import {
+  createAuthHeaders,
+  createCompletedArticle,
+  createUser,
+  parseHtml,
+} from "../../test/fixtures";
+import { createApp } from "../app";
+import { accountExports } from "../db/schema";
+import type { AccountExport } from "../db/types";
+import { config } from "../lib/config";
+import { buildExport, getLatestExport } from "../services/export.service";
+import type { AppContext } from "../types/context";
+
+describe("routes/export", () => {
+  let app: Hono<AppContext>;
+  let testUserId: string;
+  let authHeaders: HeadersInit;
+  let exportIds: string[];
+
+  beforeEach(async () => {
+    resetDatabase();
+    exportIds = [];
+
+    const user = await createUser(db);
+    testUserId = user.id;
+    authHeaders = createAuthHeaders(testUserId);
+
+    app = createApp();
+  });
+
+  afterEach(async () => {
+    for (const id of exportIds) {
+      await rm(join(config.EXPORT_DIR, `${id}.zip`), { force: true });
+    }
+  });
+
+  async function createCompletedExport(userId: string): Promise<AccountExport> {
+    const [accountExport] = await db
+      .insert(accountExports)
+      .values({ userId })
+      .returning();
+    if (!accountExport) throw new Error("Failed to insert export");
+
+    exportIds.push(accountExport.id);
+    await buildExport(accountExport);
+    return accountExport;
+  }
+
+  describe("GET /export", () => {
+    it("should redirect to login when not authenticated", async () => {
+      const res = await app.request("/export");
+
+      expect(res.status).toBe(302);
+      expect(res.headers.get("Location")).toBe("/login?back=%2Fexport");
+    });
+
+    it("should offer to create an export", async () => {
+      const res = await app.request("/export", { headers: authHeaders });
+      const doc = parseHtml(await res.text());
+
+      expect(res.status).toBe(200);
+      expect(
+        doc.querySelector("#account-export button")?.getAttribute("hx-post"),
+      ).toBe("/api/exports");
+      expect(doc.querySelector(".export-download")).toBeNull();
+    });
+
+    it("should link to the latest completed export", async () => {
+      const accountExport = await createCompletedExport(testUserId);
+
+      const res = await app.request("/export", { headers: authHeaders });
+      const doc = parseHtml(await res.text());
+
+      expect(doc.querySelector(".export-download")?.getAttribute("href")).toBe(
+        `/exports/${accountExport.id}/download`,
+      );
+    });
+  });
+
+  describe("POST /api/exports", () => {
+    it("should return 401 when not authenticated", async () => {
+      const res = await app.request("/api/exports", { method: "POST" });
+
+      expect(res.status).toBe(401);
+    });
+
+    it("should start an export and poll its status", async () => {
+      const res = await app.request("/api/exports", {
+        method: "POST",
+        headers: authHeaders,
+      });
+      const doc = parseHtml(await res.text());
+
+      const latest = await getLatestExport(testUserId);
+      if (latest) exportIds.push(latest.id);
+
+      expect(res.status).toBe(200);
+      expect(latest).toBeDefined();
+      expect(doc.querySelector("#account-export")?.getAttribute("hx-get")).toBe(
+        "/api/exports/latest",
+      );
+
+      while ((await getLatestExport(testUserId))?.status === "pending") {
+        await Bun.sleep(10);
+      }
+
+      const poll = await app.request("/api/exports/latest", {
+        headers: authHeaders,
+      });
+      const polled = parseHtml(await poll.text());
+
+      expect(
+        polled.querySelector("#account-export")?.getAttribute("hx-get"),
+      ).toBeNull();
+      expect(polled.querySelector(".export-download")).toBeTruthy();
+    });
+  });
+
+  describe("GET /exports/:id/download", () => {
+    it("should download the zip", async () => {
+      await createCompletedArticle(db, testUserId);
+      const accountExport = await createCompletedExport(testUserId);
+
+      const res = await app.request(`/exports/${accountExport.id}/download`, {
+        headers: authHeaders,
+      });
+      const body = new Uint8Array(await res.arrayBuffer());
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get("Content-Type")).toBe("application/zip");
+      expect(res.headers.get("Content-Disposition")).toBe(
+        `attachment; filename="lateread-export-${accountExport.createdAt.toISOString().slice(0, 10)}.zip"`,
+      );
+      // Local file header signature
+      expect([...body.subarray(0, 4)]).toEqual([0x50, 0x4b, 0x03, 0x04]);
+    });
+
+    it("should return 404 for exports of other users", async () => {
+      const other = await createUser(db);
+      const accountExport = await createCompletedExport(other.id);
+
+      const res = await app.request(`/exports/${accountExport.id}/download`, {
+        headers: authHeaders,
+      });
+
+      expect(res.status).toBe(404);
+    });
+
+    it("should return 400 for an invalid id", async () => {
+      const res = await app.request("/exports/not-a-uuid/download", {
+        headers: authHeaders,
+      });
+
+      expect(res.status).toBe(400);
+    });
+  });
+});
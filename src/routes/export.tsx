@@ -0,0 +1,74 @@
+import { Hono } from "hono";
+import { AccountExportStatus, ExportPage } from "../components/ExportPage";
+import { validator } from "../lib/validator";
+import { requireAuth } from "../middleware/auth";
+import { exportIdParam } from "../schemas/common";
+import {
+  getExportFile,
+  getLatestExport,
+  requestExport,
+} from "../services/export.service";
+import type { AppContext } from "../types/context";
+import { renderWithLayout } from "./utils/render";
+
+const exportRouter = new Hono<AppContext>();
+
+/**
+ * GET /export - Export all articles of the account
+ */
+exportRouter.get("/export", requireAuth("redirect"), async (c) => {
+  const userId = c.get("userId");
+
+  const latest = await getLatestExport(userId);
+
+  return renderWithLayout({ c, content: <ExportPage latest={latest} /> });
+});
+
+/**
+ * POST /api/exports - Start an export in the background
+ */
+exportRouter.post("/api/exports", requireAuth("json-401"), async (c) => {
+  const userId = c.get("userId");
+
+  c.var.logger.info("Starting account export", { userId });
+  const latest = await requestExport(userId);
+
+  return c.html(<AccountExportStatus latest={latest} />);
+});
+
+/**
+ * GET /api/exports/latest - Status of the latest export, polled while pending
+ */
+exportRouter.get("/api/exports/latest", requireAuth("json-401"), async (c) => {
+  const userId = c.get("userId");
+
+  const latest = await getLatestExport(userId);
+
+  return c.html(<AccountExportStatus latest={latest} />);
+});
+
+/**
+ * GET /exports/:id/download - Download a completed export
+ */
+exportRouter.get(
+  "/exports/:id/download",
+  requireAuth("redirect"),
+  validator("param", exportIdParam),
+  async (c) => {
+    const userId = c.get("userId");
+    const { id } = c.req.valid("param");
+
+    const { accountExport, file } = await getExportFile(id, userId);
+    const date = accountExport.createdAt.toISOString().slice(0, 10);
+
+    return new Response(file.stream(), {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Length": String(file.size),
+        "Content-Disposition": `attachment; filename="lateread-export-${date}.zip"`,
+      },
+    });
+  },
+);
+
+export default exportRouter;
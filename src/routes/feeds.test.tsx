@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from "bun:test";
+import type { Hono } from "hono";
+import { db, resetDatabase } from "../../test/bootstrap";
+import {
+  createAuthHeaders,
+  createFeed,
+  createUser,
+  parseHtml,
+} from "../../test/fixtures";
+import { createApp } from "../app";
+import { feeds } from "../db/schema";
+import * as safeFetchModule from "../lib/safe-fetch";
+import type { AppContext } from "../types/context";
+
+const RSS =
+  '<rss version="2.0"><channel><title>Example Blog</title>' +
+  "<item><link>https://example.com/1</link></item></channel></rss>";
+
+describe("routes/feeds", () => {
+  let app: Hono<AppContext>;
+  let testUserId: string;
+  let authHeaders: HeadersInit;
+  let spySafeFetch: ReturnType<
+    typeof spyOn<typeof safeFetchModule, "safeFetch">
+  >;
+
+  beforeEach(async () => {
+    resetDatabase();
+    spySafeFetch = spyOn(safeFetchModule, "safeFetch");
+
+    const user = await createUser(db);
+    testUserId = user.id;
+    authHeaders = createAuthHeaders(testUserId);
+
+    app = createApp();
+  });
+
+  afterEach(() => {
+    spySafeFetch.mockRestore();
+  });
+
+  function subscribe(url: string) {
+    const formData = new FormData();
+    formData.append("url", url);
+    formData.append("includeKeywords", "");
+    formData.append("excludeKeywords", "");
+
+    return app.request("/feeds", {
+      method: "POST",
+      headers: authHeaders,
+      body: formData,
+    });
+  }
+
+  describe("GET /feeds", () => {
+    it("should redirect to login when not authenticated", async () => {
+      const res = await app.request("/feeds");
+
+      expect(res.status).toBe(302);
+      expect(res.headers.get("Location")).toBe("/login?back=%2Ffeeds");
+    });
+
+    it("should list the feeds of the user", async () => {
+      const feed = await createFeed(db, testUserId, {
+        title: "Example Blog",
+        lastError: "HTTP error: 500",
+      });
+      const other = await createUser(db);
+      await createFeed(db, other.id, { title: "Someone else's" });
+
+      const res = await app.request("/feeds", { headers: authHeaders });
+      const doc = parseHtml(await res.text());
+
+      expect(res.status).toBe(200);
+      expect(doc.querySelectorAll(".feed-item")).toHaveLength(1);
+      expect(
+        doc.querySelector(`#feed-${feed.id} .feed-error`)?.textContent,
+      ).toContain("HTTP error: 500");
+    });
+  });
+
+  describe("POST /feeds", () => {
+    it("should subscribe and list the feed", async () => {
+      spySafeFetch.mockResolvedValue(new Response(RSS));
+
+      const res = await subscribe("https://example.com/feed.xml");
+      const doc = parseHtml(await res.text());
+
+      expect(res.status).toBe(200);
+      expect(doc.querySelector(".feed-subscribed")?.textContent).toContain(
+        "Example Blog",
+      );
+      expect(doc.querySelectorAll(".feed-item")).toHaveLength(1);
+    });
+
+    it("should show why a feed can't be subscribed to", async () => {
+      spySafeFetch.mockResolvedValue(new Response("<html></html>"));
+
+      const res = await subscribe("https://example.com/");
+      const doc = parseHtml(await res.text());
+
+      expect(res.status).toBe(400);
+      expect(doc.querySelector(".feed-error")?.textContent).toBe(
+        "Not an RSS, Atom or JSON feed",
+      );
+      expect(await db.select().from(feeds)).toHaveLength(0);
+    });
+
+    it("should return 400 for an invalid address", async () => {
+      const res = await subscribe("not a url");
+
+      expect(res.status).toBe(400);
+      expect(spySafeFetch).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { Hono } from "hono";
+import { z } from "zod";
+import { FeedsPage } from "../components/FeedsPage";
+import { ValidationError } from "../lib/errors";
+import { validator } from "../lib/validator";
+import { requireAuth } from "../middleware/auth";
+import { getUserFeeds, subscribeToFeed } from "../services/feeds.service";
+import type { AppContext } from "../types/context";
+import { renderWithLayout } from "./utils/render";
+
+const feedsRouter = new Hono<AppContext>();
+
+/**
+ * GET /feeds - Feed subscriptions
+ */
+feedsRouter.get("/feeds", requireAuth("redirect"), async (c) => {
+  const userId = c.get("userId");
+
+  const feeds = await getUserFeeds(userId);
+
+  return renderWithLayout({ c, content: <FeedsPage feeds={feeds} /> });
+});
+
+/**
+ * POST /feeds - Subscribe to a feed, or the feed of a web page
+ */
+feedsRouter.post(
+  "/feeds",
+  requireAuth("redirect"),
+  validator(
+    "form",
+    z.object({
+      url: z.string().trim().url("Enter a valid feed address"),
+      includeKeywords: z.string().max(500).default(""),
+      excludeKeywords: z.string().max(500).default(""),
+    }),
+  ),
+  async (c) => {
+    const userId = c.get("userId");
+    const { url, ...filters } = c.req.valid("form");
+
+    c.var.logger.info("Subscribing to feed", { userId, url });
+
+    try {
+      const feed = await subscribeToFeed(userId, url, filters);
+      const feeds = await getUserFeeds(userId);
+
+      return renderWithLayout({
+        c,
+        content: <FeedsPage feeds={feeds} subscribed={feed.title} />,
+      });
+    } catch (error) {
+      if (!(error instanceof ValidationError)) {
+        throw error;
+      }
+
+      const feeds = await getUserFeeds(userId);
+      return renderWithLayout({
+        c,
+        content: <FeedsPage feeds={feeds} error={error.message} />,
+        statusCode: 400,
+      });
+    }
+  },
+);
+
+export default feedsRouter;
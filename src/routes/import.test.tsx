@@ -0,0 +1,107 @@
+import { beforeEach, describe, expect, it } from "bun:test";
+import type { Hono } from "hono";
+import { db, queue, resetDatabase } from "../../test/bootstrap";
+import { createAuthHeaders, createUser, parseHtml } from "../../test/fixtures";
+import { createApp } from "../app";
+import { articles } from "../db/schema";
+import type { AppContext } from "../types/context";
+
+const POCKET_CSV =
+  "title,url,time_added,tags,status\n" +
+  "First,https://example.com/first,1600000000,rust,unread\n" +
+  "Second,https://example.com/second,1600000000,,archive\n";
+
+describe("routes/import", () => {
+  let app: Hono<AppContext>;
+  let testUserId: string;
+  let authHeaders: HeadersInit;
+
+  beforeEach(async () => {
+    resetDatabase();
+
+    const user = await createUser(db);
+    testUserId = user.id;
+    authHeaders = createAuthHeaders(testUserId);
+
+    app = createApp();
+  });
+
+  function upload(content: string, name = "export.csv") {
+    const formData = new FormData();
+    formData.append("file", new File([content], name));
+
+    return app.request("/import", {
+      method: "POST",
+      headers: authHeaders,
+      body: formData,
+    });
+  }
+
+  describe("GET /import", () => {
+    it("should redirect to login when not authenticated", async () => {
+      const res = await app.request("/import");
+
+      expect(res.status).toBe(302);
+      expect(res.headers.get("Location")).toBe("/login?back=%2Fimport");
+    });
+
+    it("should render the upload form", async () => {
+      const res = await app.request("/import", { headers: authHeaders });
+      const doc = parseHtml(await res.text());
+
+      expect(res.status).toBe(200);
+      expect(
+        doc.querySelector("form.import-form input[type=file]"),
+      ).toBeTruthy();
+      expect(doc.querySelector(".import-waiting")).toBeNull();
+    });
+  });
+
+  describe("POST /import", () => {
+    it("should import the file and report the result", async () => {
+      const res = await upload(POCKET_CSV);
+      const doc = parseHtml(await res.text());
+
+      expect(res.status).toBe(200);
+      expect(doc.querySelector(".import-result")?.textContent).toContain(
+        "Imported 2 articles from Pocket",
+      );
+      expect(doc.querySelector(".import-waiting")?.textContent).toContain(
+        "2 imported articles are waiting",
+      );
+      expect(await db.select().from(articles)).toHaveLength(2);
+      expect(queue.addArticleJob).not.toHaveBeenCalled();
+    });
+
+    it("should mention links that were already saved", async () => {
+      await upload(POCKET_CSV);
+
+      const res = await upload(POCKET_CSV);
+      const doc = parseHtml(await res.text());
+
+      expect(doc.querySelector(".import-result")?.textContent).toContain(
+        "Skipped 2 links already saved",
+      );
+    });
+
+    it("should show an error for unknown files", async () => {
+      const res = await upload("name,email\nx,y");
+      const doc = parseHtml(await res.text());
+
+      expect(res.status).toBe(400);
+      expect(doc.querySelector(".import-error")?.textContent).toContain(
+        "Unrecognized file",
+      );
+    });
+
+    it("should require a file", async () => {
+      const res = await app.request("/import", {
+        method: "POST",
+        headers: authHeaders,
+        body: new FormData(),
+      });
+
+      expect(res.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { Hono } from "hono";
+import { z } from "zod";
+import { ImportPage } from "../components/ImportPage";
+import { parseImportFile } from "../lib/bookmark-import";
+import { ValidationError } from "../lib/errors";
+import { validator } from "../lib/validator";
+import { requireAuth } from "../middleware/auth";
+import {
+  countWaitingImports,
+  importBookmarks,
+} from "../services/import.service";
+import type { AppContext } from "../types/context";
+import { renderWithLayout } from "./utils/render";
+
+const MAX_IMPORT_FILE_SIZE = 50 * 1024 * 1024;
+
+const importRouter = new Hono<AppContext>();
+
+/**
+ * GET /import - Import links from other read-later apps and browsers
+ */
+importRouter.get("/import", requireAuth("redirect"), async (c) => {
+  const userId = c.get("userId");
+
+  const waiting = await countWaitingImports(userId);
+
+  return renderWithLayout({ c, content: <ImportPage waiting={waiting} /> });
+});
+
+/**
+ * POST /import - Import an export file
+ */
+importRouter.post(
+  "/import",
+  requireAuth("redirect"),
+  validator(
+    "form",
+    z.object({
+      file: z
+        .instanceof(File, { message: "Choose a file to import" })
+        .refine((file) => file.size <= MAX_IMPORT_FILE_SIZE, "File too large"),
+    }),
+  ),
+  async (c) => {
+    const userId = c.get("userId");
+    const { file } = c.req.valid("form");
+
+    c.var.logger.info("Importing bookmarks", {
+      userId,
+      fileName: file.name,
+      size: file.size,
+    });
+
+    try {
+      const parsed = parseImportFile(await file.text());
+      const result = await importBookmarks(userId, parsed);
+      const waiting = await countWaitingImports(userId);
+
+      return renderWithLayout({
+        c,
+        content: (
+          <ImportPage
+            waiting={waiting}
+            result={{ ...result, source: parsed.source }}
+          />
+        ),
+      });
+    } catch (error) {
+      if (!(error instanceof ValidationError)) {
+        throw error;
+      }
+
+      const waiting = await countWaitingImports(userId);
+      return renderWithLayout({
+        c,
+        content: <ImportPage waiting={waiting} error={error.message} />,
+        statusCode: 400,
+      });
+    }
+  },
+);
+
+export default importRouter;
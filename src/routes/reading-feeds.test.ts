@@ -0,0 +1,92 @@
+import { beforeEach, describe, expect, it } from "bun:test";
+import type { Hono } from "hono";
+import { db, resetDatabase } from "../../test/bootstrap";
+import {
+  addTagToArticle,
+  createCompletedArticle,
+  createTag,
+  createUser,
+} from "../../test/fixtures";
+import { createApp } from "../app";
+import { parseFeed } from "../lib/feed-parser";
+import {
+  getFeedToken,
+  resetFeedToken,
+} from "../services/reading-feeds.service";
+import type { AppContext } from "../types/context";
+
+describe("routes/reading-feeds", () => {
+  let app: Hono<AppContext>;
+  let testUserId: string;
+  let token: string;
+
+  beforeEach(async () => {
+    resetDatabase();
+
+    const user = await createUser(db);
+    testUserId = user.id;
+    token = await getFeedToken(testUserId);
+
+    app = createApp();
+  });
+
+  describe("GET /feeds/:token/unread.xml", () => {
+    it("should return an Atom feed without a session", async () => {
+      const article = await createCompletedArticle(db, testUserId);
+
+      const res = await app.request(`/feeds/${token}/unread.xml`);
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get("Content-Type")).toBe(
+        "application/atom+xml; charset=utf-8",
+      );
+      const feed = parseFeed(await res.text(), "https://lateread.app/");
+      expect(feed.entries.map((entry) => entry.url)).toEqual([article.url]);
+    });
+
+    it("should return 404 for an unknown or reset token", async () => {
+      const old = token;
+      await resetFeedToken(testUserId);
+
+      const res = await app.request(`/feeds/${old}/unread.xml`);
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe("GET /feeds/:token/liked.xml", () => {
+    it("should return liked articles", async () => {
+      await createCompletedArticle(db, testUserId, {
+        title: "Liked",
+        archived: true,
+        rating: 1,
+      });
+
+      const res = await app.request(`/feeds/${token}/liked.xml`);
+      const feed = parseFeed(await res.text(), "https://lateread.app/");
+
+      expect(res.status).toBe(200);
+      expect(feed.entries.map((entry) => entry.title)).toEqual(["Liked"]);
+    });
+  });
+
+  describe("GET /feeds/:token/tag/:name.xml", () => {
+    it("should return articles with the tag, case-insensitively", async () => {
+      const article = await createCompletedArticle(db, testUserId, {
+        title: "Tagged",
+      });
+      await createCompletedArticle(db, testUserId, { title: "Untagged" });
+      const tag = await createTag(db, testUserId, "machine learning");
+      await addTagToArticle(db, article.id, tag.id);
+
+      const res = await app.request(
+        `/feeds/${token}/tag/Machine%20Learning.xml`,
+      );
+      const feed = parseFeed(await res.text(), "https://lateread.app/");
+
+      expect(res.status).toBe(200);
+      expect(feed.title).toBe("lateread: machine learning");
+      expect(feed.entries.map((entry) => entry.title)).toEqual(["Tagged"]);
+    });
+  });
+});
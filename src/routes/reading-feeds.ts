@@ -0,0 +1,75 @@
+import { type Context, Hono } from "hono";
+import { z } from "zod";
+import { NotFoundError } from "../lib/errors";
+import { validator } from "../lib/validator";
+import {
+  buildReadingFeed,
+  getUserIdByFeedToken,
+  type ReadingFeed,
+} from "../services/reading-feeds.service";
+import type { AppContext } from "../types/context";
+
+const readingFeedsRouter = new Hono<AppContext>();
+
+// The token is the only credential, feed readers can't log in
+const tokenParam = z.object({
+  token: z.string().regex(/^[\w-]{16,64}$/, "Invalid feed token"),
+});
+
+async function feedResponse(
+  c: Context<AppContext>,
+  token: string,
+  feed: ReadingFeed,
+): Promise<Response> {
+  const userId = await getUserIdByFeedToken(token);
+  if (!userId) {
+    throw new NotFoundError("Feed");
+  }
+
+  const xml = await buildReadingFeed(userId, token, feed);
+
+  return c.body(xml, 200, {
+    "Content-Type": "application/atom+xml; charset=utf-8",
+    "Cache-Control": "private, max-age=300",
+  });
+}
+
+/**
+ * GET /feeds/:token/unread.xml - Atom feed of unread articles
+ */
+readingFeedsRouter.get(
+  "/feeds/:token/unread.xml",
+  validator("param", tokenParam),
+  (c) => feedResponse(c, c.req.valid("param").token, { type: "unread" }),
+);
+
+/**
+ * GET /feeds/:token/liked.xml - Atom feed of liked articles
+ */
+readingFeedsRouter.get(
+  "/feeds/:token/liked.xml",
+  validator("param", tokenParam),
+  (c) => feedResponse(c, c.req.valid("param").token, { type: "liked" }),
+);
+
+/**
+ * GET /feeds/:token/tag/:name.xml - Atom feed of articles with a tag
+ */
+readingFeedsRouter.get(
+  "/feeds/:token/tag/:file{.+\\.xml}",
+  validator(
+    "param",
+    tokenParam.extend({
+      file: z
+        .string()
+        .transform((file) => file.slice(0, -".xml".length).trim().toLowerCase())
+        .pipe(z.string().min(1, "Tag name is required").max(100)),
+    }),
+  ),
+  (c) => {
+    const { token, file: tag } = c.req.valid("param");
+    return feedResponse(c, token, { type: "tag", tag });
+  },
+);
+
+export default readingFeedsRouter;
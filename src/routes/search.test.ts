@@ -10,6 +10,7 @@ import {
 } from "../../test/fixtures";
 import { createApp } from "../app";
 import { articleTags } from "../db/schema";
+import { indexArticleContent } from "../services/search-index.service";
 import type { AppContext } from "../types/context";
 
 describe("routes/search", () => {
@@ -54,6 +55,22 @@ describe("routes/search", () => {
       expect(html).not.toContain("No articles found");
     });
 
+    it("should render the search syntax cheat-sheet", async () => {
+      const res = await app.request("/search", {
+        headers: authHeaders,
+      });
+
+      const doc = parseHtml(await res.text());
+      const syntax = doc.querySelector(
+        "form.search-form details.search-syntax",
+      );
+
+      expect(syntax).toBeTruthy();
+      expect(syntax?.textContent).toContain("tag:rust");
+      expect(syntax?.textContent).toContain("site:nytimes.com");
+      expect(syntax?.textContent).toContain("before:2026-01-01");
+    });
+
     it("should render search page with results when query matches articles", async () => {
       // Create articles with specific content
       const _article1 = await createCompletedArticle(db, testUserId, {
@@ -590,5 +607,75 @@ describe("routes/search", () => {
       // Should show completed article
       expect(html).toContain("Completed TypeScript Guide");
     });
+
+    it("should find articles by indexed content with a highlighted snippet", async () => {
+      const article = await createCompletedArticle(db, testUserId, {
+        title: "Weekend Reading",
+      });
+      await indexArticleContent(
+        article.id,
+        "An essay about <b>tidal</b> energy and coastal grids",
+      );
+
+      const res = await app.request("/search?q=tidal", {
+        headers: authHeaders,
+      });
+
+      expect(res.status).toBe(200);
+
+      const doc = parseHtml(await res.text());
+      const snippet = doc.querySelector(".search-snippet");
+      expect(snippet?.querySelector("mark")?.textContent).toBe("tidal");
+      expect(snippet?.querySelector("b")).toBeNull();
+      expect(snippet?.textContent).toContain("energy and coastal grids");
+    });
+
+    it("should link to the next page of ranked results", async () => {
+      for (let i = 0; i < 21; i++) {
+        await createCompletedArticle(db, testUserId, { title: `Paged ${i}` });
+      }
+
+      const res = await app.request("/search?q=paged", {
+        headers: authHeaders,
+      });
+
+      const doc = parseHtml(await res.text());
+      expect(doc.querySelectorAll(".article-card")).toHaveLength(20);
+      expect(
+        doc.querySelector(".load-more-trigger")?.getAttribute("hx-get"),
+      ).toBe("/search?cursor=20&q=paged");
+
+      const next = await app.request("/search?q=paged&cursor=20", {
+        headers: { ...authHeaders, "HX-Request": "true" },
+      });
+
+      const nextDoc = parseHtml(await next.text());
+      expect(nextDoc.querySelectorAll(".article-card")).toHaveLength(1);
+    });
+
+    it("should apply query language filters", async () => {
+      const tag = await createTag(db, testUserId, "rust");
+      const tagged = await createCompletedArticle(db, testUserId, {
+        title: "Ownership in Rust",
+      });
+      await db
+        .insert(articleTags)
+        .values({ articleId: tagged.id, tagId: tag.id });
+      await createCompletedArticle(db, testUserId, {
+        title: "Rust belt history",
+        url: "https://history.example.org/rust",
+      });
+
+      const res = await app.request(
+        `/search?q=${encodeURIComponent("tag:rust -site:history.example.org")}`,
+        { headers: authHeaders },
+      );
+
+      expect(res.status).toBe(200);
+
+      const html = await res.text();
+      expect(html).toContain("Ownership in Rust");
+      expect(html).not.toContain("Rust belt history");
+    });
   });
 });
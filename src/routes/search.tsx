@@ -4,14 +4,14 @@ import { ArticleCards } from "../components/ArticleCards";
 import { SearchPage, SearchResults } from "../components/SearchPage";
 import { validator } from "../lib/validator";
 import { requireAuth } from "../middleware/auth";
-import { getArticlesWithTags } from "../services/articles.service";
+import { searchArticles } from "../services/articles.service";
 import type { AppContext } from "../types/context";
 import { renderWithLayout } from "./utils/render";
 
 const searchRouter = new Hono<AppContext>();
 
 /**
- * GET /search - Search all articles
+ * GET /search - Full-text search across all articles, ranked by relevance
  */
 searchRouter.get(
   "/search",
@@ -20,15 +20,20 @@ searchRouter.get(
     "query",
     z.object({
       q: z.string().trim().max(500, "Search query too long").optional(),
+      mode: z
+        .enum(["keyword", "semantic"], {
+          message: "Mode must be 'keyword' or 'semantic'",
+        })
+        .default("keyword"),
       cursor: z.string().optional(),
     }),
   ),
   async (c) => {
     const userId = c.get("userId");
-    const { q: query, cursor } = c.req.valid("query");
+    const { q: query, mode, cursor } = c.req.valid("query");
 
     const result = query
-      ? await getArticlesWithTags(userId, { query, cursor })
+      ? await searchArticles(userId, query, { cursor, mode })
       : { articles: [], nextCursor: null, hasMore: false };
 
     // HTMX partial response for pagination (load more)
@@ -39,6 +44,7 @@ searchRouter.get(
           nextCursor={result.nextCursor}
           basePath="/search"
           searchQuery={query}
+          searchMode={mode}
         />,
       );
     }
@@ -52,6 +58,7 @@ searchRouter.get(
         <SearchResults
           articles={result.articles}
           query={query}
+          mode={mode}
           nextCursor={result.nextCursor}
         />,
       );
@@ -62,6 +69,7 @@ searchRouter.get(
       content: (
         <SearchPage
           query={query}
+          mode={mode}
           articles={result.articles}
           nextCursor={result.nextCursor}
         />
@@ -0,0 +1,233 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import type { Hono } from "hono";
+import { db, resetDatabase } from "../../test/bootstrap";
+import {
+  createAuthHeaders,
+  createTag,
+  createUser,
+  parseHtml,
+} from "../../test/fixtures";
+import { createApp } from "../app";
+import { tagSuggestions } from "../db/schema";
+import { config } from "../lib/config";
+import { createApiToken } from "../services/api-tokens.service";
+import { getInboundEmailAddress } from "../services/inbound-email.service";
+import {
+  updateDeliveryPreferences,
+  updateDigestPreferences,
+} from "../services/preferences.service";
+import { getFeedToken } from "../services/reading-feeds.service";
+import type { AppContext } from "../types/context";
+
+describe("routes/settings", () => {
+  let app: Hono<AppContext>;
+  let testUserId: string;
+  let authHeaders: HeadersInit;
+
+  beforeEach(async () => {
+    resetDatabase();
+
+    const user = await createUser(db);
+    testUserId = user.id;
+    authHeaders = createAuthHeaders(testUserId);
+
+    app = createApp();
+  });
+
+  describe("GET /settings", () => {
+    it("should redirect to login when not authenticated", async () => {
+      const res = await app.request("/settings");
+
+      expect(res.status).toBe(302);
+      expect(res.headers.get("Location")).toBe("/login?back=%2Fsettings");
+    });
+
+    it("should list the user's API tokens without exposing them", async () => {
+      const { token } = await createApiToken(testUserId, "laptop");
+      const otherUser = await createUser(db);
+      await createApiToken(otherUser.id, "someone else");
+
+      const res = await app.request("/settings", { headers: authHeaders });
+      const html = await res.text();
+      const doc = parseHtml(html);
+
+      expect(res.status).toBe(200);
+      expect(doc.querySelector("#api-tokens")).toBeTruthy();
+      expect(doc.querySelectorAll(".token-item")).toHaveLength(1);
+      expect(html).toContain("laptop");
+      expect(html).not.toContain("someone else");
+      expect(html).not.toContain(token);
+      expect(doc.querySelector("form.token-form")).toBeTruthy();
+    });
+
+    it("should show an empty state without tokens", async () => {
+      const res = await app.request("/settings", { headers: authHeaders });
+      const html = await res.text();
+
+      expect(html).toContain("No tokens yet.");
+    });
+
+    it("should show the digest schedule", async () => {
+      await updateDigestPreferences(testUserId, {
+        frequency: "daily",
+        hour: 7,
+      });
+
+      const res = await app.request("/settings", { headers: authHeaders });
+      const doc = parseHtml(await res.text());
+
+      expect(
+        doc.querySelector<HTMLOptionElement>(
+          "#digest-settings select[name=frequency] option[selected]",
+        )?.value,
+      ).toBe("daily");
+      expect(
+        doc.querySelector<HTMLOptionElement>(
+          "#digest-settings select[name=hour] option[selected]",
+        )?.textContent,
+      ).toBe("07:00");
+    });
+
+    it("should show the private feed links", async () => {
+      const res = await app.request("/settings", { headers: authHeaders });
+      const doc = parseHtml(await res.text());
+      const token = await getFeedToken(testUserId);
+
+      expect(
+        [...doc.querySelectorAll("#reading-feeds .feed-link")].map((input) =>
+          input.getAttribute("value"),
+        ),
+      ).toEqual([
+        `https://lateread.app/feeds/${token}/unread.xml`,
+        `https://lateread.app/feeds/${token}/liked.xml`,
+      ]);
+    });
+
+    describe("newsletter address", () => {
+      let inboundDomain: string | undefined;
+
+      beforeEach(() => {
+        inboundDomain = config.INBOUND_EMAIL_DOMAIN;
+      });
+
+      afterEach(() => {
+        config.INBOUND_EMAIL_DOMAIN = inboundDomain;
+      });
+
+      it("should be hidden when inbound email isn't configured", async () => {
+        config.INBOUND_EMAIL_DOMAIN = undefined;
+
+        const res = await app.request("/settings", { headers: authHeaders });
+        const doc = parseHtml(await res.text());
+
+        expect(doc.querySelector("#inbound-email")).toBeNull();
+      });
+
+      it("should show the user's address", async () => {
+        config.INBOUND_EMAIL_DOMAIN = "in.lateread.app";
+
+        const res = await app.request("/settings", { headers: authHeaders });
+        const doc = parseHtml(await res.text());
+
+        expect(
+          doc
+            .querySelector("#inbound-email .inbound-email-address")
+            ?.getAttribute("value"),
+        ).toBe(await getInboundEmailAddress(testUserId));
+      });
+    });
+
+    describe("delivery settings", () => {
+      let smtpConfig: Pick<typeof config, "SMTP_HOST" | "SMTP_FROM">;
+
+      beforeEach(() => {
+        smtpConfig = {
+          SMTP_HOST: config.SMTP_HOST,
+          SMTP_FROM: config.SMTP_FROM,
+        };
+      });
+
+      afterEach(() => {
+        Object.assign(config, smtpConfig);
+      });
+
+      it("should be hidden when SMTP isn't configured", async () => {
+        config.SMTP_HOST = undefined;
+
+        const res = await app.request("/settings", { headers: authHeaders });
+        const doc = parseHtml(await res.text());
+
+        expect(doc.querySelector("#delivery-settings")).toBeNull();
+      });
+
+      it("should show the saved address and sender", async () => {
+        config.SMTP_HOST = "smtp.example.com";
+        config.SMTP_FROM = "lateread@example.com";
+        await updateDeliveryPreferences(testUserId, { email: "me@kindle.com" });
+
+        const res = await app.request("/settings", { headers: authHeaders });
+        const doc = parseHtml(await res.text());
+
+        expect(
+          doc.querySelector<HTMLInputElement>("input[name=email]")?.value,
+        ).toBe("me@kindle.com");
+        expect(
+          doc.querySelector("#delivery-settings strong")?.textContent,
+        ).toBe("lateread@example.com");
+      });
+    });
+
+    it("should show pending tag suggestions and tagging preferences", async () => {
+      const js = await createTag(db, testUserId, "js");
+      const javascript = await createTag(db, testUserId, "javascript");
+      const [suggestion] = await db
+        .insert(tagSuggestions)
+        .values({
+          userId: testUserId,
+          sourceTagId: js.id,
+          targetTagId: javascript.id,
+          reason: "abbreviation",
+        })
+        .returning();
+
+      const res = await app.request("/settings", { headers: authHeaders });
+      const doc = parseHtml(await res.text());
+
+      expect(doc.querySelector(".tag-suggestion")?.textContent).toContain(
+        "abbreviation",
+      );
+      expect(
+        doc.querySelector(
+          `button[hx-post="/api/tag-suggestions/${suggestion?.id}/approve"]`,
+        ),
+      ).toBeTruthy();
+      expect(
+        doc
+          .querySelector('input[name="maxNewTagsPerArticle"]')
+          ?.getAttribute("value"),
+      ).toBe("2");
+    });
+
+    it("should list the user's tags for management", async () => {
+      const rust = await createTag(db, testUserId, "rust");
+      await createTag(db, testUserId, "go");
+      const otherUser = await createUser(db);
+      await createTag(db, otherUser.id, "someone else");
+
+      const res = await app.request("/settings", { headers: authHeaders });
+      const html = await res.text();
+      const doc = parseHtml(html);
+
+      expect(
+        doc.querySelectorAll("#tag-management .tag-manage-item"),
+      ).toHaveLength(2);
+      expect(html).not.toContain("someone else");
+      expect(
+        doc.querySelector(`form[hx-post="/api/tags/${rust.id}/rename"]`),
+      ).toBeTruthy();
+      expect(
+        doc.querySelector(`button[hx-delete="/api/tags/${rust.id}"]`),
+      ).toBeTruthy();
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { Hono } from "hono";
+import { SettingsPage } from "../components/settings/SettingsPage";
+import { config } from "../lib/config";
+import { isEmailDeliveryAvailable } from "../lib/smtp";
+import { requireAuth } from "../middleware/auth";
+import { getUserApiTokens } from "../services/api-tokens.service";
+import {
+  getInboundEmailAddress,
+  isInboundEmailAvailable,
+} from "../services/inbound-email.service";
+import {
+  getDeliveryPreferences,
+  getDigestPreferences,
+  getTaggingPreferences,
+} from "../services/preferences.service";
+import { getFeedToken } from "../services/reading-feeds.service";
+import { getPendingTagSuggestions } from "../services/tag-consolidation.service";
+import { getUserTagsWithCounts } from "../services/tags.service";
+import type { AppContext } from "../types/context";
+import { renderWithLayout } from "./utils/render";
+
+const settingsRouter = new Hono<AppContext>();
+
+/**
+ * GET /settings - Account settings
+ */
+settingsRouter.get("/settings", requireAuth("redirect"), async (c) => {
+  const userId = c.get("userId");
+
+  const [
+    apiTokens,
+    tags,
+    tagSuggestions,
+    taggingPreferences,
+    digestPreferences,
+    deliveryPreferences,
+    feedToken,
+    inboundEmailAddress,
+  ] = await Promise.all([
+    getUserApiTokens(userId),
+    getUserTagsWithCounts(userId),
+    getPendingTagSuggestions(userId),
+    getTaggingPreferences(userId),
+    getDigestPreferences(userId),
+    getDeliveryPreferences(userId),
+    getFeedToken(userId),
+    isInboundEmailAvailable() ? getInboundEmailAddress(userId) : undefined,
+  ]);
+
+  return renderWithLayout({
+    c,
+    content: (
+      <SettingsPage
+        apiTokens={apiTokens}
+        tags={tags}
+        tagSuggestions={tagSuggestions}
+        taggingPreferences={taggingPreferences}
+        digestPreferences={digestPreferences}
+        feedToken={feedToken}
+        inboundEmailAddress={inboundEmailAddress}
+        delivery={
+          isEmailDeliveryAvailable() && config.SMTP_FROM
+            ? {
+                preferences: deliveryPreferences,
+                senderAddress: config.SMTP_FROM,
+              }
+            : undefined
+        }
+      />
+    ),
+  });
+});
+
+export default settingsRouter;
@@ -0,0 +1,144 @@
+import { beforeEach, describe, expect, it } from "bun:test";
+import type { Hono } from "hono";
+import { db, resetDatabase } from "../../test/bootstrap";
+import {
+  addTagToArticle,
+  createArticle,
+  createAuthHeaders,
+  createCompletedArticle,
+  createTag,
+  createUser,
+  parseHtml,
+} from "../../test/fixtures";
+import { createApp } from "../app";
+import type { AppContext } from "../types/context";
+
+describe("routes/tags", () => {
+  let app: Hono<AppContext>;
+  let testUserId: string;
+  let authHeaders: HeadersInit;
+
+  beforeEach(async () => {
+    resetDatabase();
+
+    const user = await createUser(db);
+    testUserId = user.id;
+    authHeaders = createAuthHeaders(testUserId);
+
+    app = createApp();
+  });
+
+  describe("GET /tags", () => {
+    it("should list tags with article counts, most used first", async () => {
+      const rust = await createTag(db, testUserId, "rust");
+      const go = await createTag(db, testUserId, "go");
+      for (const tag of [rust, rust, go]) {
+        const article = await createCompletedArticle(db, testUserId);
+        await addTagToArticle(db, article.id, tag.id);
+      }
+
+      const res = await app.request("/tags", { headers: authHeaders });
+
+      expect(res.status).toBe(200);
+
+      const doc = parseHtml(await res.text());
+      const items = Array.from(doc.querySelectorAll(".tag-list li")).map(
+        (li) => ({
+          name: li.querySelector(".tag-badge")?.textContent,
+          href: li.querySelector(".tag-badge")?.getAttribute("href"),
+          count: li.querySelector(".tag-count")?.textContent,
+        }),
+      );
+
+      expect(items).toEqual([
+        { name: "rust", href: "/tags/rust", count: "2" },
+        { name: "go", href: "/tags/go", count: "1" },
+      ]);
+      expect(
+        doc.querySelector("form.tag-filter-form")?.getAttribute("action"),
+      ).toBe("/articles");
+    });
+
+    it("should render empty state without tags", async () => {
+      const res = await app.request("/tags", { headers: authHeaders });
+
+      expect(res.status).toBe(200);
+      expect(await res.text()).toContain("No tags yet");
+    });
+
+    it("should redirect to login when not authenticated", async () => {
+      const res = await app.request("/tags");
+
+      expect(res.status).toBe(302);
+      expect(res.headers.get("location")).toBe("/login?back=%2Ftags");
+    });
+  });
+
+  describe("GET /tags/:name", () => {
+    it("should list completed inbox and archived articles with the tag", async () => {
+      const tag = await createTag(db, testUserId, "rust");
+      const inbox = await createCompletedArticle(db, testUserId, {
+        title: "Inbox Rust",
+      });
+      const archived = await createCompletedArticle(db, testUserId, {
+        title: "Archived Rust",
+        archived: true,
+      });
+      const pending = await createArticle(db, testUserId, {
+        title: "Pending Rust",
+      });
+      for (const article of [inbox, archived, pending]) {
+        await addTagToArticle(db, article.id, tag.id);
+      }
+      await createCompletedArticle(db, testUserId, { title: "Untagged" });
+
+      const res = await app.request("/tags/rust", { headers: authHeaders });
+      const html = await res.text();
+      const doc = parseHtml(html);
+
+      expect(res.status).toBe(200);
+      expect(doc.querySelector("h1")?.textContent).toBe("rust");
+      expect(html).toContain("Inbox Rust");
+      expect(html).toContain("Archived Rust");
+      expect(html).not.toContain("Pending Rust");
+      expect(html).not.toContain("Untagged");
+      expect(doc.querySelector(".tag-page-meta")?.textContent).toContain(
+        "2 articles",
+      );
+      expect(doc.querySelector(".add-article-form")).toBeNull();
+    });
+
+    it("should paginate with HTMX", async () => {
+      const tag = await createTag(db, testUserId, "rust");
+      for (let i = 0; i < 21; i++) {
+        const article = await createCompletedArticle(db, testUserId);
+        await addTagToArticle(db, article.id, tag.id);
+      }
+
+      const res = await app.request("/tags/rust", { headers: authHeaders });
+      const doc = parseHtml(await res.text());
+      const nextUrl = doc
+        .querySelector(".load-more-trigger")
+        ?.getAttribute("hx-get");
+
+      expect(nextUrl).toStartWith("/tags/rust?cursor=");
+
+      const next = await app.request(nextUrl ?? "", {
+        headers: { ...authHeaders, "HX-Request": "true" },
+      });
+      const nextDoc = parseHtml(await next.text());
+
+      expect(nextDoc.querySelectorAll(".article-card")).toHaveLength(1);
+      expect(nextDoc.querySelector("h1")).toBeNull();
+    });
+
+    it("should return 404 for unknown or other users' tags", async () => {
+      const other = await createUser(db);
+      await createTag(db, other.id, "private");
+
+      const res = await app.request("/tags/private", { headers: authHeaders });
+
+      expect(res.status).toBe(404);
+    });
+  });
+});
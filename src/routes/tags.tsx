@@ -0,0 +1,84 @@
+import { Hono } from "hono";
+import { z } from "zod";
+import { ArticleCards } from "../components/ArticleCards";
+import { TagArticlesPage, TagsPage } from "../components/TagsPage";
+import { validator } from "../lib/validator";
+import { requireAuth } from "../middleware/auth";
+import {
+  countArticles,
+  getArticlesWithTags,
+} from "../services/articles.service";
+import { getTagByName, getUserTagsWithCounts } from "../services/tags.service";
+import type { AppContext } from "../types/context";
+import { renderWithLayout } from "./utils/render";
+
+const tagsRouter = new Hono<AppContext>();
+
+/**
+ * GET /tags - List tags with article counts
+ */
+tagsRouter.get("/tags", requireAuth("redirect"), async (c) => {
+  const userId = c.get("userId");
+
+  const tags = await getUserTagsWithCounts(userId);
+
+  return renderWithLayout({ c, content: <TagsPage tags={tags} /> });
+});
+
+/**
+ * GET /tags/:name - List articles with a tag
+ */
+tagsRouter.get(
+  "/tags/:name",
+  requireAuth("redirect"),
+  validator(
+    "param",
+    z.object({
+      name: z.string().trim().min(1).max(100, "Tag name too long"),
+    }),
+  ),
+  validator(
+    "query",
+    z.object({
+      cursor: z.string().optional(),
+    }),
+  ),
+  async (c) => {
+    const userId = c.get("userId");
+    const { name } = c.req.valid("param");
+    const { cursor } = c.req.valid("query");
+
+    const tag = await getTagByName(userId, name);
+    const filters = { tags: [tag.name], cursor };
+    const basePath = `/tags/${encodeURIComponent(tag.name)}`;
+
+    const result = await getArticlesWithTags(userId, filters);
+
+    // HTMX pagination request - return only article cards
+    if (cursor && c.req.header("hx-request") === "true") {
+      return c.html(
+        <ArticleCards
+          articles={result.articles}
+          nextCursor={result.nextCursor}
+          basePath={basePath}
+        />,
+      );
+    }
+
+    const articleCount = await countArticles(userId, { tags: [tag.name] });
+
+    return renderWithLayout({
+      c,
+      content: (
+        <TagArticlesPage
+          tag={tag}
+          articleCount={articleCount}
+          articles={result.articles}
+          nextCursor={result.nextCursor}
+        />
+      ),
+    });
+  },
+);
+
+export default tagsRouter;
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { isSafeUrl } from "../lib/ssrf-validator";
 
 /**
  * Common validation schema for article ID path parameter.
@@ -7,3 +8,67 @@ import { z } from "zod";
 export const articleIdParam = z.object({
   id: z.string().uuid("Invalid article ID format"),
 });
+
+/**
+ * URL submitted for saving as an article.
+ * Used by the web form (POST /api/articles) and the JSON API.
+ */
+export const articleUrl = z
+  .string()
+  .trim()
+  .url("Invalid URL")
+  .refine(isSafeUrl, "URL is not allowed");
+
+/**
+ * Tag filter query parameters: ?tag=a&tag=b&match=any
+ * Used by the inbox, archive and JSON API article lists.
+ */
+export const tagFilterQuery = {
+  tag: z
+    .union([
+      z.string().trim().min(1).max(100),
+      z.array(z.string().trim().min(1).max(100)).max(20, "Too many tags"),
+    ])
+    .optional()
+    .transform((val) =>
+      val === undefined
+        ? []
+        : (Array.isArray(val) ? val : [val]).map((t) => t.toLowerCase()),
+    ),
+  match: z
+    .enum(["all", "any"], { message: "Match must be 'all' or 'any'" })
+    .default("all"),
+};
+
+/**
+ * Common validation schema for tag ID path parameter.
+ * Used by /api/tags/:id/* routes
+ */
+export const tagIdParam = z.object({
+  id: z.string().uuid("Invalid tag ID format"),
+});
+
+/**
+ * Tag name submitted when tagging an article or renaming a tag
+ */
+export const tagName = z
+  .string()
+  .trim()
+  .min(1, "Tag name is required")
+  .max(100, "Tag name must be at most 100 characters");
+
+/**
+ * Account export ID path parameter.
+ * Used by /exports/:id/download
+ */
+export const exportIdParam = z.object({
+  id: z.string().uuid("Invalid export ID format"),
+});
+
+/**
+ * Feed subscription ID path parameter.
+ * Used by /api/feeds/:id routes
+ */
+export const feedIdParam = z.object({
+  id: z.string().uuid("Invalid feed ID format"),
+});
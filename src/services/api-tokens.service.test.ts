@@ -0,0 +1,111 @@
+import { beforeEach, describe, expect, it } from "bun:test";
+import { eq } from "drizzle-orm";
+import { db, resetDatabase } from "../../test/bootstrap";
+import { createUser } from "../../test/fixtures";
+import { apiTokens } from "../db/schema";
+import {
+  authenticateApiToken,
+  createApiToken,
+  getUserApiTokens,
+  revokeApiToken,
+} from "./api-tokens.service";
+
+describe("api-tokens.service", () => {
+  beforeEach(() => {
+    resetDatabase();
+  });
+
+  describe("createApiToken", () => {
+    it("should return a prefixed raw token and store only its hash", async () => {
+      const user = await createUser(db);
+
+      const { token, apiToken } = await createApiToken(user.id, "cli");
+
+      expect(token).toStartWith("lr_");
+      expect(apiToken.name).toBe("cli");
+      expect(apiToken.userId).toBe(user.id);
+      expect(apiToken.lastUsedAt).toBeNull();
+
+      const [row] = await db
+        .select()
+        .from(apiTokens)
+        .where(eq(apiTokens.id, apiToken.id));
+
+      expect(row?.tokenHash).toMatch(/^[a-f0-9]{64}$/);
+      expect(row?.tokenHash).not.toContain(token);
+    });
+
+    it("should generate unique tokens", async () => {
+      const user = await createUser(db);
+
+      const first = await createApiToken(user.id, "one");
+      const second = await createApiToken(user.id, "two");
+
+      expect(first.token).not.toBe(second.token);
+    });
+  });
+
+  describe("getUserApiTokens", () => {
+    it("should only return tokens for the given user", async () => {
+      const user1 = await createUser(db);
+      const user2 = await createUser(db);
+
+      await createApiToken(user1.id, "mine");
+      await createApiToken(user2.id, "theirs");
+
+      const tokens = await getUserApiTokens(user1.id);
+
+      expect(tokens).toHaveLength(1);
+      expect(tokens[0]?.name).toBe("mine");
+    });
+  });
+
+  describe("authenticateApiToken", () => {
+    it("should resolve a valid token to its user and record usage", async () => {
+      const user = await createUser(db);
+      const { token, apiToken } = await createApiToken(user.id, "cli");
+
+      const userId = await authenticateApiToken(token);
+
+      expect(userId).toBe(user.id);
+
+      const [row] = await db
+        .select()
+        .from(apiTokens)
+        .where(eq(apiTokens.id, apiToken.id));
+      expect(row?.lastUsedAt).toBeInstanceOf(Date);
+    });
+
+    it("should return null for unknown tokens", async () => {
+      expect(await authenticateApiToken("lr_unknown")).toBeNull();
+    });
+
+    it("should return null for tokens without the prefix", async () => {
+      expect(await authenticateApiToken("something-else")).toBeNull();
+    });
+
+    it("should return null for revoked tokens", async () => {
+      const user = await createUser(db);
+      const { token, apiToken } = await createApiToken(user.id, "cli");
+
+      await revokeApiToken(apiToken.id, user.id);
+
+      expect(await authenticateApiToken(token)).toBeNull();
+    });
+  });
+
+  describe("revokeApiToken", () => {
+    it("should throw NotFoundError for another user's token", async () => {
+      const owner = await createUser(db);
+      const other = await createUser(db);
+      const { apiToken } = await createApiToken(owner.id, "cli");
+
+      await expect(revokeApiToken(apiToken.id, other.id)).rejects.toThrow(
+        "API token not found",
+      );
+
+      const tokens = await getUserApiTokens(owner.id);
+      expect(tokens).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { and, desc, eq } from "drizzle-orm";
+import { apiTokens } from "../db/schema";
+import type { ApiToken } from "../db/types";
+import { db } from "../lib/db";
+import { InternalError, NotFoundError } from "../lib/errors";
+
+const TOKEN_PREFIX = "lr_";
+
+interface CreatedApiToken {
+  token: string;
+  apiToken: ApiToken;
+}
+
+/**
+ * Hash a raw token with SHA-256
+ * Tokens are high-entropy random strings so a plain digest is enough (no salt/KDF)
+ */
+function hashToken(token: string): string {
+  const hasher = new Bun.CryptoHasher("sha256");
+  hasher.update(token);
+  return hasher.digest("hex");
+}
+
+/**
+ * Generate a random token: "lr_" + 32 random bytes in base64url
+ */
+function generateToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return `${TOKEN_PREFIX}${Buffer.from(bytes).toString("base64url")}`;
+}
+
+/**
+ * Create a personal API token for a user
+ * The raw token is returned only once, only its hash is stored
+ */
+export async function createApiToken(
+  userId: string,
+  name: string,
+): Promise<CreatedApiToken> {
+  const token = generateToken();
+
+  const [apiToken] = await db
+    .insert(apiTokens)
+    .values({
+      userId,
+      name,
+      tokenHash: hashToken(token),
+    })
+    .returning();
+
+  if (!apiToken) {
+    throw new InternalError("Failed to create API token", { userId });
+  }
+
+  return { token, apiToken };
+}
+
+/**
+ * List API tokens for a user, newest first
+ */
+export async function getUserApiTokens(userId: string): Promise<ApiToken[]> {
+  return db
+    .select()
+    .from(apiTokens)
+    .where(eq(apiTokens.userId, userId))
+    .orderBy(desc(apiTokens.createdAt), desc(apiTokens.id));
+}
+
+/**
+ * Revoke (delete) an API token
+ */
+export async function revokeApiToken(
+  tokenId: string,
+  userId: string,
+): Promise<void> {
+  const [deleted] = await db
+    .delete(apiTokens)
+    .where(and(eq(apiTokens.id, tokenId), eq(apiTokens.userId, userId)))
+    .returning({ id: apiTokens.id });
+
+  if (!deleted) {
+    throw new NotFoundError("API token", tokenId);
+  }
+}
+
+/**
+ * Resolve a raw token to its owner and record the usage time
+ * Returns null if the token is unknown or revoked
+ */
+export async function authenticateApiToken(
+  token: string,
+): Promise<string | null> {
+  if (!token.startsWith(TOKEN_PREFIX)) {
+    return null;
+  }
+
+  const [apiToken] = await db
+    .update(apiTokens)
+    .set({ lastUsedAt: new Date() })
+    .where(eq(apiTokens.tokenHash, hashToken(token)))
+    .returning({ userId: apiTokens.userId });
+
+  return apiToken?.userId ?? null;
+}
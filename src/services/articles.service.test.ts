@@ -14,15 +14,24 @@ import {
   countArticlesByStatus,
   createArticle,
   deleteArticle,
+  getArticleBatchStatus,
   getArticleById,
   getArticlesWithTags,
   getArticleWithTagsById,
   markArticleAsRead,
   rateArticle,
+  searchArticles,
+  snoozeArticle,
   toggleArticleArchive,
+  updateArticleCanonicalUrl,
   updateArticleCompleted,
   updateArticleProcessing,
 } from "./articles.service";
+import { embedArticle } from "./embeddings.service";
+import {
+  indexArticleContent,
+  indexArticleSummary,
+} from "./search-index.service";
 
 describe("articles.service", () => {
   beforeEach(() => {
@@ -140,6 +149,71 @@ describe("articles.service", () => {
     });
   });
 
+  describe("tag filters", () => {
+    async function createTaggedArticles(userId: string) {
+      const rust = await createTag(db, userId, "rust");
+      const go = await createTag(db, userId, "go");
+
+      const both = await createCompletedArticle(db, userId, { title: "Both" });
+      await addTagToArticle(db, both.id, rust.id);
+      await addTagToArticle(db, both.id, go.id);
+      const rustOnly = await createCompletedArticle(db, userId, {
+        title: "Rust only",
+        archived: true,
+      });
+      await addTagToArticle(db, rustOnly.id, rust.id);
+      const goOnly = await createCompletedArticle(db, userId, {
+        title: "Go only",
+      });
+      await addTagToArticle(db, goOnly.id, go.id);
+      await createCompletedArticle(db, userId, { title: "Untagged" });
+    }
+
+    it("should require all tags by default", async () => {
+      const user = await createUser(db);
+      await createTaggedArticles(user.id);
+
+      const result = await getArticlesWithTags(user.id, {
+        tags: ["rust", "go"],
+      });
+
+      expect(result.articles.map((a) => a.title)).toEqual(["Both"]);
+    });
+
+    it("should match any tag in any mode", async () => {
+      const user = await createUser(db);
+      await createTaggedArticles(user.id);
+
+      const result = await getArticlesWithTags(user.id, {
+        tags: ["rust", "go"],
+        tagMode: "any",
+      });
+
+      expect(result.articles.map((a) => a.title).sort()).toEqual([
+        "Both",
+        "Go only",
+        "Rust only",
+      ]);
+    });
+
+    it("should combine with the archived filter", async () => {
+      const user = await createUser(db);
+      await createTaggedArticles(user.id);
+
+      const inbox = await getArticlesWithTags(user.id, {
+        archived: false,
+        tags: ["rust"],
+      });
+      const archive = await countArticles(user.id, {
+        archived: true,
+        tags: ["rust"],
+      });
+
+      expect(inbox.articles.map((a) => a.title)).toEqual(["Both"]);
+      expect(archive).toBe(1);
+    });
+  });
+
   describe("getArticleById", () => {
     it("should return article with tags", async () => {
       const user = await createUser(db);
@@ -322,6 +396,29 @@ describe("articles.service", () => {
     });
   });
 
+  describe("snoozeArticle", () => {
+    it("should set the snooze date", async () => {
+      const user = await createUser(db);
+      const article = await createCompletedArticle(db, user.id);
+      const until = new Date("2030-01-01T00:00:00Z");
+
+      await snoozeArticle(article.id, user.id, until);
+
+      const updated = await getArticleWithTagsById(article.id, user.id);
+      expect(updated.snoozedUntil).toEqual(until);
+    });
+
+    it("should not snooze articles of other users", async () => {
+      const user = await createUser(db);
+      const other = await createUser(db);
+      const article = await createCompletedArticle(db, other.id);
+
+      expect(snoozeArticle(article.id, user.id, new Date())).rejects.toThrow(
+        NotFoundError,
+      );
+    });
+  });
+
   describe("deleteArticle", () => {
     it("should delete an article", async () => {
       const user = await createUser(db);
@@ -500,6 +597,43 @@ describe("articles.service", () => {
     });
   });
 
+  describe("updateArticleCanonicalUrl", () => {
+    it("should store the canonical URL", async () => {
+      const user = await createUser(db);
+      const article = await createCompletedArticle(db, user.id, {
+        canonicalUrl: "https://example.com/amp-link",
+      });
+
+      const updated = await updateArticleCanonicalUrl(
+        article,
+        "https://example.com/canonical",
+      );
+
+      const stored = await getArticleById(article.id);
+      expect(updated).toBe(true);
+      expect(stored.canonicalUrl).toBe("https://example.com/canonical");
+    });
+
+    it("should keep the article unchanged when another has the URL", async () => {
+      const user = await createUser(db);
+      await createCompletedArticle(db, user.id, {
+        canonicalUrl: "https://example.com/canonical",
+      });
+      const article = await createCompletedArticle(db, user.id, {
+        canonicalUrl: "https://example.com/amp-link",
+      });
+
+      const updated = await updateArticleCanonicalUrl(
+        article,
+        "https://example.com/canonical",
+      );
+
+      const stored = await getArticleById(article.id);
+      expect(updated).toBe(false);
+      expect(stored.canonicalUrl).toBe("https://example.com/amp-link");
+    });
+  });
+
   describe("updateArticleCompleted", () => {
     it("should update article with metadata and tags", async () => {
       const user = await createUser(db);
@@ -589,7 +723,7 @@ describe("articles.service", () => {
       if (!article) throw new Error("Failed to create article");
 
       const oldTag = await createTag(db, user.id, "oldtag");
-      await addTagToArticle(db, article.id, oldTag.id);
+      await addTagToArticle(db, article.id, oldTag.id, { autoGenerated: true });
 
       const newTag = await createTag(db, user.id, "newtag");
 
@@ -611,6 +745,36 @@ describe("articles.service", () => {
       expect(updated.tags).toHaveLength(1);
       expect(updated.tags[0]?.name).toBe("newtag");
     });
+
+    it("should keep tags added by hand or imported", async () => {
+      const user = await createUser(db);
+      const article = await createCompletedArticle(db, user.id);
+      const manual = await createTag(db, user.id, "manual", {
+        autoGenerated: false,
+      });
+      await addTagToArticle(db, article.id, manual.id);
+      const extracted = await createTag(db, user.id, "extracted");
+
+      await updateArticleCompleted({
+        id: article.id,
+        tags: [manual, extracted],
+        metadata: {
+          title: "Updated Article",
+          description: null,
+          imageUrl: null,
+          siteName: null,
+        },
+        language: "en",
+        wordCount: 100,
+        readingTimeSeconds: 60,
+      });
+
+      const updated = await getArticleWithTagsById(article.id, user.id);
+      expect(updated.tags.map((tag) => tag.name).sort()).toEqual([
+        "extracted",
+        "manual",
+      ]);
+    });
   });
 
   describe("countArticlesByStatus", () => {
@@ -678,11 +842,46 @@ describe("articles.service", () => {
     });
   });
 
+  describe("getArticleBatchStatus", () => {
+    it("should not be finished while articles are processing", async () => {
+      const user = await createUser(db);
+      const done = await createCompletedArticle(db, user.id);
+      const { article: pending } = await createArticle({
+        userId: user.id,
+        url: "https://example.com/pending",
+      });
+
+      const status = await getArticleBatchStatus([done.id, pending.id]);
+
+      expect(status).toEqual({ finished: false, total: 2, failed: [] });
+    });
+
+    it("should list failed articles once all are finished", async () => {
+      const user = await createUser(db);
+      const done = await createCompletedArticle(db, user.id);
+      const failed = await createCompletedArticle(db, user.id, {
+        url: "https://example.com/broken",
+      });
+      await db
+        .update(schema.articles)
+        .set({ status: "error" })
+        .where(eq(schema.articles.id, failed.id));
+
+      const status = await getArticleBatchStatus([done.id, failed.id]);
+
+      expect(status).toEqual({
+        finished: true,
+        total: 2,
+        failed: [{ id: failed.id, url: "https://example.com/broken" }],
+      });
+    });
+  });
+
   describe("createArticle", () => {
     it("should create article with all fields", async () => {
       const user = await createUser(db);
 
-      const article = await createArticle({
+      const { article } = await createArticle({
         userId: user.id,
         url: "https://example.com/article",
         title: "Test Article",
@@ -705,7 +904,7 @@ describe("articles.service", () => {
     it("should create article with minimal fields", async () => {
       const user = await createUser(db);
 
-      const article = await createArticle({
+      const { article } = await createArticle({
         userId: user.id,
         url: "https://example.com/article",
       });
@@ -723,12 +922,12 @@ describe("articles.service", () => {
     it("should create multiple articles with different URLs", async () => {
       const user = await createUser(db);
 
-      const article1 = await createArticle({
+      const { article: article1 } = await createArticle({
         userId: user.id,
         url: "https://example.com/article1",
       });
 
-      const article2 = await createArticle({
+      const { article: article2 } = await createArticle({
         userId: user.id,
         url: "https://example.com/article2",
       });
@@ -737,6 +936,126 @@ describe("articles.service", () => {
       expect(article1.url).toBe("https://example.com/article1");
       expect(article2.url).toBe("https://example.com/article2");
     });
+
+    it("should store the page count of documents", async () => {
+      const user = await createUser(db);
+
+      const { article } = await createArticle({
+        userId: user.id,
+        url: "https://lateread.app",
+        pageCount: 12,
+        deduplicate: false,
+      });
+
+      expect(article.pageCount).toBe(12);
+      expect((await getArticleById(article.id)).pageCount).toBe(12);
+    });
+
+    it("should keep the URL as submitted and store the canonical URL", async () => {
+      const user = await createUser(db);
+
+      const { article, duplicate } = await createArticle({
+        userId: user.id,
+        url: "https://example.com/article/?utm_source=telegram#top",
+      });
+
+      expect(duplicate).toBe(false);
+      expect(article.url).toBe(
+        "https://example.com/article/?utm_source=telegram#top",
+      );
+      expect(article.canonicalUrl).toBe("https://example.com/article");
+    });
+
+    it("should bump and un-archive an article saved again", async () => {
+      const user = await createUser(db);
+      const archived = await createCompletedArticle(db, user.id, {
+        url: "https://example.com/article",
+        canonicalUrl: "https://example.com/article",
+        archived: true,
+        createdAt: new Date("2024-01-01"),
+      });
+
+      const result = await createArticle({
+        userId: user.id,
+        url: "https://example.com/article?fbclid=abc",
+      });
+
+      expect(result.duplicate).toBe(true);
+      expect(result.shouldProcess).toBe(false);
+      expect(result.article.id).toBe(archived.id);
+      expect(result.article.archived).toBe(false);
+      expect(result.article.status).toBe("completed");
+      expect(result.article.createdAt.getTime()).toBeGreaterThan(
+        archived.createdAt.getTime(),
+      );
+      expect(await db.select().from(schema.articles)).toHaveLength(1);
+    });
+
+    it("should match the saved link when the page declares another canonical URL", async () => {
+      const user = await createUser(db);
+      const saved = await createCompletedArticle(db, user.id, {
+        url: "https://example.com/article",
+        canonicalUrl: "https://example.com/canonical",
+      });
+
+      const result = await createArticle({
+        userId: user.id,
+        url: "https://example.com/article",
+      });
+
+      expect(result.article.id).toBe(saved.id);
+    });
+
+    it("should retry a failed article saved again", async () => {
+      const user = await createUser(db);
+      const failed = await createArticle({
+        userId: user.id,
+        url: "https://example.com/article",
+      });
+      await db
+        .update(schema.articles)
+        .set({ status: "failed", processingAttempts: 3, lastError: "Timeout" })
+        .where(eq(schema.articles.id, failed.article.id));
+
+      const result = await createArticle({
+        userId: user.id,
+        url: "https://example.com/article",
+      });
+
+      expect(result.duplicate).toBe(true);
+      expect(result.shouldProcess).toBe(true);
+      expect(result.article.status).toBe("pending");
+      expect(result.article.processingAttempts).toBe(0);
+      expect(result.article.lastError).toBeNull();
+    });
+
+    it("should not share articles between users", async () => {
+      const user = await createUser(db);
+      const other = await createUser(db);
+      const url = "https://example.com/article";
+
+      const first = await createArticle({ userId: user.id, url });
+      const second = await createArticle({ userId: other.id, url });
+
+      expect(second.duplicate).toBe(false);
+      expect(second.article.id).not.toBe(first.article.id);
+    });
+
+    it("should keep every article when deduplication is off", async () => {
+      const user = await createUser(db);
+      const params = {
+        userId: user.id,
+        url: "https://lateread.app",
+        deduplicate: false,
+      };
+
+      const first = await createArticle(params);
+      const second = await createArticle(params);
+
+      expect(second.duplicate).toBe(false);
+      expect(second.article.id).not.toBe(first.article.id);
+      expect(second.article.canonicalUrl).toBeNull();
+    });
   });
 
   describe("search functionality", () => {
@@ -757,42 +1076,94 @@ describe("articles.service", () => {
       expect(result.articles[0]?.title).toBe("Introduction to JavaScript");
     });
 
-    it("should escape special characters in search query", async () => {
+    it("should match word prefixes", async () => {
       const user = await createUser(db);
       await createCompletedArticle(db, user.id, {
-        title: "100% Guaranteed",
+        title: "Programming Rust",
       });
       await createCompletedArticle(db, user.id, {
-        title: "1000 Guaranteed",
+        title: "Gardening",
       });
 
-      // Search for "100%" - should only match the first article
-      // If % was not escaped, it would match both (as wildcards)
       const result = await getArticlesWithTags(user.id, {
-        query: "100%",
+        query: "program",
       });
 
       expect(result.articles).toHaveLength(1);
-      expect(result.articles[0]?.title).toBe("100% Guaranteed");
+      expect(result.articles[0]?.title).toBe("Programming Rust");
     });
 
-    it("should escape underscore in search query", async () => {
+    it("should require all words and ignore diacritics", async () => {
       const user = await createUser(db);
       await createCompletedArticle(db, user.id, {
-        title: "test_article",
+        title: "Café culture in Paris",
       });
       await createCompletedArticle(db, user.id, {
-        title: "test-article",
+        title: "Café culture in Rome",
       });
 
-      // Search for "test_article" - should only match the first article
-      // If _ was not escaped, it would match any single character
       const result = await getArticlesWithTags(user.id, {
-        query: "test_article",
+        query: "cafe paris",
       });
 
       expect(result.articles).toHaveLength(1);
-      expect(result.articles[0]?.title).toBe("test_article");
+      expect(result.articles[0]?.title).toBe("Café culture in Paris");
+    });
+
+    it("should treat FTS syntax in the query as plain text", async () => {
+      const user = await createUser(db);
+      await createCompletedArticle(db, user.id, {
+        title: "NEAR the OR gate",
+      });
+
+      const result = await getArticlesWithTags(user.id, {
+        query: 'title:"NEAR OR (gate*',
+      });
+
+      expect(result.articles).toHaveLength(0);
+
+      const plain = await getArticlesWithTags(user.id, {
+        query: "near OR gate",
+      });
+
+      expect(plain.articles).toHaveLength(1);
+    });
+
+    it("should return nothing for queries without words", async () => {
+      const user = await createUser(db);
+      await createCompletedArticle(db, user.id, { title: "100%" });
+
+      const result = await getArticlesWithTags(user.id, { query: "%%%" });
+
+      expect(result.articles).toHaveLength(0);
+    });
+
+    it("should search indexed content and summaries", async () => {
+      const user = await createUser(db);
+      const withContent = await createCompletedArticle(db, user.id, {
+        title: "First",
+      });
+      const withSummary = await createCompletedArticle(db, user.id, {
+        title: "Second",
+      });
+      await createCompletedArticle(db, user.id, { title: "Third" });
+
+      await indexArticleContent(withContent.id, "All about lighthouses");
+      await indexArticleSummary(withSummary.id, {
+        oneSentence: "Lighthouse keepers.",
+        oneParagraph: "",
+        long: "",
+      });
+
+      const result = await getArticlesWithTags(user.id, {
+        query: "lighthouse",
+      });
+
+      expect(result.articles.map((a) => a.title).sort()).toEqual([
+        "First",
+        "Second",
+      ]);
+      expect(await countArticles(user.id, { query: "lighthouse" })).toBe(2);
     });
 
     it("should handle partial matches with escaped characters", async () => {
@@ -826,4 +1197,334 @@ describe("articles.service", () => {
       expect(result.articles[0]?.title).toBe("AC\\DC");
     });
   });
+
+  describe("searchArticles", () => {
+    it("should rank title matches above content matches", async () => {
+      const user = await createUser(db);
+      const contentMatch = await createCompletedArticle(db, user.id, {
+        title: "Weekend reading",
+      });
+      await indexArticleContent(contentMatch.id, "A short note on compilers");
+      await createCompletedArticle(db, user.id, {
+        title: "Compilers explained",
+      });
+
+      const result = await searchArticles(user.id, "compilers");
+
+      expect(result.articles.map((a) => a.title)).toEqual([
+        "Compilers explained",
+        "Weekend reading",
+      ]);
+    });
+
+    it("should match any word with matchAny", async () => {
+      const user = await createUser(db);
+      await createCompletedArticle(db, user.id, { title: "Rust traits" });
+      await createCompletedArticle(db, user.id, { title: "Go interfaces" });
+
+      const all = await searchArticles(user.id, "rust interfaces");
+      const any = await searchArticles(user.id, "rust interfaces", {
+        matchAny: true,
+      });
+
+      expect(all.articles).toEqual([]);
+      expect(any.articles.map((a) => a.title).sort()).toEqual([
+        "Go interfaces",
+        "Rust traits",
+      ]);
+    });
+
+    it("should rank by meaning in semantic mode, keeping filters", async () => {
+      const user = await createUser(db);
+      const bread = await createCompletedArticle(db, user.id, {
+        title: "Sourdough bread with a starter",
+      });
+      const archived = await createCompletedArticle(db, user.id, {
+        title: "Rye bread starter tips",
+        archived: true,
+      });
+      await createCompletedArticle(db, user.id, { title: "Rust ownership" });
+      for (const article of [bread, archived]) {
+        await embedArticle(article.id, article.title ?? "");
+      }
+
+      const result = await searchArticles(
+        user.id,
+        "bread starter -is:archived",
+        { mode: "semantic" },
+      );
+
+      expect(result.articles.map((a) => a.id)).toEqual([bread.id]);
+      expect(result.articles[0]?.snippet).toBeNull();
+    });
+
+    it("should return snippets with marked matches", async () => {
+      const user = await createUser(db);
+      const article = await createCompletedArticle(db, user.id, {
+        title: "Notes",
+      });
+      await indexArticleContent(
+        article.id,
+        "The quick brown fox jumps over the lazy dog",
+      );
+
+      const result = await searchArticles(user.id, "fox");
+
+      expect(result.articles[0]?.snippet).toContain("\u0002fox\u0003");
+    });
+
+    it("should include tags", async () => {
+      const user = await createUser(db);
+      const article = await createCompletedArticle(db, user.id, {
+        title: "Tagged search",
+      });
+      const tag = await createTag(db, user.id, "search");
+      await addTagToArticle(db, article.id, tag.id);
+
+      const result = await searchArticles(user.id, "tagged");
+
+      expect(result.articles[0]?.tags.map((t) => t.id)).toEqual([tag.id]);
+    });
+
+    it("should paginate with an offset cursor", async () => {
+      const user = await createUser(db);
+      for (let i = 0; i < 3; i++) {
+        await createCompletedArticle(db, user.id, { title: `Paged ${i}` });
+      }
+
+      const first = await searchArticles(user.id, "paged", { limit: 2 });
+      expect(first.articles).toHaveLength(2);
+      expect(first.hasMore).toBe(true);
+      expect(first.nextCursor).toBe("2");
+
+      const second = await searchArticles(user.id, "paged", {
+        limit: 2,
+        cursor: first.nextCursor ?? undefined,
+      });
+      expect(second.articles).toHaveLength(1);
+      expect(second.hasMore).toBe(false);
+      expect(second.nextCursor).toBeNull();
+
+      const ids = [...first.articles, ...second.articles].map((a) => a.id);
+      expect(new Set(ids).size).toBe(3);
+    });
+
+    it("should exclude other users and unfinished articles", async () => {
+      const user = await createUser(db);
+      const other = await createUser(db);
+      await createCompletedArticle(db, other.id, { title: "Private match" });
+      await createArticle({
+        userId: user.id,
+        url: "https://example.com/p",
+        title: "Pending match",
+      });
+
+      const result = await searchArticles(user.id, "match");
+
+      expect(result.articles).toHaveLength(0);
+    });
+  });
+
+  describe("search query filters", () => {
+    it("should filter by tags and excluded tags", async () => {
+      const user = await createUser(db);
+      const rust = await createTag(db, user.id, "rust");
+      const news = await createTag(db, user.id, "news");
+
+      const rustOnly = await createCompletedArticle(db, user.id, {
+        title: "Rust only",
+      });
+      await addTagToArticle(db, rustOnly.id, rust.id);
+      const rustNews = await createCompletedArticle(db, user.id, {
+        title: "Rust news",
+      });
+      await addTagToArticle(db, rustNews.id, rust.id);
+      await addTagToArticle(db, rustNews.id, news.id);
+      await createCompletedArticle(db, user.id, { title: "Untagged" });
+
+      const tagged = await getArticlesWithTags(user.id, { query: "tag:Rust" });
+      expect(tagged.articles.map((a) => a.title).sort()).toEqual([
+        "Rust news",
+        "Rust only",
+      ]);
+
+      const excluded = await getArticlesWithTags(user.id, {
+        query: "tag:rust -tag:news",
+      });
+      expect(excluded.articles.map((a) => a.title)).toEqual(["Rust only"]);
+    });
+
+    it("should not match another user's tag with the same name", async () => {
+      const user = await createUser(db);
+      const other = await createUser(db);
+      const otherTag = await createTag(db, other.id, "rust");
+      const article = await createCompletedArticle(db, user.id);
+      await addTagToArticle(db, article.id, otherTag.id);
+
+      const result = await getArticlesWithTags(user.id, { query: "tag:rust" });
+
+      expect(result.articles).toHaveLength(0);
+    });
+
+    it("should filter by URL host, subdomain and site name", async () => {
+      const user = await createUser(db);
+      await createCompletedArticle(db, user.id, {
+        title: "Host",
+        url: "https://nytimes.com/2026/a.html",
+      });
+      await createCompletedArticle(db, user.id, {
+        title: "Subdomain",
+        url: "https://www.nytimes.com/b",
+      });
+      await createCompletedArticle(db, user.id, {
+        title: "Elsewhere",
+        url: "https://example.com/nytimes.com/c",
+      });
+      await createCompletedArticle(db, user.id, {
+        title: "Named",
+        url: "https://theguardian.com/d",
+        siteName: "The Guardian",
+      });
+
+      const byHost = await getArticlesWithTags(user.id, {
+        query: "site:nytimes.com",
+      });
+      expect(byHost.articles.map((a) => a.title).sort()).toEqual([
+        "Host",
+        "Subdomain",
+      ]);
+
+      const byName = await getArticlesWithTags(user.id, {
+        query: "site:guardian",
+      });
+      expect(byName.articles.map((a) => a.title)).toEqual(["Named"]);
+
+      const excluded = await countArticles(user.id, {
+        query: "-site:nytimes.com",
+      });
+      expect(excluded).toBe(2);
+    });
+
+    it("should filter by is: flags", async () => {
+      const user = await createUser(db);
+      await createCompletedArticle(db, user.id, {
+        title: "Archived liked",
+        archived: true,
+        rating: 1,
+        readAt: new Date(),
+      });
+      await createCompletedArticle(db, user.id, { title: "Unread" });
+
+      const archived = await getArticlesWithTags(user.id, {
+        query: "is:archived",
+      });
+      expect(archived.articles.map((a) => a.title)).toEqual(["Archived liked"]);
+
+      const unread = await getArticlesWithTags(user.id, { query: "is:unread" });
+      expect(unread.articles.map((a) => a.title)).toEqual(["Unread"]);
+
+      const notLiked = await getArticlesWithTags(user.id, {
+        query: "-is:liked",
+      });
+      expect(notLiked.articles.map((a) => a.title)).toEqual(["Unread"]);
+    });
+
+    it("should filter by language and date", async () => {
+      const user = await createUser(db);
+      await createCompletedArticle(db, user.id, {
+        title: "Old German",
+        language: "de",
+        createdAt: new Date("2025-06-01T00:00:00Z"),
+      });
+      await createCompletedArticle(db, user.id, {
+        title: "New German",
+        language: "de",
+        createdAt: new Date("2026-02-01T00:00:00Z"),
+      });
+      await createCompletedArticle(db, user.id, {
+        title: "Unknown language",
+      });
+
+      const german = await countArticles(user.id, { query: "lang:de" });
+      expect(german).toBe(2);
+
+      const notGerman = await getArticlesWithTags(user.id, {
+        query: "-lang:de",
+      });
+      expect(notGerman.articles.map((a) => a.title)).toEqual([
+        "Unknown language",
+      ]);
+
+      const old = await getArticlesWithTags(user.id, {
+        query: "lang:de before:2026-01-01",
+      });
+      expect(old.articles.map((a) => a.title)).toEqual(["Old German"]);
+    });
+
+    it("should match phrases and exclude words", async () => {
+      const user = await createUser(db);
+      await createCompletedArticle(db, user.id, {
+        title: "The borrow checker explained",
+      });
+      await createCompletedArticle(db, user.id, {
+        title: "Checker of borrow patterns",
+      });
+      await createCompletedArticle(db, user.id, {
+        title: "The borrow checker and crypto",
+      });
+
+      const phrase = await getArticlesWithTags(user.id, {
+        query: '"borrow checker" -crypto',
+      });
+
+      expect(phrase.articles.map((a) => a.title)).toEqual([
+        "The borrow checker explained",
+      ]);
+    });
+
+    it("should combine filters with ranked text in searchArticles", async () => {
+      const user = await createUser(db);
+      const rust = await createTag(db, user.id, "rust");
+      const tagged = await createCompletedArticle(db, user.id, {
+        title: "Async runtimes",
+      });
+      await addTagToArticle(db, tagged.id, rust.id);
+      await createCompletedArticle(db, user.id, { title: "Async in Python" });
+
+      const result = await searchArticles(user.id, "async tag:rust");
+
+      expect(result.articles.map((a) => a.title)).toEqual(["Async runtimes"]);
+      expect(result.articles[0]?.snippet).toContain("Async");
+    });
+
+    it("should list filter-only searches newest first without snippets", async () => {
+      const user = await createUser(db);
+      await createCompletedArticle(db, user.id, {
+        title: "Older",
+        archived: true,
+        createdAt: new Date("2026-01-01T00:00:00Z"),
+      });
+      await createCompletedArticle(db, user.id, {
+        title: "Newer",
+        archived: true,
+        createdAt: new Date("2026-02-01T00:00:00Z"),
+      });
+      await createCompletedArticle(db, user.id, { title: "Inbox" });
+
+      const result = await searchArticles(user.id, "is:archived", {
+        limit: 1,
+      });
+
+      expect(result.articles.map((a) => a.title)).toEqual(["Newer"]);
+      expect(result.articles[0]?.snippet).toBeNull();
+      expect(result.nextCursor).toBe("1");
+
+      const next = await searchArticles(user.id, "is:archived", {
+        limit: 1,
+        cursor: "1",
+      });
+      expect(next.articles.map((a) => a.title)).toEqual(["Older"]);
+      expect(next.hasMore).toBe(false);
+    });
+  });
 });
@@ -5,25 +5,42 @@ import {
   eq,
   getTableColumns,
   inArray,
+  isNotNull,
+  isNull,
   lt,
+  ne,
+  not,
+  notInArray,
   or,
   sql,
 } from "drizzle-orm";
-import { articleSummaries, articles, articleTags, tags } from "../db/schema";
+import { articles, articleTags, tags } from "../db/schema";
 import type { Article, ArticleStatus, Tag } from "../db/types";
+import { canonicalizeUrl } from "../lib/canonical-url";
 import { db } from "../lib/db";
 import { InternalError, NotFoundError } from "../lib/errors";
-import { searchCachedArticleIds } from "./content.service";
+import { buildFtsQuery } from "../lib/fts";
+import { parseSearchQuery, type SearchQuery } from "../lib/search-query";
+import { searchEmbeddings } from "./embeddings.service";
+import {
+  matchingArticleIds,
+  type SearchIndexMatch,
+  searchIndex,
+} from "./search-index.service";
 
-type ArticleWithTags = Article & {
+export type ArticleWithTags = Article & {
   tags: Tag[];
 };
 
 const DEFAULT_ARTICLES_LIMIT = 20;
 
+export type TagMatchMode = "all" | "any";
+
 export interface GetArticlesFilters {
   archived?: boolean;
   query?: string;
+  tags?: string[];
+  tagMode?: TagMatchMode;
   cursor?: string;
   limit?: number;
 }
@@ -34,14 +51,118 @@ export interface PaginatedArticles {
   hasMore: boolean;
 }
 
+export type SearchMode = "keyword" | "semantic";
+
+export type ArticleSearchResult = ArticleWithTags & {
+  snippet: string | null;
+};
+
+export interface PaginatedSearchResults {
+  articles: ArticleSearchResult[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+// Lowercased host part of the article URL
+const urlRest = sql`substr(${articles.url}, instr(${articles.url}, '://') + 3)`;
+const urlHost = sql`lower(CASE WHEN instr(${urlRest}, '/') > 0
+  THEN substr(${urlRest}, 1, instr(${urlRest}, '/') - 1)
+  ELSE ${urlRest} END)`;
+
+/**
+ * Subquery selecting IDs of the user's articles with any of the given tags
+ */
+function taggedArticleIds(userId: string, tagNames: string[]) {
+  return db
+    .select({ id: articleTags.articleId })
+    .from(articleTags)
+    .innerJoin(tags, eq(articleTags.tagId, tags.id))
+    .where(and(eq(tags.userId, userId), inArray(tags.name, tagNames)));
+}
+
+/**
+ * Match a site by URL host (including subdomains) or site name
+ */
+function siteCondition(site: string): SQL {
+  const escaped = escapeLikeString(site);
+
+  return sql`(${urlHost} = ${site}
+    OR ${urlHost} LIKE ${`%.${escaped}`} ESCAPE '\\'
+    OR COALESCE(${articles.siteName}, '') LIKE ${`%${escaped}%`} ESCAPE '\\')`;
+}
+
+/**
+ * Build WHERE conditions for the filters and exclusions of a parsed query
+ * Free text is left to the caller, which matches or ranks it via the FTS index
+ */
+function buildSearchConditions(userId: string, query: SearchQuery): SQL[] {
+  const conditions: SQL[] = [];
+
+  for (const tagName of query.tags) {
+    conditions.push(inArray(articles.id, taggedArticleIds(userId, [tagName])));
+  }
+  for (const tagName of query.excludedTags) {
+    conditions.push(
+      notInArray(articles.id, taggedArticleIds(userId, [tagName])),
+    );
+  }
+
+  for (const site of query.sites) {
+    conditions.push(siteCondition(site));
+  }
+  for (const site of query.excludedSites) {
+    conditions.push(not(siteCondition(site)));
+  }
+
+  if (query.languages.length > 0) {
+    conditions.push(inArray(articles.language, query.languages));
+  }
+  if (query.excludedLanguages.length > 0) {
+    conditions.push(
+      or(
+        isNull(articles.language),
+        notInArray(articles.language, query.excludedLanguages),
+      ) as SQL,
+    );
+  }
+
+  if (query.archived !== undefined) {
+    conditions.push(eq(articles.archived, query.archived));
+  }
+  if (query.unread !== undefined) {
+    conditions.push(
+      query.unread ? isNull(articles.readAt) : isNotNull(articles.readAt),
+    );
+  }
+  if (query.liked !== undefined) {
+    conditions.push(
+      query.liked ? eq(articles.rating, 1) : ne(articles.rating, 1),
+    );
+  }
+  if (query.before) {
+    conditions.push(lt(articles.createdAt, query.before));
+  }
+
+  for (const part of query.excludedText) {
+    const ftsQuery = buildFtsQuery([part]);
+    if (ftsQuery) {
+      conditions.push(
+        sql`${articles.id} NOT IN (${matchingArticleIds(userId, ftsQuery)})`,
+      );
+    }
+  }
+
+  return conditions;
+}
+
 /**
  * Build WHERE conditions for article queries
- * Handles: userId, status, archived, and search (database + cached content)
+ * Handles: userId, status, archived, tags, and search (filters + full-text)
  */
-async function buildArticleConditions(
+function buildArticleConditions(
   userId: string,
   filters: GetArticlesFilters = {},
-): Promise<SQL[]> {
+): SQL[] {
   const conditions: SQL[] = [
     eq(articles.userId, userId),
     eq(articles.status, "completed"),
@@ -51,39 +172,32 @@ async function buildArticleConditions(
     conditions.push(eq(articles.archived, filters.archived));
   }
 
-  // If search query provided, search database, summaries, and cached content
-  if (filters.query?.trim()) {
-    const sanitizedQuery = escapeLikeString(filters.query.trim());
-    const searchPattern = `%${sanitizedQuery}%`;
-    const searchConditions: SQL[] = [];
-
-    // Search database (title, description, and summaries)
-    const dbSearchCondition = or(
-      sql`${articles.title} LIKE ${searchPattern} ESCAPE '\\'`,
-      sql`${articles.description} LIKE ${searchPattern} ESCAPE '\\'`,
-      sql`${articleSummaries.oneSentence} LIKE ${searchPattern} ESCAPE '\\'`,
-      sql`${articleSummaries.oneParagraph} LIKE ${searchPattern} ESCAPE '\\'`,
-      sql`${articleSummaries.long} LIKE ${searchPattern} ESCAPE '\\'`,
-    );
-    if (dbSearchCondition) {
-      searchConditions.push(dbSearchCondition);
+  if (filters.tags && filters.tags.length > 0) {
+    if (filters.tagMode === "any") {
+      conditions.push(
+        inArray(articles.id, taggedArticleIds(userId, filters.tags)),
+      );
+    } else {
+      for (const tagName of filters.tags) {
+        conditions.push(
+          inArray(articles.id, taggedArticleIds(userId, [tagName])),
+        );
+      }
     }
+  }
 
-    // Search cached content using ripgrep (user-specific directory)
-    const contentMatchIds = await searchCachedArticleIds(
-      userId,
-      filters.query.trim(),
-    );
-    if (contentMatchIds.length > 0) {
-      searchConditions.push(inArray(articles.id, contentMatchIds));
-    }
+  if (filters.query?.trim()) {
+    const query = parseSearchQuery(filters.query);
+    conditions.push(...buildSearchConditions(userId, query));
 
-    // Combine: match database OR summaries OR cached content
-    if (searchConditions.length > 0) {
-      const combinedSearch = or(...searchConditions);
-      if (combinedSearch) {
-        conditions.push(combinedSearch);
-      }
+    // Match free text in the FTS index (metadata, plain text and summaries)
+    if (query.text.length > 0) {
+      const ftsQuery = buildFtsQuery(query.text);
+      conditions.push(
+        ftsQuery
+          ? sql`${articles.id} IN (${matchingArticleIds(userId, ftsQuery)})`
+          : sql`0`,
+      );
     }
   }
 
@@ -124,7 +238,7 @@ export async function getArticlesWithTags(
   filters: GetArticlesFilters = {},
 ): Promise<PaginatedArticles> {
   const limit = filters.limit ?? DEFAULT_ARTICLES_LIMIT;
-  const conditions = await buildArticleConditions(userId, filters);
+  const conditions = buildArticleConditions(userId, filters);
 
   // Add cursor condition for pagination
   if (filters.cursor) {
@@ -157,7 +271,6 @@ export async function getArticlesWithTags(
     .from(articles)
     .leftJoin(articleTags, eq(articles.id, articleTags.articleId))
     .leftJoin(tags, eq(articleTags.tagId, tags.id))
-    .leftJoin(articleSummaries, eq(articles.id, articleSummaries.articleId))
     .where(and(...conditions))
     .groupBy(articles.id)
     .orderBy(
@@ -202,17 +315,130 @@ export async function countArticles(
   userId: string,
   filters: GetArticlesFilters = {},
 ): Promise<number> {
-  const conditions = await buildArticleConditions(userId, filters);
+  const conditions = buildArticleConditions(userId, filters);
 
   const [result] = await db
     .select({ count: sql<number>`count(*)` })
     .from(articles)
-    .leftJoin(articleSummaries, eq(articles.id, articleSummaries.articleId))
     .where(and(...conditions));
 
   return result?.count ?? 0;
 }
 
+/**
+ * Search across all completed articles using the search query language
+ * Free text is ranked by relevance, filter-only queries list newest first
+ * Uses an offset cursor since bm25 order has no stable keyset
+ * matchAny ranks articles matching any of the words instead of all of them,
+ * semantic mode ranks free text by embedding similarity instead of bm25
+ */
+export async function searchArticles(
+  userId: string,
+  query: string,
+  options: {
+    cursor?: string;
+    limit?: number;
+    matchAny?: boolean;
+    mode?: SearchMode;
+  } = {},
+): Promise<PaginatedSearchResults> {
+  const limit = options.limit ?? DEFAULT_ARTICLES_LIMIT;
+  const offset = Math.max(Number.parseInt(options.cursor ?? "", 10) || 0, 0);
+  const parsedQuery = parseSearchQuery(query);
+  const ftsQuery = buildFtsQuery(parsedQuery.text, {
+    matchAny: options.matchAny,
+  });
+  const semanticQuery = parsedQuery.text.map((part) => part.value).join(" ");
+
+  // Text without searchable words can't match anything
+  if (parsedQuery.text.length > 0 && !ftsQuery) {
+    return { articles: [], nextCursor: null, hasMore: false };
+  }
+
+  const where = and(
+    eq(articles.userId, userId),
+    eq(articles.status, "completed"),
+    ...buildSearchConditions(userId, parsedQuery),
+  ) as SQL;
+
+  // Fetch limit + 1 to detect if there are more results
+  const matches: SearchIndexMatch[] = !ftsQuery
+    ? (
+        await db
+          .select({ articleId: articles.id })
+          .from(articles)
+          .where(where)
+          .orderBy(desc(articles.createdAt), desc(articles.id))
+          .limit(limit + 1)
+          .offset(offset)
+      ).map((row) => ({ ...row, snippet: null }))
+    : options.mode === "semantic"
+      ? await searchEmbeddings(userId, semanticQuery, {
+          where,
+          limit: limit + 1,
+          offset,
+        })
+      : await searchIndex(userId, ftsQuery, {
+          where,
+          limit: limit + 1,
+          offset,
+        });
+
+  const hasMore = matches.length > limit;
+  const pageMatches = hasMore ? matches.slice(0, limit) : matches;
+
+  if (pageMatches.length === 0) {
+    return { articles: [], nextCursor: null, hasMore: false };
+  }
+
+  const results = await db
+    .select({
+      ...getTableColumns(articles),
+      tags: sql<string>`COALESCE(json_group_array(
+        CASE WHEN ${tags.id} IS NOT NULL
+        THEN json_object('id', ${tags.id}, 'name', ${tags.name})
+        END
+      ), '[]')`,
+    })
+    .from(articles)
+    .leftJoin(articleTags, eq(articles.id, articleTags.articleId))
+    .leftJoin(tags, eq(articleTags.tagId, tags.id))
+    .where(
+      and(
+        eq(articles.userId, userId),
+        inArray(
+          articles.id,
+          pageMatches.map((match) => match.articleId),
+        ),
+      ),
+    )
+    .groupBy(articles.id);
+
+  const articlesById = new Map(results.map((row) => [row.id, row]));
+
+  // Keep the ranking order from the index
+  const rankedArticles = pageMatches.flatMap((match) => {
+    const row = articlesById.get(match.articleId);
+    if (!row) return [];
+
+    return [
+      {
+        ...row,
+        tags: JSON.parse(row.tags).filter(
+          (tag: { id: string; name: string } | null) => tag !== null,
+        ),
+        snippet: match.snippet,
+      },
+    ];
+  });
+
+  return {
+    articles: rankedArticles,
+    nextCursor: hasMore ? String(offset + limit) : null,
+    hasMore,
+  };
+}
+
 export async function getArticleById(id: string) {
   const [article] = await db
     .select()
@@ -249,9 +475,42 @@ export async function updateArticleProcessing({
     .where(eq(articles.id, id));
 }
 
+/**
+ * Store the canonical URL the page declares for an article
+ * Returns false and keeps the article unchanged when another article of the
+ * user already has it
+ */
+export async function updateArticleCanonicalUrl(
+  article: Pick<Article, "id" | "userId">,
+  canonicalUrl: string,
+): Promise<boolean> {
+  const [taken] = await db
+    .select({ id: articles.id })
+    .from(articles)
+    .where(
+      and(
+        eq(articles.userId, article.userId),
+        eq(articles.canonicalUrl, canonicalUrl),
+        ne(articles.id, article.id),
+      ),
+    )
+    .limit(1);
+
+  if (taken) {
+    return false;
+  }
+
+  await db
+    .update(articles)
+    .set({ canonicalUrl, updatedAt: new Date() })
+    .where(eq(articles.id, article.id));
+
+  return true;
+}
+
 export async function updateArticleCompleted({
   id,
-  tags,
+  tags: extractedTags,
   metadata,
   language,
   wordCount,
@@ -282,14 +541,27 @@ export async function updateArticleCompleted({
       })
       .where(eq(articles.id, id));
 
-    // Delete existing article-tag associations (in case of retry)
-    await tx.delete(articleTags).where(eq(articleTags.articleId, id));
+    // Replace extracted tags (in case of retry), keep the ones added by hand
+    // or imported
+    await tx
+      .delete(articleTags)
+      .where(
+        and(eq(articleTags.articleId, id), eq(articleTags.autoGenerated, true)),
+      );
+
+    const kept = await tx
+      .select({ tagId: articleTags.tagId })
+      .from(articleTags)
+      .where(eq(articleTags.articleId, id));
+    const keptIds = new Set(kept.map((row) => row.tagId));
+    const added = extractedTags.filter((tag) => !keptIds.has(tag.id));
 
-    if (tags.length > 0) {
+    if (added.length > 0) {
       await tx.insert(articleTags).values(
-        tags.map((tag) => ({
+        added.map((tag) => ({
           articleId: id,
           tagId: tag.id,
+          autoGenerated: true,
         })),
       );
     }
@@ -390,6 +662,58 @@ export async function toggleArticleArchive(
   return newArchivedStatus;
 }
 
+/**
+ * Set article archive status explicitly
+ * Idempotent counterpart of toggleArticleArchive for API clients
+ */
+export async function setArticleArchived(
+  articleId: string,
+  userId: string,
+  archived: boolean,
+): Promise<void> {
+  // Verify article exists and belongs to user
+  const [article] = await db
+    .select()
+    .from(articles)
+    .where(and(eq(articles.id, articleId), eq(articles.userId, userId)))
+    .limit(1);
+
+  if (!article) {
+    throw new NotFoundError("Article", articleId);
+  }
+
+  if (article.archived === archived) {
+    return;
+  }
+
+  await db
+    .update(articles)
+    .set({
+      archived,
+      archivedAt: archived ? new Date() : null,
+    })
+    .where(eq(articles.id, articleId));
+}
+
+/**
+ * Leave an article out of digests until the given date
+ */
+export async function snoozeArticle(
+  articleId: string,
+  userId: string,
+  until: Date,
+): Promise<void> {
+  const updated = await db
+    .update(articles)
+    .set({ snoozedUntil: until })
+    .where(and(eq(articles.id, articleId), eq(articles.userId, userId)))
+    .returning({ id: articles.id });
+
+  if (updated.length === 0) {
+    throw new NotFoundError("Article", articleId);
+  }
+}
+
 /**
  * Rate and archive an article
  */
@@ -416,6 +740,35 @@ export async function rateArticle(
     .where(eq(articles.id, articleId));
 }
 
+export interface ArticleBatchStatus {
+  // Every article completed or ran out of retries
+  finished: boolean;
+  total: number;
+  failed: Array<Pick<Article, "id" | "url">>;
+}
+
+/**
+ * Processing status of articles saved together, like links of one message
+ */
+export async function getArticleBatchStatus(
+  articleIds: string[],
+): Promise<ArticleBatchStatus> {
+  const rows = await db
+    .select({ id: articles.id, url: articles.url, status: articles.status })
+    .from(articles)
+    .where(inArray(articles.id, articleIds));
+
+  return {
+    finished: rows.every(
+      (row) => row.status === "completed" || row.status === "error",
+    ),
+    total: rows.length,
+    failed: rows
+      .filter((row) => row.status === "error")
+      .map(({ id, url }) => ({ id, url })),
+  };
+}
+
 /**
  * Count articles by status for a user
  */
@@ -433,8 +786,72 @@ export async function countArticlesByStatus(
   return result?.count ?? 0;
 }
 
+export interface CreateArticleResult {
+  article: Article;
+  // The link was already saved, and the existing article was bumped instead
+  duplicate: boolean;
+  // Whether the article needs a processing job
+  shouldProcess: boolean;
+}
+
+/**
+ * Find the user's article saved from a canonical URL
+ */
+async function findArticleByCanonicalUrl(
+  userId: string,
+  canonicalUrl: string,
+): Promise<Article | undefined> {
+  const [article] = await db
+    .select()
+    .from(articles)
+    .where(
+      and(
+        eq(articles.userId, userId),
+        or(
+          eq(articles.canonicalUrl, canonicalUrl),
+          // The page may declare another canonical URL than the saved link
+          and(eq(articles.url, canonicalUrl), isNotNull(articles.canonicalUrl)),
+        ),
+      ),
+    )
+    .limit(1);
+
+  return article;
+}
+
+/**
+ * Move an article saved again to the top of the inbox
+ * Un-archives it, and resets failed processing so it's retried
+ */
+async function bumpArticle(article: Article): Promise<CreateArticleResult> {
+  const now = new Date();
+  const shouldProcess = article.status === "failed";
+
+  const [bumped] = await db
+    .update(articles)
+    .set({
+      createdAt: now,
+      archived: false,
+      archivedAt: null,
+      updatedAt: now,
+      ...(shouldProcess && {
+        status: "pending" as const,
+        processingAttempts: 0,
+        lastError: null,
+      }),
+    })
+    .where(eq(articles.id, article.id))
+    .returning();
+
+  return { article: bumped ?? article, duplicate: true, shouldProcess };
+}
+
 /**
  * Create a new article
+ * The URL is kept as submitted, and saving a link whose canonical form the
+ * user already has bumps the existing article instead. Pass bump: false to
+ * return it unchanged, like for posts of subscribed feeds, and deduplicate:
+ * false for content that has no link of its own, like long Telegram messages
  */
 export async function createArticle(params: {
   userId: string;
@@ -443,29 +860,62 @@ export async function createArticle(params: {
   description?: string;
   siteName?: string;
   imageUrl?: string;
-}): Promise<Article> {
+  // Pages of a PDF sent as a file, for the reading time
+  pageCount?: number;
+  deduplicate?: boolean;
+  bump?: boolean;
+}): Promise<CreateArticleResult> {
+  const deduplicate = params.deduplicate ?? true;
+  const bump = params.bump ?? true;
+  const canonicalUrl = deduplicate ? canonicalizeUrl(params.url) : null;
+
+  if (canonicalUrl) {
+    const existing = await findArticleByCanonicalUrl(
+      params.userId,
+      canonicalUrl,
+    );
+    if (existing) {
+      return bump
+        ? bumpArticle(existing)
+        : { article: existing, duplicate: true, shouldProcess: false };
+    }
+  }
+
   const [article] = await db
     .insert(articles)
     .values({
       userId: params.userId,
       url: params.url,
+      canonicalUrl,
       title: params.title ?? null,
       description: params.description ?? null,
       siteName: params.siteName ?? null,
       imageUrl: params.imageUrl ?? null,
+      pageCount: params.pageCount ?? null,
       status: "pending",
       processingAttempts: 0,
     })
+    .onConflictDoNothing()
     .returning();
 
   if (!article) {
+    // The same link was saved concurrently
+    const existing = canonicalUrl
+      ? await findArticleByCanonicalUrl(params.userId, canonicalUrl)
+      : undefined;
+    if (existing) {
+      return bump
+        ? bumpArticle(existing)
+        : { article: existing, duplicate: true, shouldProcess: false };
+    }
+
     throw new InternalError("Failed to create article", {
       userId: params.userId,
       url: params.url,
     });
   }
 
-  return article;
+  return { article, duplicate: false, shouldProcess: true };
 }
 
 /**
@@ -1,5 +1,3 @@
-import { join } from "node:path";
-import { config } from "../lib/config";
 import { contentCache } from "../lib/content-cache";
 import { ExternalServiceError } from "../lib/errors";
 import { defaultLogger } from "../lib/logger";
@@ -44,62 +42,3 @@ export async function getArticleContent(
 
   return content;
 }
-
-/**
- * Search cached article content using ripgrep
- * Returns array of article IDs whose cached content matches the search query
- *
- * Note: Cache files are named {userId}/{articleId}.html
- * Searches only within the specified user's cache directory for privacy
- */
-export async function searchCachedArticleIds(
-  userId: string,
-  searchQuery: string,
-): Promise<string[]> {
-  try {
-    const userCacheDir = join(config.CACHE_DIR, userId);
-
-    // Use ripgrep to search through cached HTML files in user's directory
-    // Cache files are stored as {userId}/{articleId}.html
-    const proc = Bun.spawn(
-      [
-        "rg",
-        "--files-with-matches",
-        "--ignore-case",
-        "--fixed-strings",
-        "--",
-        searchQuery,
-        userCacheDir,
-      ],
-      {
-        stdout: "pipe",
-        stderr: "pipe",
-      },
-    );
-
-    const output = await new Response(proc.stdout).text();
-    const exitCode = await proc.exited;
-
-    // Exit code 0 = matches found, 1 = no matches, >1 = error
-    if (exitCode > 1) {
-      logger.warn("ripgrep search failed with exit code", { exitCode });
-      return [];
-    }
-
-    // Extract article IDs from file paths
-    // Cache files are named {articleId}.html (UUID format)
-    const articleIds = output
-      .split("\n")
-      .filter((line) => line.trim())
-      .map((filePath) => {
-        const match = filePath.match(/([a-f0-9-]{36})\.html$/);
-        return match ? match[1] : null;
-      })
-      .filter((id): id is string => id !== null);
-
-    return articleIds;
-  } catch (error) {
-    logger.error("Error searching cached content", { error });
-    return [];
-  }
-}
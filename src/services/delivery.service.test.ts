@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from "bun:test";
+import { db, resetDatabase } from "../../test/bootstrap";
+import { createCompletedArticle, createUser } from "../../test/fixtures";
+import { config } from "../lib/config";
+import { contentCache } from "../lib/content-cache";
+import { ValidationError } from "../lib/errors";
+import * as readability from "../lib/readability";
+import * as smtp from "../lib/smtp";
+import { deliverArticle, getDeliveryAddress } from "./delivery.service";
+import { updateDeliveryPreferences } from "./preferences.service";
+
+describe("delivery.service", () => {
+  let userId: string;
+  let smtpConfig: Pick<typeof config, "SMTP_HOST" | "SMTP_FROM">;
+  let spySendMail: ReturnType<typeof spyOn<typeof smtp, "sendMail">>;
+  let spyGet: ReturnType<typeof spyOn<typeof contentCache, "get">>;
+  let spyExtractCleanContent: ReturnType<
+    typeof spyOn<typeof readability, "extractCleanContent">
+  >;
+
+  beforeEach(async () => {
+    resetDatabase();
+    smtpConfig = { SMTP_HOST: config.SMTP_HOST, SMTP_FROM: config.SMTP_FROM };
+    config.SMTP_HOST = "smtp.example.com";
+    config.SMTP_FROM = "lateread@example.com";
+
+    spySendMail = spyOn(smtp, "sendMail").mockResolvedValue();
+    spyGet = spyOn(contentCache, "get").mockResolvedValue(
+      "<p>Cached content</p>",
+    );
+    spyExtractCleanContent = spyOn(
+      readability,
+      "extractCleanContent",
+    ).mockRejectedValue(new Error("Offline"));
+
+    const user = await createUser(db);
+    userId = user.id;
+  });
+
+  afterEach(() => {
+    Object.assign(config, smtpConfig);
+    spySendMail.mockRestore();
+    spyGet.mockRestore();
+    spyExtractCleanContent.mockRestore();
+  });
+
+  describe("getDeliveryAddress", () => {
+    it("should return the saved address", async () => {
+      await updateDeliveryPreferences(userId, { email: "me@kindle.com" });
+
+      expect(await getDeliveryAddress(userId)).toBe("me@kindle.com");
+    });
+
+    it("should throw without a delivery address", async () => {
+      expect(getDeliveryAddress(userId)).rejects.toThrow(
+        "Set a delivery address in Settings first",
+      );
+    });
+
+    it("should throw when SMTP isn't configured", async () => {
+      await updateDeliveryPreferences(userId, { email: "me@kindle.com" });
+      config.SMTP_HOST = undefined;
+
+      expect(getDeliveryAddress(userId)).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe("deliverArticle", () => {
+    it("should email the article as EPUB", async () => {
+      await updateDeliveryPreferences(userId, { email: "me@kindle.com" });
+      const article = await createCompletedArticle(db, userId, {
+        title: "Rust & Go",
+      });
+
+      await deliverArticle({ articleId: article.id, userId });
+
+      expect(spySendMail).toHaveBeenCalledTimes(1);
+      const [message] = spySendMail.mock.calls[0] ?? [];
+      expect(message?.from).toBe("lateread@example.com");
+      expect(message?.to).toBe("me@kindle.com");
+      expect(message?.subject).toBe("Rust & Go");
+      expect(message?.attachments?.[0]).toMatchObject({
+        filename: "rust-go.epub",
+        contentType: "application/epub+zip",
+      });
+    });
+
+    it("should email the article as HTML", async () => {
+      await updateDeliveryPreferences(userId, {
+        email: "me@kindle.com",
+        format: "html",
+      });
+      const article = await createCompletedArticle(db, userId, {
+        title: "Rust & Go",
+      });
+
+      await deliverArticle({ articleId: article.id, userId });
+
+      const attachment = spySendMail.mock.calls[0]?.[0].attachments?.[0];
+      expect(attachment?.filename).toBe("rust-go.html");
+      expect(attachment?.contentType).toBe("text/html; charset=utf-8");
+      expect(new TextDecoder().decode(attachment?.content)).toContain(
+        "<p>Cached content</p>",
+      );
+    });
+
+    it("should skip when the address was removed", async () => {
+      const article = await createCompletedArticle(db, userId);
+
+      await deliverArticle({ articleId: article.id, userId });
+
+      expect(spySendMail).not.toHaveBeenCalled();
+    });
+
+    it("should rethrow send failures for a retry", async () => {
+      await updateDeliveryPreferences(userId, { email: "me@kindle.com" });
+      const article = await createCompletedArticle(db, userId);
+      spySendMail.mockRejectedValue(new Error("Connection refused"));
+
+      expect(deliverArticle({ articleId: article.id, userId })).rejects.toThrow(
+        "Connection refused",
+      );
+    });
+  });
+});
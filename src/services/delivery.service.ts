@@ -0,0 +1,87 @@
+import type { Article } from "../db/types";
+import { config } from "../lib/config";
+import { ValidationError } from "../lib/errors";
+import { defaultLogger } from "../lib/logger";
+import type { DeliveryJobData } from "../lib/queue";
+import {
+  isEmailDeliveryAvailable,
+  type MailAttachment,
+  sendMail,
+} from "../lib/smtp";
+import { getArticleWithTagsById } from "./articles.service";
+import { getArticleContent } from "./content.service";
+import { createArticleEpub, toFilename } from "./epub.service";
+import { articleDocument } from "./export.service";
+import { getDeliveryPreferences } from "./preferences.service";
+
+const logger = defaultLogger.child({ module: "delivery" });
+
+/**
+ * Address articles are delivered to
+ * Throws when delivery isn't configured on the server or for the user
+ */
+export async function getDeliveryAddress(userId: string): Promise<string> {
+  if (!isEmailDeliveryAvailable()) {
+    throw new ValidationError("Email delivery is not available");
+  }
+
+  const { email } = await getDeliveryPreferences(userId);
+  if (!email) {
+    throw new ValidationError("Set a delivery address in Settings first");
+  }
+
+  return email;
+}
+
+async function htmlAttachment(
+  userId: string,
+  article: Article,
+): Promise<MailAttachment> {
+  const content = await getArticleContent(userId, article.id, article.url);
+
+  return {
+    filename: toFilename(article.title || article.url, "html"),
+    contentType: "text/html; charset=utf-8",
+    content: new TextEncoder().encode(articleDocument(article, content)),
+  };
+}
+
+/**
+ * Email an article to the user's delivery address, run by the delivery worker
+ * Throws on failure so the job is retried
+ */
+export async function deliverArticle({
+  articleId,
+  userId,
+}: DeliveryJobData): Promise<void> {
+  const { email, format } = await getDeliveryPreferences(userId);
+  if (!email || !config.SMTP_FROM) {
+    logger.warn("Delivery address removed, skipping", { articleId, userId });
+    return;
+  }
+
+  const article = await getArticleWithTagsById(articleId, userId);
+  const title = article.title || article.url;
+
+  let attachment: MailAttachment;
+  if (format === "html") {
+    attachment = await htmlAttachment(userId, article);
+  } else {
+    const epub = await createArticleEpub(userId, articleId);
+    attachment = {
+      filename: epub.filename,
+      contentType: "application/epub+zip",
+      content: epub.data,
+    };
+  }
+
+  await sendMail({
+    from: config.SMTP_FROM,
+    to: email,
+    subject: title,
+    text: `${title}\n${article.url}\n\nSent from lateread.`,
+    attachments: [attachment],
+  });
+
+  logger.info("Article delivered", { articleId, userId, format });
+}
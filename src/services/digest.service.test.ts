@@ -0,0 +1,230 @@
+import { beforeEach, describe, expect, it, mock } from "bun:test";
+import type { Api } from "grammy";
+import { db, resetDatabase } from "../../test/bootstrap";
+import {
+  addTagToArticle,
+  createCompletedArticle,
+  createTag,
+  createTelegramUser,
+  createUser,
+} from "../../test/fixtures";
+import { articleSummaries } from "../db/schema";
+import { DEFAULT_DIGEST_PREFERENCES } from "../db/types";
+import {
+  buildDigestMessage,
+  isDigestDue,
+  pickDigestArticles,
+  sendScheduledDigests,
+} from "./digest.service";
+import { updateDigestPreferences } from "./preferences.service";
+
+// Monday, 8am UTC
+const now = new Date("2026-03-02T08:00:00Z");
+
+function daysAgo(days: number): Date {
+  return new Date(now.getTime() - days * 86_400_000);
+}
+
+function createApi() {
+  const sendMessage = mock(async () => ({}));
+  return { api: { sendMessage } as unknown as Api, sendMessage };
+}
+
+describe("digest.service", () => {
+  let userId: string;
+
+  beforeEach(async () => {
+    resetDatabase();
+    const user = await createUser(db);
+    userId = user.id;
+  });
+
+  describe("pickDigestArticles", () => {
+    it("should take turns between the oldest, shortest and best rated tags", async () => {
+      const oldest = await createCompletedArticle(db, userId, {
+        title: "Oldest",
+        createdAt: daysAgo(30),
+        readingTimeSeconds: 1200,
+      });
+      const shortest = await createCompletedArticle(db, userId, {
+        title: "Shortest",
+        createdAt: daysAgo(2),
+        readingTimeSeconds: 60,
+      });
+      const matching = await createCompletedArticle(db, userId, {
+        title: "Rust",
+        createdAt: daysAgo(1),
+        readingTimeSeconds: 600,
+      });
+      await createCompletedArticle(db, userId, {
+        title: "Other",
+        createdAt: daysAgo(3),
+        readingTimeSeconds: 900,
+      });
+
+      const rust = await createTag(db, userId, "rust");
+      const liked = await createCompletedArticle(db, userId, {
+        archived: true,
+        rating: 1,
+      });
+      await addTagToArticle(db, liked.id, rust.id);
+      await addTagToArticle(db, matching.id, rust.id);
+
+      const picks = await pickDigestArticles(userId, 3, now);
+
+      expect(picks.map(({ article, reason }) => [article.id, reason])).toEqual([
+        [oldest.id, "oldest"],
+        [shortest.id, "shortest"],
+        [matching.id, "for-you"],
+      ]);
+    });
+
+    it("should not suggest tags of disliked articles", async () => {
+      await createCompletedArticle(db, userId, { createdAt: daysAgo(5) });
+      const disliked = await createCompletedArticle(db, userId, {
+        archived: true,
+        rating: -1,
+      });
+      const candidate = await createCompletedArticle(db, userId, {
+        createdAt: daysAgo(1),
+      });
+      const crypto = await createTag(db, userId, "crypto");
+      await addTagToArticle(db, disliked.id, crypto.id);
+      await addTagToArticle(db, candidate.id, crypto.id);
+
+      const picks = await pickDigestArticles(userId, 3, now);
+
+      expect(picks.map((pick) => pick.reason)).toEqual(["oldest", "oldest"]);
+    });
+
+    it("should skip archived, snoozed and unprocessed articles", async () => {
+      const unread = await createCompletedArticle(db, userId);
+      await createCompletedArticle(db, userId, { archived: true });
+      await createCompletedArticle(db, userId, {
+        snoozedUntil: new Date(now.getTime() + 86_400_000),
+      });
+      const snoozeOver = await createCompletedArticle(db, userId, {
+        createdAt: daysAgo(10),
+        snoozedUntil: daysAgo(1),
+      });
+
+      const picks = await pickDigestArticles(userId, 5, now);
+
+      expect(picks.map((pick) => pick.article.id)).toEqual([
+        snoozeOver.id,
+        unread.id,
+      ]);
+    });
+
+    it("should include one-sentence summaries", async () => {
+      const article = await createCompletedArticle(db, userId);
+      await db.insert(articleSummaries).values({
+        articleId: article.id,
+        oneSentence: "Short summary.",
+        oneParagraph: "Paragraph.",
+        long: "Long.",
+      });
+
+      const [pick] = await pickDigestArticles(userId, 1, now);
+
+      expect(pick?.summary).toBe("Short summary.");
+    });
+  });
+
+  describe("buildDigestMessage", () => {
+    it("should list the picks with buttons for each", async () => {
+      const article = await createCompletedArticle(db, userId, {
+        title: "Rust <3 Go",
+        readingTimeSeconds: 300,
+      });
+
+      const { text, keyboard } = buildDigestMessage([
+        { article, reason: "shortest", summary: "A & B." },
+      ]);
+
+      expect(text).toContain(
+        `1. <a href="https://lateread.app/articles/${article.id}">Rust &lt;3 Go</a>`,
+      );
+      expect(text).toContain("Quick read");
+      expect(text).toContain("A &amp; B.");
+      expect(keyboard.inline_keyboard).toEqual([
+        [
+          {
+            text: "1. Open",
+            url: `https://lateread.app/articles/${article.id}`,
+          },
+          { text: "Archive", callback_data: `digest:archive:${article.id}` },
+          { text: "Snooze", callback_data: `digest:snooze:${article.id}` },
+        ],
+      ]);
+    });
+  });
+
+  describe("isDigestDue", () => {
+    it.each([
+      [{ frequency: "off", hour: 8 }, false],
+      [{ frequency: "daily", hour: 8 }, true],
+      [{ frequency: "daily", hour: 9 }, false],
+      [{ frequency: "weekly", hour: 8, weekday: 1 }, true],
+      [{ frequency: "weekly", hour: 8, weekday: 0 }, false],
+    ] as const)("%o should be due: %p", (prefs, due) => {
+      expect(
+        isDigestDue({ ...DEFAULT_DIGEST_PREFERENCES, ...prefs }, now),
+      ).toBe(due);
+    });
+  });
+
+  describe("sendScheduledDigests", () => {
+    it("should message users scheduled for this hour", async () => {
+      await createTelegramUser(db, userId, "1001");
+      await updateDigestPreferences(userId, { frequency: "daily" });
+      await createCompletedArticle(db, userId);
+
+      const later = await createUser(db);
+      await createTelegramUser(db, later.id, "1002");
+      await updateDigestPreferences(later.id, { frequency: "daily", hour: 20 });
+      await createCompletedArticle(db, later.id);
+
+      const { api, sendMessage } = createApi();
+      const sent = await sendScheduledDigests(api, now);
+
+      expect(sent).toBe(1);
+      expect(sendMessage).toHaveBeenCalledTimes(1);
+      expect(sendMessage.mock.calls[0]).toMatchObject([
+        "1001",
+        expect.stringContaining("Your reading digest"),
+        { parse_mode: "HTML" },
+      ]);
+    });
+
+    it("should skip users with nothing unread", async () => {
+      await createTelegramUser(db, userId, "1001");
+      await updateDigestPreferences(userId, { frequency: "daily" });
+
+      const { api, sendMessage } = createApi();
+
+      expect(await sendScheduledDigests(api, now)).toBe(0);
+      expect(sendMessage).not.toHaveBeenCalled();
+    });
+
+    it("should keep going when a chat can't be reached", async () => {
+      const other = await createUser(db);
+      for (const [id, telegramId] of [
+        [userId, "1001"],
+        [other.id, "1002"],
+      ] as const) {
+        await createTelegramUser(db, id, telegramId);
+        await updateDigestPreferences(id, { frequency: "daily" });
+        await createCompletedArticle(db, id);
+      }
+
+      const { api, sendMessage } = createApi();
+      sendMessage.mockRejectedValueOnce(
+        new Error("Forbidden: bot was blocked"),
+      );
+
+      expect(await sendScheduledDigests(api, now)).toBe(1);
+      expect(sendMessage).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,289 @@
+import { and, eq, inArray, isNull, lte, ne, or, sql } from "drizzle-orm";
+import { type Api, InlineKeyboard } from "grammy";
+import {
+  articleSummaries,
+  articles,
+  articleTags,
+  telegramUsers,
+} from "../db/schema";
+import type { Article, DigestPreferences } from "../db/types";
+import { config } from "../lib/config";
+import { formatReadingTime } from "../lib/date";
+import { db } from "../lib/db";
+import { defaultLogger } from "../lib/logger";
+import { getDigestPreferences } from "./preferences.service";
+
+const logger = defaultLogger.child({ module: "digest" });
+
+// Snoozed articles are left out of digests for this long
+export const DIGEST_SNOOZE_DAYS = 7;
+
+export type DigestReason = "oldest" | "shortest" | "for-you";
+
+type DigestArticle = Pick<
+  Article,
+  "id" | "title" | "url" | "siteName" | "readingTimeSeconds" | "createdAt"
+>;
+
+export interface DigestPick {
+  article: DigestArticle;
+  reason: DigestReason;
+  summary: string | null;
+}
+
+const REASON_LABELS: Record<DigestReason, string> = {
+  oldest: "Waiting the longest",
+  shortest: "Quick read",
+  "for-you": "Picked for you",
+};
+
+/**
+ * Unread, processed articles that aren't snoozed
+ */
+function candidateConditions(userId: string, now: Date) {
+  return and(
+    eq(articles.userId, userId),
+    eq(articles.archived, false),
+    eq(articles.status, "completed"),
+    or(isNull(articles.snoozedUntil), lte(articles.snoozedUntil, now)),
+  );
+}
+
+/**
+ * Score of each unread article from the ratings of articles sharing its tags
+ */
+async function getAffinityScores(
+  userId: string,
+  now: Date,
+): Promise<Map<string, number>> {
+  const affinities = await db
+    .select({
+      tagId: articleTags.tagId,
+      affinity: sql<number>`sum(${articles.rating})`,
+    })
+    .from(articleTags)
+    .innerJoin(articles, eq(articles.id, articleTags.articleId))
+    .where(and(eq(articles.userId, userId), ne(articles.rating, 0)))
+    .groupBy(articleTags.tagId);
+
+  const tagAffinity = new Map(
+    affinities.map((row) => [row.tagId, row.affinity]),
+  );
+  const candidateTags = await db
+    .select({ articleId: articleTags.articleId, tagId: articleTags.tagId })
+    .from(articleTags)
+    .innerJoin(articles, eq(articles.id, articleTags.articleId))
+    .where(candidateConditions(userId, now));
+
+  const scores = new Map<string, number>();
+  for (const { articleId, tagId } of candidateTags) {
+    const affinity = tagAffinity.get(tagId) ?? 0;
+    scores.set(articleId, (scores.get(articleId) ?? 0) + affinity);
+  }
+  return scores;
+}
+
+/**
+ * Pick unread articles for a digest, taking turns between the oldest,
+ * the shortest and the best match for the tags of liked articles
+ */
+export async function pickDigestArticles(
+  userId: string,
+  size: number,
+  now: Date = new Date(),
+): Promise<DigestPick[]> {
+  const candidates = await db
+    .select({
+      id: articles.id,
+      title: articles.title,
+      url: articles.url,
+      siteName: articles.siteName,
+      readingTimeSeconds: articles.readingTimeSeconds,
+      createdAt: articles.createdAt,
+    })
+    .from(articles)
+    .where(candidateConditions(userId, now));
+
+  if (candidates.length === 0) {
+    return [];
+  }
+
+  const scores = await getAffinityScores(userId, now);
+  const score = (article: DigestArticle) => scores.get(article.id) ?? 0;
+  const age = (a: DigestArticle, b: DigestArticle) =>
+    a.createdAt.getTime() - b.createdAt.getTime();
+
+  const rankings: Array<[DigestReason, DigestArticle[]]> = [
+    ["oldest", candidates.toSorted(age)],
+    [
+      "shortest",
+      candidates
+        .filter((article) => article.readingTimeSeconds)
+        .toSorted(
+          (a, b) =>
+            (a.readingTimeSeconds ?? 0) - (b.readingTimeSeconds ?? 0) ||
+            age(a, b),
+        ),
+    ],
+    [
+      "for-you",
+      candidates
+        .filter((article) => score(article) > 0)
+        .toSorted((a, b) => score(b) - score(a) || age(a, b)),
+    ],
+  ];
+
+  const picks = new Map<
+    string,
+    { article: DigestArticle; reason: DigestReason }
+  >();
+  let added = true;
+  while (added && picks.size < size) {
+    added = false;
+    for (const [reason, ranking] of rankings) {
+      const article = ranking.find((candidate) => !picks.has(candidate.id));
+      if (article && picks.size < size) {
+        picks.set(article.id, { article, reason });
+        added = true;
+      }
+    }
+  }
+
+  const summaries = await db
+    .select({
+      articleId: articleSummaries.articleId,
+      oneSentence: articleSummaries.oneSentence,
+    })
+    .from(articleSummaries)
+    .where(inArray(articleSummaries.articleId, [...picks.keys()]));
+  const summaryByArticle = new Map(
+    summaries.map((row) => [row.articleId, row.oneSentence]),
+  );
+
+  return [...picks.values()].map((pick) => ({
+    ...pick,
+    summary: summaryByArticle.get(pick.article.id) ?? null,
+  }));
+}
+
+/**
+ * Telegram message (HTML) with buttons to open, archive or snooze each pick
+ */
+export function buildDigestMessage(picks: DigestPick[]): {
+  text: string;
+  keyboard: InlineKeyboard;
+} {
+  const keyboard = new InlineKeyboard();
+
+  const entries = picks.map(({ article, reason, summary }, index) => {
+    const number = index + 1;
+    const link = `${config.APP_URL}/articles/${article.id}`;
+    const details = [
+      REASON_LABELS[reason],
+      article.readingTimeSeconds &&
+        formatReadingTime(article.readingTimeSeconds),
+      article.siteName,
+    ]
+      .filter(Boolean)
+      .join(" · ");
+
+    if (index > 0) {
+      keyboard.row();
+    }
+    keyboard
+      .url(`${number}. Open`, link)
+      .text("Archive", `digest:archive:${article.id}`)
+      .text("Snooze", `digest:snooze:${article.id}`);
+
+    return [
+      `${number}. <a href="${Bun.escapeHTML(link)}">${Bun.escapeHTML(article.title || article.url)}</a>`,
+      `<i>${Bun.escapeHTML(details)}</i>`,
+      summary && Bun.escapeHTML(summary),
+    ]
+      .filter(Boolean)
+      .join("\n");
+  });
+
+  return {
+    text: `📚 Your reading digest\n\n${entries.join("\n\n")}`,
+    keyboard,
+  };
+}
+
+/**
+ * Whether a digest is scheduled at this hour
+ */
+export function isDigestDue(prefs: DigestPreferences, now: Date): boolean {
+  if (prefs.frequency === "off" || prefs.hour !== now.getUTCHours()) {
+    return false;
+  }
+  return prefs.frequency === "daily" || prefs.weekday === now.getUTCDay();
+}
+
+/**
+ * Send a digest to a Telegram chat
+ * Returns false when there is nothing unread to suggest
+ */
+export async function sendDigest(
+  api: Api,
+  userId: string,
+  chatId: string,
+  now: Date = new Date(),
+): Promise<boolean> {
+  const { size } = await getDigestPreferences(userId);
+  const picks = await pickDigestArticles(userId, size, now);
+
+  if (picks.length === 0) {
+    return false;
+  }
+
+  const { text, keyboard } = buildDigestMessage(picks);
+  await api.sendMessage(chatId, text, {
+    parse_mode: "HTML",
+    reply_markup: keyboard,
+    link_preview_options: { is_disabled: true },
+  });
+  return true;
+}
+
+/**
+ * Send digests to users who scheduled one for this hour, run hourly
+ * Returns the number of digests sent
+ */
+export async function sendScheduledDigests(
+  api: Api,
+  now: Date = new Date(),
+): Promise<number> {
+  const accounts = await db
+    .select({
+      userId: telegramUsers.userId,
+      telegramId: telegramUsers.telegramId,
+    })
+    .from(telegramUsers)
+    .orderBy(telegramUsers.createdAt);
+
+  const seen = new Set<string>();
+  let sent = 0;
+
+  for (const { userId, telegramId } of accounts) {
+    // Users with several linked accounts get one digest
+    if (seen.has(userId)) {
+      continue;
+    }
+    seen.add(userId);
+
+    try {
+      if (!isDigestDue(await getDigestPreferences(userId), now)) {
+        continue;
+      }
+      if (await sendDigest(api, userId, telegramId, now)) {
+        sent++;
+      }
+    } catch (error) {
+      // Blocked bots and deleted chats shouldn't stop other digests
+      logger.error("Failed to send digest", { userId, error });
+    }
+  }
+
+  return sent;
+}
@@ -0,0 +1,172 @@
+import { beforeEach, describe, expect, it } from "bun:test";
+import { eq } from "drizzle-orm";
+import { db, resetDatabase } from "../../test/bootstrap";
+import { createCompletedArticle, createUser } from "../../test/fixtures";
+import { articleEmbeddings, articles } from "../db/schema";
+import { bufferToVector } from "../lib/embeddings";
+import {
+  embedArticle,
+  getEmbeddingText,
+  getRelatedArticles,
+  searchEmbeddings,
+} from "./embeddings.service";
+
+const RUST = "Rust ownership and the borrow checker keep memory safe";
+const RUST_AGAIN = "Borrowing rules in Rust: ownership, lifetimes and memory";
+const BAKING = "Sourdough bread needs a starter, flour, water and patience";
+
+describe("embeddings.service", () => {
+  beforeEach(() => {
+    resetDatabase();
+  });
+
+  async function createEmbeddedArticle(userId: string, text: string) {
+    const article = await createCompletedArticle(db, userId, { title: text });
+    await embedArticle(article.id, text);
+    return article;
+  }
+
+  describe("getEmbeddingText", () => {
+    it("should combine title, description and content", () => {
+      expect(
+        getEmbeddingText({ title: "Title", description: null }, "Content"),
+      ).toBe("Title\n\nContent");
+    });
+
+    it("should truncate long content", () => {
+      const text = getEmbeddingText(
+        { title: null, description: null },
+        "word ".repeat(5000),
+      );
+
+      expect(text).toHaveLength(8000);
+    });
+  });
+
+  describe("embedArticle", () => {
+    it("should store a vector of the current model", async () => {
+      const user = await createUser(db);
+      const article = await createEmbeddedArticle(user.id, RUST);
+
+      const [row] = await db
+        .select()
+        .from(articleEmbeddings)
+        .where(eq(articleEmbeddings.articleId, article.id));
+
+      expect(row?.model).toBe("hashing-1024");
+      expect(bufferToVector(row?.vector ?? new Uint8Array())).toHaveLength(
+        1024,
+      );
+    });
+
+    it("should replace a vector of another model", async () => {
+      const user = await createUser(db);
+      const article = await createCompletedArticle(db, user.id);
+      await db.insert(articleEmbeddings).values({
+        articleId: article.id,
+        model: "old-model",
+        vector: Buffer.alloc(8),
+      });
+
+      await embedArticle(article.id, RUST);
+
+      const rows = await db.select().from(articleEmbeddings);
+      expect(rows.map((row) => row.model)).toEqual(["hashing-1024"]);
+    });
+  });
+
+  describe("getRelatedArticles", () => {
+    it("should list similar articles, most similar first", async () => {
+      const user = await createUser(db);
+      const rust = await createEmbeddedArticle(user.id, RUST);
+      const rustAgain = await createEmbeddedArticle(user.id, RUST_AGAIN);
+      await createEmbeddedArticle(user.id, BAKING);
+
+      const related = await getRelatedArticles(user.id, rust.id);
+
+      expect(related.map((a) => a.id)).toEqual([rustAgain.id]);
+    });
+
+    it("should ignore other users' articles and other models", async () => {
+      const user = await createUser(db);
+      const other = await createUser(db);
+      const rust = await createEmbeddedArticle(user.id, RUST);
+      await createEmbeddedArticle(other.id, RUST_AGAIN);
+      const stale = await createEmbeddedArticle(user.id, RUST_AGAIN);
+      await db
+        .update(articleEmbeddings)
+        .set({ model: "old-model" })
+        .where(eq(articleEmbeddings.articleId, stale.id));
+
+      expect(await getRelatedArticles(user.id, rust.id)).toEqual([]);
+    });
+
+    it("should skip articles that aren't completed", async () => {
+      const user = await createUser(db);
+      const rust = await createEmbeddedArticle(user.id, RUST);
+      const failed = await createEmbeddedArticle(user.id, RUST_AGAIN);
+      await db
+        .update(articles)
+        .set({ status: "failed" })
+        .where(eq(articles.id, failed.id));
+
+      expect(await getRelatedArticles(user.id, rust.id)).toEqual([]);
+    });
+
+    it("should return nothing for an article without a vector", async () => {
+      const user = await createUser(db);
+      const article = await createCompletedArticle(db, user.id);
+      await createEmbeddedArticle(user.id, RUST);
+
+      expect(await getRelatedArticles(user.id, article.id)).toEqual([]);
+    });
+  });
+
+  describe("searchEmbeddings", () => {
+    it("should rank articles by similarity to the query", async () => {
+      const user = await createUser(db);
+      await createEmbeddedArticle(user.id, RUST);
+      const baking = await createEmbeddedArticle(user.id, BAKING);
+
+      const matches = await searchEmbeddings(user.id, "bread starter flour", {
+        limit: 10,
+        offset: 0,
+      });
+
+      expect(matches).toEqual([{ articleId: baking.id, snippet: null }]);
+    });
+
+    it("should page through the ranking", async () => {
+      const user = await createUser(db);
+      await createEmbeddedArticle(user.id, RUST);
+      await createEmbeddedArticle(user.id, RUST_AGAIN);
+      const query = "rust memory ownership";
+
+      const all = await searchEmbeddings(user.id, query, {
+        limit: 10,
+        offset: 0,
+      });
+      const second = await searchEmbeddings(user.id, query, {
+        limit: 1,
+        offset: 1,
+      });
+
+      expect(all).toHaveLength(2);
+      expect(second).toEqual(all.slice(1));
+    });
+
+    it("should apply extra conditions", async () => {
+      const user = await createUser(db);
+      await createEmbeddedArticle(user.id, RUST);
+      const rustAgain = await createEmbeddedArticle(user.id, RUST_AGAIN);
+
+      const matches = await searchEmbeddings(user.id, "rust memory", {
+        where: eq(articles.id, rustAgain.id),
+        limit: 10,
+        offset: 0,
+      });
+
+      expect(matches.map((m) => m.articleId)).toEqual([rustAgain.id]);
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import { and, eq, inArray, ne, type SQL } from "drizzle-orm";
+import { articleEmbeddings, articles } from "../db/schema";
+import type { Article } from "../db/types";
+import { db } from "../lib/db";
+import {
+  bufferToVector,
+  cosineSimilarity,
+  getEmbeddingProvider,
+  vectorToBuffer,
+} from "../lib/embeddings";
+import { InternalError } from "../lib/errors";
+import type { SearchIndexMatch } from "./search-index.service";
+
+/**
+ * Article embeddings for related articles and semantic search
+ *
+ * Vectors are compared in memory: a personal library is small enough that a
+ * linear scan beats maintaining a vector index.
+ */
+
+// The start of an article says enough about its topic, and remote models
+// reject inputs over ~8k tokens
+const MAX_EMBEDDING_TEXT_LENGTH = 8000;
+
+const DEFAULT_RELATED_LIMIT = 5;
+// Below these the texts have little in common
+const MIN_RELATED_SIMILARITY = 0.15;
+const MIN_SEARCH_SIMILARITY = 0.05;
+
+interface ScoredArticle {
+  articleId: string;
+  similarity: number;
+}
+
+/**
+ * Text embedded for an article: its title and description, then the content
+ */
+export function getEmbeddingText(
+  article: Pick<Article, "title" | "description">,
+  textContent: string,
+): string {
+  return [article.title, article.description, textContent]
+    .filter(Boolean)
+    .join("\n\n")
+    .slice(0, MAX_EMBEDDING_TEXT_LENGTH);
+}
+
+/**
+ * Compute and store the embedding of an article
+ * Replaces a vector from a previous model
+ */
+export async function embedArticle(
+  articleId: string,
+  text: string,
+): Promise<void> {
+  const provider = getEmbeddingProvider();
+  const [vector] = await provider.embed([text]);
+
+  if (!vector) {
+    throw new InternalError("Embedding provider returned no vector", {
+      articleId,
+    });
+  }
+
+  const values = {
+    model: provider.model,
+    vector: vectorToBuffer(vector),
+    createdAt: new Date(),
+  };
+
+  await db
+    .insert(articleEmbeddings)
+    .values({ articleId, ...values })
+    .onConflictDoUpdate({ target: articleEmbeddings.articleId, set: values });
+}
+
+/**
+ * Rank the user's completed articles with a vector of the current model
+ * `where` can further restrict candidates with conditions on `articles`
+ */
+async function rankBySimilarity(
+  userId: string,
+  vector: Float32Array,
+  where: SQL | undefined,
+  minSimilarity: number,
+): Promise<ScoredArticle[]> {
+  const rows = await db
+    .select({
+      articleId: articleEmbeddings.articleId,
+      vector: articleEmbeddings.vector,
+    })
+    .from(articleEmbeddings)
+    .innerJoin(articles, eq(articles.id, articleEmbeddings.articleId))
+    .where(
+      and(
+        eq(articleEmbeddings.model, getEmbeddingProvider().model),
+        eq(articles.userId, userId),
+        eq(articles.status, "completed"),
+        where,
+      ),
+    );
+
+  return rows
+    .map((row) => ({
+      articleId: row.articleId,
+      similarity: cosineSimilarity(vector, bufferToVector(row.vector)),
+    }))
+    .filter((row) => row.similarity >= minSimilarity)
+    .sort((a, b) => b.similarity - a.similarity);
+}
+
+/**
+ * Search the user's completed articles by meaning, most similar first
+ * Same contract as searchIndex, without snippets
+ */
+export async function searchEmbeddings(
+  userId: string,
+  query: string,
+  { where, limit, offset }: { where?: SQL; limit: number; offset: number },
+): Promise<SearchIndexMatch[]> {
+  const [vector] = await getEmbeddingProvider().embed([query]);
+
+  if (!vector) {
+    return [];
+  }
+
+  const ranked = await rankBySimilarity(
+    userId,
+    vector,
+    where,
+    MIN_SEARCH_SIMILARITY,
+  );
+
+  return ranked
+    .slice(offset, offset + limit)
+    .map(({ articleId }) => ({ articleId, snippet: null }));
+}
+
+/**
+ * Get the user's articles closest in meaning to an article
+ * Empty until the article has an embedding of the current model
+ */
+export async function getRelatedArticles(
+  userId: string,
+  articleId: string,
+  limit = DEFAULT_RELATED_LIMIT,
+): Promise<Article[]> {
+  const [embedding] = await db
+    .select({ vector: articleEmbeddings.vector })
+    .from(articleEmbeddings)
+    .where(
+      and(
+        eq(articleEmbeddings.articleId, articleId),
+        eq(articleEmbeddings.model, getEmbeddingProvider().model),
+      ),
+    )
+    .limit(1);
+
+  if (!embedding) {
+    return [];
+  }
+
+  const ranked = (
+    await rankBySimilarity(
+      userId,
+      bufferToVector(embedding.vector),
+      ne(articles.id, articleId),
+      MIN_RELATED_SIMILARITY,
+    )
+  ).slice(0, limit);
+
+  if (ranked.length === 0) {
+    return [];
+  }
+
+  const rows = await db
+    .select()
+    .from(articles)
+    .where(
+      inArray(
+        articles.id,
+        ranked.map((row) => row.articleId),
+      ),
+    );
+  const articlesById = new Map(rows.map((row) => [row.id, row]));
+
+  return ranked.flatMap(({ articleId }) => {
+    const article = articlesById.get(articleId);
+    return article ? [article] : [];
+  });
+}
@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from "bun:test";
+import { db, resetDatabase } from "../../test/bootstrap";
+import {
+  addTagToArticle,
+  createCompletedArticle,
+  createTag,
+  createUser,
+  readZip,
+} from "../../test/fixtures";
+import { contentCache } from "../lib/content-cache";
+import { NotFoundError, ValidationError } from "../lib/errors";
+import * as readability from "../lib/readability";
+import { createArticleEpub, createDigestEpub } from "./epub.service";
+
+function chapterTitles(epub: Uint8Array): string[] {
+  const nav = new TextDecoder().decode(readZip(epub).get("OEBPS/nav.xhtml"));
+  return [...nav.matchAll(/\.xhtml">([^<]*)<\/a>/g)].map(
+    (match) => match[1] ?? "",
+  );
+}
+
+describe("epub.service", () => {
+  let userId: string;
+  let spyGet: ReturnType<typeof spyOn<typeof contentCache, "get">>;
+  let spyExtractCleanContent: ReturnType<
+    typeof spyOn<typeof readability, "extractCleanContent">
+  >;
+
+  beforeEach(async () => {
+    resetDatabase();
+    spyGet = spyOn(contentCache, "get").mockResolvedValue(
+      "<p>Cached content</p>",
+    );
+    spyExtractCleanContent = spyOn(
+      readability,
+      "extractCleanContent",
+    ).mockRejectedValue(new Error("Offline"));
+
+    const user = await createUser(db);
+    userId = user.id;
+  });
+
+  afterEach(() => {
+    spyGet.mockRestore();
+    spyExtractCleanContent.mockRestore();
+  });
+
+  describe("createArticleEpub", () => {
+    it("should build a book from the cached content", async () => {
+      const article = await createCompletedArticle(db, userId, {
+        title: "Rust & Go: A Comparison",
+        language: "en",
+      });
+
+      const file = await createArticleEpub(userId, article.id);
+      const files = readZip(file.data);
+
+      expect(file.filename).toBe("rust-go-a-comparison.epub");
+      expect(file.articleCount).toBe(1);
+      expect(
+        new TextDecoder().decode(files.get("OEBPS/content.opf")),
+      ).toContain(`<dc:source>${article.url}</dc:source>`);
+      expect(
+        new TextDecoder().decode(files.get("OEBPS/chapter-1.xhtml")),
+      ).toContain("<p>Cached content</p>");
+      expect(spyGet).toHaveBeenCalledWith(userId, article.id);
+    });
+
+    it("should not export articles of other users", async () => {
+      const other = await createUser(db);
+      const article = await createCompletedArticle(db, other.id);
+
+      expect(createArticleEpub(userId, article.id)).rejects.toThrow(
+        NotFoundError,
+      );
+    });
+  });
+
+  describe("createDigestEpub", () => {
+    it("should include unread articles, newest first", async () => {
+      await createCompletedArticle(db, userId, {
+        title: "Older",
+        createdAt: new Date("2026-01-01"),
+      });
+      await createCompletedArticle(db, userId, {
+        title: "Newer",
+        createdAt: new Date("2026-01-02"),
+      });
+      await createCompletedArticle(db, userId, {
+        title: "Archived",
+        archived: true,
+      });
+
+      const file = await createDigestEpub(userId, {});
+
+      expect(file.articleCount).toBe(2);
+      expect(file.filename).toMatch(/^lateread-unread-\d{4}-\d\d-\d\d\.epub$/);
+      expect(chapterTitles(file.data)).toEqual(["Newer", "Older"]);
+    });
+
+    it("should only include articles with the tags", async () => {
+      const tagged = await createCompletedArticle(db, userId, {
+        title: "Tagged",
+      });
+      await createCompletedArticle(db, userId, { title: "Untagged" });
+      const tag = await createTag(db, userId, "rust");
+      await addTagToArticle(db, tagged.id, tag.id);
+
+      const file = await createDigestEpub(userId, { tags: ["rust"] });
+
+      expect(file.filename).toMatch(/^lateread-rust-/);
+      expect(chapterTitles(file.data)).toEqual(["Tagged"]);
+    });
+
+    it("should leave out articles whose content can't be loaded", async () => {
+      const cached = await createCompletedArticle(db, userId, {
+        title: "Cached",
+      });
+      await createCompletedArticle(db, userId, { title: "Gone" });
+      spyGet.mockImplementation(async (_userId, articleId) =>
+        articleId === cached.id ? "<p>Cached content</p>" : null,
+      );
+
+      const file = await createDigestEpub(userId, {});
+
+      expect(chapterTitles(file.data)).toEqual(["Cached"]);
+    });
+
+    it("should throw when there is nothing to export", async () => {
+      await createCompletedArticle(db, userId, { archived: true });
+
+      expect(createDigestEpub(userId, {})).rejects.toThrow(ValidationError);
+      expect(createDigestEpub(userId, { tags: ["rust"] })).rejects.toThrow(
+        "No unread articles tagged rust",
+      );
+    });
+  });
+});
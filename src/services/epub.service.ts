@@ -0,0 +1,122 @@
+import { randomUUID } from "node:crypto";
+import type { Article } from "../db/types";
+import { buildEpub, type EpubChapter } from "../lib/epub";
+import { ValidationError } from "../lib/errors";
+import { defaultLogger } from "../lib/logger";
+import {
+  getArticlesWithTags,
+  getArticleWithTagsById,
+  type TagMatchMode,
+} from "./articles.service";
+import { getArticleContent } from "./content.service";
+
+const logger = defaultLogger.child({ module: "epub" });
+
+// Newest unread articles included in a digest
+const MAX_DIGEST_ARTICLES = 50;
+
+export interface EpubFile {
+  filename: string;
+  data: Uint8Array<ArrayBuffer>;
+  articleCount: number;
+}
+
+/**
+ * File name from a title, keeping letters of any script
+ */
+export function toFilename(title: string, extension = "epub"): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 80);
+
+  return `${slug || "article"}.${extension}`;
+}
+
+function toChapter(article: Article, content: string): EpubChapter {
+  return {
+    title: article.title || article.url,
+    url: article.url,
+    siteName: article.siteName,
+    content,
+  };
+}
+
+/**
+ * EPUB of a single article
+ */
+export async function createArticleEpub(
+  userId: string,
+  articleId: string,
+): Promise<EpubFile> {
+  const article = await getArticleWithTagsById(articleId, userId);
+  const content = await getArticleContent(userId, article.id, article.url);
+  const chapter = toChapter(article, content);
+
+  const data = await buildEpub({
+    id: article.id,
+    title: chapter.title,
+    language: article.language,
+    author: article.siteName,
+    source: article.url,
+    chapters: [chapter],
+  });
+
+  return { filename: toFilename(chapter.title), data, articleCount: 1 };
+}
+
+/**
+ * EPUB digest of unread articles, optionally only the ones with given tags
+ * Articles whose content can't be loaded are left out
+ */
+export async function createDigestEpub(
+  userId: string,
+  { tags = [], tagMode = "all" }: { tags?: string[]; tagMode?: TagMatchMode },
+): Promise<EpubFile> {
+  const { articles } = await getArticlesWithTags(userId, {
+    archived: false,
+    tags,
+    tagMode,
+    limit: MAX_DIGEST_ARTICLES,
+  });
+
+  const chapters: EpubChapter[] = [];
+  for (const article of articles) {
+    try {
+      const content = await getArticleContent(userId, article.id, article.url);
+      chapters.push(toChapter(article, content));
+    } catch (error) {
+      logger.warn("Skipping article without content", {
+        articleId: article.id,
+        error,
+      });
+    }
+  }
+
+  if (chapters.length === 0) {
+    throw new ValidationError(
+      tags.length > 0
+        ? `No unread articles tagged ${tags.join(", ")}`
+        : "No unread articles to export",
+    );
+  }
+
+  const title =
+    tags.length > 0 ? `lateread: ${tags.join(", ")}` : "lateread: Unread";
+  const date = new Date().toISOString().slice(0, 10);
+
+  const data = await buildEpub({
+    id: randomUUID(),
+    title: `${title} (${date})`,
+    language: articles[0]?.language,
+    author: "lateread",
+    chapters,
+  });
+
+  return {
+    filename: toFilename(`${title} ${date}`),
+    data,
+    articleCount: chapters.length,
+  };
+}
@@ -0,0 +1,272 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from "bun:test";
+import { rm } from "node:fs/promises";
+import { join } from "node:path";
+import { eq } from "drizzle-orm";
+import { db, resetDatabase } from "../../test/bootstrap";
+import {
+  addTagToArticle,
+  createCompletedArticle,
+  createTag,
+  createUser,
+  readZip,
+} from "../../test/fixtures";
+import { accountExports, articleSummaries, articles } from "../db/schema";
+import type { AccountExport } from "../db/types";
+import { config } from "../lib/config";
+import { contentCache } from "../lib/content-cache";
+import { NotFoundError } from "../lib/errors";
+import {
+  buildExport,
+  cleanupOldExports,
+  getExportFile,
+  getLatestExport,
+  requestExport,
+} from "./export.service";
+
+function readZipText(zip: Uint8Array): Map<string, string> {
+  const decoder = new TextDecoder();
+  return new Map(
+    [...readZip(zip)].map(([name, data]) => [name, decoder.decode(data)]),
+  );
+}
+
+async function insertExport(
+  userId: string,
+  values: Partial<AccountExport> = {},
+): Promise<AccountExport> {
+  const [accountExport] = await db
+    .insert(accountExports)
+    .values({ userId, ...values })
+    .returning();
+  if (!accountExport) throw new Error("Failed to insert export");
+  return accountExport;
+}
+
+describe("export.service", () => {
+  let userId: string;
+  let exportIds: string[];
+  let spyGet: ReturnType<typeof spyOn<typeof contentCache, "get">>;
+
+  beforeEach(async () => {
+    resetDatabase();
+    exportIds = [];
+    spyGet = spyOn(contentCache, "get").mockResolvedValue(null);
+
+    const user = await createUser(db);
+    userId = user.id;
+  });
+
+  afterEach(async () => {
+    spyGet.mockRestore();
+    for (const id of exportIds) {
+      await rm(join(config.EXPORT_DIR, `${id}.zip`), { force: true });
+    }
+  });
+
+  async function createExport(
+    values: Partial<AccountExport> = {},
+  ): Promise<AccountExport> {
+    const accountExport = await insertExport(userId, values);
+    exportIds.push(accountExport.id);
+    return accountExport;
+  }
+
+  describe("buildExport", () => {
+    it("should write articles, cached content and bookmarks", async () => {
+      const article = await createCompletedArticle(db, userId, {
+        url: "https://example.com/article",
+        title: "Rust & Go",
+        rating: 1,
+      });
+      await db
+        .update(articles)
+        .set({ readingPositionElement: 12, readingPositionOffset: 40 })
+        .where(eq(articles.id, article.id));
+      const uncached = await createCompletedArticle(db, userId, {
+        url: "https://example.com/uncached",
+        title: "Uncached",
+      });
+      const tag = await createTag(db, userId, "rust");
+      await addTagToArticle(db, article.id, tag.id);
+      await db.insert(articleSummaries).values({
+        articleId: article.id,
+        oneSentence: "Short.",
+        oneParagraph: "Medium.",
+        long: "Long.",
+      });
+      spyGet.mockImplementation(async (_userId, articleId) =>
+        articleId === article.id ? "<p>Saved content</p>" : null,
+      );
+
+      const accountExport = await createExport();
+      await buildExport(accountExport);
+
+      const [updated] = await db
+        .select()
+        .from(accountExports)
+        .where(eq(accountExports.id, accountExport.id));
+      expect(updated?.status).toBe("completed");
+      expect(updated?.completedAt).toBeInstanceOf(Date);
+
+      const { file } = await getExportFile(accountExport.id, userId);
+      expect(updated?.fileSize).toBe(file.size);
+
+      const files = readZipText(new Uint8Array(await file.arrayBuffer()));
+      expect([...files.keys()]).toEqual([
+        `articles/${article.id}.html`,
+        "articles.json",
+        "bookmarks.html",
+      ]);
+      expect(files.get(`articles/${article.id}.html`)).toContain(
+        "<title>Rust &amp; Go</title>",
+      );
+      expect(files.get(`articles/${article.id}.html`)).toContain(
+        "<p>Saved content</p>",
+      );
+
+      const json = JSON.parse(files.get("articles.json") ?? "");
+      const exported = json.articles.find(
+        (entry: { id: string }) => entry.id === article.id,
+      );
+      expect(json.articles).toHaveLength(2);
+      expect(exported).toMatchObject({
+        url: "https://example.com/article",
+        title: "Rust & Go",
+        rating: 1,
+        readingPosition: { element: 12, offset: 40 },
+        tags: ["rust"],
+        summary: {
+          oneSentence: "Short.",
+          oneParagraph: "Medium.",
+          long: "Long.",
+        },
+        questions: [],
+        contentFile: `articles/${article.id}.html`,
+      });
+      expect(
+        json.articles.find((entry: { id: string }) => entry.id === uncached.id)
+          .contentFile,
+      ).toBeNull();
+
+      expect(files.get("bookmarks.html")).toContain(
+        '<A HREF="https://example.com/article"',
+      );
+      expect(files.get("bookmarks.html")).toContain(
+        'TAGS="rust">Rust &amp; Go',
+      );
+    });
+
+    it("should not include articles of other users", async () => {
+      const other = await createUser(db);
+      await createCompletedArticle(db, other.id, {
+        url: "https://example.com/other",
+      });
+
+      const accountExport = await createExport();
+      await buildExport(accountExport);
+
+      const { file } = await getExportFile(accountExport.id, userId);
+      const files = readZipText(new Uint8Array(await file.arrayBuffer()));
+      expect(JSON.parse(files.get("articles.json") ?? "").articles).toEqual([]);
+    });
+
+    it("should mark the export failed when it can't be written", async () => {
+      spyGet.mockRejectedValue(new Error("Disk error"));
+      await createCompletedArticle(db, userId);
+
+      const accountExport = await createExport();
+      await buildExport(accountExport);
+
+      const latest = await getLatestExport(userId);
+      expect(latest?.status).toBe("failed");
+      expect(latest?.error).toBe("Disk error");
+      expect(
+        await Bun.file(
+          join(config.EXPORT_DIR, `${accountExport.id}.zip`),
+        ).exists(),
+      ).toBe(false);
+    });
+  });
+
+  describe("requestExport", () => {
+    it("should create a pending export", async () => {
+      const accountExport = await requestExport(userId);
+      exportIds.push(accountExport.id);
+
+      expect(accountExport.status).toBe("pending");
+      expect((await getLatestExport(userId))?.id).toBe(accountExport.id);
+
+      // Built in the background
+      while ((await getLatestExport(userId))?.status === "pending") {
+        await Bun.sleep(10);
+      }
+      expect((await getLatestExport(userId))?.status).toBe("completed");
+    });
+
+    it("should return the export already in progress", async () => {
+      const pending = await createExport();
+
+      const accountExport = await requestExport(userId);
+
+      expect(accountExport.id).toBe(pending.id);
+      expect(await db.select().from(accountExports)).toHaveLength(1);
+    });
+  });
+
+  describe("getExportFile", () => {
+    it("should not return exports of other users", async () => {
+      const accountExport = await createExport();
+      await buildExport(accountExport);
+      const other = await createUser(db);
+
+      expect(getExportFile(accountExport.id, other.id)).rejects.toThrow(
+        NotFoundError,
+      );
+    });
+
+    it("should not return pending exports", async () => {
+      const accountExport = await createExport();
+
+      expect(getExportFile(accountExport.id, userId)).rejects.toThrow(
+        NotFoundError,
+      );
+    });
+  });
+
+  describe("cleanupOldExports", () => {
+    it("should delete old exports with their files", async () => {
+      const old = await createExport();
+      await buildExport(old);
+      await db
+        .update(accountExports)
+        .set({ createdAt: new Date(Date.now() - 8 * 24 * 60 * 60 * 1000) })
+        .where(eq(accountExports.id, old.id));
+      const recent = await createExport();
+      await buildExport(recent);
+
+      await cleanupOldExports();
+
+      const remaining = await db.select().from(accountExports);
+      expect(remaining.map((row) => row.id)).toEqual([recent.id]);
+      expect(
+        await Bun.file(join(config.EXPORT_DIR, `${old.id}.zip`)).exists(),
+      ).toBe(false);
+      expect(
+        await Bun.file(join(config.EXPORT_DIR, `${recent.id}.zip`)).exists(),
+      ).toBe(true);
+    });
+
+    it("should fail exports interrupted by a restart", async () => {
+      const stale = await createExport({
+        createdAt: new Date(Date.now() - 2 * 60 * 60 * 1000),
+      });
+      const running = await createExport();
+
+      await cleanupOldExports();
+
+      const rows = await db.select().from(accountExports);
+      expect(rows.find((row) => row.id === stale.id)?.status).toBe("failed");
+      expect(rows.find((row) => row.id === running.id)?.status).toBe("pending");
+    });
+  });
+});
@@ -0,0 +1,357 @@
+import { mkdir, readdir, rm } from "node:fs/promises";
+import { join } from "node:path";
+import { and, asc, desc, eq, lt } from "drizzle-orm";
+import {
+  accountExports,
+  articleQuestions,
+  articleSummaries,
+  articles,
+  articleTags,
+  tags,
+} from "../db/schema";
+import type { AccountExport, Article } from "../db/types";
+import { config } from "../lib/config";
+import { contentCache } from "../lib/content-cache";
+import { db } from "../lib/db";
+import { InternalError, NotFoundError } from "../lib/errors";
+import { defaultLogger } from "../lib/logger";
+import { ZipWriter } from "../lib/zip";
+
+const logger = defaultLogger.child({ module: "export" });
+
+const EXPORT_MAX_AGE_DAYS = 7;
+// Exports still pending after this were interrupted by a restart
+const EXPORT_TIMEOUT_MS = 60 * 60 * 1000;
+
+function getExportPath(exportId: string): string {
+  return join(config.EXPORT_DIR, `${exportId}.zip`);
+}
+
+/**
+ * Article entry of articles.json
+ */
+interface ExportedArticle {
+  id: string;
+  url: string;
+  title: string | null;
+  description: string | null;
+  siteName: string | null;
+  imageUrl: string | null;
+  language: string | null;
+  status: Article["status"];
+  archived: boolean;
+  archivedAt: Date | null;
+  rating: number;
+  createdAt: Date;
+  processedAt: Date | null;
+  readAt: Date | null;
+  wordCount: number | null;
+  readingTimeSeconds: number | null;
+  readingPosition: { element: number; offset: number } | null;
+  tags: string[];
+  summary: { oneSentence: string; oneParagraph: string; long: string } | null;
+  questions: Array<{ question: string; answer: string | null }>;
+  // Path of the saved content in the archive, null when not cached
+  contentFile: string | null;
+}
+
+/**
+ * Standalone HTML document for an article's cached content
+ */
+export function articleDocument(article: Article, content: string): string {
+  const title = Bun.escapeHTML(article.title || article.url);
+  const url = Bun.escapeHTML(article.url);
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+</head>
+<body>
+<h1>${title}</h1>
+<p><a href="${url}">${url}</a></p>
+${content}
+</body>
+</html>
+`;
+}
+
+/**
+ * Netscape bookmarks file, readable by browsers and read-later apps
+ */
+function bookmarksDocument(exported: ExportedArticle[]): string {
+  const links = exported.map((article) => {
+    const addDate = Math.floor(article.createdAt.getTime() / 1000);
+    const tagList = Bun.escapeHTML(article.tags.join(","));
+    const title = Bun.escapeHTML(article.title || article.url);
+
+    return `    <DT><A HREF="${Bun.escapeHTML(article.url)}" ADD_DATE="${addDate}" TAGS="${tagList}">${title}</A>`;
+  });
+
+  return `<!DOCTYPE NETSCAPE-Bookmark-file-1>
+<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">
+<TITLE>lateread</TITLE>
+<H1>lateread</H1>
+<DL><p>
+${links.join("\n")}
+</DL><p>
+`;
+}
+
+/**
+ * Articles of a user with tags, summaries and questions, oldest first
+ */
+async function getExportedArticles(
+  userId: string,
+): Promise<Array<{ article: Article; exported: ExportedArticle }>> {
+  const [rows, tagRows, summaryRows, questionRows] = await Promise.all([
+    db
+      .select()
+      .from(articles)
+      .where(eq(articles.userId, userId))
+      .orderBy(asc(articles.createdAt)),
+    db
+      .select({ articleId: articleTags.articleId, name: tags.name })
+      .from(articleTags)
+      .innerJoin(tags, eq(tags.id, articleTags.tagId))
+      .where(eq(tags.userId, userId)),
+    db
+      .select({ summary: articleSummaries })
+      .from(articleSummaries)
+      .innerJoin(articles, eq(articles.id, articleSummaries.articleId))
+      .where(eq(articles.userId, userId)),
+    db
+      .select({ question: articleQuestions })
+      .from(articleQuestions)
+      .innerJoin(articles, eq(articles.id, articleQuestions.articleId))
+      .where(eq(articles.userId, userId))
+      .orderBy(asc(articleQuestions.createdAt)),
+  ]);
+
+  const tagsByArticle = Map.groupBy(tagRows, (row) => row.articleId);
+  const summaries = new Map(
+    summaryRows.map(({ summary }) => [summary.articleId, summary]),
+  );
+  const questionsByArticle = Map.groupBy(
+    questionRows.map((row) => row.question),
+    (question) => question.articleId,
+  );
+
+  return rows.map((article) => {
+    const summary = summaries.get(article.id);
+
+    return {
+      article,
+      exported: {
+        id: article.id,
+        url: article.url,
+        title: article.title,
+        description: article.description,
+        siteName: article.siteName,
+        imageUrl: article.imageUrl,
+        language: article.language,
+        status: article.status,
+        archived: article.archived,
+        archivedAt: article.archivedAt,
+        rating: article.rating,
+        createdAt: article.createdAt,
+        processedAt: article.processedAt,
+        readAt: article.readAt,
+        wordCount: article.wordCount,
+        readingTimeSeconds: article.readingTimeSeconds,
+        readingPosition:
+          article.readingPositionElement !== null
+            ? {
+                element: article.readingPositionElement,
+                offset: article.readingPositionOffset ?? 0,
+              }
+            : null,
+        tags: (tagsByArticle.get(article.id) ?? []).map((row) => row.name),
+        summary: summary
+          ? {
+              oneSentence: summary.oneSentence,
+              oneParagraph: summary.oneParagraph,
+              long: summary.long,
+            }
+          : null,
+        questions: (questionsByArticle.get(article.id) ?? []).map(
+          ({ question, answer }) => ({ question, answer }),
+        ),
+        contentFile: null,
+      },
+    };
+  });
+}
+
+/**
+ * Write the zip of an export and mark it completed
+ * articles.json, the cached content as articles/<id>.html and bookmarks.html
+ */
+export async function buildExport(accountExport: AccountExport): Promise<void> {
+  const { id, userId } = accountExport;
+  const filePath = getExportPath(id);
+
+  try {
+    await mkdir(config.EXPORT_DIR, { recursive: true });
+    const items = await getExportedArticles(userId);
+
+    const sink = Bun.file(filePath).writer();
+    const zip = new ZipWriter(sink);
+
+    for (const { article, exported } of items) {
+      const content = await contentCache.get(userId, article.id);
+      if (content) {
+        exported.contentFile = `articles/${article.id}.html`;
+        zip.add(
+          exported.contentFile,
+          articleDocument(article, content),
+          article.processedAt ?? article.createdAt,
+        );
+      }
+    }
+
+    const exported = items.map((item) => item.exported);
+    zip.add(
+      "articles.json",
+      JSON.stringify({ exportedAt: new Date(), articles: exported }, null, 2),
+    );
+    zip.add("bookmarks.html", bookmarksDocument(exported));
+    zip.finish();
+    const fileSize = await sink.end();
+
+    await db
+      .update(accountExports)
+      .set({ status: "completed", fileSize, completedAt: new Date() })
+      .where(eq(accountExports.id, id));
+
+    logger.info("Export completed", {
+      exportId: id,
+      userId,
+      articles: items.length,
+      fileSize,
+    });
+  } catch (error) {
+    logger.error("Export failed", { exportId: id, userId, error });
+    await rm(filePath, { force: true });
+    await db
+      .update(accountExports)
+      .set({
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+        completedAt: new Date(),
+      })
+      .where(eq(accountExports.id, id));
+  }
+}
+
+/**
+ * Latest export of a user
+ */
+export async function getLatestExport(
+  userId: string,
+): Promise<AccountExport | undefined> {
+  const [latest] = await db
+    .select()
+    .from(accountExports)
+    .where(eq(accountExports.userId, userId))
+    .orderBy(desc(accountExports.createdAt))
+    .limit(1);
+
+  return latest;
+}
+
+/**
+ * Start an export in the background
+ * Returns the export already in progress instead of starting another one
+ */
+export async function requestExport(userId: string): Promise<AccountExport> {
+  const latest = await getLatestExport(userId);
+  if (latest?.status === "pending") {
+    return latest;
+  }
+
+  const [accountExport] = await db
+    .insert(accountExports)
+    .values({ userId })
+    .returning();
+
+  if (!accountExport) {
+    throw new InternalError("Failed to create export", { userId });
+  }
+
+  // buildExport records its own failures
+  void buildExport(accountExport);
+
+  return accountExport;
+}
+
+/**
+ * Completed export file of a user, for download
+ */
+export async function getExportFile(
+  exportId: string,
+  userId: string,
+): Promise<{ accountExport: AccountExport; file: Bun.BunFile }> {
+  const [accountExport] = await db
+    .select()
+    .from(accountExports)
+    .where(
+      and(
+        eq(accountExports.id, exportId),
+        eq(accountExports.userId, userId),
+        eq(accountExports.status, "completed"),
+      ),
+    )
+    .limit(1);
+
+  const file = Bun.file(getExportPath(exportId));
+
+  if (!accountExport || !(await file.exists())) {
+    throw new NotFoundError("Export", exportId);
+  }
+
+  return { accountExport, file };
+}
+
+/**
+ * Delete exports older than a week, and fail exports interrupted by a restart
+ */
+export async function cleanupOldExports(): Promise<void> {
+  const now = Date.now();
+
+  await db
+    .update(accountExports)
+    .set({ status: "failed", error: "Export was interrupted" })
+    .where(
+      and(
+        eq(accountExports.status, "pending"),
+        lt(accountExports.createdAt, new Date(now - EXPORT_TIMEOUT_MS)),
+      ),
+    );
+
+  const expired = await db
+    .delete(accountExports)
+    .where(
+      lt(
+        accountExports.createdAt,
+        new Date(now - EXPORT_MAX_AGE_DAYS * 24 * 60 * 60 * 1000),
+      ),
+    )
+    .returning({ id: accountExports.id });
+
+  // Files of deleted rows, and leftovers of rows deleted with their user
+  const kept = new Set(
+    (await db.select({ id: accountExports.id }).from(accountExports)).map(
+      (row) => row.id,
+    ),
+  );
+  const files = await readdir(config.EXPORT_DIR).catch(() => []);
+  for (const file of files) {
+    if (!kept.has(file.replace(/\.zip$/, ""))) {
+      await rm(join(config.EXPORT_DIR, file), { force: true });
+    }
+  }
+
+  logger.info("Cleaned up exports", { expired: expired.length });
+}
@@ -0,0 +1,329 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from "bun:test";
+import { eq } from "drizzle-orm";
+import { db, queue, resetDatabase } from "../../test/bootstrap";
+import {
+  createCompletedArticle,
+  createFeed,
+  createUser,
+} from "../../test/fixtures";
+import { articles, feedEntries, feeds } from "../db/schema";
+import * as safeFetchModule from "../lib/safe-fetch";
+import { getArticleWithTagsById } from "./articles.service";
+import {
+  deleteFeed,
+  getUserFeeds,
+  pollDueFeeds,
+  pollFeed,
+  subscribeToFeed,
+  updateFeed,
+} from "./feeds.service";
+import * as tagsModule from "./tags.service";
+
+const FEED_URL = "https://example.com/feed.xml";
+
+function rss(items: Array<{ id: string; title: string }>) {
+  return `<rss version="2.0"><channel><title>Example Blog</title>${items
+    .map(
+      ({ id, title }) =>
+        `<item><title>${title}</title><link>https://example.com/${id}</link><guid>${id}</guid></item>`,
+    )
+    .join("")}</channel></rss>`;
+}
+
+function respond(body: string, init?: ResponseInit) {
+  return new Response(body, init);
+}
+
+describe("feeds.service", () => {
+  let userId: string;
+  let spySafeFetch: ReturnType<
+    typeof spyOn<typeof safeFetchModule, "safeFetch">
+  >;
+
+  beforeEach(async () => {
+    resetDatabase();
+    spySafeFetch = spyOn(safeFetchModule, "safeFetch");
+
+    const user = await createUser(db);
+    userId = user.id;
+  });
+
+  afterEach(() => {
+    spySafeFetch.mockRestore();
+  });
+
+  describe("subscribeToFeed", () => {
+    it("should subscribe without saving posts already published", async () => {
+      spySafeFetch.mockResolvedValue(
+        respond(rss([{ id: "old", title: "Old post" }]), {
+          headers: { etag: '"v1"' },
+        }),
+      );
+
+      const feed = await subscribeToFeed(userId, FEED_URL, {
+        includeKeywords: "Rust, rust , Go",
+        excludeKeywords: "",
+      });
+
+      expect(feed).toMatchObject({
+        url: FEED_URL,
+        title: "Example Blog",
+        etag: '"v1"',
+        includeKeywords: "rust, go",
+      });
+      expect(await db.select().from(articles)).toHaveLength(0);
+
+      // The old post isn't saved by the next check either
+      spySafeFetch.mockResolvedValue(
+        respond(rss([{ id: "old", title: "Old post" }])),
+      );
+      expect(await pollFeed(feed)).toBe(0);
+    });
+
+    it("should follow the feed link of a web page", async () => {
+      spySafeFetch
+        .mockResolvedValueOnce(
+          respond(
+            '<html><head><link rel="alternate" type="application/rss+xml" href="/feed.xml"></head></html>',
+          ),
+        )
+        .mockResolvedValueOnce(respond(rss([])));
+
+      const feed = await subscribeToFeed(userId, "https://example.com/blog");
+
+      expect(feed.url).toBe(FEED_URL);
+    });
+
+    it("should reject pages without a feed", async () => {
+      spySafeFetch.mockResolvedValue(respond("<html><body>Hi</body></html>"));
+
+      expect(subscribeToFeed(userId, FEED_URL)).rejects.toThrow(
+        "Not an RSS, Atom or JSON feed",
+      );
+    });
+
+    it("should reject feeds that can't be fetched", async () => {
+      spySafeFetch.mockResolvedValue(respond("Gone", { status: 404 }));
+
+      expect(subscribeToFeed(userId, FEED_URL)).rejects.toThrow(
+        "Couldn't load the feed",
+      );
+    });
+
+    it("should reject feeds subscribed to already", async () => {
+      await createFeed(db, userId, { url: FEED_URL });
+      spySafeFetch.mockResolvedValue(respond(rss([])));
+
+      expect(subscribeToFeed(userId, FEED_URL)).rejects.toThrow(
+        "You're already subscribed to this feed",
+      );
+    });
+  });
+
+  describe("pollFeed", () => {
+    it("should save new posts tagged with the feed name", async () => {
+      const feed = await createFeed(db, userId, { title: "Example Blog" });
+      spySafeFetch.mockResolvedValue(
+        respond(
+          rss([
+            { id: "2", title: "Newer" },
+            { id: "1", title: "Older" },
+          ]),
+          { headers: { etag: '"v2"', "last-modified": "Mon, 02 Mar 2026" } },
+        ),
+      );
+
+      expect(await pollFeed(feed)).toBe(2);
+
+      const saved = await db
+        .select()
+        .from(articles)
+        .where(eq(articles.userId, userId));
+      expect(saved.map((article) => article.title).sort()).toEqual([
+        "Newer",
+        "Older",
+      ]);
+      expect(queue.addArticleJob).toHaveBeenCalledTimes(2);
+
+      const [first] = saved;
+      const article = await getArticleWithTagsById(first?.id ?? "", userId);
+      expect(article.tags.map((tag) => tag.name)).toEqual(["example blog"]);
+
+      const [updated] = await db
+        .select()
+        .from(feeds)
+        .where(eq(feeds.id, feed.id));
+      expect(updated).toMatchObject({
+        etag: '"v2"',
+        lastModified: "Mon, 02 Mar 2026",
+        lastError: null,
+      });
+
+      // Posts are saved once
+      expect(await pollFeed(feed)).toBe(0);
+    });
+
+    it("should save the other posts when one fails", async () => {
+      const feed = await createFeed(db, userId);
+      spySafeFetch.mockResolvedValue(
+        respond(
+          rss([
+            { id: "3", title: "Newest" },
+            { id: "2", title: "Broken" },
+            { id: "1", title: "Oldest" },
+          ]),
+        ),
+      );
+      const { addArticleTag } = tagsModule;
+      const spyAddArticleTag = spyOn(
+        tagsModule,
+        "addArticleTag",
+      ).mockImplementation(async (articleId, tagUserId, name) => {
+        if (spyAddArticleTag.mock.calls.length === 2) {
+          throw new Error("database is locked");
+        }
+        return addArticleTag(articleId, tagUserId, name);
+      });
+
+      try {
+        expect(await pollFeed(feed)).toBe(2);
+      } finally {
+        spyAddArticleTag.mockRestore();
+      }
+
+      expect(queue.addArticleJob).toHaveBeenCalledTimes(2);
+      const entries = await db
+        .select()
+        .from(feedEntries)
+        .where(eq(feedEntries.feedId, feed.id));
+      expect(entries).toHaveLength(3);
+
+      // The failed post is not fetched again
+      expect(await pollFeed(feed)).toBe(0);
+    });
+
+    it("should leave posts the user saved already unchanged", async () => {
+      const feed = await createFeed(db, userId);
+      const createdAt = new Date("2026-01-01T00:00:00Z");
+      const existing = await createCompletedArticle(db, userId, {
+        url: "https://example.com/1",
+        canonicalUrl: "https://example.com/1",
+        archived: true,
+        createdAt,
+      });
+      spySafeFetch.mockResolvedValue(
+        respond(rss([{ id: "1", title: "Saved before" }])),
+      );
+
+      await pollFeed(feed);
+
+      const [article] = await db
+        .select()
+        .from(articles)
+        .where(eq(articles.id, existing.id));
+      expect(article).toMatchObject({ archived: true, createdAt });
+      expect(queue.addArticleJob).not.toHaveBeenCalled();
+    });
+
+    it("should send the validators of the last response", async () => {
+      const feed = await createFeed(db, userId, {
+        etag: '"v1"',
+        lastModified: "Sun, 01 Mar 2026",
+      });
+      spySafeFetch.mockResolvedValue(respond("", { status: 304 }));
+
+      expect(await pollFeed(feed)).toBe(0);
+
+      const [, init] = spySafeFetch.mock.calls[0] ?? [];
+      expect(init?.headers).toMatchObject({
+        "if-none-match": '"v1"',
+        "if-modified-since": "Sun, 01 Mar 2026",
+      });
+    });
+
+    it("should apply the keyword filters", async () => {
+      const feed = await createFeed(db, userId, {
+        includeKeywords: "rust, go",
+        excludeKeywords: "sponsored",
+      });
+      spySafeFetch.mockResolvedValue(
+        respond(
+          rss([
+            { id: "1", title: "Learning Rust" },
+            { id: "2", title: "Sponsored: Rust jobs" },
+            { id: "3", title: "Cooking pasta" },
+          ]),
+        ),
+      );
+
+      expect(await pollFeed(feed)).toBe(1);
+
+      const saved = await db.select().from(articles);
+      expect(saved.map((article) => article.title)).toEqual(["Learning Rust"]);
+    });
+
+    it("should record failures on the feed", async () => {
+      const feed = await createFeed(db, userId);
+      spySafeFetch.mockRejectedValue(new Error("getaddrinfo ENOTFOUND"));
+
+      expect(await pollFeed(feed)).toBe(0);
+
+      const [updated] = await db
+        .select()
+        .from(feeds)
+        .where(eq(feeds.id, feed.id));
+      expect(updated?.lastError).toBe("getaddrinfo ENOTFOUND");
+      expect(updated?.lastFetchedAt).toBeInstanceOf(Date);
+    });
+  });
+
+  describe("pollDueFeeds", () => {
+    it("should check feeds not checked recently", async () => {
+      const now = new Date("2026-03-02T08:00:00Z");
+      const due = await createFeed(db, userId, {
+        lastFetchedAt: new Date("2026-03-02T06:00:00Z"),
+      });
+      await createFeed(db, userId, {
+        lastFetchedAt: new Date("2026-03-02T07:30:00Z"),
+      });
+      spySafeFetch.mockResolvedValue(
+        respond(rss([{ id: "1", title: "Post" }])),
+      );
+
+      expect(await pollDueFeeds(now)).toBe(1);
+      expect(spySafeFetch).toHaveBeenCalledTimes(1);
+      expect(spySafeFetch.mock.calls[0]?.[0]).toBe(due.url);
+    });
+  });
+
+  describe("updateFeed and deleteFeed", () => {
+    it("should only change feeds of the user", async () => {
+      const feed = await createFeed(db, userId);
+      const other = await createUser(db);
+
+      expect(
+        updateFeed(feed.id, other.id, {
+          title: "Mine",
+          includeKeywords: "",
+          excludeKeywords: "",
+        }),
+      ).rejects.toThrow("Feed");
+      expect(deleteFeed(feed.id, other.id)).rejects.toThrow("Feed");
+
+      await updateFeed(feed.id, userId, {
+        title: "Renamed",
+        includeKeywords: "",
+        excludeKeywords: "Ads ",
+      });
+      const [updated] = await getUserFeeds(userId);
+      expect(updated).toMatchObject({
+        title: "Renamed",
+        excludeKeywords: "ads",
+        articleCount: 0,
+      });
+
+      await deleteFeed(feed.id, userId);
+      expect(await getUserFeeds(userId)).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,440 @@
+import type { SQL } from "drizzle-orm";
+import {
+  and,
+  asc,
+  eq,
+  getTableColumns,
+  inArray,
+  isNull,
+  lte,
+  or,
+  sql,
+} from "drizzle-orm";
+import { feedEntries, feeds } from "../db/schema";
+import type { Feed } from "../db/types";
+import { config } from "../lib/config";
+import { db } from "../lib/db";
+import { InternalError, NotFoundError, ValidationError } from "../lib/errors";
+import {
+  type FeedEntry,
+  findFeedLinks,
+  type ParsedFeed,
+  parseFeed,
+} from "../lib/feed-parser";
+import { defaultLogger } from "../lib/logger";
+import { addArticleJob } from "../lib/queue";
+import { safeFetch } from "../lib/safe-fetch";
+import { createArticle } from "./articles.service";
+import { addArticleTag } from "./tags.service";
+
+const logger = defaultLogger.child({ module: "feeds" });
+
+const FETCH_TIMEOUT_MS = 20_000;
+// Feeds checked per cron run, the rest wait for the next one
+const FEEDS_PER_RUN = 20;
+// Posts saved per check, so a feed that changed all its links doesn't flood
+// the inbox
+const MAX_NEW_ENTRIES = 10;
+// Feed titles become tag names
+const MAX_TITLE_LENGTH = 100;
+
+export type FeedWithCount = Feed & { articleCount: number };
+
+export interface FeedSettings {
+  title: string;
+  includeKeywords: string;
+  excludeKeywords: string;
+}
+
+/**
+ * Comma-separated keywords, lowercased
+ */
+function parseKeywords(value: string): string[] {
+  return value
+    .split(",")
+    .map((keyword) => keyword.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function normalizeKeywords(value: string): string {
+  return [...new Set(parseKeywords(value))].join(", ");
+}
+
+/**
+ * Entries need one of the included keywords, if any, and none of the excluded
+ */
+function matchesFilters(entry: FeedEntry, feed: Feed): boolean {
+  const text = [entry.title, entry.summary, ...entry.categories]
+    .join("\n")
+    .toLowerCase();
+  const include = parseKeywords(feed.includeKeywords);
+  const exclude = parseKeywords(feed.excludeKeywords);
+
+  return (
+    (include.length === 0 ||
+      include.some((keyword) => text.includes(keyword))) &&
+    !exclude.some((keyword) => text.includes(keyword))
+  );
+}
+
+/**
+ * Fetch a feed, conditionally when validators of the last response are given
+ * Throws for responses other than 200 and 304
+ */
+async function requestFeed(
+  url: string,
+  validators: Pick<Feed, "etag" | "lastModified"> = {
+    etag: null,
+    lastModified: null,
+  },
+): Promise<Response> {
+  const headers: Record<string, string> = {
+    "user-agent": `lateread/1.0 (+${config.APP_URL})`,
+    accept:
+      "application/rss+xml, application/atom+xml, application/feed+json, application/xml;q=0.9, */*;q=0.8",
+  };
+  if (validators.etag) {
+    headers["if-none-match"] = validators.etag;
+  }
+  if (validators.lastModified) {
+    headers["if-modified-since"] = validators.lastModified;
+  }
+
+  const response = await safeFetch(url, {
+    headers,
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+  });
+
+  if (!response.ok && response.status !== 304) {
+    throw new Error(`HTTP error: ${response.status} ${response.statusText}`);
+  }
+  return response;
+}
+
+/**
+ * Fetch and parse a feed, following the feed link of a web page
+ */
+async function discoverFeed(url: string): Promise<{
+  url: string;
+  response: Response;
+  feed: ParsedFeed;
+}> {
+  try {
+    const response = await requestFeed(url);
+    const body = await response.text();
+
+    try {
+      return { url, response, feed: parseFeed(body, url) };
+    } catch (error) {
+      const [link] = findFeedLinks(body, url);
+      if (!link) {
+        throw error;
+      }
+
+      const linked = await requestFeed(link);
+      return {
+        url: link,
+        response: linked,
+        feed: parseFeed(await linked.text(), link),
+      };
+    }
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      throw error;
+    }
+    throw new ValidationError("Couldn't load the feed", {
+      url,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Subscribe to a feed, or the feed a web page links to
+ * Posts already published are marked as seen, only new posts are saved
+ */
+export async function subscribeToFeed(
+  userId: string,
+  url: string,
+  filters: Omit<FeedSettings, "title"> = {
+    includeKeywords: "",
+    excludeKeywords: "",
+  },
+): Promise<Feed> {
+  const discovered = await discoverFeed(url);
+
+  const [existing] = await db
+    .select({ id: feeds.id })
+    .from(feeds)
+    .where(and(eq(feeds.userId, userId), eq(feeds.url, discovered.url)))
+    .limit(1);
+  if (existing) {
+    throw new ValidationError("You're already subscribed to this feed");
+  }
+
+  const [feed] = await db
+    .insert(feeds)
+    .values({
+      userId,
+      url: discovered.url,
+      title: discovered.feed.title.slice(0, MAX_TITLE_LENGTH),
+      siteUrl: discovered.feed.siteUrl ?? null,
+      includeKeywords: normalizeKeywords(filters.includeKeywords),
+      excludeKeywords: normalizeKeywords(filters.excludeKeywords),
+      etag: discovered.response.headers.get("etag"),
+      lastModified: discovered.response.headers.get("last-modified"),
+      lastFetchedAt: new Date(),
+    })
+    .returning();
+
+  if (!feed) {
+    throw new InternalError("Failed to create feed", { userId, url });
+  }
+
+  if (discovered.feed.entries.length > 0) {
+    await db
+      .insert(feedEntries)
+      .values(
+        discovered.feed.entries.map((entry) => ({
+          feedId: feed.id,
+          entryId: entry.id,
+        })),
+      )
+      .onConflictDoNothing();
+  }
+
+  logger.info("Subscribed to feed", {
+    userId,
+    feedId: feed.id,
+    entries: discovered.feed.entries.length,
+  });
+
+  return feed;
+}
+
+function selectFeedsWithCount(where: SQL | undefined) {
+  return db
+    .select({
+      ...getTableColumns(feeds),
+      articleCount: sql<number>`count(${feedEntries.articleId})`,
+    })
+    .from(feeds)
+    .leftJoin(feedEntries, eq(feedEntries.feedId, feeds.id))
+    .where(where)
+    .groupBy(feeds.id);
+}
+
+/**
+ * Feeds of a user, with the number of articles saved from each
+ */
+export async function getUserFeeds(userId: string): Promise<FeedWithCount[]> {
+  return selectFeedsWithCount(eq(feeds.userId, userId)).orderBy(
+    asc(feeds.title),
+  );
+}
+
+/**
+ * Get a feed of a user, with the number of articles saved from it
+ */
+export async function getFeed(
+  feedId: string,
+  userId: string,
+): Promise<FeedWithCount> {
+  const [feed] = await selectFeedsWithCount(
+    and(eq(feeds.id, feedId), eq(feeds.userId, userId)),
+  );
+  if (!feed) {
+    throw new NotFoundError("Feed", feedId);
+  }
+  return feed;
+}
+
+/**
+ * Rename a feed or change its filters
+ * Articles saved earlier keep the tag of the old name
+ */
+export async function updateFeed(
+  feedId: string,
+  userId: string,
+  settings: FeedSettings,
+): Promise<void> {
+  const updated = await db
+    .update(feeds)
+    .set({
+      title: settings.title.slice(0, MAX_TITLE_LENGTH),
+      includeKeywords: normalizeKeywords(settings.includeKeywords),
+      excludeKeywords: normalizeKeywords(settings.excludeKeywords),
+    })
+    .where(and(eq(feeds.id, feedId), eq(feeds.userId, userId)))
+    .returning({ id: feeds.id });
+
+  if (updated.length === 0) {
+    throw new NotFoundError("Feed", feedId);
+  }
+}
+
+/**
+ * Unsubscribe from a feed, saved articles are kept
+ */
+export async function deleteFeed(
+  feedId: string,
+  userId: string,
+): Promise<void> {
+  const deleted = await db
+    .delete(feeds)
+    .where(and(eq(feeds.id, feedId), eq(feeds.userId, userId)))
+    .returning({ id: feeds.id });
+
+  if (deleted.length === 0) {
+    throw new NotFoundError("Feed", feedId);
+  }
+}
+
+/**
+ * Save posts not seen before as articles tagged with the feed title
+ * Returns the number of saved articles
+ */
+async function saveNewEntries(
+  feed: Feed,
+  entries: FeedEntry[],
+): Promise<number> {
+  if (entries.length === 0) {
+    return 0;
+  }
+
+  const seen = await db
+    .select({ entryId: feedEntries.entryId })
+    .from(feedEntries)
+    .where(
+      and(
+        eq(feedEntries.feedId, feed.id),
+        inArray(
+          feedEntries.entryId,
+          entries.map((entry) => entry.id),
+        ),
+      ),
+    );
+  const seenIds = new Set(seen.map((row) => row.entryId));
+
+  // Feeds list the newest posts first
+  const fresh = entries.filter((entry) => !seenIds.has(entry.id));
+  const toSave = fresh
+    .slice(0, MAX_NEW_ENTRIES)
+    .filter((entry) => matchesFilters(entry, feed));
+
+  // Saved oldest first, so the newest post ends up on top of the inbox
+  let saved = 0;
+  for (const entry of toSave.toReversed()) {
+    let articleId: string | null = null;
+
+    try {
+      // Posts the user saved already are left where they are
+      const { article, shouldProcess } = await createArticle({
+        userId: feed.userId,
+        url: entry.url,
+        title: entry.title,
+        bump: false,
+      });
+      articleId = article.id;
+      await addArticleTag(article.id, feed.userId, feed.title);
+
+      if (shouldProcess) {
+        addArticleJob(article.id);
+      }
+      saved++;
+    } catch (error) {
+      // Recorded as seen anyway, so one bad post isn't retried forever
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn("Failed to save feed post", {
+        feedId: feed.id,
+        entryId: entry.id,
+        error: message,
+      });
+    }
+
+    await db
+      .insert(feedEntries)
+      .values({ feedId: feed.id, entryId: entry.id, articleId })
+      .onConflictDoNothing();
+  }
+
+  const skipped = fresh.filter((entry) => !toSave.includes(entry));
+  if (skipped.length > 0) {
+    await db
+      .insert(feedEntries)
+      .values(skipped.map((entry) => ({ feedId: feed.id, entryId: entry.id })))
+      .onConflictDoNothing();
+  }
+
+  return saved;
+}
+
+/**
+ * Check a feed for new posts
+ * Failures are recorded on the feed and retried at the next check
+ */
+export async function pollFeed(feed: Feed): Promise<number> {
+  try {
+    const response = await requestFeed(feed.url, feed);
+
+    if (response.status === 304) {
+      await db
+        .update(feeds)
+        .set({ lastFetchedAt: new Date(), lastError: null })
+        .where(eq(feeds.id, feed.id));
+      return 0;
+    }
+
+    const parsed = parseFeed(await response.text(), feed.url);
+    const saved = await saveNewEntries(feed, parsed.entries);
+
+    await db
+      .update(feeds)
+      .set({
+        etag: response.headers.get("etag"),
+        lastModified: response.headers.get("last-modified"),
+        lastFetchedAt: new Date(),
+        lastError: null,
+      })
+      .where(eq(feeds.id, feed.id));
+
+    if (saved > 0) {
+      logger.info("Saved new feed posts", { feedId: feed.id, saved });
+    }
+    return saved;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.warn("Failed to check feed", { feedId: feed.id, error: message });
+
+    await db
+      .update(feeds)
+      .set({ lastFetchedAt: new Date(), lastError: message })
+      .where(eq(feeds.id, feed.id));
+    return 0;
+  }
+}
+
+/**
+ * Check the feeds not checked within FEED_POLL_INTERVAL_MINUTES, run by cron
+ * Returns the number of saved articles
+ */
+export async function pollDueFeeds(now: Date = new Date()): Promise<number> {
+  const checkedBefore = new Date(
+    now.getTime() - config.FEED_POLL_INTERVAL_MINUTES * 60_000,
+  );
+
+  const due = await db
+    .select()
+    .from(feeds)
+    .where(
+      or(isNull(feeds.lastFetchedAt), lte(feeds.lastFetchedAt, checkedBefore)),
+    )
+    .orderBy(asc(feeds.lastFetchedAt))
+    .limit(FEEDS_PER_RUN);
+
+  let saved = 0;
+  for (const feed of due) {
+    saved += await pollFeed(feed);
+  }
+  return saved;
+}
@@ -0,0 +1,204 @@
+import { beforeEach, describe, expect, it } from "bun:test";
+import { eq } from "drizzle-orm";
+import { db, queue, resetDatabase } from "../../test/bootstrap";
+import {
+  createCompletedArticle,
+  createTag,
+  createUser,
+} from "../../test/fixtures";
+import { articleImports, articles } from "../db/schema";
+import type { ImportedBookmark } from "../lib/bookmark-import";
+import {
+  getArticleWithTagsById,
+  updateArticleCompleted,
+} from "./articles.service";
+import {
+  countWaitingImports,
+  importBookmarks,
+  queueImportedArticles,
+} from "./import.service";
+
+function bookmark(overrides: Partial<ImportedBookmark>): ImportedBookmark {
+  return {
+    url: "https://example.com/article",
+    archived: false,
+    favorite: false,
+    tags: [],
+    ...overrides,
+  };
+}
+
+describe("import.service", () => {
+  beforeEach(() => {
+    resetDatabase();
+  });
+
+  describe("importBookmarks", () => {
+    it("should keep saved dates, state and tags", async () => {
+      const user = await createUser(db);
+      const savedAt = new Date("2020-03-01T00:00:00Z");
+
+      const result = await importBookmarks(user.id, {
+        source: "pocket",
+        bookmarks: [
+          bookmark({
+            url: "https://example.com/article?utm_source=pocket",
+            title: "Imported",
+            savedAt,
+            archived: true,
+            favorite: true,
+            tags: ["Rust", "rust", "tools"],
+          }),
+        ],
+      });
+
+      expect(result).toEqual({ imported: 1, skipped: 0 });
+
+      const [row] = await db.select().from(articles);
+      if (!row) throw new Error("Article not imported");
+      const article = await getArticleWithTagsById(row.id, user.id);
+      expect(article).toMatchObject({
+        url: "https://example.com/article?utm_source=pocket",
+        canonicalUrl: "https://example.com/article",
+        title: "Imported",
+        status: "pending",
+        archived: true,
+        archivedAt: savedAt,
+        rating: 1,
+        createdAt: savedAt,
+      });
+      expect(article.tags.map((tag) => tag.name).sort()).toEqual([
+        "rust",
+        "tools",
+      ]);
+      expect(article.tags.every((tag) => !tag.autoGenerated)).toBe(true);
+    });
+
+    it("should keep imported tags when the article is processed", async () => {
+      const user = await createUser(db);
+      const extracted = await createTag(db, user.id, "rust");
+
+      await importBookmarks(user.id, {
+        source: "pocket",
+        bookmarks: [bookmark({ tags: ["rust"] })],
+      });
+
+      const [row] = await db.select().from(articles);
+      if (!row) throw new Error("Article not imported");
+      await updateArticleCompleted({
+        id: row.id,
+        tags: [],
+        metadata: {
+          title: "Processed",
+          description: null,
+          imageUrl: null,
+          siteName: null,
+        },
+        language: "en",
+        wordCount: 100,
+        readingTimeSeconds: 60,
+      });
+
+      const { tags } = await getArticleWithTagsById(row.id, user.id);
+      expect(tags.map((t) => t.id)).toEqual([extracted.id]);
+    });
+
+    it("should skip links that are already saved", async () => {
+      const user = await createUser(db);
+      await createCompletedArticle(db, user.id, {
+        url: "https://example.com/article",
+        canonicalUrl: "https://example.com/article",
+      });
+
+      const result = await importBookmarks(user.id, {
+        source: "instapaper",
+        bookmarks: [
+          bookmark({}),
+          bookmark({ url: "https://example.com/other" }),
+        ],
+      });
+
+      expect(result).toEqual({ imported: 1, skipped: 1 });
+      expect(await db.select().from(articles)).toHaveLength(2);
+    });
+
+    it("should skip links to private addresses", async () => {
+      const user = await createUser(db);
+
+      const result = await importBookmarks(user.id, {
+        source: "pocket",
+        bookmarks: [
+          bookmark({ url: "http://127.0.0.1:8080/admin" }),
+          bookmark({ url: "http://192.168.1.1/" }),
+          bookmark({}),
+        ],
+      });
+
+      expect(result).toEqual({ imported: 1, skipped: 2 });
+      expect(await db.select().from(articles)).toHaveLength(1);
+    });
+
+    it("should not queue articles right away", async () => {
+      const user = await createUser(db);
+
+      await importBookmarks(user.id, {
+        source: "omnivore",
+        bookmarks: [bookmark({})],
+      });
+
+      expect(queue.addArticleJob).not.toHaveBeenCalled();
+      expect(await countWaitingImports(user.id)).toBe(1);
+    });
+  });
+
+  describe("queueImportedArticles", () => {
+    it("should queue a limited number, unread and newest first", async () => {
+      const user = await createUser(db);
+      await importBookmarks(user.id, {
+        source: "pocket",
+        bookmarks: [
+          bookmark({
+            url: "https://example.com/old",
+            savedAt: new Date("2020-01-01"),
+          }),
+          bookmark({
+            url: "https://example.com/new",
+            savedAt: new Date("2021-01-01"),
+          }),
+          bookmark({
+            url: "https://example.com/archived",
+            savedAt: new Date("2022-01-01"),
+            archived: true,
+          }),
+        ],
+      });
+      const [newest] = await db
+        .select()
+        .from(articles)
+        .where(eq(articles.url, "https://example.com/new"));
+
+      const count = await queueImportedArticles(1);
+
+      expect(count).toBe(1);
+      expect(queue.addArticleJob).toHaveBeenCalledTimes(1);
+      expect(queue.addArticleJob).toHaveBeenCalledWith(newest?.id);
+      expect(await countWaitingImports(user.id)).toBe(2);
+    });
+
+    it("should not queue an article twice", async () => {
+      const user = await createUser(db);
+      await importBookmarks(user.id, {
+        source: "bookmarks",
+        bookmarks: [bookmark({})],
+      });
+
+      await queueImportedArticles(10);
+      const second = await queueImportedArticles(10);
+
+      expect(second).toBe(0);
+      expect(queue.addArticleJob).toHaveBeenCalledTimes(1);
+      const [row] = await db.select().from(articleImports);
+      expect(row?.queuedAt).toBeInstanceOf(Date);
+    });
+  });
+});
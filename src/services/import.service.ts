@@ -0,0 +1,135 @@
+import { and, asc, desc, eq, isNull, sql } from "drizzle-orm";
+import { articleImports, articles, articleTags, tags } from "../db/schema";
+import type { Tag } from "../db/types";
+import type { ParsedImport } from "../lib/bookmark-import";
+import { canonicalizeUrl } from "../lib/canonical-url";
+import { db } from "../lib/db";
+import { defaultLogger } from "../lib/logger";
+import { addArticleJob } from "../lib/queue";
+import { isSafeUrl } from "../lib/ssrf-validator";
+
+const logger = defaultLogger.child({ module: "import" });
+
+export interface ImportResult {
+  imported: number;
+  // Links the user had already saved, or that point at private addresses
+  skipped: number;
+}
+
+/**
+ * Save imported links as pending articles
+ * Saved dates, archived and favorite state and tags are kept. Links that are
+ * already saved, or that the URL check of saved links rejects, are skipped.
+ * The file is saved in one transaction, so a failure leaves nothing behind.
+ * Articles are queued for processing later by queueImportedArticles, a few at
+ * a time
+ */
+export async function importBookmarks(
+  userId: string,
+  { source, bookmarks }: ParsedImport,
+): Promise<ImportResult> {
+  const result: ImportResult = { imported: 0, skipped: 0 };
+  const tagsByName = new Map<string, Tag>();
+
+  // bun:sqlite transactions are synchronous, so every query runs with .run(),
+  // .get() or .all() to stay inside it
+  db.transaction((tx) => {
+    for (const bookmark of bookmarks) {
+      // Same check as links saved through the API, the worker would refuse them
+      if (!isSafeUrl(bookmark.url)) {
+        result.skipped++;
+        continue;
+      }
+
+      const canonicalUrl = canonicalizeUrl(bookmark.url);
+      const savedAt = bookmark.savedAt ?? new Date();
+
+      const article = tx
+        .insert(articles)
+        .values({
+          userId,
+          url: bookmark.url,
+          canonicalUrl,
+          title: bookmark.title ?? null,
+          status: "pending",
+          archived: bookmark.archived,
+          archivedAt: bookmark.archived ? savedAt : null,
+          rating: bookmark.favorite ? 1 : 0,
+          createdAt: savedAt,
+        })
+        .onConflictDoNothing()
+        .returning({ id: articles.id })
+        .get();
+
+      if (!article) {
+        result.skipped++;
+        continue;
+      }
+
+      tx.insert(articleImports).values({ articleId: article.id, source }).run();
+
+      for (const name of new Set(bookmark.tags.map((t) => t.toLowerCase()))) {
+        const tag =
+          tagsByName.get(name) ??
+          tx
+            .select()
+            .from(tags)
+            .where(and(eq(tags.userId, userId), eq(tags.name, name)))
+            .get() ??
+          tx
+            .insert(tags)
+            .values({ userId, name, autoGenerated: false })
+            .returning()
+            .get();
+        tagsByName.set(name, tag);
+        tx.insert(articleTags)
+          .values({ articleId: article.id, tagId: tag.id })
+          .run();
+      }
+
+      result.imported++;
+    }
+  });
+
+  logger.info("Imported bookmarks", { userId, source, ...result });
+
+  return result;
+}
+
+/**
+ * Count imported articles of a user still waiting to be queued
+ */
+export async function countWaitingImports(userId: string): Promise<number> {
+  const [result] = await db
+    .select({ count: sql<number>`count(*)` })
+    .from(articleImports)
+    .innerJoin(articles, eq(articles.id, articleImports.articleId))
+    .where(and(eq(articles.userId, userId), isNull(articleImports.queuedAt)));
+
+  return result?.count ?? 0;
+}
+
+/**
+ * Queue the next imported articles for processing
+ * Runs every minute, so a large import doesn't flood the worker. Unread
+ * articles go first, newest first
+ */
+export async function queueImportedArticles(limit: number): Promise<number> {
+  const waiting = await db
+    .select({ articleId: articleImports.articleId })
+    .from(articleImports)
+    .innerJoin(articles, eq(articles.id, articleImports.articleId))
+    .where(isNull(articleImports.queuedAt))
+    .orderBy(asc(articles.archived), desc(articles.createdAt))
+    .limit(limit);
+
+  for (const { articleId } of waiting) {
+    await db
+      .update(articleImports)
+      .set({ queuedAt: new Date() })
+      .where(eq(articleImports.articleId, articleId));
+    addArticleJob(articleId);
+  }
+
+  return waiting.length;
+}
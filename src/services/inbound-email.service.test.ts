@@ -0,0 +1,223 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from "bun:test";
+import { eq } from "drizzle-orm";
+import { db, queue, resetDatabase } from "../../test/bootstrap";
+import { createUser } from "../../test/fixtures";
+import { articles } from "../db/schema";
+import { config } from "../lib/config";
+import { contentCache } from "../lib/content-cache";
+import { ExternalServiceError, ValidationError } from "../lib/errors";
+import { sendMail } from "../lib/smtp";
+import type { SmtpServer } from "../lib/smtp-server";
+import {
+  getInboundEmailAddress,
+  getUserIdByInboundAddress,
+  resetInboundEmailAddress,
+  saveInboundEmail,
+  startInboundEmailServer,
+} from "./inbound-email.service";
+
+function rawEmail(headers: string[], body: string): Uint8Array {
+  return Buffer.from([...headers, "", body].join("\r\n"));
+}
+
+describe("inbound-email.service", () => {
+  let userId: string;
+  let inboundConfig: Pick<
+    typeof config,
+    "INBOUND_EMAIL_DOMAIN" | "INBOUND_EMAIL_PORT"
+  >;
+  let spySet: ReturnType<typeof spyOn<typeof contentCache, "set">>;
+
+  beforeEach(async () => {
+    resetDatabase();
+    inboundConfig = {
+      INBOUND_EMAIL_DOMAIN: config.INBOUND_EMAIL_DOMAIN,
+      INBOUND_EMAIL_PORT: config.INBOUND_EMAIL_PORT,
+    };
+    config.INBOUND_EMAIL_DOMAIN = "in.lateread.app";
+    spySet = spyOn(contentCache, "set").mockResolvedValue();
+
+    const user = await createUser(db);
+    userId = user.id;
+  });
+
+  afterEach(() => {
+    Object.assign(config, inboundConfig);
+    spySet.mockRestore();
+  });
+
+  describe("inbound addresses", () => {
+    it("should create an address once and resolve it to the user", async () => {
+      const address = await getInboundEmailAddress(userId);
+
+      expect(address).toMatch(/^[a-z0-9]{16}@in\.lateread\.app$/);
+      expect(await getInboundEmailAddress(userId)).toBe(address);
+      expect(await getUserIdByInboundAddress(address)).toBe(userId);
+    });
+
+    it("should ignore case and +labels", async () => {
+      const address = await getInboundEmailAddress(userId);
+      const [token] = address.split("@");
+
+      expect(
+        await getUserIdByInboundAddress(`${token}+news@IN.lateread.app`),
+      ).toBe(userId);
+      expect(
+        await getUserIdByInboundAddress(`${token}@other.example.com`),
+      ).toBeNull();
+    });
+
+    it("should stop resolving an address after a reset", async () => {
+      const address = await getInboundEmailAddress(userId);
+      const reset = await resetInboundEmailAddress(userId);
+
+      expect(reset).not.toBe(address);
+      expect(await getUserIdByInboundAddress(address)).toBeNull();
+      expect(await getUserIdByInboundAddress(reset)).toBe(userId);
+    });
+  });
+
+  describe("saveInboundEmail", () => {
+    it("should save the sanitized HTML with the sender as site name", async () => {
+      const article = await saveInboundEmail(
+        userId,
+        rawEmail(
+          [
+            'From: "Weekly Rust" <news@rust.example.com>',
+            "Subject: Issue 42",
+            "Content-Type: text/html; charset=utf-8",
+          ],
+          '<p><a href="https://rust.example.com/42">View in browser</a></p><p>This week in Rust.</p><script>alert(1)</script>',
+        ),
+      );
+
+      expect(article).toMatchObject({
+        url: "https://rust.example.com/42",
+        title: "Issue 42",
+        siteName: "Weekly Rust",
+        description: "View in browser This week in Rust.",
+        canonicalUrl: null,
+        status: "pending",
+      });
+      expect(spySet).toHaveBeenCalledWith(
+        userId,
+        article.id,
+        '<p><a href="https://rust.example.com/42">View in browser</a></p><p>This week in Rust.</p>',
+      );
+      expect(queue.addArticleJob).toHaveBeenCalledWith(article.id);
+    });
+
+    it("should use the original sender of a forwarded email", async () => {
+      const article = await saveInboundEmail(
+        userId,
+        rawEmail(
+          ["From: me@example.com", "Subject: Fwd: Issue 42"],
+          [
+            "---------- Forwarded message ---------",
+            "From: Weekly Rust <news@rust.example.com>",
+            "",
+            "This week in Rust.",
+          ].join("\r\n"),
+        ),
+      );
+
+      expect(article).toMatchObject({
+        url: "https://lateread.app",
+        title: "Issue 42",
+        siteName: "Weekly Rust",
+      });
+    });
+
+    it("should save an email once per user by its Message-ID", async () => {
+      const other = await createUser(db);
+      const raw = rawEmail(
+        [
+          "From: news@rust.example.com",
+          "Subject: Issue 44",
+          "Message-ID: <issue-44@rust.example.com>",
+        ],
+        "Yet another week in Rust.",
+      );
+
+      const first = await saveInboundEmail(userId, raw);
+      // Delivered again after failing for another recipient
+      const retried = await saveInboundEmail(userId, raw);
+      const forOther = await saveInboundEmail(other.id, raw);
+
+      expect(retried.id).toBe(first.id);
+      expect(forOther.id).not.toBe(first.id);
+      expect(await db.select().from(articles)).toHaveLength(2);
+      expect(queue.addArticleJob).toHaveBeenCalledTimes(2);
+    });
+
+    it("should reject emails without content", async () => {
+      await expect(
+        saveInboundEmail(
+          userId,
+          rawEmail(
+            ["From: me@example.com", "Content-Type: text/html"],
+            "<style>p {}</style>",
+          ),
+        ),
+      ).rejects.toThrow(ValidationError);
+      expect(queue.addArticleJob).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("startInboundEmailServer", () => {
+    let server: SmtpServer | null;
+
+    beforeEach(async () => {
+      config.INBOUND_EMAIL_PORT = 0;
+      server = await startInboundEmailServer();
+    });
+
+    afterEach(async () => {
+      await server?.stop();
+    });
+
+    function send(to: string) {
+      return sendMail(
+        {
+          from: "news@rust.example.com",
+          to,
+          subject: "Issue 43",
+          text: "Another week in Rust.",
+        },
+        { host: "127.0.0.1", port: server?.port ?? 0, security: "none" },
+      );
+    }
+
+    it("should save mail sent to an inbound address", async () => {
+      await send(await getInboundEmailAddress(userId));
+
+      const saved = await db
+        .select()
+        .from(articles)
+        .where(eq(articles.userId, userId));
+      expect(saved).toHaveLength(1);
+      expect(saved[0]).toMatchObject({
+        title: "Issue 43",
+        siteName: "news@rust.example.com",
+      });
+      expect(spySet).toHaveBeenCalledWith(
+        userId,
+        saved[0]?.id,
+        "<p>Another week in Rust.</p>",
+      );
+    });
+
+    it("should refuse mail for unknown addresses", async () => {
+      await expect(send("unknown@in.lateread.app")).rejects.toThrow(
+        ExternalServiceError,
+      );
+      expect(queue.addArticleJob).not.toHaveBeenCalled();
+    });
+
+    it("should not start without a domain", async () => {
+      config.INBOUND_EMAIL_DOMAIN = undefined;
+
+      expect(await startInboundEmailServer()).toBeNull();
+    });
+  });
+});
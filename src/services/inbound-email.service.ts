@@ -0,0 +1,243 @@
+import { and, eq, getTableColumns } from "drizzle-orm";
+import { JSDOM } from "jsdom";
+import { articles, inboundEmails, users } from "../db/schema";
+import type { Article } from "../db/types";
+import { config } from "../lib/config";
+import { contentCache } from "../lib/content-cache";
+import { db } from "../lib/db";
+import { textToHtml } from "../lib/documents";
+import { NotFoundError, ValidationError } from "../lib/errors";
+import { defaultLogger } from "../lib/logger";
+import { type ParsedEmail, parseAddress, parseEmail } from "../lib/mime";
+import { addArticleJob } from "../lib/queue";
+import { sanitizeHtml } from "../lib/sanitize-html";
+import { type SmtpServer, startSmtpServer } from "../lib/smtp-server";
+import { createArticle } from "./articles.service";
+
+const logger = defaultLogger.child({ module: "inbound-email" });
+
+// Lowercase, so addresses survive mail clients that change the case
+const TOKEN_ALPHABET = "abcdefghijklmnopqrstuvwxyz0123456789";
+const TOKEN_LENGTH = 16;
+const MAX_DESCRIPTION_LENGTH = 200;
+const BLOCK_ELEMENTS =
+  "p, div, br, li, h1, h2, h3, h4, h5, h6, blockquote, pre, tr, td, th";
+
+// Link text of the web version most newsletters include
+const WEB_VERSION_LINK =
+  /\b(?:view|read|open)\b.{0,30}\b(?:browser|online|web)\b|\bweb version\b/i;
+
+export function isInboundEmailAvailable(): boolean {
+  return !!config.INBOUND_EMAIL_DOMAIN;
+}
+
+function generateInboundToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(TOKEN_LENGTH));
+  return Array.from(
+    bytes,
+    (byte) => TOKEN_ALPHABET[byte % TOKEN_ALPHABET.length],
+  ).join("");
+}
+
+function formatInboundAddress(token: string): string {
+  return `${token}@${config.INBOUND_EMAIL_DOMAIN}`;
+}
+
+/**
+ * Address that saves newsletters for a user, created on first use
+ */
+export async function getInboundEmailAddress(userId: string): Promise<string> {
+  const [user] = await db
+    .select({ inboundEmailToken: users.inboundEmailToken })
+    .from(users)
+    .where(eq(users.id, userId));
+
+  if (!user) {
+    throw new NotFoundError("User", userId);
+  }
+  return user.inboundEmailToken
+    ? formatInboundAddress(user.inboundEmailToken)
+    : resetInboundEmailAddress(userId);
+}
+
+/**
+ * Replace the inbound address, mail to the old one is refused
+ */
+export async function resetInboundEmailAddress(
+  userId: string,
+): Promise<string> {
+  const inboundEmailToken = generateInboundToken();
+
+  const updated = await db
+    .update(users)
+    .set({ inboundEmailToken })
+    .where(eq(users.id, userId))
+    .returning({ id: users.id });
+
+  if (updated.length === 0) {
+    throw new NotFoundError("User", userId);
+  }
+  return formatInboundAddress(inboundEmailToken);
+}
+
+/**
+ * Owner of an inbound address, "token+label@domain" included
+ */
+export async function getUserIdByInboundAddress(
+  address: string,
+): Promise<string | null> {
+  const domain = config.INBOUND_EMAIL_DOMAIN?.toLowerCase();
+  const at = address.lastIndexOf("@");
+  if (!domain || at === -1 || address.slice(at + 1).toLowerCase() !== domain) {
+    return null;
+  }
+
+  const token = address.slice(0, at).split("+")[0]?.toLowerCase();
+  if (!token) {
+    return null;
+  }
+
+  const [user] = await db
+    .select({ id: users.id })
+    .from(users)
+    .where(eq(users.inboundEmailToken, token));
+
+  return user?.id ?? null;
+}
+
+/**
+ * Sender of a newsletter forwarded by hand, from the quoted headers
+ */
+function getForwardedSender(email: ParsedEmail, text: string) {
+  if (!/^\s*(?:fwd?|fw)\s*:/i.test(email.subject ?? "")) {
+    return undefined;
+  }
+  const from = /^\s*(?:\*\s*)?From:\s*(?:\*\s*)?(.+)$/im.exec(text)?.[1];
+  return from ? parseAddress(from) : undefined;
+}
+
+/**
+ * Save a received email as an article
+ * The sanitized HTML body is cached like a long Telegram message, and the
+ * sender becomes the site name. An email the user has already saved, by its
+ * Message-ID, returns the saved article
+ */
+export async function saveInboundEmail(
+  userId: string,
+  raw: Uint8Array,
+): Promise<Article> {
+  const email = parseEmail(raw);
+
+  if (email.messageId) {
+    const [saved] = await db
+      .select(getTableColumns(articles))
+      .from(inboundEmails)
+      .innerJoin(articles, eq(articles.id, inboundEmails.articleId))
+      .where(
+        and(
+          eq(inboundEmails.userId, userId),
+          eq(inboundEmails.messageId, email.messageId),
+        ),
+      );
+    if (saved) {
+      return saved;
+    }
+  }
+
+  const htmlContent = email.html
+    ? sanitizeHtml(email.html)
+    : textToHtml(email.text ?? "");
+  const { document } = new JSDOM(htmlContent).window;
+  // Keep words of adjacent blocks apart in the plain text
+  for (const block of document.body.querySelectorAll(BLOCK_ELEMENTS)) {
+    block.after(" ");
+  }
+  const text = (document.body.textContent ?? "").replace(/\s+/g, " ").trim();
+
+  if (!text && !document.querySelector("img")) {
+    throw new ValidationError("Email has no content");
+  }
+
+  const webVersion = [...document.querySelectorAll("a[href^='http']")].find(
+    (link) => WEB_VERSION_LINK.test(link.textContent ?? ""),
+  );
+  const sender =
+    getForwardedSender(email, email.text ?? document.body.textContent ?? "") ??
+    email.from;
+  const title = email.subject?.replace(/^\s*(?:fwd?|fw)\s*:\s*/i, "");
+
+  const { article } = await createArticle({
+    userId,
+    url: webVersion?.getAttribute("href") ?? config.APP_URL,
+    title: title || undefined,
+    description: text.slice(0, MAX_DESCRIPTION_LENGTH) || undefined,
+    siteName: sender?.name || sender?.address,
+    // Issues of a newsletter can share the web version link
+    deduplicate: false,
+  });
+
+  try {
+    await contentCache.set(userId, article.id, htmlContent);
+  } catch (error) {
+    logger.error("Failed to cache content for article", {
+      error,
+      article: article.id,
+    });
+    // Continue anyway - worker will retry if needed
+  }
+
+  if (email.messageId) {
+    await db
+      .insert(inboundEmails)
+      .values({ userId, messageId: email.messageId, articleId: article.id })
+      .onConflictDoNothing();
+  }
+
+  addArticleJob(article.id);
+  return article;
+}
+
+/**
+ * Receive newsletters over SMTP, null when INBOUND_EMAIL_DOMAIN isn't set
+ */
+export async function startInboundEmailServer(): Promise<SmtpServer | null> {
+  const domain = config.INBOUND_EMAIL_DOMAIN;
+  if (!domain) {
+    return null;
+  }
+
+  const server = await startSmtpServer({
+    port: config.INBOUND_EMAIL_PORT,
+    domain,
+    maxSize: config.INBOUND_EMAIL_MAX_SIZE_MB * 1024 * 1024,
+    acceptRecipient: async (address) =>
+      (await getUserIdByInboundAddress(address)) !== null,
+    onMessage: async ({ from, recipients, data }) => {
+      const userIds = new Set<string>();
+      for (const recipient of recipients) {
+        const userId = await getUserIdByInboundAddress(recipient);
+        if (userId) {
+          userIds.add(userId);
+        }
+      }
+
+      // A failure makes the sender retry for every recipient, users saved
+      // before it get their article back by the Message-ID
+      for (const userId of userIds) {
+        try {
+          const article = await saveInboundEmail(userId, data);
+          logger.info("Saved inbound email", { article: article.id, from });
+        } catch (error) {
+          // Retrying an empty message won't help, accept and drop it
+          if (!(error instanceof ValidationError)) {
+            throw error;
+          }
+          logger.warn("Dropped inbound email", { error, from });
+        }
+      }
+    },
+  });
+
+  logger.info(`Inbound email server running on port ${server.port}`);
+  return server;
+}
@@ -0,0 +1,140 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  mock,
+  spyOn,
+} from "bun:test";
+import { db, resetDatabase } from "../../test/bootstrap";
+import { createCompletedArticle, createUser } from "../../test/fixtures";
+import { ExternalServiceError } from "../lib/errors";
+import type { SourcePassage } from "../lib/llm";
+import * as llm from "../lib/llm";
+import * as contentService from "./content.service";
+import { answerFromLibrary } from "./library-qa.service";
+import { indexArticleContent } from "./search-index.service";
+
+const RUST_HTML =
+  "<h1>Rust</h1><p>Rust has no garbage collector.</p><p>Ownership frees memory when values go out of scope.</p>";
+const GO_HTML =
+  "<p>Go is garbage collected.</p><p>Its collector runs concurrently with the program.</p>";
+
+describe("library-qa.service", () => {
+  let spyGetArticleContent: ReturnType<
+    typeof spyOn<typeof contentService, "getArticleContent">
+  >;
+  let spyGetLLMProvider: ReturnType<typeof spyOn<typeof llm, "getLLMProvider">>;
+
+  beforeEach(() => {
+    resetDatabase();
+    spyGetArticleContent = spyOn(contentService, "getArticleContent");
+    spyGetLLMProvider = spyOn(llm, "getLLMProvider");
+    spyGetLLMProvider.mockReturnValue(new llm.FakeLLMProvider());
+  });
+
+  afterEach(() => {
+    spyGetArticleContent.mockRestore();
+    spyGetLLMProvider.mockRestore();
+  });
+
+  async function createArticle(userId: string, title: string, html: string) {
+    const article = await createCompletedArticle(db, userId, { title });
+    await indexArticleContent(article.id, html);
+    return article;
+  }
+
+  describe("answerFromLibrary", () => {
+    it("should cite passages with their reader positions", async () => {
+      const user = await createUser(db);
+      const rust = await createArticle(user.id, "Rust memory", RUST_HTML);
+      spyGetArticleContent.mockResolvedValue(RUST_HTML);
+
+      const result = await answerFromLibrary(
+        user.id,
+        "How does ownership free memory?",
+      );
+
+      expect(result.answer).toBe(
+        "Ownership frees memory when values go out of scope. [1]",
+      );
+      expect(result.citations).toEqual([
+        {
+          number: 1,
+          articleId: rust.id,
+          articleTitle: "Rust memory",
+          element: 2,
+          text: "Ownership frees memory when values go out of scope.",
+        },
+      ]);
+    });
+
+    it("should send passages from several matching articles", async () => {
+      const user = await createUser(db);
+      const rust = await createArticle(user.id, "Rust memory", RUST_HTML);
+      await createArticle(user.id, "Go runtime", GO_HTML);
+      spyGetArticleContent.mockImplementation(async (_userId, articleId) =>
+        articleId === rust.id ? RUST_HTML : GO_HTML,
+      );
+      const answerFromSources = mock(
+        async (_question: string, _sources: SourcePassage[]) => ({
+          answer: "Go collects garbage [2], Rust doesn't [1].",
+          citations: [2, 1, 2, 9],
+        }),
+      );
+      spyGetLLMProvider.mockReturnValue({
+        answerFromSources,
+      } as unknown as llm.LLMProvider);
+
+      const result = await answerFromLibrary(user.id, "garbage collector");
+
+      const [, sources] = answerFromSources.mock.calls[0] ?? [];
+      expect(sources?.map((s) => s.title).sort()).toEqual([
+        "Go runtime",
+        "Go runtime",
+        "Rust memory",
+      ]);
+      // Unknown and repeated numbers are dropped
+      expect(result.citations.map((c) => c.number)).toEqual([1, 2]);
+    });
+
+    it("should not call the LLM when no article matches", async () => {
+      const user = await createUser(db);
+      await createArticle(user.id, "Rust memory", RUST_HTML);
+      const answerFromSources = spyOn(
+        llm.FakeLLMProvider.prototype,
+        "answerFromSources",
+      );
+
+      const result = await answerFromLibrary(user.id, "sourdough baking");
+
+      expect(result).toEqual({ answer: null, citations: [] });
+      expect(answerFromSources).not.toHaveBeenCalled();
+      answerFromSources.mockRestore();
+    });
+
+    it("should skip articles whose content can't be loaded", async () => {
+      const user = await createUser(db);
+      await createArticle(user.id, "Rust memory", RUST_HTML);
+      spyGetArticleContent.mockRejectedValue(
+        new ExternalServiceError("Readability content extraction"),
+      );
+
+      const result = await answerFromLibrary(user.id, "garbage collector");
+
+      expect(result).toEqual({ answer: null, citations: [] });
+    });
+
+    it("should only search the user's own articles", async () => {
+      const user = await createUser(db);
+      const other = await createUser(db);
+      await createArticle(other.id, "Rust memory", RUST_HTML);
+      spyGetArticleContent.mockResolvedValue(RUST_HTML);
+
+      const result = await answerFromLibrary(user.id, "garbage collector");
+
+      expect(result.answer).toBeNull();
+    });
+  });
+});
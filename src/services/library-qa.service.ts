@@ -0,0 +1,134 @@
+import { getLLMProvider, type SourcePassage } from "../lib/llm";
+import { defaultLogger } from "../lib/logger";
+import { extractPassages, type Passage } from "../lib/passages";
+import { searchArticles } from "./articles.service";
+import { getArticleContent } from "./content.service";
+
+const logger = defaultLogger.child({ module: "library-qa" });
+
+// Best search matches whose passages are sent to the LLM
+const MAX_CANDIDATE_ARTICLES = 5;
+// Passages per article and their length, keeps the prompt bounded
+const MAX_PASSAGES_PER_ARTICLE = 3;
+const MAX_PASSAGE_LENGTH = 1000;
+
+export interface LibraryCitation {
+  // Number used as [n] in the answer
+  number: number;
+  articleId: string;
+  articleTitle: string;
+  // Reader position of the passage, for /articles/:id?element=
+  element: number;
+  text: string;
+}
+
+export interface LibraryAnswer {
+  // Null when no saved article matches the question
+  answer: string | null;
+  citations: LibraryCitation[];
+}
+
+interface CandidatePassage extends Passage {
+  articleId: string;
+  articleTitle: string;
+}
+
+function toWords(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) ?? [];
+}
+
+/**
+ * Passages sharing the most words with the question, in article order
+ */
+function selectPassages(passages: Passage[], question: string): Passage[] {
+  const questionWords = new Set(toWords(question));
+
+  return passages
+    .map((passage) => ({
+      passage,
+      score: toWords(passage.text).filter((word) => questionWords.has(word))
+        .length,
+    }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || a.passage.element - b.passage.element)
+    .slice(0, MAX_PASSAGES_PER_ARTICLE)
+    .map(({ passage }) => passage)
+    .sort((a, b) => a.element - b.element);
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_PASSAGE_LENGTH
+    ? `${text.slice(0, MAX_PASSAGE_LENGTH).trimEnd()}…`
+    : text;
+}
+
+/**
+ * Answer a question from the user's saved articles
+ * Candidates come from full-text search matching any word of the question,
+ * and only their most relevant passages are sent to the LLM. Citations point
+ * at passages by reader position so they can deep-link into the reader.
+ */
+export async function answerFromLibrary(
+  userId: string,
+  question: string,
+): Promise<LibraryAnswer> {
+  const { articles } = await searchArticles(userId, question, {
+    limit: MAX_CANDIDATE_ARTICLES,
+    matchAny: true,
+  });
+
+  const candidates: CandidatePassage[] = [];
+
+  for (const article of articles) {
+    let content: string;
+
+    try {
+      content = await getArticleContent(userId, article.id, article.url);
+    } catch (error) {
+      logger.warn("Skipping article without content", {
+        article: article.id,
+        error,
+      });
+      continue;
+    }
+
+    for (const passage of selectPassages(extractPassages(content), question)) {
+      candidates.push({
+        ...passage,
+        text: truncate(passage.text),
+        articleId: article.id,
+        articleTitle: article.title || article.url,
+      });
+    }
+  }
+
+  if (candidates.length === 0) {
+    return { answer: null, citations: [] };
+  }
+
+  const sources: SourcePassage[] = candidates.map((candidate) => ({
+    title: candidate.articleTitle,
+    text: candidate.text,
+  }));
+  const result = await getLLMProvider().answerFromSources(question, sources);
+
+  // Models can cite numbers that don't exist or repeat them
+  const citations = [...new Set(result.citations)]
+    .sort((a, b) => a - b)
+    .flatMap((number): LibraryCitation[] => {
+      const candidate = candidates[number - 1];
+      if (!candidate) return [];
+
+      return [
+        {
+          number,
+          articleId: candidate.articleId,
+          articleTitle: candidate.articleTitle,
+          element: candidate.element,
+          text: candidate.text,
+        },
+      ];
+    });
+
+  return { answer: result.answer, citations };
+}
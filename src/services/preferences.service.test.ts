@@ -3,9 +3,15 @@ import { db, resetDatabase } from "../../test/bootstrap";
 import { createUser } from "../../test/fixtures";
 import { NotFoundError } from "../lib/errors";
 import {
+  getDeliveryPreferences,
+  getDigestPreferences,
   getReaderPreferences,
+  getTaggingPreferences,
   getUserPreferences,
+  updateDeliveryPreferences,
+  updateDigestPreferences,
   updateReaderPreferences,
+  updateTaggingPreferences,
 } from "./preferences.service";
 
 describe("preferences.service", () => {
@@ -242,4 +248,85 @@ describe("preferences.service", () => {
       }).toThrow(NotFoundError);
     });
   });
+
+  describe("tagging preferences", () => {
+    it("should return defaults when not set", async () => {
+      const user = await createUser(db);
+
+      expect(await getTaggingPreferences(user.id)).toEqual({
+        maxNewTagsPerArticle: 2,
+        autoApplyConsolidation: false,
+      });
+    });
+
+    it("should update tagging preferences without touching reader preferences", async () => {
+      const user = await createUser(db);
+      await updateReaderPreferences(user.id, { fontSize: 20 });
+
+      await updateTaggingPreferences(user.id, { maxNewTagsPerArticle: 0 });
+      await updateTaggingPreferences(user.id, { autoApplyConsolidation: true });
+
+      expect(await getTaggingPreferences(user.id)).toEqual({
+        maxNewTagsPerArticle: 0,
+        autoApplyConsolidation: true,
+      });
+      expect((await getReaderPreferences(user.id)).fontSize).toBe(20);
+    });
+  });
+
+  describe("delivery preferences", () => {
+    it("should return defaults when not set", async () => {
+      const user = await createUser(db);
+
+      expect(await getDeliveryPreferences(user.id)).toEqual({
+        email: null,
+        format: "epub",
+      });
+    });
+
+    it("should update delivery preferences without touching tagging preferences", async () => {
+      const user = await createUser(db);
+      await updateTaggingPreferences(user.id, { maxNewTagsPerArticle: 0 });
+
+      await updateDeliveryPreferences(user.id, {
+        email: "reader@kindle.com",
+        format: "html",
+      });
+
+      expect(await getDeliveryPreferences(user.id)).toEqual({
+        email: "reader@kindle.com",
+        format: "html",
+      });
+      expect((await getTaggingPreferences(user.id)).maxNewTagsPerArticle).toBe(
+        0,
+      );
+    });
+  });
+
+  describe("digest preferences", () => {
+    it("should return defaults when not set", async () => {
+      const user = await createUser(db);
+
+      expect(await getDigestPreferences(user.id)).toEqual({
+        frequency: "off",
+        hour: 8,
+        weekday: 1,
+        size: 3,
+      });
+    });
+
+    it("should merge partial updates", async () => {
+      const user = await createUser(db);
+
+      await updateDigestPreferences(user.id, { frequency: "weekly" });
+      await updateDigestPreferences(user.id, { hour: 20 });
+
+      expect(await getDigestPreferences(user.id)).toEqual({
+        frequency: "weekly",
+        hour: 20,
+        weekday: 1,
+        size: 3,
+      });
+    });
+  });
 });
@@ -1,8 +1,14 @@
 import { eq } from "drizzle-orm";
 import { users } from "../db/schema";
 import {
+  DEFAULT_DELIVERY_PREFERENCES,
+  DEFAULT_DIGEST_PREFERENCES,
   DEFAULT_READER_PREFERENCES,
+  DEFAULT_TAGGING_PREFERENCES,
+  type DeliveryPreferences,
+  type DigestPreferences,
   type ReaderPreferences,
+  type TaggingPreferences,
   type UserPreferences,
 } from "../db/types";
 import { db } from "../lib/db";
@@ -64,3 +70,105 @@ export async function updateReaderPreferences(
     .set({ preferences: JSON.stringify(updatedPrefs) })
     .where(eq(users.id, userId));
 }
+
+/**
+ * Get tagging preferences with defaults
+ */
+export async function getTaggingPreferences(
+  userId: string,
+): Promise<TaggingPreferences> {
+  const prefs = await getUserPreferences(userId);
+  return { ...DEFAULT_TAGGING_PREFERENCES, ...prefs.tagging };
+}
+
+/**
+ * Update tagging preferences (merge with existing)
+ */
+export async function updateTaggingPreferences(
+  userId: string,
+  taggingPrefs: Partial<TaggingPreferences>,
+): Promise<void> {
+  const currentPrefs = await getUserPreferences(userId);
+
+  const updatedPrefs: UserPreferences = {
+    ...currentPrefs,
+    tagging: {
+      ...DEFAULT_TAGGING_PREFERENCES,
+      ...currentPrefs.tagging,
+      ...taggingPrefs,
+    },
+  };
+
+  await db
+    .update(users)
+    .set({ preferences: JSON.stringify(updatedPrefs) })
+    .where(eq(users.id, userId));
+}
+
+/**
+ * Get email delivery preferences with defaults
+ */
+export async function getDeliveryPreferences(
+  userId: string,
+): Promise<DeliveryPreferences> {
+  const prefs = await getUserPreferences(userId);
+  return { ...DEFAULT_DELIVERY_PREFERENCES, ...prefs.delivery };
+}
+
+/**
+ * Update email delivery preferences (merge with existing)
+ */
+export async function updateDeliveryPreferences(
+  userId: string,
+  deliveryPrefs: Partial<DeliveryPreferences>,
+): Promise<void> {
+  const currentPrefs = await getUserPreferences(userId);
+
+  const updatedPrefs: UserPreferences = {
+    ...currentPrefs,
+    delivery: {
+      ...DEFAULT_DELIVERY_PREFERENCES,
+      ...currentPrefs.delivery,
+      ...deliveryPrefs,
+    },
+  };
+
+  await db
+    .update(users)
+    .set({ preferences: JSON.stringify(updatedPrefs) })
+    .where(eq(users.id, userId));
+}
+
+/**
+ * Get Telegram digest preferences with defaults
+ */
+export async function getDigestPreferences(
+  userId: string,
+): Promise<DigestPreferences> {
+  const prefs = await getUserPreferences(userId);
+  return { ...DEFAULT_DIGEST_PREFERENCES, ...prefs.digest };
+}
+
+/**
+ * Update Telegram digest preferences (merge with existing)
+ */
+export async function updateDigestPreferences(
+  userId: string,
+  digestPrefs: Partial<DigestPreferences>,
+): Promise<void> {
+  const currentPrefs = await getUserPreferences(userId);
+
+  const updatedPrefs: UserPreferences = {
+    ...currentPrefs,
+    digest: {
+      ...DEFAULT_DIGEST_PREFERENCES,
+      ...currentPrefs.digest,
+      ...digestPrefs,
+    },
+  };
+
+  await db
+    .update(users)
+    .set({ preferences: JSON.stringify(updatedPrefs) })
+    .where(eq(users.id, userId));
+}
@@ -0,0 +1,177 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  mock,
+  spyOn,
+} from "bun:test";
+import { db, resetDatabase } from "../../test/bootstrap";
+import { createCompletedArticle, createUser } from "../../test/fixtures";
+import { articleQuestions } from "../db/schema";
+import type { ChatMessage } from "../lib/llm";
+import * as llm from "../lib/llm";
+import * as contentService from "./content.service";
+import {
+  askQuestion,
+  getArticleQuestion,
+  getArticleQuestions,
+  streamAnswer,
+} from "./questions.service";
+
+const ARTICLE_HTML =
+  "<p>Rust has no garbage collector.</p><p>Ownership frees memory when values go out of scope.</p>";
+
+async function collect(stream: AsyncIterable<string>) {
+  let text = "";
+  for await (const delta of stream) {
+    text += delta;
+  }
+  return text;
+}
+
+describe("questions.service", () => {
+  let spyGetArticleContent: ReturnType<
+    typeof spyOn<typeof contentService, "getArticleContent">
+  >;
+  let spyGetLLMProvider: ReturnType<typeof spyOn<typeof llm, "getLLMProvider">>;
+
+  beforeEach(() => {
+    resetDatabase();
+    spyGetArticleContent = spyOn(contentService, "getArticleContent");
+    spyGetArticleContent.mockResolvedValue(ARTICLE_HTML);
+    spyGetLLMProvider = spyOn(llm, "getLLMProvider");
+    spyGetLLMProvider.mockReturnValue(new llm.FakeLLMProvider());
+  });
+
+  afterEach(() => {
+    spyGetArticleContent.mockRestore();
+    spyGetLLMProvider.mockRestore();
+  });
+
+  describe("askQuestion", () => {
+    it("should save unanswered questions in order", async () => {
+      const user = await createUser(db);
+      const article = await createCompletedArticle(db, user.id);
+
+      await askQuestion(article.id, "First?");
+      await askQuestion(article.id, "Second?");
+
+      const questions = await getArticleQuestions(article.id);
+      expect(questions.map((q) => [q.question, q.answer])).toEqual([
+        ["First?", null],
+        ["Second?", null],
+      ]);
+    });
+  });
+
+  describe("getArticleQuestion", () => {
+    it("should throw NotFoundError for another article's question", async () => {
+      const user = await createUser(db);
+      const article = await createCompletedArticle(db, user.id);
+      const other = await createCompletedArticle(db, user.id);
+      const question = await askQuestion(other.id, "Why?");
+
+      await expect(getArticleQuestion(article.id, question.id)).rejects.toThrow(
+        "Question not found",
+      );
+    });
+  });
+
+  describe("streamAnswer", () => {
+    it("should stream an answer grounded in the article and save it", async () => {
+      const user = await createUser(db);
+      const article = await createCompletedArticle(db, user.id);
+      const question = await askQuestion(
+        article.id,
+        "Does Rust have a garbage collector?",
+      );
+
+      const answer = await collect(
+        streamAnswer(user.id, article.id, article.url, question.id),
+      );
+
+      expect(answer).toBe("Rust has no garbage collector.");
+      expect(spyGetArticleContent).toHaveBeenCalledWith(
+        user.id,
+        article.id,
+        article.url,
+      );
+      const saved = await getArticleQuestion(article.id, question.id);
+      expect(saved.answer).toBe(answer);
+    });
+
+    it("should return a saved answer without calling the LLM", async () => {
+      const user = await createUser(db);
+      const article = await createCompletedArticle(db, user.id);
+      await db.insert(articleQuestions).values({
+        articleId: article.id,
+        question: "Why?",
+        answer: "Because.",
+      });
+      const [question] = await getArticleQuestions(article.id);
+
+      const answer = await collect(
+        streamAnswer(user.id, article.id, article.url, question?.id ?? ""),
+      );
+
+      expect(answer).toBe("Because.");
+      expect(spyGetLLMProvider).not.toHaveBeenCalled();
+    });
+
+    it("should send earlier exchanges as conversation history", async () => {
+      const user = await createUser(db);
+      const article = await createCompletedArticle(db, user.id);
+      await db.insert(articleQuestions).values({
+        articleId: article.id,
+        question: "What is it about?",
+        answer: "Rust memory.",
+      });
+      await askQuestion(article.id, "Unanswered earlier question");
+      const question = await askQuestion(article.id, "And ownership?");
+
+      const answerMock = mock(async function* (
+        _content: string,
+        _messages: ChatMessage[],
+      ) {
+        yield "It frees memory.";
+      });
+      spyGetLLMProvider.mockReturnValue({
+        answer: answerMock,
+      } as unknown as llm.LLMProvider);
+
+      await collect(
+        streamAnswer(user.id, article.id, article.url, question.id),
+      );
+
+      const [content, messages] = answerMock.mock.calls[0] ?? [];
+      expect(content).toBe(
+        "Rust has no garbage collector. Ownership frees memory when values go out of scope.",
+      );
+      expect(messages).toEqual([
+        { role: "user", content: "What is it about?" },
+        { role: "assistant", content: "Rust memory." },
+        { role: "user", content: "And ownership?" },
+      ]);
+    });
+
+    it("should not save an empty answer", async () => {
+      const user = await createUser(db);
+      const article = await createCompletedArticle(db, user.id);
+      const question = await askQuestion(article.id, "Why?");
+      spyGetLLMProvider.mockReturnValue({
+        answer: async function* () {
+          yield "  ";
+        },
+      } as unknown as llm.LLMProvider);
+
+      await expect(
+        collect(streamAnswer(user.id, article.id, article.url, question.id)),
+      ).rejects.toThrow("Invalid LLM output for answer");
+
+      const saved = await getArticleQuestion(article.id, question.id);
+      expect(saved.answer).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import { and, asc, eq, isNull, sql } from "drizzle-orm";
+import { articleQuestions } from "../db/schema";
+import type { ArticleQuestion } from "../db/types";
+import { db } from "../lib/db";
+import { InternalError, LLMOutputError, NotFoundError } from "../lib/errors";
+import { type ChatMessage, getLLMProvider } from "../lib/llm";
+import { htmlToPlainText } from "../lib/tts";
+import { getArticleContent } from "./content.service";
+
+// Earlier exchanges sent along with a question, keeps the prompt bounded
+const MAX_HISTORY_EXCHANGES = 10;
+
+/**
+ * Get the questions asked about an article, oldest first
+ */
+export async function getArticleQuestions(
+  articleId: string,
+): Promise<ArticleQuestion[]> {
+  return (
+    db
+      .select()
+      .from(articleQuestions)
+      .where(eq(articleQuestions.articleId, articleId))
+      // rowid keeps insertion order within the same second
+      .orderBy(asc(articleQuestions.createdAt), asc(sql`rowid`))
+  );
+}
+
+/**
+ * Get a question about an article
+ * Throws NotFoundError if it doesn't exist or is about another article
+ */
+export async function getArticleQuestion(
+  articleId: string,
+  questionId: string,
+): Promise<ArticleQuestion> {
+  const [question] = await db
+    .select()
+    .from(articleQuestions)
+    .where(
+      and(
+        eq(articleQuestions.id, questionId),
+        eq(articleQuestions.articleId, articleId),
+      ),
+    )
+    .limit(1);
+
+  if (!question) {
+    throw new NotFoundError("Question", questionId);
+  }
+
+  return question;
+}
+
+/**
+ * Save a question about an article, the answer is generated by streamAnswer
+ */
+export async function askQuestion(
+  articleId: string,
+  question: string,
+): Promise<ArticleQuestion> {
+  const [created] = await db
+    .insert(articleQuestions)
+    .values({ articleId, question })
+    .returning();
+
+  if (!created) {
+    throw new InternalError("Failed to save question", { articleId });
+  }
+
+  return created;
+}
+
+/**
+ * Stream the answer to a question as text deltas
+ * An existing answer is yielded at once. The earlier exchanges about the
+ * article are sent as conversation history, and the answer is saved when
+ * complete.
+ */
+export async function* streamAnswer(
+  userId: string,
+  articleId: string,
+  articleUrl: string,
+  questionId: string,
+): AsyncGenerator<string> {
+  const questions = await getArticleQuestions(articleId);
+  const index = questions.findIndex((q) => q.id === questionId);
+  const question = questions[index];
+
+  if (!question) {
+    throw new NotFoundError("Question", questionId);
+  }
+
+  if (question.answer !== null) {
+    yield question.answer;
+    return;
+  }
+
+  const history = questions
+    .slice(0, index)
+    .filter((q) => q.answer !== null)
+    .slice(-MAX_HISTORY_EXCHANGES)
+    .flatMap((q): ChatMessage[] => [
+      { role: "user", content: q.question },
+      { role: "assistant", content: q.answer ?? "" },
+    ]);
+
+  const content = await getArticleContent(userId, articleId, articleUrl);
+
+  let answer = "";
+
+  for await (const delta of getLLMProvider().answer(htmlToPlainText(content), [
+    ...history,
+    { role: "user", content: question.question },
+  ])) {
+    answer += delta;
+    yield delta;
+  }
+
+  if (!answer.trim()) {
+    throw new LLMOutputError("answer", ["Answer is empty"], 1);
+  }
+
+  // A concurrent stream for the same question may have answered it already
+  await db
+    .update(articleQuestions)
+    .set({ answer: answer.trim() })
+    .where(
+      and(eq(articleQuestions.id, questionId), isNull(articleQuestions.answer)),
+    );
+}
@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from "bun:test";
+import { db, resetDatabase } from "../../test/bootstrap";
+import {
+  addTagToArticle,
+  createCompletedArticle,
+  createTag,
+  createUser,
+} from "../../test/fixtures";
+import { articleSummaries } from "../db/schema";
+import { contentCache } from "../lib/content-cache";
+import { parseFeed } from "../lib/feed-parser";
+import {
+  buildReadingFeed,
+  getFeedToken,
+  getReadingFeedUrl,
+  getUserIdByFeedToken,
+  resetFeedToken,
+} from "./reading-feeds.service";
+
+describe("reading-feeds.service", () => {
+  let userId: string;
+  let spyGet: ReturnType<typeof spyOn<typeof contentCache, "get">>;
+
+  beforeEach(async () => {
+    resetDatabase();
+    spyGet = spyOn(contentCache, "get").mockResolvedValue(null);
+
+    const user = await createUser(db);
+    userId = user.id;
+  });
+
+  afterEach(() => {
+    spyGet.mockRestore();
+  });
+
+  describe("feed tokens", () => {
+    it("should create a token once and resolve it to the user", async () => {
+      const token = await getFeedToken(userId);
+
+      expect(token).toMatch(/^[\w-]{32}$/);
+      expect(await getFeedToken(userId)).toBe(token);
+      expect(await getUserIdByFeedToken(token)).toBe(userId);
+    });
+
+    it("should stop resolving a token after a reset", async () => {
+      const token = await getFeedToken(userId);
+      const reset = await resetFeedToken(userId);
+
+      expect(reset).not.toBe(token);
+      expect(await getUserIdByFeedToken(token)).toBeNull();
+      expect(await getUserIdByFeedToken(reset)).toBe(userId);
+    });
+  });
+
+  describe("getReadingFeedUrl", () => {
+    it("should encode tag names", () => {
+      expect(getReadingFeedUrl("abc", { type: "tag", tag: "c++ & rust" })).toBe(
+        "https://lateread.app/feeds/abc/tag/c%2B%2B%20%26%20rust.xml",
+      );
+    });
+  });
+
+  describe("buildReadingFeed", () => {
+    it("should include content, summaries and tags of unread articles", async () => {
+      const article = await createCompletedArticle(db, userId, {
+        title: "Unread",
+      });
+      await createCompletedArticle(db, userId, {
+        title: "Archived",
+        archived: true,
+      });
+      const rust = await createTag(db, userId, "rust");
+      await addTagToArticle(db, article.id, rust.id);
+      await db.insert(articleSummaries).values({
+        articleId: article.id,
+        oneSentence: "Sentence.",
+        oneParagraph: "Paragraph summary.",
+        long: "Long.",
+      });
+      spyGet.mockResolvedValue("<p>Cached content</p>");
+
+      const xml = await buildReadingFeed(userId, "token", { type: "unread" });
+      const feed = parseFeed(
+        xml,
+        "https://lateread.app/feeds/token/unread.xml",
+      );
+
+      expect(feed.title).toBe("lateread: Unread");
+      expect(feed.entries).toHaveLength(1);
+      expect(feed.entries[0]).toMatchObject({
+        id: `urn:uuid:${article.id}`,
+        url: article.url,
+        title: "Unread",
+        summary: "Paragraph summary.",
+        categories: ["rust"],
+      });
+      expect(xml).toContain("&lt;p&gt;Cached content&lt;/p&gt;");
+      expect(spyGet).toHaveBeenCalledWith(userId, article.id);
+    });
+
+    it("should list liked articles, archived or not", async () => {
+      const liked = await createCompletedArticle(db, userId, {
+        archived: true,
+        rating: 1,
+      });
+      await createCompletedArticle(db, userId, { rating: -1 });
+      await createCompletedArticle(db, userId);
+
+      const xml = await buildReadingFeed(userId, "token", { type: "liked" });
+      const feed = parseFeed(xml, "https://lateread.app/");
+
+      expect(feed.entries.map((entry) => entry.id)).toEqual([
+        `urn:uuid:${liked.id}`,
+      ]);
+    });
+
+    it("should list articles with a tag", async () => {
+      const tagged = await createCompletedArticle(db, userId, {
+        archived: true,
+      });
+      await createCompletedArticle(db, userId);
+      const rust = await createTag(db, userId, "rust");
+      await addTagToArticle(db, tagged.id, rust.id);
+
+      const xml = await buildReadingFeed(userId, "token", {
+        type: "tag",
+        tag: "rust",
+      });
+      const feed = parseFeed(xml, "https://lateread.app/");
+
+      expect(feed.title).toBe("lateread: rust");
+      expect(feed.entries.map((entry) => entry.id)).toEqual([
+        `urn:uuid:${tagged.id}`,
+      ]);
+    });
+  });
+});
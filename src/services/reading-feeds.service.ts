@@ -0,0 +1,154 @@
+import { eq, inArray } from "drizzle-orm";
+import { articleSummaries, users } from "../db/schema";
+import { buildAtomFeed } from "../lib/atom";
+import { config } from "../lib/config";
+import { contentCache } from "../lib/content-cache";
+import { db } from "../lib/db";
+import { NotFoundError } from "../lib/errors";
+import { getArticlesWithTags } from "./articles.service";
+
+// Newest articles in a feed
+const MAX_FEED_ENTRIES = 50;
+
+export type ReadingFeed =
+  | { type: "unread" }
+  | { type: "liked" }
+  | { type: "tag"; tag: string };
+
+function generateFeedToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return Buffer.from(bytes).toString("base64url");
+}
+
+/**
+ * Token of the private feed URLs of a user, created on first use
+ */
+export async function getFeedToken(userId: string): Promise<string> {
+  const [user] = await db
+    .select({ feedToken: users.feedToken })
+    .from(users)
+    .where(eq(users.id, userId));
+
+  if (!user) {
+    throw new NotFoundError("User", userId);
+  }
+  return user.feedToken ?? resetFeedToken(userId);
+}
+
+/**
+ * Replace the feed token, the old feed URLs stop working
+ */
+export async function resetFeedToken(userId: string): Promise<string> {
+  const feedToken = generateFeedToken();
+
+  const updated = await db
+    .update(users)
+    .set({ feedToken })
+    .where(eq(users.id, userId))
+    .returning({ id: users.id });
+
+  if (updated.length === 0) {
+    throw new NotFoundError("User", userId);
+  }
+  return feedToken;
+}
+
+/**
+ * Owner of a feed token, null if the token is unknown or was reset
+ */
+export async function getUserIdByFeedToken(
+  token: string,
+): Promise<string | null> {
+  const [user] = await db
+    .select({ id: users.id })
+    .from(users)
+    .where(eq(users.feedToken, token));
+
+  return user?.id ?? null;
+}
+
+/**
+ * Public URL of a private feed
+ */
+export function getReadingFeedUrl(token: string, feed: ReadingFeed): string {
+  const path =
+    feed.type === "tag"
+      ? `tag/${encodeURIComponent(feed.tag)}.xml`
+      : `${feed.type}.xml`;
+  return `${config.APP_URL}/feeds/${token}/${path}`;
+}
+
+function feedTitle(feed: ReadingFeed): string {
+  switch (feed.type) {
+    case "unread":
+      return "lateread: Unread";
+    case "liked":
+      return "lateread: Liked";
+    case "tag":
+      return `lateread: ${feed.tag}`;
+  }
+}
+
+/**
+ * Atom feed of the newest unread, liked or tagged articles of a user
+ * Entries carry the cached article content and summary, when there is one
+ */
+export async function buildReadingFeed(
+  userId: string,
+  token: string,
+  feed: ReadingFeed,
+): Promise<string> {
+  const { articles } = await getArticlesWithTags(userId, {
+    limit: MAX_FEED_ENTRIES,
+    ...(feed.type === "unread" && { archived: false }),
+    ...(feed.type === "liked" && { query: "is:liked" }),
+    ...(feed.type === "tag" && { tags: [feed.tag] }),
+  });
+
+  const summaries =
+    articles.length > 0
+      ? await db
+          .select({
+            articleId: articleSummaries.articleId,
+            oneParagraph: articleSummaries.oneParagraph,
+          })
+          .from(articleSummaries)
+          .where(
+            inArray(
+              articleSummaries.articleId,
+              articles.map((article) => article.id),
+            ),
+          )
+      : [];
+  const summaryByArticle = new Map(
+    summaries.map((row) => [row.articleId, row.oneParagraph]),
+  );
+
+  const entries = await Promise.all(
+    articles.map(async (article) => ({
+      id: `urn:uuid:${article.id}`,
+      title: article.title || article.url,
+      url: article.url,
+      updated: article.updatedAt,
+      published: article.createdAt,
+      author: article.siteName,
+      summary: summaryByArticle.get(article.id) ?? article.description,
+      content: await contentCache.get(userId, article.id),
+      categories: article.tags.map((tag) => tag.name),
+    })),
+  );
+
+  return buildAtomFeed({
+    // Stable across token resets, unlike the URL
+    id: `tag:${new URL(config.APP_URL).host},2026:${userId}/${
+      feed.type === "tag" ? `tag/${encodeURIComponent(feed.tag)}` : feed.type
+    }`,
+    title: feedTitle(feed),
+    selfUrl: getReadingFeedUrl(token, feed),
+    siteUrl:
+      feed.type === "tag"
+        ? `${config.APP_URL}/articles?tag=${encodeURIComponent(feed.tag)}`
+        : config.APP_URL,
+    entries,
+  });
+}
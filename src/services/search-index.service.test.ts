@@ -0,0 +1,135 @@
+import { beforeEach, describe, expect, it } from "bun:test";
+import { eq, sql } from "drizzle-orm";
+import { db, resetDatabase } from "../../test/bootstrap";
+import {
+  createArticle,
+  createCompletedArticle,
+  createUser,
+} from "../../test/fixtures";
+import { articles } from "../db/schema";
+import { SNIPPET_MATCH_END, SNIPPET_MATCH_START } from "../lib/fts";
+import {
+  indexArticleContent,
+  indexArticleSummary,
+  searchIndex,
+} from "./search-index.service";
+
+async function getIndexRow(articleId: string) {
+  const [row] = await db.all<{
+    title: string | null;
+    siteName: string | null;
+    content: string | null;
+    summary: string | null;
+  }>(
+    sql`SELECT title, site_name AS siteName, content, summary FROM articles_fts WHERE article_id = ${articleId}`,
+  );
+  return row;
+}
+
+describe("search-index.service", () => {
+  beforeEach(() => {
+    resetDatabase();
+  });
+
+  describe("index sync", () => {
+    it("should index article metadata on insert and update", async () => {
+      const user = await createUser(db);
+      const article = await createCompletedArticle(db, user.id, {
+        title: "Original",
+        siteName: "Example",
+      });
+
+      expect(await getIndexRow(article.id)).toMatchObject({
+        title: "Original",
+        siteName: "Example",
+      });
+
+      await indexArticleContent(article.id, "body text");
+      await db
+        .update(articles)
+        .set({ title: "Renamed" })
+        .where(eq(articles.id, article.id));
+
+      // Metadata changes must not wipe app-written columns
+      expect(await getIndexRow(article.id)).toMatchObject({
+        title: "Renamed",
+        content: "body text",
+      });
+    });
+
+    it("should key index rows by the article rowid", async () => {
+      const user = await createUser(db);
+      await createCompletedArticle(db, user.id);
+      const article = await createCompletedArticle(db, user.id);
+
+      const [row] = await db.all<{ articleId: string }>(
+        sql`SELECT articles_fts.article_id AS articleId FROM articles_fts JOIN articles ON articles.rowid = articles_fts.rowid WHERE articles.id = ${article.id}`,
+      );
+      expect(row?.articleId).toBe(article.id);
+    });
+
+    it("should remove the index row when the article is deleted", async () => {
+      const user = await createUser(db);
+      const article = await createCompletedArticle(db, user.id);
+
+      await db.delete(articles).where(eq(articles.id, article.id));
+
+      expect(await getIndexRow(article.id)).toBeUndefined();
+    });
+  });
+
+  describe("indexArticleSummary", () => {
+    it("should store all summary lengths", async () => {
+      const user = await createUser(db);
+      const article = await createCompletedArticle(db, user.id);
+
+      await indexArticleSummary(article.id, {
+        oneSentence: "Short.",
+        oneParagraph: "Medium.",
+        long: "Long.",
+      });
+
+      expect((await getIndexRow(article.id))?.summary).toBe(
+        "Short. Medium. Long.",
+      );
+    });
+  });
+
+  describe("searchIndex", () => {
+    it("should return matches with marked snippets", async () => {
+      const user = await createUser(db);
+      const article = await createCompletedArticle(db, user.id, {
+        title: "Notes",
+      });
+      await indexArticleContent(article.id, "Bees make honey in summer");
+
+      const matches = await searchIndex(user.id, '"honey"*', {
+        limit: 10,
+        offset: 0,
+      });
+
+      expect(matches).toHaveLength(1);
+      expect(matches[0]?.articleId).toBe(article.id);
+      expect(matches[0]?.snippet).toContain(
+        `${SNIPPET_MATCH_START}honey${SNIPPET_MATCH_END}`,
+      );
+    });
+
+    it("should only return the user's completed articles", async () => {
+      const user = await createUser(db);
+      const other = await createUser(db);
+      await createCompletedArticle(db, other.id, { title: "Honey" });
+      await createArticle(db, user.id, {
+        title: "Honey",
+        status: "pending",
+      });
+
+      const matches = await searchIndex(user.id, '"honey"*', {
+        limit: 10,
+        offset: 0,
+      });
+
+      expect(matches).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { type SQL, sql } from "drizzle-orm";
+import { db } from "../lib/db";
+import { SNIPPET_MATCH_END, SNIPPET_MATCH_START } from "../lib/fts";
+import type { SummaryResult } from "../lib/llm";
+
+/**
+ * Full-text search over the `articles_fts` FTS5 table
+ *
+ * Row lifecycle and metadata (title, description, site name) are kept in sync
+ * by triggers on `articles`, see drizzle/0009_articles_fts.sql and
+ * drizzle/0022_articles_fts_rowid.sql. Index rows share the rowid of their
+ * article. Plain text content and summaries are written explicitly by the app.
+ */
+
+const SNIPPET_MAX_TOKENS = 24;
+
+// bm25 column weights, in table order:
+// article_id, user_id, title, description, site_name, content, summary
+const BM25_WEIGHTS = sql.raw("0.0, 0.0, 10.0, 4.0, 2.0, 1.0, 3.0");
+
+export interface SearchIndexMatch {
+  articleId: string;
+  snippet: string | null;
+}
+
+/**
+ * Subquery selecting the user's article IDs that match an FTS expression
+ * Usable inside drizzle conditions: sql`${articles.id} IN (${...})`
+ */
+export function matchingArticleIds(userId: string, ftsQuery: string): SQL {
+  return sql`SELECT article_id FROM articles_fts WHERE articles_fts MATCH ${ftsQuery} AND user_id = ${userId}`;
+}
+
+/**
+ * Store the plain text content of an article in the index
+ */
+export async function indexArticleContent(
+  articleId: string,
+  textContent: string,
+): Promise<void> {
+  await db.run(
+    sql`UPDATE articles_fts SET content = ${textContent} WHERE rowid = (SELECT rowid FROM articles WHERE id = ${articleId})`,
+  );
+}
+
+/**
+ * Store the generated summaries of an article in the index
+ */
+export async function indexArticleSummary(
+  articleId: string,
+  summary: SummaryResult,
+): Promise<void> {
+  const text = [summary.oneSentence, summary.oneParagraph, summary.long].join(
+    " ",
+  );
+
+  await db.run(
+    sql`UPDATE articles_fts SET summary = ${text} WHERE rowid = (SELECT rowid FROM articles WHERE id = ${articleId})`,
+  );
+}
+
+/**
+ * Search the user's completed articles, best bm25 matches first
+ * `where` can further restrict results with conditions on `articles`
+ * Snippets mark matched terms with SNIPPET_MATCH_START/SNIPPET_MATCH_END (see lib/fts)
+ */
+export async function searchIndex(
+  userId: string,
+  ftsQuery: string,
+  { where, limit, offset }: { where?: SQL; limit: number; offset: number },
+): Promise<SearchIndexMatch[]> {
+  return db.all<SearchIndexMatch>(sql`
+    SELECT
+      articles_fts.article_id AS articleId,
+      snippet(articles_fts, -1, ${SNIPPET_MATCH_START}, ${SNIPPET_MATCH_END}, '…', ${SNIPPET_MAX_TOKENS}) AS snippet
+    FROM articles_fts
+    JOIN articles ON articles.rowid = articles_fts.rowid
+    WHERE articles_fts MATCH ${ftsQuery}
+      AND articles_fts.user_id = ${userId}
+      AND articles.status = 'completed'
+      ${where ? sql`AND ${where}` : sql``}
+    ORDER BY bm25(articles_fts, ${BM25_WEIGHTS}), articles.created_at DESC
+    LIMIT ${limit} OFFSET ${offset}
+  `);
+}
@@ -21,6 +21,7 @@ describe("subscription.service", () => {
       expect(features).toEqual({
         summary: false,
         tts: false,
+        ask: false,
       });
     });
 
@@ -33,6 +34,7 @@ describe("subscription.service", () => {
       expect(features).toEqual({
         summary: true,
         tts: true,
+        ask: true,
       });
     });
 
@@ -45,6 +47,7 @@ describe("subscription.service", () => {
       expect(features).toEqual({
         summary: true,
         tts: false,
+        ask: true,
       });
     });
 
@@ -62,6 +65,7 @@ describe("subscription.service", () => {
       expect(features).toEqual({
         summary: false,
         tts: false,
+        ask: false,
       });
     });
 
@@ -88,6 +92,7 @@ describe("subscription.service", () => {
       expect(features).toEqual({
         summary: true,
         tts: false,
+        ask: true,
       });
     });
 
@@ -105,6 +110,7 @@ describe("subscription.service", () => {
       expect(features).toEqual({
         summary: true,
         tts: true,
+        ask: true,
       });
     });
 
@@ -122,6 +128,7 @@ describe("subscription.service", () => {
       expect(features).toEqual({
         summary: true,
         tts: true,
+        ask: true,
       });
     });
 
@@ -137,11 +144,13 @@ describe("subscription.service", () => {
       expect(user1Features).toEqual({
         summary: true,
         tts: true,
+        ask: true,
       });
 
       expect(user2Features).toEqual({
         summary: false,
         tts: false,
+        ask: false,
       });
     });
 
@@ -153,6 +162,7 @@ describe("subscription.service", () => {
       expect(features).toEqual({
         summary: false,
         tts: false,
+        ask: false,
       });
     });
 
@@ -176,6 +186,7 @@ describe("subscription.service", () => {
       expect(features).toEqual({
         summary: false,
         tts: false,
+        ask: false,
       });
     });
 
@@ -185,6 +196,7 @@ describe("subscription.service", () => {
       expect(features).toEqual({
         summary: false,
         tts: false,
+        ask: false,
       });
     });
   });
@@ -5,10 +5,12 @@ import { db } from "../lib/db";
 
 const SUMMARY_ENABLED_TYPES: SubscriptionType[] = ["full", "lite"];
 const TTS_ENABLED_TYPES: SubscriptionType[] = ["full"];
+const ASK_ENABLED_TYPES: SubscriptionType[] = ["full", "lite"];
 
 interface AllowedFeatures {
   summary: boolean;
   tts: boolean;
+  ask: boolean;
 }
 
 async function findActiveSubscriptionForUser(userId: string) {
@@ -35,11 +37,13 @@ export async function getAllowedFeaturesForUser(
     return {
       summary: false,
       tts: false,
+      ask: false,
     };
   }
 
   return {
     summary: SUMMARY_ENABLED_TYPES.includes(subscription.type),
     tts: TTS_ENABLED_TYPES.includes(subscription.type),
+    ask: ASK_ENABLED_TYPES.includes(subscription.type),
   };
 }
@@ -9,7 +9,7 @@ import {
   spyOn,
 } from "bun:test";
 import { randomUUID } from "node:crypto";
-import { eq } from "drizzle-orm";
+import { eq, sql } from "drizzle-orm";
 import { db, resetDatabase } from "../../test/bootstrap";
 import { createCompletedArticle, createUser } from "../../test/fixtures";
 import { articleSummaries } from "../db/schema";
@@ -17,7 +17,7 @@ import { ExternalServiceError } from "../lib/errors";
 import type { SummaryResult } from "../lib/llm";
 import * as llm from "../lib/llm";
 import * as contentService from "./content.service";
-import { getOrGenerateSummary } from "./summaries.service";
+import { getOrGenerateSummary, streamSummary } from "./summaries.service";
 
 describe("summaries.service", () => {
   beforeEach(() => {
@@ -81,6 +81,14 @@ describe("summaries.service", () => {
         extractTags: mock(() =>
           Promise.resolve({ tags: [], language: "en", confidence: 0 }),
         ),
+        consolidateTags: mock(() => Promise.resolve({ merges: [] })),
+        summarizeStream: mock(() => {
+          throw new Error("not used");
+        }),
+        answer: mock(() => {
+          throw new Error("not used");
+        }),
+        answerFromSources: mock(() => Promise.reject(new Error("not used"))),
       };
 
       spyGetArticleContent.mockResolvedValue(articleContent);
@@ -114,6 +122,13 @@ describe("summaries.service", () => {
       expect(savedSummary?.oneSentence).toBe(generatedSummary.oneSentence);
       expect(savedSummary?.oneParagraph).toBe(generatedSummary.oneParagraph);
       expect(savedSummary?.long).toBe(generatedSummary.long);
+
+      // Verify summary was added to the search index
+      const [indexed] = await db.all<{ summary: string }>(
+        sql`SELECT summary FROM articles_fts WHERE article_id = ${article.id}`,
+      );
+      expect(indexed?.summary).toContain(generatedSummary.oneSentence);
+      expect(indexed?.summary).toContain(generatedSummary.long);
     });
 
     it("should strip HTML tags from content before summarization", async () => {
@@ -139,6 +154,14 @@ describe("summaries.service", () => {
         extractTags: mock(() =>
           Promise.resolve({ tags: [], language: "en", confidence: 0 }),
         ),
+        consolidateTags: mock(() => Promise.resolve({ merges: [] })),
+        summarizeStream: mock(() => {
+          throw new Error("not used");
+        }),
+        answer: mock(() => {
+          throw new Error("not used");
+        }),
+        answerFromSources: mock(() => Promise.reject(new Error("not used"))),
       };
 
       spyGetArticleContent.mockResolvedValue(articleContent);
@@ -177,6 +200,14 @@ describe("summaries.service", () => {
         extractTags: mock(() =>
           Promise.resolve({ tags: [], language: "en", confidence: 0 }),
         ),
+        consolidateTags: mock(() => Promise.resolve({ merges: [] })),
+        summarizeStream: mock(() => {
+          throw new Error("not used");
+        }),
+        answer: mock(() => {
+          throw new Error("not used");
+        }),
+        answerFromSources: mock(() => Promise.reject(new Error("not used"))),
       };
 
       spyGetArticleContent.mockResolvedValue(articleContent);
@@ -208,6 +239,14 @@ describe("summaries.service", () => {
         extractTags: mock(() =>
           Promise.resolve({ tags: [], language: "en", confidence: 0 }),
         ),
+        consolidateTags: mock(() => Promise.resolve({ merges: [] })),
+        summarizeStream: mock(() => {
+          throw new Error("not used");
+        }),
+        answer: mock(() => {
+          throw new Error("not used");
+        }),
+        answerFromSources: mock(() => Promise.reject(new Error("not used"))),
       };
 
       spyGetArticleContent.mockResolvedValue(articleContent);
@@ -244,6 +283,14 @@ describe("summaries.service", () => {
         extractTags: mock(() =>
           Promise.resolve({ tags: [], language: "en", confidence: 0 }),
         ),
+        consolidateTags: mock(() => Promise.resolve({ merges: [] })),
+        summarizeStream: mock(() => {
+          throw new Error("not used");
+        }),
+        answer: mock(() => {
+          throw new Error("not used");
+        }),
+        answerFromSources: mock(() => Promise.reject(new Error("not used"))),
       };
 
       spyGetArticleContent.mockResolvedValue(articleContent);
@@ -289,6 +336,14 @@ describe("summaries.service", () => {
         extractTags: mock(() =>
           Promise.resolve({ tags: [], language: "en", confidence: 0 }),
         ),
+        consolidateTags: mock(() => Promise.resolve({ merges: [] })),
+        summarizeStream: mock(() => {
+          throw new Error("not used");
+        }),
+        answer: mock(() => {
+          throw new Error("not used");
+        }),
+        answerFromSources: mock(() => Promise.reject(new Error("not used"))),
       };
 
       spyGetArticleContent.mockResolvedValue(articleContent);
@@ -331,6 +386,14 @@ describe("summaries.service", () => {
         extractTags: mock(() =>
           Promise.resolve({ tags: [], language: "en", confidence: 0 }),
         ),
+        consolidateTags: mock(() => Promise.resolve({ merges: [] })),
+        summarizeStream: mock(() => {
+          throw new Error("not used");
+        }),
+        answer: mock(() => {
+          throw new Error("not used");
+        }),
+        answerFromSources: mock(() => Promise.reject(new Error("not used"))),
       };
 
       spyGetArticleContent.mockResolvedValue(articleContent);
@@ -386,6 +449,14 @@ describe("summaries.service", () => {
         extractTags: mock(() =>
           Promise.resolve({ tags: [], language: "en", confidence: 0 }),
         ),
+        consolidateTags: mock(() => Promise.resolve({ merges: [] })),
+        summarizeStream: mock(() => {
+          throw new Error("not used");
+        }),
+        answer: mock(() => {
+          throw new Error("not used");
+        }),
+        answerFromSources: mock(() => Promise.reject(new Error("not used"))),
       };
 
       spyGetArticleContent.mockResolvedValue(articleContent);
@@ -418,6 +489,14 @@ describe("summaries.service", () => {
         extractTags: mock(() =>
           Promise.resolve({ tags: [], language: "en", confidence: 0 }),
         ),
+        consolidateTags: mock(() => Promise.resolve({ merges: [] })),
+        summarizeStream: mock(() => {
+          throw new Error("not used");
+        }),
+        answer: mock(() => {
+          throw new Error("not used");
+        }),
+        answerFromSources: mock(() => Promise.reject(new Error("not used"))),
       };
 
       spyGetArticleContent.mockResolvedValue(articleContent);
@@ -431,4 +510,96 @@ describe("summaries.service", () => {
       expect(calledWith).toBe(" Content with &amp; &lt; &gt; entities ");
     });
   });
+
+  describe("streamSummary", () => {
+    let spyGetArticleContent: ReturnType<
+      typeof spyOn<typeof contentService, "getArticleContent">
+    >;
+    let spyGetLLMProvider: ReturnType<
+      typeof spyOn<typeof llm, "getLLMProvider">
+    >;
+
+    beforeEach(() => {
+      spyGetArticleContent = spyOn(contentService, "getArticleContent");
+      spyGetLLMProvider = spyOn(llm, "getLLMProvider");
+    });
+
+    afterEach(() => {
+      spyGetArticleContent.mockRestore();
+      spyGetLLMProvider.mockRestore();
+    });
+
+    async function collect(stream: AsyncIterable<SummaryResult>) {
+      const snapshots: SummaryResult[] = [];
+      for await (const snapshot of stream) {
+        snapshots.push(snapshot);
+      }
+      return snapshots;
+    }
+
+    it("should yield a cached summary at once", async () => {
+      const user = await createUser(db);
+      const article = await createCompletedArticle(db, user.id);
+      const cachedSummary = {
+        oneSentence: "Cached.",
+        oneParagraph: "Cached paragraph.",
+        long: "Cached long.",
+      };
+      await db
+        .insert(articleSummaries)
+        .values({ articleId: article.id, ...cachedSummary });
+
+      const snapshots = await collect(
+        streamSummary(user.id, article.id, article.url),
+      );
+
+      expect(snapshots).toEqual([cachedSummary]);
+      expect(spyGetLLMProvider).not.toHaveBeenCalled();
+    });
+
+    it("should stream snapshots and cache the final summary", async () => {
+      const user = await createUser(db);
+      const article = await createCompletedArticle(db, user.id);
+      const provider = new llm.FakeLLMProvider();
+      spyGetArticleContent.mockResolvedValue(
+        "<p>Rust is safe.</p><p>Ownership rules apply.</p>",
+      );
+      spyGetLLMProvider.mockReturnValue(provider);
+
+      const snapshots = await collect(
+        streamSummary(user.id, article.id, article.url, "en"),
+      );
+
+      expect(snapshots.length).toBeGreaterThan(1);
+      expect(snapshots[0]?.oneSentence).toBe("Rust ");
+      const summary = snapshots.at(-1);
+      expect(summary?.oneSentence).toBe("Rust is safe.");
+
+      const [savedSummary] = await db
+        .select()
+        .from(articleSummaries)
+        .where(eq(articleSummaries.articleId, article.id));
+      expect(savedSummary).toMatchObject(summary ?? {});
+
+      const [indexed] = await db.all<{ summary: string }>(
+        sql`SELECT summary FROM articles_fts WHERE article_id = ${article.id}`,
+      );
+      expect(indexed?.summary).toContain("Rust is safe.");
+    });
+
+    it("should not cache anything when generation fails", async () => {
+      const user = await createUser(db);
+      const article = await createCompletedArticle(db, user.id);
+      const provider = new llm.FakeLLMProvider();
+      spyGetArticleContent.mockResolvedValue("<p> </p>");
+      spyGetLLMProvider.mockReturnValue(provider);
+
+      await expect(
+        collect(streamSummary(user.id, article.id, article.url)),
+      ).rejects.toThrow("Failed to generate summary");
+
+      const rows = await db.select().from(articleSummaries);
+      expect(rows).toEqual([]);
+    });
+  });
 });
@@ -4,6 +4,65 @@ import { db } from "../lib/db";
 import type { SummaryResult } from "../lib/llm";
 import { getLLMProvider } from "../lib/llm";
 import { getArticleContent } from "./content.service";
+import { indexArticleSummary } from "./search-index.service";
+
+async function getCachedSummary(
+  articleId: string,
+): Promise<SummaryResult | null> {
+  const [existingSummary] = await db
+    .select()
+    .from(articleSummaries)
+    .where(eq(articleSummaries.articleId, articleId))
+    .limit(1);
+
+  if (!existingSummary) {
+    return null;
+  }
+
+  return {
+    oneSentence: existingSummary.oneSentence,
+    oneParagraph: existingSummary.oneParagraph,
+    long: existingSummary.long,
+  };
+}
+
+/**
+ * Plain text of the article for summarization
+ */
+async function getSummaryInput(
+  userId: string,
+  articleId: string,
+  articleUrl: string,
+): Promise<string> {
+  const content = await getArticleContent(userId, articleId, articleUrl);
+
+  // Extract plain text from HTML for better summarization
+  return content.replace(/<[^>]*>/g, " ").replace(/\s+/g, " ");
+}
+
+/**
+ * Cache a generated summary and add it to the search index
+ * A summary generated concurrently for the same article wins
+ */
+async function saveSummary(
+  articleId: string,
+  summary: SummaryResult,
+): Promise<void> {
+  const inserted = await db
+    .insert(articleSummaries)
+    .values({
+      articleId,
+      oneSentence: summary.oneSentence,
+      oneParagraph: summary.oneParagraph,
+      long: summary.long,
+    })
+    .onConflictDoNothing({ target: articleSummaries.articleId })
+    .returning({ id: articleSummaries.id });
+
+  if (inserted.length > 0) {
+    await indexArticleSummary(articleId, summary);
+  }
+}
 
 /**
  * Get or generate summary for an article
@@ -15,37 +74,53 @@ export async function getOrGenerateSummary(
   articleUrl: string,
   languageCode?: string | null,
 ): Promise<SummaryResult> {
-  // Check if summary already exists
-  const [existingSummary] = await db
-    .select()
-    .from(articleSummaries)
-    .where(eq(articleSummaries.articleId, articleId))
-    .limit(1);
+  const cachedSummary = await getCachedSummary(articleId);
 
-  if (existingSummary) {
-    return {
-      oneSentence: existingSummary.oneSentence,
-      oneParagraph: existingSummary.oneParagraph,
-      long: existingSummary.long,
-    };
+  if (cachedSummary) {
+    return cachedSummary;
   }
 
-  // Generate new summary
-  const content = await getArticleContent(userId, articleId, articleUrl);
-
-  // Extract plain text from HTML for better summarization
-  const textContent = content.replace(/<[^>]*>/g, " ").replace(/\s+/g, " ");
+  const textContent = await getSummaryInput(userId, articleId, articleUrl);
 
   const llmProvider = getLLMProvider();
   const summary = await llmProvider.summarize(textContent, languageCode);
 
-  // Cache the summary
-  await db.insert(articleSummaries).values({
-    articleId,
-    oneSentence: summary.oneSentence,
-    oneParagraph: summary.oneParagraph,
-    long: summary.long,
-  });
+  await saveSummary(articleId, summary);
 
   return summary;
 }
+
+/**
+ * Stream the summary for an article while it is generated
+ * Yields growing snapshots, a cached summary is yielded at once.
+ * The final summary is cached like getOrGenerateSummary does.
+ */
+export async function* streamSummary(
+  userId: string,
+  articleId: string,
+  articleUrl: string,
+  languageCode?: string | null,
+): AsyncGenerator<SummaryResult> {
+  const cachedSummary = await getCachedSummary(articleId);
+
+  if (cachedSummary) {
+    yield cachedSummary;
+    return;
+  }
+
+  const textContent = await getSummaryInput(userId, articleId, articleUrl);
+
+  let summary: SummaryResult | null = null;
+
+  for await (const snapshot of getLLMProvider().summarizeStream(
+    textContent,
+    languageCode,
+  )) {
+    summary = snapshot;
+    yield snapshot;
+  }
+
+  if (summary) {
+    await saveSummary(articleId, summary);
+  }
+}
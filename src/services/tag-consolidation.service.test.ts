@@ -0,0 +1,239 @@
+import {
+  afterAll,
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  mock,
+  spyOn,
+} from "bun:test";
+import { db, resetDatabase } from "../../test/bootstrap";
+import {
+  addTagToArticle,
+  createCompletedArticle,
+  createTag,
+  createUser,
+} from "../../test/fixtures";
+import { tagSuggestions } from "../db/schema";
+import type { TagMergeProposal } from "../lib/llm";
+import * as llm from "../lib/llm";
+import { updateTaggingPreferences } from "./preferences.service";
+import {
+  approveTagSuggestion,
+  consolidateUserTags,
+  dismissTagSuggestion,
+  getPendingTagSuggestions,
+  runTagConsolidation,
+} from "./tag-consolidation.service";
+import { getUserTags } from "./tags.service";
+
+const spyGetLLMProvider = spyOn(llm, "getLLMProvider");
+
+function mockMerges(merges: TagMergeProposal[]) {
+  const consolidateTags = mock(() => Promise.resolve({ merges }));
+
+  spyGetLLMProvider.mockReturnValue({
+    extractTags: mock(() =>
+      Promise.resolve({ tags: [], language: "en", confidence: 0 }),
+    ),
+    summarize: mock(() => Promise.reject(new Error("not used"))),
+    summarizeStream: mock(() => {
+      throw new Error("not used");
+    }),
+    answer: mock(() => {
+      throw new Error("not used");
+    }),
+    answerFromSources: mock(() => Promise.reject(new Error("not used"))),
+    consolidateTags,
+  });
+
+  return consolidateTags;
+}
+
+async function createTags(
+  userId: string,
+  names: string[],
+  autoGenerated = true,
+) {
+  return Promise.all(
+    names.map((name) => createTag(db, userId, name, { autoGenerated })),
+  );
+}
+
+describe("tag-consolidation.service", () => {
+  beforeEach(() => {
+    resetDatabase();
+  });
+
+  afterEach(() => {
+    mock.clearAllMocks();
+  });
+
+  afterAll(() => {
+    mock.restore();
+  });
+
+  describe("consolidateUserTags", () => {
+    it("should send tags with usage counts to the LLM", async () => {
+      const user = await createUser(db);
+      const [javascript] = await createTags(user.id, [
+        "javascript",
+        "js",
+        "rust",
+        "go",
+        "python",
+      ]);
+      const article = await createCompletedArticle(db, user.id);
+      await addTagToArticle(db, article.id, javascript?.id ?? "");
+      const consolidateTags = mockMerges([]);
+
+      await consolidateUserTags(user.id);
+
+      const [tags] = consolidateTags.mock.calls[0] as unknown as [
+        llm.TagUsage[],
+      ];
+      expect(tags).toHaveLength(5);
+      expect(tags[0]).toEqual({ name: "javascript", count: 1 });
+    });
+
+    it("should skip users with few tags", async () => {
+      const user = await createUser(db);
+      await createTags(user.id, ["js", "javascript"]);
+      const consolidateTags = mockMerges([]);
+
+      const stats = await consolidateUserTags(user.id);
+
+      expect(stats).toEqual({ applied: 0, queued: 0 });
+      expect(consolidateTags).not.toHaveBeenCalled();
+    });
+
+    it("should queue suggestions for approval by default", async () => {
+      const user = await createUser(db);
+      await createTags(user.id, ["javascript", "js", "rust", "go", "python"]);
+      mockMerges([{ source: "js", target: "javascript", reason: "synonym" }]);
+
+      const stats = await consolidateUserTags(user.id);
+
+      expect(stats).toEqual({ applied: 0, queued: 1 });
+      const suggestions = await getPendingTagSuggestions(user.id);
+      expect(suggestions).toHaveLength(1);
+      expect(suggestions[0]).toMatchObject({
+        sourceName: "js",
+        targetName: "javascript",
+        reason: "synonym",
+      });
+      expect(await getUserTags(user.id)).toHaveLength(5);
+    });
+
+    it("should apply merges of auto-generated tags when enabled", async () => {
+      const user = await createUser(db);
+      await createTags(user.id, ["javascript", "js", "rust", "go"]);
+      await createTags(user.id, ["golang"], false);
+      await updateTaggingPreferences(user.id, { autoApplyConsolidation: true });
+      mockMerges([
+        { source: "js", target: "javascript" },
+        { source: "golang", target: "go" },
+      ]);
+
+      const stats = await consolidateUserTags(user.id);
+
+      // Manual tags still need approval
+      expect(stats).toEqual({ applied: 1, queued: 1 });
+      const names = (await getUserTags(user.id)).map((t) => t.name).sort();
+      expect(names).toEqual(["go", "golang", "javascript", "rust"]);
+      const suggestions = await getPendingTagSuggestions(user.id);
+      expect(suggestions.map((s) => s.sourceName)).toEqual(["golang"]);
+    });
+
+    it("should ignore unknown tags, self-merges, chains and repeated pairs", async () => {
+      const user = await createUser(db);
+      await createTags(user.id, ["javascript", "js", "ecmascript", "rust"]);
+      await createTags(user.id, ["go"]);
+      mockMerges([
+        { source: "js", target: "javascript" },
+        { source: "js", target: "ecmascript" },
+        { source: "javascript", target: "ecmascript" },
+        { source: "rust", target: "rust" },
+        { source: "golang", target: "go" },
+      ]);
+
+      await consolidateUserTags(user.id);
+      const stats = await consolidateUserTags(user.id);
+
+      expect(stats).toEqual({ applied: 0, queued: 0 });
+      const suggestions = await getPendingTagSuggestions(user.id);
+      expect(suggestions.map((s) => [s.sourceName, s.targetName])).toEqual([
+        ["js", "javascript"],
+      ]);
+    });
+  });
+
+  describe("runTagConsolidation", () => {
+    it("should consolidate every user with enough tags", async () => {
+      const user = await createUser(db);
+      const smallUser = await createUser(db);
+      await createTags(user.id, ["javascript", "js", "rust", "go", "python"]);
+      await createTags(smallUser.id, ["js"]);
+      const consolidateTags = mockMerges([
+        { source: "js", target: "javascript" },
+      ]);
+
+      await runTagConsolidation();
+
+      expect(consolidateTags).toHaveBeenCalledTimes(1);
+      expect(await getPendingTagSuggestions(user.id)).toHaveLength(1);
+    });
+  });
+
+  describe("approveTagSuggestion", () => {
+    it("should merge the tags and remove the suggestion", async () => {
+      const user = await createUser(db);
+      await createTags(user.id, ["javascript", "js", "rust", "go", "python"]);
+      mockMerges([{ source: "js", target: "javascript" }]);
+      await consolidateUserTags(user.id);
+      const [suggestion] = await getPendingTagSuggestions(user.id);
+
+      await approveTagSuggestion(suggestion?.id ?? "", user.id);
+
+      expect(await getPendingTagSuggestions(user.id)).toEqual([]);
+      const names = (await getUserTags(user.id)).map((t) => t.name);
+      expect(names).not.toContain("js");
+    });
+
+    it("should throw NotFoundError for another user's suggestion", async () => {
+      const user = await createUser(db);
+      const other = await createUser(db);
+      await createTags(other.id, ["javascript", "js", "rust", "go", "python"]);
+      mockMerges([{ source: "js", target: "javascript" }]);
+      await consolidateUserTags(other.id);
+      const [suggestion] = await getPendingTagSuggestions(other.id);
+
+      await expect(
+        approveTagSuggestion(suggestion?.id ?? "", user.id),
+      ).rejects.toThrow("Tag suggestion not found");
+    });
+  });
+
+  describe("dismissTagSuggestion", () => {
+    it("should hide the suggestion and keep the tags", async () => {
+      const user = await createUser(db);
+      await createTags(user.id, ["javascript", "js", "rust", "go", "python"]);
+      mockMerges([{ source: "js", target: "javascript" }]);
+      await consolidateUserTags(user.id);
+      const [suggestion] = await getPendingTagSuggestions(user.id);
+
+      await dismissTagSuggestion(suggestion?.id ?? "", user.id);
+
+      expect(await getPendingTagSuggestions(user.id)).toEqual([]);
+      expect(await getUserTags(user.id)).toHaveLength(5);
+      const rows = await db.select().from(tagSuggestions);
+      expect(rows[0]?.status).toBe("dismissed");
+
+      // Cannot be acted on twice
+      await expect(
+        approveTagSuggestion(suggestion?.id ?? "", user.id),
+      ).rejects.toThrow("Tag suggestion not found");
+    });
+  });
+});
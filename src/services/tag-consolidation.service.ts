@@ -0,0 +1,223 @@
+import { and, count, eq, gte } from "drizzle-orm";
+import { alias } from "drizzle-orm/sqlite-core";
+import { tagSuggestions, tags } from "../db/schema";
+import type { TagSuggestion } from "../db/types";
+import { db } from "../lib/db";
+import { NotFoundError } from "../lib/errors";
+import { getLLMProvider, isLLMAvailable } from "../lib/llm";
+import { defaultLogger } from "../lib/logger";
+import { getTaggingPreferences } from "./preferences.service";
+import { getUserTagsWithCounts, mergeTags } from "./tags.service";
+
+const logger = defaultLogger.child({ module: "tag-consolidation" });
+
+// Small vocabularies have nothing worth consolidating
+const MIN_TAGS_FOR_CONSOLIDATION = 5;
+// Most used tags sent to the LLM, keeps the prompt bounded
+const MAX_TAGS_FOR_CONSOLIDATION = 500;
+
+export type TagSuggestionWithNames = TagSuggestion & {
+  sourceName: string;
+  targetName: string;
+};
+
+export interface TagConsolidationStats {
+  applied: number;
+  queued: number;
+}
+
+/**
+ * Get a user's pending merge suggestions with tag names
+ */
+export async function getPendingTagSuggestions(
+  userId: string,
+): Promise<TagSuggestionWithNames[]> {
+  const sourceTags = alias(tags, "source_tags");
+  const targetTags = alias(tags, "target_tags");
+
+  const rows = await db
+    .select({
+      suggestion: tagSuggestions,
+      sourceName: sourceTags.name,
+      targetName: targetTags.name,
+    })
+    .from(tagSuggestions)
+    .innerJoin(sourceTags, eq(sourceTags.id, tagSuggestions.sourceTagId))
+    .innerJoin(targetTags, eq(targetTags.id, tagSuggestions.targetTagId))
+    .where(
+      and(
+        eq(tagSuggestions.userId, userId),
+        eq(tagSuggestions.status, "pending"),
+      ),
+    )
+    .orderBy(sourceTags.name);
+
+  return rows.map((row) => ({
+    ...row.suggestion,
+    sourceName: row.sourceName,
+    targetName: row.targetName,
+  }));
+}
+
+/**
+ * Ask the LLM for tag merges and apply or queue them
+ * Manual tags are never merged away without approval, even with auto-apply on.
+ * Pairs that were already suggested (pending or dismissed) are skipped.
+ */
+export async function consolidateUserTags(
+  userId: string,
+): Promise<TagConsolidationStats> {
+  const stats: TagConsolidationStats = { applied: 0, queued: 0 };
+
+  const userTags = (await getUserTagsWithCounts(userId)).slice(
+    0,
+    MAX_TAGS_FOR_CONSOLIDATION,
+  );
+
+  if (userTags.length < MIN_TAGS_FOR_CONSOLIDATION) {
+    return stats;
+  }
+
+  const { merges } = await getLLMProvider().consolidateTags(
+    userTags.map((tag) => ({ name: tag.name, count: tag.articleCount })),
+  );
+
+  const { autoApplyConsolidation } = await getTaggingPreferences(userId);
+  const tagsByName = new Map(userTags.map((tag) => [tag.name, tag]));
+
+  const previousSuggestions = await db
+    .select({
+      sourceTagId: tagSuggestions.sourceTagId,
+      targetTagId: tagSuggestions.targetTagId,
+      status: tagSuggestions.status,
+    })
+    .from(tagSuggestions)
+    .where(eq(tagSuggestions.userId, userId));
+  const seenPairs = new Set(
+    previousSuggestions.map((s) => `${s.sourceTagId}:${s.targetTagId}`),
+  );
+
+  // Tags in pending suggestions are already spoken for
+  const pending = previousSuggestions.filter((s) => s.status === "pending");
+  const sources = new Set(pending.map((s) => s.sourceTagId));
+  const targets = new Set(pending.map((s) => s.targetTagId));
+
+  for (const merge of merges) {
+    const source = tagsByName.get(merge.source);
+    const target = tagsByName.get(merge.target);
+
+    // Ignore unknown names, self-merges and chains (a -> b -> c)
+    if (
+      !source ||
+      !target ||
+      source.id === target.id ||
+      sources.has(source.id) ||
+      sources.has(target.id) ||
+      targets.has(source.id) ||
+      seenPairs.has(`${source.id}:${target.id}`)
+    ) {
+      continue;
+    }
+
+    sources.add(source.id);
+    targets.add(target.id);
+
+    if (autoApplyConsolidation && source.autoGenerated) {
+      await mergeTags(source.id, target.id, userId);
+      stats.applied++;
+      continue;
+    }
+
+    await db.insert(tagSuggestions).values({
+      userId,
+      sourceTagId: source.id,
+      targetTagId: target.id,
+      reason: merge.reason ?? null,
+    });
+    stats.queued++;
+  }
+
+  return stats;
+}
+
+/**
+ * Run tag consolidation for every user with enough tags
+ * Failures are logged per user and don't stop the run
+ */
+export async function runTagConsolidation(): Promise<void> {
+  if (!isLLMAvailable()) {
+    logger.info("LLM not configured, skipping tag consolidation");
+    return;
+  }
+
+  const users = await db
+    .select({ userId: tags.userId })
+    .from(tags)
+    .groupBy(tags.userId)
+    .having(gte(count(tags.id), MIN_TAGS_FOR_CONSOLIDATION));
+
+  for (const { userId } of users) {
+    try {
+      const stats = await consolidateUserTags(userId);
+      logger.info("Consolidated tags", { userId, ...stats });
+    } catch (error) {
+      logger.error("Tag consolidation failed", { userId, error });
+    }
+  }
+}
+
+/**
+ * Get a user's pending suggestion
+ * Throws NotFoundError if it doesn't exist, was dismissed, or belongs to another user
+ */
+async function getPendingSuggestion(
+  suggestionId: string,
+  userId: string,
+): Promise<TagSuggestion> {
+  const [suggestion] = await db
+    .select()
+    .from(tagSuggestions)
+    .where(
+      and(
+        eq(tagSuggestions.id, suggestionId),
+        eq(tagSuggestions.userId, userId),
+        eq(tagSuggestions.status, "pending"),
+      ),
+    )
+    .limit(1);
+
+  if (!suggestion) {
+    throw new NotFoundError("Tag suggestion", suggestionId);
+  }
+
+  return suggestion;
+}
+
+/**
+ * Approve a suggestion by merging its tags
+ * The suggestion is removed together with the source tag
+ */
+export async function approveTagSuggestion(
+  suggestionId: string,
+  userId: string,
+): Promise<void> {
+  const suggestion = await getPendingSuggestion(suggestionId, userId);
+
+  await mergeTags(suggestion.sourceTagId, suggestion.targetTagId, userId);
+}
+
+/**
+ * Dismiss a suggestion
+ * Dismissed suggestions are kept so the same merge isn't proposed again
+ */
+export async function dismissTagSuggestion(
+  suggestionId: string,
+  userId: string,
+): Promise<void> {
+  await getPendingSuggestion(suggestionId, userId);
+
+  await db
+    .update(tagSuggestions)
+    .set({ status: "dismissed" })
+    .where(eq(tagSuggestions.id, suggestionId));
+}
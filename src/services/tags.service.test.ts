@@ -1,7 +1,28 @@
-import { beforeEach, describe, expect, it } from "bun:test";
+import { beforeEach, describe, expect, it, spyOn } from "bun:test";
 import { db, resetDatabase } from "../../test/bootstrap";
-import { createTag, createUser } from "../../test/fixtures";
-import { deleteTag, getOrCreateTag, getUserTags } from "./tags.service";
+import {
+  addTagToArticle,
+  createArticle,
+  createCompletedArticle,
+  createTag,
+  createUser,
+} from "../../test/fixtures";
+import {
+  getArticleWithTagsById,
+  updateArticleCompleted,
+} from "./articles.service";
+import {
+  addArticleTag,
+  deleteTag,
+  getOrCreateExtractedTags,
+  getOrCreateTag,
+  getTagByName,
+  getUserTags,
+  getUserTagsWithCounts,
+  mergeTags,
+  removeArticleTag,
+  renameTag,
+} from "./tags.service";
 
 describe("tags.service", () => {
   beforeEach(async () => {
@@ -218,6 +239,55 @@ describe("tags.service", () => {
     });
   });
 
+  describe("getOrCreateExtractedTags", () => {
+    it("should reuse existing tags and cap new ones in order", async () => {
+      const user = await createUser(db);
+      const rust = await createTag(db, user.id, "rust");
+
+      const tags = await getOrCreateExtractedTags(
+        user.id,
+        ["async", "Rust", "tokio", "futures"],
+        2,
+      );
+
+      expect(tags.map((t) => t.name)).toEqual(["async", "rust", "tokio"]);
+      expect(tags[1]?.id).toBe(rust.id);
+      expect(await getUserTags(user.id)).toHaveLength(3);
+    });
+
+    it("should only reuse existing tags when the cap is zero", async () => {
+      const user = await createUser(db);
+      await createTag(db, user.id, "rust");
+
+      const tags = await getOrCreateExtractedTags(
+        user.id,
+        ["rust", "rust", " ", "tokio"],
+        0,
+      );
+
+      expect(tags.map((t) => t.name)).toEqual(["rust"]);
+      expect(await getUserTags(user.id)).toHaveLength(1);
+    });
+    it("should skip tags that fail to be created", async () => {
+      const user = await createUser(db);
+      const spyInsert = spyOn(db, "insert").mockImplementationOnce(() => {
+        throw new Error("database is locked");
+      });
+
+      try {
+        const tags = await getOrCreateExtractedTags(
+          user.id,
+          ["async", "tokio"],
+          2,
+        );
+
+        expect(tags.map((t) => t.name)).toEqual(["tokio"]);
+      } finally {
+        spyInsert.mockRestore();
+      }
+    });
+  });
+
   describe("deleteTag", () => {
     it("should delete a tag", async () => {
       const user = await createUser(db);
@@ -274,4 +344,231 @@ describe("tags.service", () => {
       expect(tagNames).toEqual(["tag1", "tag3"]);
     });
   });
+
+  describe("getUserTagsWithCounts", () => {
+    it("should count completed articles per tag, most used first", async () => {
+      const user = await createUser(db);
+      const rust = await createTag(db, user.id, "rust");
+      const go = await createTag(db, user.id, "go");
+      await createTag(db, user.id, "unused");
+
+      for (const tag of [rust, rust, go]) {
+        const article = await createCompletedArticle(db, user.id, {
+          archived: tag === go,
+        });
+        await addTagToArticle(db, article.id, tag.id);
+      }
+      const pending = await createArticle(db, user.id);
+      await addTagToArticle(db, pending.id, go.id);
+
+      const tags = await getUserTagsWithCounts(user.id);
+
+      expect(tags.map((t) => [t.name, t.articleCount])).toEqual([
+        ["rust", 2],
+        ["go", 1],
+        ["unused", 0],
+      ]);
+    });
+
+    it("should only return tags for the specified user", async () => {
+      const user1 = await createUser(db);
+      const user2 = await createUser(db);
+      await createTag(db, user2.id, "theirs");
+
+      expect(await getUserTagsWithCounts(user1.id)).toEqual([]);
+    });
+  });
+
+  describe("getTagByName", () => {
+    it("should find a tag case-insensitively", async () => {
+      const user = await createUser(db);
+      const tag = await createTag(db, user.id, "rust");
+
+      expect((await getTagByName(user.id, "RUST")).id).toBe(tag.id);
+    });
+
+    it("should throw NotFoundError for another user's tag", async () => {
+      const user = await createUser(db);
+      const other = await createUser(db);
+      await createTag(db, other.id, "rust");
+
+      await expect(getTagByName(user.id, "rust")).rejects.toThrow(
+        "Tag not found",
+      );
+    });
+  });
+
+  describe("addArticleTag", () => {
+    it("should add a manual tag to an article", async () => {
+      const user = await createUser(db);
+      const article = await createCompletedArticle(db, user.id);
+
+      const tag = await addArticleTag(article.id, user.id, "  Rust ");
+
+      expect(tag.name).toBe("rust");
+      expect(tag.autoGenerated).toBe(false);
+      const { tags } = await getArticleWithTagsById(article.id, user.id);
+      expect(tags.map((t) => t.id)).toEqual([tag.id]);
+    });
+
+    it("should reuse an existing tag and ignore duplicates", async () => {
+      const user = await createUser(db);
+      const article = await createCompletedArticle(db, user.id);
+      const existing = await createTag(db, user.id, "rust");
+
+      await addArticleTag(article.id, user.id, "rust");
+      await addArticleTag(article.id, user.id, "RUST");
+
+      const { tags } = await getArticleWithTagsById(article.id, user.id);
+      expect(tags.map((t) => t.id)).toEqual([existing.id]);
+    });
+
+    it("should keep a tag added by hand when the article is reprocessed", async () => {
+      const user = await createUser(db);
+      const article = await createCompletedArticle(db, user.id);
+      const extracted = await createTag(db, user.id, "rust");
+      await addTagToArticle(db, article.id, extracted.id, {
+        autoGenerated: true,
+      });
+
+      // The extracted tag is now added by hand too
+      await addArticleTag(article.id, user.id, "rust");
+      await updateArticleCompleted({
+        id: article.id,
+        tags: [],
+        metadata: {
+          title: "Reprocessed",
+          description: null,
+          imageUrl: null,
+          siteName: null,
+        },
+        language: "en",
+        wordCount: 100,
+        readingTimeSeconds: 60,
+      });
+
+      const { tags } = await getArticleWithTagsById(article.id, user.id);
+      expect(tags.map((t) => t.id)).toEqual([extracted.id]);
+    });
+
+    it("should throw NotFoundError for another user's article", async () => {
+      const user = await createUser(db);
+      const other = await createUser(db);
+      const article = await createCompletedArticle(db, other.id);
+
+      await expect(addArticleTag(article.id, user.id, "rust")).rejects.toThrow(
+        "Article not found",
+      );
+      expect(await getUserTags(user.id)).toEqual([]);
+    });
+  });
+
+  describe("removeArticleTag", () => {
+    it("should remove the tag from the article but keep the tag", async () => {
+      const user = await createUser(db);
+      const article = await createCompletedArticle(db, user.id);
+      const tag = await createTag(db, user.id, "rust");
+      await addTagToArticle(db, article.id, tag.id);
+
+      await removeArticleTag(article.id, user.id, tag.id);
+
+      const { tags } = await getArticleWithTagsById(article.id, user.id);
+      expect(tags).toEqual([]);
+      expect(await getUserTags(user.id)).toHaveLength(1);
+    });
+
+    it("should throw NotFoundError for another user's tag", async () => {
+      const user = await createUser(db);
+      const other = await createUser(db);
+      const article = await createCompletedArticle(db, user.id);
+      const tag = await createTag(db, other.id, "rust");
+
+      await expect(
+        removeArticleTag(article.id, user.id, tag.id),
+      ).rejects.toThrow("Tag not found");
+    });
+  });
+
+  describe("renameTag", () => {
+    it("should rename the tag and mark it as manual", async () => {
+      const user = await createUser(db);
+      const tag = await createTag(db, user.id, "js", { autoGenerated: true });
+
+      const renamed = await renameTag(tag.id, user.id, "JavaScript");
+
+      expect(renamed.name).toBe("javascript");
+      expect(renamed.autoGenerated).toBe(false);
+    });
+
+    it("should allow changing only the case", async () => {
+      const user = await createUser(db);
+      const tag = await createTag(db, user.id, "rust");
+
+      const renamed = await renameTag(tag.id, user.id, "Rust");
+
+      expect(renamed.name).toBe("rust");
+    });
+
+    it("should reject a name used by another tag", async () => {
+      const user = await createUser(db);
+      const tag = await createTag(db, user.id, "js");
+      await createTag(db, user.id, "javascript");
+
+      await expect(renameTag(tag.id, user.id, "javascript")).rejects.toThrow(
+        'Tag "javascript" already exists',
+      );
+    });
+
+    it("should throw NotFoundError for another user's tag", async () => {
+      const user = await createUser(db);
+      const other = await createUser(db);
+      const tag = await createTag(db, other.id, "js");
+
+      await expect(renameTag(tag.id, user.id, "javascript")).rejects.toThrow(
+        "Tag not found",
+      );
+    });
+  });
+
+  describe("mergeTags", () => {
+    it("should move articles to the target and delete the source", async () => {
+      const user = await createUser(db);
+      const source = await createTag(db, user.id, "js");
+      const target = await createTag(db, user.id, "javascript");
+      const onlySource = await createCompletedArticle(db, user.id);
+      const both = await createCompletedArticle(db, user.id);
+      await addTagToArticle(db, onlySource.id, source.id);
+      await addTagToArticle(db, both.id, source.id);
+      await addTagToArticle(db, both.id, target.id);
+
+      await mergeTags(source.id, target.id, user.id);
+
+      const tags = await getUserTagsWithCounts(user.id);
+      expect(tags).toHaveLength(1);
+      expect(tags[0]).toMatchObject({ id: target.id, articleCount: 2 });
+      const article = await getArticleWithTagsById(both.id, user.id);
+      expect(article.tags.map((t) => t.id)).toEqual([target.id]);
+    });
+
+    it("should reject merging a tag into itself", async () => {
+      const user = await createUser(db);
+      const tag = await createTag(db, user.id, "js");
+
+      await expect(mergeTags(tag.id, tag.id, user.id)).rejects.toThrow(
+        "Cannot merge a tag into itself",
+      );
+    });
+
+    it("should throw NotFoundError when the target belongs to another user", async () => {
+      const user = await createUser(db);
+      const other = await createUser(db);
+      const source = await createTag(db, user.id, "js");
+      const target = await createTag(db, other.id, "javascript");
+
+      await expect(mergeTags(source.id, target.id, user.id)).rejects.toThrow(
+        "Tag not found",
+      );
+      expect(await getUserTags(user.id)).toHaveLength(1);
+    });
+  });
 });
@@ -1,8 +1,24 @@
-import { and, eq } from "drizzle-orm";
-import { tags } from "../db/schema";
+import {
+  and,
+  asc,
+  desc,
+  eq,
+  getTableColumns,
+  inArray,
+  ne,
+  sql,
+} from "drizzle-orm";
+import { articles, articleTags, tags } from "../db/schema";
 import type { Tag } from "../db/types";
 import { db } from "../lib/db";
-import { InternalError } from "../lib/errors";
+import { InternalError, NotFoundError, ValidationError } from "../lib/errors";
+import { defaultLogger } from "../lib/logger";
+
+const logger = defaultLogger.child({ module: "tags" });
+
+export type TagWithCount = Tag & {
+  articleCount: number;
+};
 
 /**
  * Get all tags for a user
@@ -11,6 +27,54 @@ export async function getUserTags(userId: string): Promise<Tag[]> {
   return db.select().from(tags).where(eq(tags.userId, userId));
 }
 
+/**
+ * Get all tags for a user with the number of completed articles for each
+ * Most used tags first
+ */
+export async function getUserTagsWithCounts(
+  userId: string,
+): Promise<TagWithCount[]> {
+  const articleCount = sql<number>`count(${articles.id})`;
+
+  return db
+    .select({
+      ...getTableColumns(tags),
+      articleCount,
+    })
+    .from(tags)
+    .leftJoin(articleTags, eq(articleTags.tagId, tags.id))
+    .leftJoin(
+      articles,
+      and(
+        eq(articles.id, articleTags.articleId),
+        eq(articles.status, "completed"),
+      ),
+    )
+    .where(eq(tags.userId, userId))
+    .groupBy(tags.id)
+    .orderBy(desc(articleCount), asc(tags.name));
+}
+
+/**
+ * Get a user's tag by name (case-insensitive)
+ * Throws NotFoundError if the tag doesn't exist
+ */
+export async function getTagByName(userId: string, name: string): Promise<Tag> {
+  const normalizedName = name.toLowerCase();
+
+  const [tag] = await db
+    .select()
+    .from(tags)
+    .where(and(eq(tags.userId, userId), eq(tags.name, normalizedName)))
+    .limit(1);
+
+  if (!tag) {
+    throw new NotFoundError("Tag", normalizedName);
+  }
+
+  return tag;
+}
+
 /**
  * Get or create a tag by name (case-insensitive)
  * Returns the tag ID
@@ -53,6 +117,57 @@ export async function getOrCreateTag(
   return newTag;
 }
 
+/**
+ * Resolve LLM-extracted tag names for an article
+ * Existing tags are always reused; at most `maxNewTags` new tags are created,
+ * in the order the names were returned, to keep the vocabulary from exploding
+ * Tags that fail to be created are skipped
+ */
+export async function getOrCreateExtractedTags(
+  userId: string,
+  names: string[],
+  maxNewTags: number,
+): Promise<Tag[]> {
+  const normalizedNames = [
+    ...new Set(names.map((name) => name.trim().toLowerCase()).filter(Boolean)),
+  ];
+
+  if (normalizedNames.length === 0) {
+    return [];
+  }
+
+  const existingTags = await db
+    .select()
+    .from(tags)
+    .where(and(eq(tags.userId, userId), inArray(tags.name, normalizedNames)));
+  const existingByName = new Map(existingTags.map((tag) => [tag.name, tag]));
+
+  const result: Tag[] = [];
+  let created = 0;
+
+  for (const name of normalizedNames) {
+    const existing = existingByName.get(name);
+    if (existing) {
+      result.push(existing);
+      continue;
+    }
+
+    if (created >= maxNewTags) {
+      continue;
+    }
+
+    // A tag that can't be created shouldn't fail the whole article
+    try {
+      result.push(await getOrCreateTag(userId, name));
+      created++;
+    } catch (error) {
+      logger.warn("Failed to create extracted tag", { error, tag: name });
+    }
+  }
+
+  return result;
+}
+
 /**
  * Delete a tag
  * Note: Cascade delete will remove all article-tag associations
@@ -60,3 +175,184 @@ export async function getOrCreateTag(
 export async function deleteTag(tagId: string, userId: string): Promise<void> {
   await db.delete(tags).where(and(eq(tags.id, tagId), eq(tags.userId, userId)));
 }
+
+/**
+ * Get a user's tag by ID
+ * Throws NotFoundError if the tag doesn't exist or belongs to another user
+ */
+async function getUserTagById(tagId: string, userId: string): Promise<Tag> {
+  const [tag] = await db
+    .select()
+    .from(tags)
+    .where(and(eq(tags.id, tagId), eq(tags.userId, userId)))
+    .limit(1);
+
+  if (!tag) {
+    throw new NotFoundError("Tag", tagId);
+  }
+
+  return tag;
+}
+
+/**
+ * Verify an article exists and belongs to the user
+ */
+async function assertArticleOwner(
+  articleId: string,
+  userId: string,
+): Promise<void> {
+  const [article] = await db
+    .select({ id: articles.id })
+    .from(articles)
+    .where(and(eq(articles.id, articleId), eq(articles.userId, userId)))
+    .limit(1);
+
+  if (!article) {
+    throw new NotFoundError("Article", articleId);
+  }
+}
+
+/**
+ * Manually add a tag to an article, creating the tag if needed
+ * New tags are created with autoGenerated=false. The association is marked as
+ * added by hand, so reprocessing keeps it even when the tag was extracted
+ * before; adding a tag twice is a no-op
+ */
+export async function addArticleTag(
+  articleId: string,
+  userId: string,
+  name: string,
+): Promise<Tag> {
+  await assertArticleOwner(articleId, userId);
+
+  const tag = await getOrCreateTag(userId, name.trim(), false);
+
+  const association = and(
+    eq(articleTags.articleId, articleId),
+    eq(articleTags.tagId, tag.id),
+  );
+  const [existing] = await db
+    .select({ tagId: articleTags.tagId })
+    .from(articleTags)
+    .where(association)
+    .limit(1);
+
+  if (existing) {
+    await db
+      .update(articleTags)
+      .set({ autoGenerated: false })
+      .where(association);
+  } else {
+    await db.insert(articleTags).values({ articleId, tagId: tag.id });
+  }
+
+  return tag;
+}
+
+/**
+ * Remove a tag from an article
+ * The tag itself is kept, even if no articles use it anymore
+ */
+export async function removeArticleTag(
+  articleId: string,
+  userId: string,
+  tagId: string,
+): Promise<void> {
+  await assertArticleOwner(articleId, userId);
+  await getUserTagById(tagId, userId);
+
+  await db
+    .delete(articleTags)
+    .where(
+      and(eq(articleTags.articleId, articleId), eq(articleTags.tagId, tagId)),
+    );
+}
+
+/**
+ * Rename a tag
+ * Renamed tags are considered curated and marked as not auto-generated.
+ * Throws ValidationError if another tag already has the name (merge instead)
+ */
+export async function renameTag(
+  tagId: string,
+  userId: string,
+  name: string,
+): Promise<Tag> {
+  await getUserTagById(tagId, userId);
+
+  const normalizedName = name.trim().toLowerCase();
+
+  const [conflict] = await db
+    .select({ id: tags.id })
+    .from(tags)
+    .where(
+      and(
+        eq(tags.userId, userId),
+        eq(tags.name, normalizedName),
+        ne(tags.id, tagId),
+      ),
+    )
+    .limit(1);
+
+  if (conflict) {
+    throw new ValidationError(
+      `Tag "${normalizedName}" already exists, merge the tags instead`,
+      { name: "Tag already exists" },
+    );
+  }
+
+  const [renamed] = await db
+    .update(tags)
+    .set({ name: normalizedName, autoGenerated: false })
+    .where(eq(tags.id, tagId))
+    .returning();
+
+  if (!renamed) {
+    throw new InternalError("Failed to rename tag", { tagId, userId });
+  }
+
+  return renamed;
+}
+
+/**
+ * Merge one tag into another
+ * Articles tagged with the source are reassigned to the target, then the source is deleted
+ */
+export async function mergeTags(
+  sourceTagId: string,
+  targetTagId: string,
+  userId: string,
+): Promise<void> {
+  if (sourceTagId === targetTagId) {
+    throw new ValidationError("Cannot merge a tag into itself", {
+      targetId: "Choose a different tag",
+    });
+  }
+
+  await getUserTagById(sourceTagId, userId);
+  await getUserTagById(targetTagId, userId);
+
+  await db.transaction(async (tx) => {
+    // Articles that already have the target only lose the source
+    const alreadyTagged = tx
+      .select({ articleId: articleTags.articleId })
+      .from(articleTags)
+      .where(eq(articleTags.tagId, targetTagId));
+
+    await tx
+      .delete(articleTags)
+      .where(
+        and(
+          eq(articleTags.tagId, sourceTagId),
+          inArray(articleTags.articleId, alreadyTagged),
+        ),
+      );
+
+    await tx
+      .update(articleTags)
+      .set({ tagId: targetTagId })
+      .where(eq(articleTags.tagId, sourceTagId));
+
+    await tx.delete(tags).where(eq(tags.id, sourceTagId));
+  });
+}
@@ -10,10 +10,17 @@ import { calculateReadingStats } from "../lib/reading-time";
 import { withTimeout } from "../lib/timeout";
 import {
   getArticleById,
+  updateArticleCanonicalUrl,
   updateArticleCompleted,
   updateArticleProcessing,
 } from "../services/articles.service";
-import { getOrCreateTag, getUserTags } from "../services/tags.service";
+import { embedArticle, getEmbeddingText } from "../services/embeddings.service";
+import { getTaggingPreferences } from "../services/preferences.service";
+import { indexArticleContent } from "../services/search-index.service";
+import {
+  getOrCreateExtractedTags,
+  getUserTags,
+} from "../services/tags.service";
 
 bunline.setupThreadWorker<ArticleJobData>(async (job) => {
   const { articleId } = job.data;
@@ -78,6 +85,7 @@ async function processArticle(article: Article, logger: Logger) {
   // Check if content is already cached (for Telegram long messages)
   let htmlContent = await contentCache.get(article.userId, article.id);
   let textContent: string;
+  let pageCount: number | undefined;
   let metadata: {
     title: string | null;
     description: string | null;
@@ -88,6 +96,8 @@ async function processArticle(article: Article, logger: Logger) {
   if (htmlContent) {
     // Extract text from cached HTML for LLM
     textContent = htmlContent.replace(/<[^>]*>/g, " ").replace(/\s+/g, " ");
+    // Set for PDFs sent to the bot
+    pageCount = article.pageCount ?? undefined;
     logger.info("Extracted text from cached content", {
       length: textContent.length,
     });
@@ -121,8 +131,31 @@ async function processArticle(article: Article, logger: Logger) {
       length: extracted.textContent.length,
     });
 
+    // Articles saved without deduplication have no canonical URL to refine
+    if (
+      extracted.canonicalUrl &&
+      article.canonicalUrl &&
+      extracted.canonicalUrl !== article.canonicalUrl
+    ) {
+      try {
+        const updated = await updateArticleCanonicalUrl(
+          article,
+          extracted.canonicalUrl,
+        );
+        logger.info(
+          updated
+            ? "Stored declared canonical URL"
+            : "Declared canonical URL belongs to another article",
+          { canonicalUrl: extracted.canonicalUrl },
+        );
+      } catch (error) {
+        logger.warn("Failed to store canonical URL", { error });
+      }
+    }
+
     htmlContent = extracted.content;
     textContent = extracted.textContent;
+    pageCount = extracted.pageCount;
     metadata = {
       title: extracted.title ?? null,
       description: extracted.description ?? null,
@@ -150,17 +183,22 @@ async function processArticle(article: Article, logger: Logger) {
     language,
   });
 
-  const tagPromises = await Promise.allSettled(
-    extractedTags.map((tag) => getOrCreateTag(article.userId, tag)),
+  // Existing tags are reused freely, new ones are capped per user
+  const { maxNewTagsPerArticle } = await getTaggingPreferences(article.userId);
+  const tags = await getOrCreateExtractedTags(
+    article.userId,
+    extractedTags,
+    maxNewTagsPerArticle,
   );
-  // Ignoring failed promises intentionally
-  const tags = tagPromises
-    .filter((p) => p.status === "fulfilled")
-    .map((p) => p.value);
+  logger.info("Resolved article tags", {
+    tags: tags.map((t) => t.name),
+    maxNewTagsPerArticle,
+  });
 
   // Calculate reading statistics
-  const readingStats = calculateReadingStats(htmlContent);
+  const readingStats = calculateReadingStats(htmlContent, pageCount);
   logger.info("Calculated reading stats", {
+    pageCount,
     wordCount: readingStats.wordCount,
     readingTimeSeconds: readingStats.readingTimeSeconds,
   });
@@ -183,5 +221,16 @@ async function processArticle(article: Article, logger: Logger) {
     readingTimeSeconds: readingStats.readingTimeSeconds,
   });
 
+  // Index plain text for full-text search
+  await indexArticleContent(article.id, textContent);
+
+  // Backfill script catches up on failures, the article is usable without it
+  try {
+    await embedArticle(article.id, getEmbeddingText(metadata, textContent));
+    logger.info("Article embedded");
+  } catch (error) {
+    logger.warn("Failed to embed article", { error });
+  }
+
   logger.info("Article processing completed successfully");
 }
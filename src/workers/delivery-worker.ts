@@ -0,0 +1,20 @@
+import bunline from "bunline";
+import { defaultLogger } from "../lib/logger";
+import type { DeliveryJobData } from "../lib/queue";
+import { deliverArticle } from "../services/delivery.service";
+
+bunline.setupThreadWorker<DeliveryJobData>(async (job) => {
+  const logger = defaultLogger.child({
+    module: "delivery-worker",
+    article: job.data.articleId,
+    jobId: job.id,
+    attempt: job.attempts,
+  });
+
+  logger.info("Worker started delivery");
+
+  // Failures are rethrown by deliverArticle for bunline to retry
+  await deliverArticle(job.data);
+
+  logger.info("Worker finished delivery");
+});
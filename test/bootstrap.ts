@@ -23,10 +23,34 @@ function prepareDatabase() {
   return db;
 }
 
+/**
+ * The real queue spins up bunline workers and talks to the bot,
+ * so tests get a recording stand-in instead
+ */
+const queue = {
+  addArticleJob: mock(
+    (_articleId: string, _telegram?: { chatId: number; messageId: number }) => {
+      // Jobs are recorded, not processed
+    },
+  ),
+  addDeliveryJob: mock((_data: { articleId: string; userId: string }) => {
+    // Deliveries are recorded, not sent
+  }),
+};
+
+mock.module("../src/lib/queue", () => ({
+  addArticleJob: queue.addArticleJob,
+  addDeliveryJob: queue.addDeliveryJob,
+  initQueue: () => {},
+  stopQueue: async () => {},
+}));
+
 let db = prepareDatabase();
 
 export function resetDatabase() {
   db = prepareDatabase();
+  queue.addArticleJob.mockClear();
+  queue.addDeliveryJob.mockClear();
 }
 
-export { db };
+export { db, queue };
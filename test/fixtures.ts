@@ -93,11 +93,15 @@ export async function createCompletedArticle(
       imageUrl,
       status: "completed",
       processedAt: new Date(),
-      createdAt: new Date(),
+      createdAt: overrides?.createdAt ?? new Date(),
       archived: overrides?.archived ?? false,
       archivedAt: overrides?.archived ? new Date() : null,
       language: overrides?.language ?? null,
+      rating: overrides?.rating ?? 0,
       readAt: overrides?.readAt ?? null,
+      canonicalUrl: overrides?.canonicalUrl ?? null,
+      readingTimeSeconds: overrides?.readingTimeSeconds ?? null,
+      snoozedUntil: overrides?.snoozedUntil ?? null,
     })
     .returning();
 
@@ -132,14 +136,19 @@ export async function createTag(
 }
 
 /**
- * Associate a tag with an article
+ * Associate a tag with an article, as added by hand unless autoGenerated
  */
 export async function addTagToArticle(
   db: DB,
   articleId: string,
   tagId: string,
+  overrides?: { autoGenerated?: boolean },
 ): Promise<void> {
-  await db.insert(schema.articleTags).values({ articleId, tagId });
+  await db.insert(schema.articleTags).values({
+    articleId,
+    tagId,
+    autoGenerated: overrides?.autoGenerated ?? false,
+  });
 }
 
 /**
@@ -201,6 +210,31 @@ export async function createTelegramUser(
   return telegramUser;
 }
 
+/**
+ * Create a test feed subscription
+ */
+export async function createFeed(
+  db: DB,
+  userId: string,
+  overrides?: Partial<typeof schema.feeds.$inferInsert>,
+): Promise<typeof schema.feeds.$inferSelect> {
+  const id = overrides?.id ?? randomUUID();
+
+  const [feed] = await db
+    .insert(schema.feeds)
+    .values({
+      title: "Example Blog",
+      url: `https://example.com/${id}/feed.xml`,
+      ...overrides,
+      id,
+      userId,
+    })
+    .returning();
+
+  if (!feed) throw new Error("Failed to create feed");
+  return feed;
+}
+
 export function createNoopLogger(): Logger {
   return {
     debug: () => {},
@@ -222,6 +256,63 @@ export function parseHtml(html: string): Document {
   return window.document as unknown as Document;
 }
 
+// Zip exports are checked with the reader of the app
+export { readZip } from "../src/lib/zip";
+
+export interface PdfLine {
+  text: string;
+  fontSize: number;
+  // Baseline from the bottom of a US Letter page
+  y: number;
+}
+
+/**
+ * Build a PDF with one Helvetica text line per entry, and an Info dictionary
+ * Text is ASCII without parentheses or backslashes
+ */
+export function createPdf(
+  pages: PdfLine[][],
+  info: Record<string, string> = {},
+): Uint8Array<ArrayBuffer> {
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${4 + i * 2} 0 R`).join(" ")}] /Count ${pages.length} >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>",
+  ];
+  pages.forEach((lines, i) => {
+    const stream = lines
+      .map(
+        (line) =>
+          `BT /F1 ${line.fontSize} Tf 72 ${line.y} Td (${line.text}) Tj ET`,
+      )
+      .join("\n");
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 3 0 R >> >> /Contents ${5 + i * 2} 0 R >>`,
+      `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+    );
+  });
+  objects.push(
+    `<< ${Object.entries(info)
+      .map(([key, value]) => `/${key} (${value})`)
+      .join(" ")} >>`,
+  );
+
+  let pdf = "%PDF-1.4\n";
+  const offsets = objects.map((object, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets
+    .map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`)
+    .join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return new TextEncoder().encode(pdf);
+}
+
 /**
  * Create headers with a valid session cookie for authenticated requests
  * Use this in tests to authenticate requests without mocking
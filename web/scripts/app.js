@@ -8,4 +8,5 @@ import "./reader-controls.js";
 import "./reader-position.js";
 import "./toast.js";
 import "./share-copy-button.js";
+import "./stream-view.js";
 import "./utils.js";
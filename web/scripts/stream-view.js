@@ -0,0 +1,95 @@
+/**
+ * Stream View Web Component
+ *
+ * Renders HTML streamed over SSE, e.g. LLM summaries and answers.
+ * Inside a closed <details> the stream starts once it is opened.
+ *
+ * Events sent by the server:
+ *   render: HTML to show while streaming
+ *   delta: {"field", "text"} JSON, text appended to [data-stream-field]
+ *   done: final HTML, ends the stream
+ *   stream-error: error HTML, ends the stream
+ *
+ * Attributes:
+ *   src: URL of the SSE endpoint
+ *
+ * @example
+ * <details>
+ *   <summary>Summary</summary>
+ *   <stream-view src="/api/articles/uuid-here/summary/stream">
+ *     <div class="summary-placeholder">Generating...</div>
+ *   </stream-view>
+ * </details>
+ */
+class StreamView extends HTMLElement {
+  constructor() {
+    super();
+    this.handleToggle = this.onToggle.bind(this);
+  }
+
+  connectedCallback() {
+    this.details = this.closest("details");
+
+    if (!this.details || this.details.open) {
+      this.start();
+    } else {
+      this.details.addEventListener("toggle", this.handleToggle);
+    }
+  }
+
+  disconnectedCallback() {
+    this.details?.removeEventListener("toggle", this.handleToggle);
+    this.stop();
+  }
+
+  onToggle() {
+    if (this.details.open) {
+      this.details.removeEventListener("toggle", this.handleToggle);
+      this.start();
+    }
+  }
+
+  start() {
+    const src = this.getAttribute("src");
+    if (this.source || !src) return;
+
+    this.source = new EventSource(src);
+
+    this.source.addEventListener("render", (event) => {
+      this.innerHTML = event.data;
+    });
+
+    this.source.addEventListener("delta", (event) => {
+      const { field, text } = JSON.parse(event.data);
+      const element = this.querySelector(`[data-stream-field="${field}"]`);
+      if (element) {
+        element.textContent += text;
+      }
+    });
+
+    this.source.addEventListener("done", (event) => this.finish(event.data));
+    this.source.addEventListener("stream-error", (event) =>
+      this.finish(event.data),
+    );
+
+    // Connection lost: don't let EventSource reconnect and start over
+    this.source.addEventListener("error", () => {
+      if (!this.source) return;
+      this.finish('<div class="summary-error">Failed to load response</div>');
+    });
+  }
+
+  finish(html) {
+    this.stop();
+    this.innerHTML = html;
+    // Finished streams must not restart when the element is moved
+    this.removeAttribute("src");
+  }
+
+  stop() {
+    this.source?.close();
+    this.source = null;
+  }
+}
+
+customElements.define("stream-view", StreamView);